@@ -2,13 +2,21 @@ import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { AuthProvider } from './src/contexts/AuthContext';
 import AppNavigator from './src/navigation/AppNavigator';
-import { initDB } from './src/database/db';
+import { initDB, loadBusinessTimeZone, loadWorkCalendar, purgeExpiredTrash } from './src/database/db';
 import { registerNetworkMonitor, unregisterNetworkMonitor } from './src/services/syncOptimizer';
+import { registerBackupScheduler, unregisterBackupScheduler } from './src/services/backupScheduler';
 
 export default function App() {
   useEffect(() => {
-    // ✅ Inicializar banco de dados
-    initDB();
+    // ✅ Inicializar banco de dados e, com ele pronto, o fuso horário, o calendário de dias úteis, a limpeza da lixeira e o backup automático
+    initDB()
+      .then(async () => {
+        await loadBusinessTimeZone().catch((e) => console.error('❌ Erro ao carregar fuso horário:', e));
+        await loadWorkCalendar().catch((e) => console.error('❌ Erro ao carregar calendário de dias úteis:', e));
+        purgeExpiredTrash().catch((e) => console.error('❌ Erro na limpeza da lixeira:', e));
+        return registerBackupScheduler();
+      })
+      .catch((e) => console.error('❌ Backup automático não registrado:', e));
     
     // ✅ Registrar monitor de rede para sincronização otimizada
     registerNetworkMonitor();
@@ -16,6 +24,7 @@ export default function App() {
     // ✅ Cleanup: remover monitor ao desmontar (raramente acontece)
     return () => {
       unregisterNetworkMonitor();
+      unregisterBackupScheduler();
     };
   }, []);
 
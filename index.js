@@ -2,6 +2,8 @@
  * @format
  */
 
+// ✅ crypto.getRandomValues (salt e nonce dos backups) antes de qualquer outro módulo
+import 'react-native-get-random-values';
 import { AppRegistry } from 'react-native';
 import App from './App';
 
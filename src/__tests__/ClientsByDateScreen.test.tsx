@@ -28,6 +28,11 @@ jest.mock("../hooks/useClientsByDate", () => ({
   })),
 }));
 
+// Mock da autenticação (reagendamento em lote sincroniza quando logado)
+jest.mock("../contexts/AuthContext", () => ({
+  useAuth: () => ({ user: null }),
+}));
+
 // Mock de navegação
 const mockNavigation = {
   navigate: jest.fn(),
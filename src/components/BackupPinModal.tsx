@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { MIN_BACKUP_PIN_LENGTH, validateBackupPin } from "../database/utils/backupCrypto";
+
+type Props = {
+  visible: boolean;
+  title: string;
+  message: string;
+  confirmar?: boolean; // Pede o PIN duas vezes (ao definir um PIN novo)
+  onCancel: () => void;
+  onConfirm: (pin: string) => void;
+};
+
+/**
+ * 🔑 Pede o PIN do backup (para definir um novo ou abrir um backup protegido)
+ */
+export default function BackupPinModal({ visible, title, message, confirmar, onCancel, onConfirm }: Props) {
+  const [pin, setPin] = useState("");
+  const [repetido, setRepetido] = useState("");
+  const [erro, setErro] = useState<string | null>(null);
+
+  // 🧹 Limpa os campos a cada abertura
+  useEffect(() => {
+    if (visible) {
+      setPin("");
+      setRepetido("");
+      setErro(null);
+    }
+  }, [visible]);
+
+  const handleConfirm = () => {
+    const pinError = validateBackupPin(pin);
+    if (pinError) {
+      setErro(pinError);
+      return;
+    }
+    if (confirmar && pin !== repetido) {
+      setErro("Os PINs digitados não conferem.");
+      return;
+    }
+    onConfirm(pin.trim());
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>🔑 {title}</Text>
+          <Text style={styles.info}>{message}</Text>
+
+          <TextInput
+            style={styles.input}
+            placeholder={`PIN (mínimo ${MIN_BACKUP_PIN_LENGTH} caracteres)`}
+            value={pin}
+            onChangeText={setPin}
+            secureTextEntry
+            autoFocus
+            maxLength={64}
+          />
+          {confirmar && (
+            <TextInput
+              style={styles.input}
+              placeholder="Repita o PIN"
+              value={repetido}
+              onChangeText={setRepetido}
+              secureTextEntry
+              maxLength={64}
+            />
+          )}
+          {erro && <Text style={styles.erro}>{erro}</Text>}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={[styles.button, styles.cancel]} onPress={onCancel}>
+              <Text style={styles.buttonText}>Cancelar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={[styles.button, styles.confirm]} onPress={handleConfirm}>
+              <Text style={[styles.buttonText, { color: "#fff" }]}>Confirmar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: "#111827",
+  },
+  info: { fontSize: 14, color: "#475569", marginBottom: 16, textAlign: "center" },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#fafafa",
+  },
+  erro: { fontSize: 13, color: "#DC2626", marginBottom: 12, textAlign: "center" },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  cancel: {
+    backgroundColor: "#f3f4f6",
+  },
+  confirm: {
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,120 @@
+import React from "react";
+import { Modal, View, Text, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { BackupVerificationReport, VerificationStatus } from "../database/utils/backupVerification";
+
+type Props = {
+  report: BackupVerificationReport | null;
+  onClose: () => void;
+};
+
+type IoniconName = keyof typeof Icon.glyphMap;
+
+const STATUS_ICON: Record<VerificationStatus, { icon: IoniconName; color: string }> = {
+  ok: { icon: "checkmark-circle", color: "#16A34A" },
+  aviso: { icon: "alert-circle", color: "#CA8A04" },
+  erro: { icon: "close-circle", color: "#DC2626" },
+};
+
+/**
+ * 🩺 Relatório da verificação do backup (restore de teste em banco temporário)
+ */
+export default function BackupVerificationModal({ report, onClose }: Props) {
+  if (!report) return null;
+
+  const cor = report.aprovado ? "#16A34A" : "#DC2626";
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>🩺 Verificação do backup</Text>
+
+          <View style={[styles.resultado, { borderColor: cor }]}>
+            <Icon name={report.aprovado ? "shield-checkmark" : "warning"} size={22} color={cor} />
+            <Text style={[styles.resultadoText, { color: cor }]}>
+              {report.aprovado ? "Backup pode ser restaurado" : "Backup com problemas"}
+            </Text>
+          </View>
+          <Text style={styles.info}>
+            {report.conteudo === "ndjson" ? "Backup NDJSON" : "Cópia do banco"} testado em um banco temporário.
+            Os dados atuais não foram alterados.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {report.itens.map((item, i) => (
+              <View key={i} style={styles.item}>
+                <Icon name={STATUS_ICON[item.status].icon} size={18} color={STATUS_ICON[item.status].color} />
+                <View style={styles.itemBody}>
+                  <Text style={styles.itemTitle}>{item.titulo}</Text>
+                  <Text style={styles.itemDetail}>{item.detalhe}</Text>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.button} onPress={onClose}>
+            <Text style={styles.buttonText}>Fechar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    maxHeight: "85%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: "#111827",
+  },
+  resultado: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+  },
+  resultadoText: { marginLeft: 8, fontSize: 15, fontWeight: "700" },
+  info: { fontSize: 13, color: "#64748B", textAlign: "center", marginBottom: 12 },
+  list: { marginBottom: 16 },
+  item: { flexDirection: "row", alignItems: "flex-start", paddingVertical: 6 },
+  itemBody: { flex: 1, marginLeft: 8 },
+  itemTitle: { fontSize: 14, fontWeight: "700", color: "#1E293B" },
+  itemDetail: { fontSize: 13, color: "#475569", marginTop: 2 },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+});
@@ -0,0 +1,166 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
+import type { Cadencia } from "../database/types";
+import { CADENCIAS, DIAS_SEMANA, describeCadencia, todayISO } from "../database/utils";
+
+type Props = {
+  cadencia: Cadencia | null;
+  dia: number | null;
+  onChange: (cadencia: Cadencia | null, dia: number | null) => void;
+  disabled?: boolean;
+};
+
+const DIAS_MES = Array.from({ length: 31 }, (_, i) => i + 1);
+
+/**
+ * 🔁 Seletor da cadência de cobrança
+ * Sem cadência / semanal / quinzenal / mensal (com dia da semana opcional) / dia fixo do mês
+ */
+export default function CadenceSelector({ cadencia, dia, onChange, disabled = false }: Props) {
+  const opcoes: { key: Cadencia | null; label: string }[] = [{ key: null, label: "Nenhuma" }, ...CADENCIAS];
+
+  // ✅ Trocar de cadência limpa o dia (faixas diferentes: semana x mês)
+  const escolherCadencia = (key: Cadencia | null) => {
+    if (key === cadencia) return;
+    onChange(key, key === "dia_fixo" ? Number(todayISO().slice(8, 10)) : null);
+  };
+
+  return (
+    <View>
+      <View style={styles.container}>
+        {opcoes.map((item) => {
+          const active = cadencia === item.key;
+          return (
+            <TouchableOpacity
+              key={item.key ?? "nenhuma"}
+              style={[styles.option, active && styles.optionActive]}
+              onPress={() => escolherCadencia(item.key)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityState={{ selected: active }}
+              accessibilityLabel={`Cadência: ${item.label}`}
+            >
+              <Text style={[styles.optionText, active && styles.optionTextActive]} numberOfLines={1}>
+                {item.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {cadencia && cadencia !== "dia_fixo" && (
+        <>
+          <Text style={styles.label}>Dia da semana (opcional)</Text>
+          <View style={styles.container}>
+            {DIAS_SEMANA.map((nome, index) => {
+              const active = dia === index;
+              return (
+                <TouchableOpacity
+                  key={nome}
+                  style={[styles.chip, active && styles.optionActive]}
+                  onPress={() => onChange(cadencia, active ? null : index)}
+                  disabled={disabled}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: active }}
+                  accessibilityLabel={`Dia da semana: ${nome}`}
+                >
+                  <Text style={[styles.optionText, active && styles.optionTextActive]}>{nome.slice(0, 3)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      {cadencia === "dia_fixo" && (
+        <>
+          <Text style={styles.label}>Dia do mês</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+            {DIAS_MES.map((numero) => {
+              const active = dia === numero;
+              return (
+                <TouchableOpacity
+                  key={numero}
+                  style={[styles.chip, active && styles.optionActive]}
+                  onPress={() => onChange(cadencia, numero)}
+                  disabled={disabled}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: active }}
+                  accessibilityLabel={`Dia ${numero} do mês`}
+                >
+                  <Text style={[styles.optionText, active && styles.optionTextActive]}>{numero}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+
+      {cadencia && (
+        <Text style={styles.hint}>
+          {describeCadencia(cadencia, dia)}: sem data informada, a próxima cobrança é agendada sozinha.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginHorizontal: -4,
+    marginBottom: 8,
+  },
+  row: {
+    paddingBottom: 8,
+  },
+  option: {
+    width: "30%",
+    flexGrow: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    margin: 4,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    backgroundColor: "#F8FAFC",
+  },
+  chip: {
+    minWidth: 44,
+    alignItems: "center",
+    margin: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    backgroundColor: "#F8FAFC",
+  },
+  optionActive: {
+    backgroundColor: "#0056b3",
+    borderColor: "#0056b3",
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  optionTextActive: {
+    color: "#FFF",
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#64748B",
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#64748B",
+    marginBottom: 12,
+  },
+});
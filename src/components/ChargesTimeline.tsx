@@ -45,7 +45,8 @@ const ChargesTimeline = React.memo<ChargesTimelineProps>(
       (prevDay, index) =>
         prevDay.dateStr === nextProps.days[index]?.dateStr &&
         prevDay.count === nextProps.days[index]?.count &&
-        prevDay.isToday === nextProps.days[index]?.isToday
+        prevDay.isToday === nextProps.days[index]?.isToday &&
+        prevDay.naoUtil === nextProps.days[index]?.naoUtil
     );
   }
 );
@@ -19,13 +19,12 @@ const DayCard = React.memo<DayCardProps>(({ day, onPress }) => {
   const hasCharges = day.count > 0;
   
   // ✅ Pré-calcular mensagem de status
-  const statusMessage = useMemo(
-    () =>
-      hasCharges
-        ? `${day.count} cliente${day.count > 1 ? "s" : ""} vence${day.count > 1 ? "m" : ""} nesta data`
-        : "Nenhuma cobrança agendada",
-    [hasCharges, day.count]
-  );
+  const statusMessage = useMemo(() => {
+    if (!hasCharges) return day.naoUtil ? "Dia sem cobrança" : "Nenhuma cobrança agendada";
+    const base = `${day.count} cliente${day.count > 1 ? "s" : ""} vence${day.count > 1 ? "m" : ""} nesta data`;
+    // ⚠️ Cobrança marcada em feriado/folga: avisa para reagendar
+    return day.naoUtil ? `⚠️ ${base}, mas não é dia útil` : base;
+  }, [hasCharges, day.count, day.naoUtil]);
 
   // ✅ Evitar criar nova função no render
   const handlePress = useCallback(() => {
@@ -106,6 +105,13 @@ const DayCard = React.memo<DayCardProps>(({ day, onPress }) => {
                   <Text style={styles.todayText}>HOJE</Text>
                 </View>
               )}
+              {!!day.naoUtil && (
+                <View style={styles.naoUtilBadge}>
+                  <Text style={styles.naoUtilText} numberOfLines={1}>
+                    {day.naoUtil.toUpperCase()}
+                  </Text>
+                </View>
+              )}
             </View>
             <Text style={[styles.dateStr, dateStrStyle]}>
               {day.dateStr}
@@ -135,7 +141,8 @@ const DayCard = React.memo<DayCardProps>(({ day, onPress }) => {
     prevProps.day.dateStr === nextProps.day.dateStr &&
     prevProps.day.count === nextProps.day.count &&
     prevProps.day.isToday === nextProps.day.isToday &&
-    prevProps.day.weekday === nextProps.day.weekday
+    prevProps.day.weekday === nextProps.day.weekday &&
+    prevProps.day.naoUtil === nextProps.day.naoUtil
   );
 });
 
@@ -204,6 +211,19 @@ const styles = StyleSheet.create({
     fontWeight: "800", 
     color: "#0056b3" 
   },
+  naoUtilBadge: {
+    backgroundColor: "#FEF3C7",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  naoUtilText: {
+    fontSize: 9,
+    fontWeight: "800",
+    color: "#B45309",
+  },
   countBadge: {
     minWidth: 28,
     height: 28,
@@ -1,54 +1,92 @@
 import React, { useState } from "react";
-import { TouchableOpacity, Text, StyleSheet, ActivityIndicator, Alert } from "react-native";
+import { View, TouchableOpacity, Text, StyleSheet, ActivityIndicator, Alert } from "react-native";
 import Icon from "react-native-vector-icons/Ionicons";
 import LinearGradient from "react-native-linear-gradient";
-import { generateBackup } from "../database/backup";
+import { imprimirRelatorioFinanceiro } from "../services/PrinterService";
+import type { ReportsDashboardData } from "../services/reportsService";
+import { EXPORT_PERIODOS, getExportPeriodo, type ExportPeriodoKey } from "../utils/csvExport";
 
+type Props = {
+  data: ReportsDashboardData;
+};
 
-export default function ExportPDFButton() {
+/**
+ * 🖨️ Relatório financeiro em PDF (painel de impressão do sistema)
+ * O período escolhido define a seção de recebimentos do relatório
+ */
+export default function ExportPDFButton({ data }: Props) {
   const [loading, setLoading] = useState(false);
+  const [periodoKey, setPeriodoKey] = useState<ExportPeriodoKey>("mes_atual");
 
   const handleExport = async () => {
     try {
       setLoading(true);
-      await generateBackup(); // Função que cria o PDF (você já tem isso no projeto)
-      Alert.alert("✅ Sucesso", "Relatório exportado em PDF com sucesso!");
+      await imprimirRelatorioFinanceiro(data, getExportPeriodo(periodoKey));
     } catch (error) {
       console.error("Erro ao exportar PDF:", error);
-      Alert.alert("❌ Erro", "Não foi possível gerar o PDF.");
+      Alert.alert("❌ Erro", error instanceof Error ? error.message : "Não foi possível gerar o PDF.");
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <TouchableOpacity
-      activeOpacity={0.85}
-      onPress={handleExport}
-      disabled={loading}
-      style={styles.container}
-    >
-      <LinearGradient
-        colors={["#5856D6", "#3B2EB1"]}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 1 }}
-        style={styles.gradient}
+    <View>
+      <View style={styles.segment}>
+        {EXPORT_PERIODOS.map((item) => (
+          <TouchableOpacity
+            key={item.key}
+            style={[styles.segmentItem, periodoKey === item.key && styles.segmentItemActive]}
+            onPress={() => setPeriodoKey(item.key)}
+            disabled={loading}
+          >
+            <Text style={[styles.segmentText, periodoKey === item.key && styles.segmentTextActive]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        activeOpacity={0.85}
+        onPress={handleExport}
+        disabled={loading}
+        style={styles.container}
+        testID="export-pdf"
       >
-        {loading ? (
-          <ActivityIndicator color="#fff" />
-        ) : (
-          <>
-            <Icon name="document-text-outline" size={20} color="#fff" style={styles.icon} />
-            <Text style={styles.text}>Exportar Relatório PDF</Text>
-          </>
-        )}
-      </LinearGradient>
-    </TouchableOpacity>
+        <LinearGradient
+          colors={["#5856D6", "#3B2EB1"]}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.gradient}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Icon name="document-text-outline" size={20} color="#fff" style={styles.icon} />
+              <Text style={styles.text}>Exportar Relatório PDF</Text>
+            </>
+          )}
+        </LinearGradient>
+      </TouchableOpacity>
+    </View>
   );
 }
 
 /* ========================= Styles ========================= */
 const styles = StyleSheet.create({
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+    marginTop: 8,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#5856D6" },
+  segmentText: { fontSize: 13, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
   container: {
     borderRadius: 12,
     overflow: "hidden",
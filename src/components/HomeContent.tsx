@@ -105,9 +105,79 @@ export default function HomeContent({ navigation, todayCount, totalClients, onPr
         <Text style={styles.sectionTitle}>SISTEMA & DADOS</Text>
       </View>
 
-      {/* 📋 LISTA DE SISTEMA (2 Itens - Estilo Unificado) */}
+      {/* 📋 LISTA DE SISTEMA (3 Itens - Estilo Unificado) */}
       <View style={styles.systemList}>
 
+        {/* Rota do dia */}
+        <SystemCard
+          title="Rota do Dia"
+          subtitle="Ordem de visitas por bairro e rua"
+          icon="navigate"
+          color="#0056b3" // Azul
+          bgColor="#EFF6FF"
+          onPress={() => navigation.navigate("RouteDay")}
+        />
+
+        {/* Fechamento de caixa */}
+        <SystemCard
+          title="Fechamento de Caixa"
+          subtitle="Recebido hoje por forma de pagamento"
+          icon="calculator"
+          color="#059669" // Verde
+          bgColor="#ECFDF5"
+          onPress={() => navigation.navigate("CashClosing")}
+        />
+
+        {/* Multa e juros */}
+        <SystemCard
+          title="Multa e Juros"
+          subtitle="Encargos sobre cobranças vencidas"
+          icon="trending-up"
+          color="#DC2626" // Vermelho
+          bgColor="#FEF2F2"
+          onPress={() => navigation.navigate("LateFeeSettings")}
+        />
+
+        {/* Dias úteis e feriados */}
+        <SystemCard
+          title="Dias Úteis e Feriados"
+          subtitle="Folgas e feriados que o agendamento pula"
+          icon="calendar"
+          color="#D97706" // Âmbar
+          bgColor="#FFFBEB"
+          onPress={() => navigation.navigate("WorkCalendarSettings")}
+        />
+
+        {/* Importação */}
+        <SystemCard
+          title="Importar Clientes"
+          subtitle="Planilha ou arquivo CSV"
+          icon="cloud-upload"
+          color="#0891B2" // Ciano
+          bgColor="#ECFEFF"
+          onPress={() => navigation.navigate("ImportClients")}
+        />
+
+        {/* Exportação */}
+        <SystemCard
+          title="Exportar Planilhas"
+          subtitle="Clientes, pagamentos e bairros em CSV"
+          icon="document-text"
+          color="#16A34A" // Verde
+          bgColor="#F0FDF4"
+          onPress={() => navigation.navigate("Export")}
+        />
+
+        {/* Lixeira */}
+        <SystemCard
+          title="Lixeira"
+          subtitle="Restaurar clientes e pagamentos excluídos"
+          icon="trash"
+          color="#64748B" // Cinza
+          bgColor="#F1F5F9"
+          onPress={() => navigation.navigate("Trash")}
+        />
+
         {/* Backup */}
         <SystemCard
           title="Gerenciar Backups"
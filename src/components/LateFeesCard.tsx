@@ -0,0 +1,217 @@
+import React, { useState } from "react";
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { Client, EncargosCliente } from "../database/types";
+import { dispensarEncargos } from "../database/repositories/lateFeesRepo";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+
+type Props = {
+  client: Client;
+  encargos: EncargosCliente;
+  onWaived: () => void;
+};
+
+/**
+ * 💸 Multa e juros do vencimento atual do cliente
+ * Mostra o saldo atualizado e permite dispensar os encargos com motivo
+ */
+export default function LateFeesCard({ client, encargos, onWaived }: Props) {
+  const [showModal, setShowModal] = useState(false);
+  const [motivo, setMotivo] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleDispensar = async () => {
+    if (!motivo.trim()) {
+      Alert.alert("Atenção", "Informe o motivo da dispensa.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await dispensarEncargos(client, motivo);
+      setMotivo("");
+      setShowModal(false);
+      onWaived();
+    } catch (error) {
+      console.error("Erro ao dispensar encargos:", error);
+      Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível dispensar os encargos.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Encargos por atraso</Text>
+        <Text style={styles.dias}>
+          {encargos.diasAtraso} {encargos.diasAtraso === 1 ? "dia" : "dias"}
+        </Text>
+      </View>
+
+      <Text style={styles.detail}>Vencido em {formatDateBR(encargos.vencimento)}</Text>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Saldo</Text>
+        <Text style={styles.value}>{formatCurrency(encargos.saldo)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Multa</Text>
+        <Text style={[styles.value, encargos.dispensado && styles.riscado]}>{formatCurrency(encargos.multa)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Juros</Text>
+        <Text style={[styles.value, encargos.dispensado && styles.riscado]}>{formatCurrency(encargos.juros)}</Text>
+      </View>
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={styles.totalLabel}>Saldo atualizado</Text>
+        <Text style={styles.totalValue}>{formatCurrency(encargos.saldoAtualizado)}</Text>
+      </View>
+
+      {encargos.dispensado ? (
+        <View style={styles.dispensado}>
+          <Icon name="checkmark-circle-outline" size={16} color="#16A34A" />
+          <Text style={styles.dispensadoText}>
+            Encargos dispensados{encargos.motivoDispensa ? `: ${encargos.motivoDispensa}` : ""}
+          </Text>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.waiveButton} onPress={() => setShowModal(true)}>
+          <Icon name="remove-circle-outline" size={18} color="#0056b3" />
+          <Text style={styles.waiveText}>Dispensar encargos</Text>
+        </TouchableOpacity>
+      )}
+
+      <Modal visible={showModal} transparent animationType="fade" onRequestClose={() => setShowModal(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>🧾 Dispensar encargos</Text>
+            <Text style={styles.modalInfo}>
+              {formatCurrency(encargos.multa + encargos.juros)} de multa e juros deixarão de ser cobrados neste vencimento.
+            </Text>
+
+            <Text style={styles.modalLabel}>Motivo</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Ex: Cliente avisou que atrasaria"
+              value={motivo}
+              onChangeText={setMotivo}
+              maxLength={300}
+              multiline
+            />
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancel]}
+                onPress={() => setShowModal(false)}
+                disabled={saving}
+              >
+                <Text style={styles.buttonText}>Cancelar</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={[styles.button, styles.confirm]} onPress={handleDispensar} disabled={saving}>
+                <Text style={[styles.buttonText, { color: "#fff" }]}>{saving ? "Salvando..." : "Dispensar"}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 4 },
+  title: { fontSize: 14, fontWeight: "600", color: "#64748B", textTransform: "uppercase", letterSpacing: 0.5 },
+  dias: { fontSize: 13, fontWeight: "700", color: "#DC2626" },
+  detail: { fontSize: 13, color: "#64748B", marginBottom: 10 },
+  row: { flexDirection: "row", justifyContent: "space-between", paddingVertical: 4 },
+  label: { fontSize: 14, color: "#475569" },
+  value: { fontSize: 14, color: "#0F172A", fontWeight: "500" },
+  riscado: { textDecorationLine: "line-through", color: "#94A3B8" },
+  totalRow: { borderTopWidth: 1, borderTopColor: "#F1F5F9", marginTop: 6, paddingTop: 10 },
+  totalLabel: { fontSize: 15, fontWeight: "700", color: "#0F172A" },
+  totalValue: { fontSize: 16, fontWeight: "700", color: "#DC2626" },
+  dispensado: { flexDirection: "row", alignItems: "center", marginTop: 12 },
+  dispensadoText: { marginLeft: 6, fontSize: 13, color: "#16A34A", flex: 1 },
+  waiveButton: { flexDirection: "row", alignItems: "center", marginTop: 12 },
+  waiveText: { marginLeft: 4, color: "#0056b3", fontWeight: "600", fontSize: 13 },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: "#111827",
+  },
+  modalInfo: { fontSize: 14, color: "#475569", marginBottom: 16, textAlign: "center" },
+  modalLabel: {
+    fontSize: 14,
+    color: "#555",
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#fafafa",
+    minHeight: 70,
+    textAlignVertical: "top",
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  cancel: {
+    backgroundColor: "#f3f4f6",
+  },
+  confirm: {
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+});
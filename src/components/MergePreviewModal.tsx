@@ -0,0 +1,195 @@
+import React from "react";
+import { Modal, View, Text, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { MergeBackupPreview } from "../database/backup";
+import { MERGE_CLIENT_FIELD_LABELS, type ClientMergeChange } from "../database/utils/backupRecords";
+
+type Props = {
+  preview: MergeBackupPreview | null;
+  applying: boolean;
+  onCancel: () => void;
+  onApply: () => void;
+};
+
+// 📌 Limite de nomes por lista (o resto vira "+ N clientes")
+const MAX_NOMES = 20;
+
+type IoniconName = keyof typeof Icon.glyphMap;
+
+function Secao({
+  icon,
+  color,
+  title,
+  nomes,
+}: {
+  icon: IoniconName;
+  color: string;
+  title: string;
+  nomes: string[];
+}) {
+  if (nomes.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Icon name={icon} size={18} color={color} />
+        <Text style={[styles.sectionTitle, { color }]}>
+          {title} ({nomes.length})
+        </Text>
+      </View>
+      {nomes.slice(0, MAX_NOMES).map((nome, i) => (
+        <Text key={i} style={styles.item} numberOfLines={1}>
+          • {nome}
+        </Text>
+      ))}
+      {nomes.length > MAX_NOMES && <Text style={styles.more}>+ {nomes.length - MAX_NOMES} clientes</Text>}
+    </View>
+  );
+}
+
+// 📌 "Maria — Telefone, Observações"
+const descreverAlteracao = ({ backup, campos }: ClientMergeChange) =>
+  `${backup.name} — ${campos.map((campo) => MERGE_CLIENT_FIELD_LABELS[campo]).join(", ")}`;
+
+/**
+ * 🔀 Prévia do restore por mesclagem
+ * Mostra o que entra (novos), o que muda (backup mais novo) e os conflitos
+ * (dados atuais mais novos, mantidos) antes de gravar
+ */
+export default function MergePreviewModal({ preview, applying, onCancel, onApply }: Props) {
+  if (!preview) return null;
+  const { plan } = preview;
+
+  const nadaParaAplicar =
+    plan.bairros.novos.length +
+      plan.ruas.novos.length +
+      plan.clients.novos.length +
+      plan.clients.alterados.length +
+      plan.payments.novos.length +
+      plan.late_fee_waivers.novos.length +
+      plan.logs.novos.length ===
+    0;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>🔀 Mesclar backup</Text>
+
+          <View style={styles.summary}>
+            <Text style={styles.summaryText}>Pagamentos novos: {plan.payments.novos.length}</Text>
+            <Text style={styles.summaryText}>Pagamentos já existentes: {plan.payments.duplicados}</Text>
+            <Text style={styles.summaryText}>
+              Bairros novos: {plan.bairros.novos.length} • Ruas novas: {plan.ruas.novos.length}
+            </Text>
+            <Text style={styles.summaryText}>Clientes sem mudanças: {plan.clients.iguais}</Text>
+          </View>
+
+          <ScrollView style={styles.list}>
+            <Secao
+              icon="add-circle-outline"
+              color="#16A34A"
+              title="Clientes novos"
+              nomes={plan.clients.novos.map((c) => c.name)}
+            />
+            <Secao
+              icon="create-outline"
+              color="#0056b3"
+              title="Atualizados pelo backup"
+              nomes={plan.clients.alterados.map(descreverAlteracao)}
+            />
+            <Secao
+              icon="alert-circle-outline"
+              color="#CA8A04"
+              title="Conflitos (mantidos os dados atuais, mais recentes)"
+              nomes={plan.clients.conflitos.map(descreverAlteracao)}
+            />
+            {nadaParaAplicar && <Text style={styles.empty}>O backup não tem nada novo para mesclar.</Text>}
+          </ScrollView>
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={[styles.button, styles.cancel]} onPress={onCancel} disabled={applying}>
+              <Text style={styles.buttonText}>Cancelar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.confirm, nadaParaAplicar && styles.disabled]}
+              onPress={onApply}
+              disabled={applying || nadaParaAplicar}
+            >
+              <Text style={[styles.buttonText, { color: "#fff" }]}>{applying ? "Mesclando..." : "Mesclar"}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    maxHeight: "85%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: "#111827",
+  },
+  summary: {
+    backgroundColor: "#F8FAFC",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 12,
+  },
+  summaryText: { fontSize: 14, color: "#475569", paddingVertical: 2 },
+  list: { marginBottom: 16 },
+  section: { marginBottom: 14 },
+  sectionHeader: { flexDirection: "row", alignItems: "center", marginBottom: 6 },
+  sectionTitle: { marginLeft: 6, fontSize: 14, fontWeight: "700", flex: 1 },
+  item: { fontSize: 13, color: "#1E293B", paddingVertical: 2, paddingLeft: 4 },
+  more: { fontSize: 13, color: "#64748B", paddingLeft: 4, marginTop: 2 },
+  empty: { fontSize: 14, color: "#64748B", textAlign: "center", paddingVertical: 12 },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  cancel: {
+    backgroundColor: "#f3f4f6",
+  },
+  confirm: {
+    backgroundColor: "#007AFF",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Platform,
+} from "react-native";
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { addSale } from "../database/repositories/salesRepo";
+import { formatDateIso } from "../database/utils";
+import type { InstallmentInterval } from "../database/utils/installments";
+import { formatCurrency } from "../utils/formatCurrency";
+
+type Props = {
+  visible: boolean;
+  clientId: number;
+  onClose: () => void;
+  onSave: () => void;
+};
+
+const INTERVALOS: { key: InstallmentInterval; label: string }[] = [
+  { key: "semanal", label: "Semanal" },
+  { key: "quinzenal", label: "Quinzenal" },
+  { key: "mensal", label: "Mensal" },
+];
+
+/**
+ * 🧾 Modal para registrar nova venda a prazo (contrato com parcelas)
+ */
+export default function NewSaleModal({ visible, clientId, onClose, onSave }: Props) {
+  const [descricao, setDescricao] = useState("");
+  const [valor, setValor] = useState("");
+  const [parcelas, setParcelas] = useState("1");
+  const [intervalo, setIntervalo] = useState<InstallmentInterval>("mensal");
+  const [primeiroVencimento, setPrimeiroVencimento] = useState(new Date());
+  const [showPicker, setShowPicker] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const amount = parseFloat(valor.replace(",", "."));
+  const numParcelas = parseInt(parcelas, 10);
+  const valorParcela = amount > 0 && numParcelas > 0 ? amount / numParcelas : 0;
+
+  const reset = () => {
+    setDescricao("");
+    setValor("");
+    setParcelas("1");
+    setIntervalo("mensal");
+    setPrimeiroVencimento(new Date());
+  };
+
+  const handleSave = async () => {
+    if (!descricao.trim()) {
+      Alert.alert("Atenção", "Informe a descrição da venda.");
+      return;
+    }
+    if (!valor || isNaN(amount) || amount <= 0) {
+      Alert.alert("Atenção", "Digite um valor válido para a venda.");
+      return;
+    }
+    if (isNaN(numParcelas) || numParcelas < 1 || numParcelas > 48) {
+      Alert.alert("Atenção", "O número de parcelas deve estar entre 1 e 48.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await addSale(clientId, {
+        descricao,
+        valor: amount,
+        parcelas: numParcelas,
+        primeiroVencimento: formatDateIso(primeiroVencimento),
+        intervalo,
+      });
+      reset();
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error("Erro ao registrar venda:", error);
+      Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível registrar a venda.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangeDate = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === "android") setShowPicker(false);
+    if (event.type === "set" && selectedDate) {
+      setPrimeiroVencimento(selectedDate);
+      if (Platform.OS === "ios") setShowPicker(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>🧾 Nova Venda</Text>
+
+          <Text style={styles.label}>Descrição</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Ex: Jogo de panelas"
+            value={descricao}
+            onChangeText={setDescricao}
+            maxLength={200}
+          />
+
+          <View style={styles.row}>
+            <View style={styles.rowItem}>
+              <Text style={styles.label}>Valor (R$)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0,00"
+                keyboardType="numeric"
+                value={valor}
+                onChangeText={setValor}
+              />
+            </View>
+            <View style={[styles.rowItem, { marginLeft: 12 }]}>
+              <Text style={styles.label}>Parcelas</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={parcelas}
+                onChangeText={(txt) => setParcelas(txt.replace(/\D/g, ""))}
+                maxLength={2}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Intervalo entre parcelas</Text>
+          <View style={styles.segment}>
+            {INTERVALOS.map((item) => (
+              <TouchableOpacity
+                key={item.key}
+                style={[styles.segmentItem, intervalo === item.key && styles.segmentItemActive]}
+                onPress={() => setIntervalo(item.key)}
+              >
+                <Text style={[styles.segmentText, intervalo === item.key && styles.segmentTextActive]}>
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>1º vencimento</Text>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker(true)}>
+            <Text style={styles.dateText}>{primeiroVencimento.toLocaleDateString("pt-BR")}</Text>
+          </TouchableOpacity>
+
+          {valorParcela > 0 && (
+            <Text style={styles.preview}>
+              {numParcelas}x de {formatCurrency(valorParcela)}
+            </Text>
+          )}
+
+          {showPicker && (
+            <DateTimePicker
+              value={primeiroVencimento}
+              mode="date"
+              display="default"
+              onChange={handleChangeDate}
+            />
+          )}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={[styles.button, styles.cancel]} onPress={onClose} disabled={saving}>
+              <Text style={styles.buttonText}>Cancelar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={[styles.button, styles.confirm]} onPress={handleSave} disabled={saving}>
+              <Text style={[styles.buttonText, { color: "#fff" }]}>{saving ? "Salvando..." : "Salvar"}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 16,
+    textAlign: "center",
+    color: "#111827",
+  },
+  label: {
+    fontSize: 14,
+    color: "#555",
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#fafafa",
+  },
+  row: { flexDirection: "row" },
+  rowItem: { flex: 1 },
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 16,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#007AFF" },
+  segmentText: { fontSize: 14, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
+  dateButton: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  dateText: {
+    fontSize: 16,
+    color: "#111",
+  },
+  preview: {
+    textAlign: "center",
+    fontSize: 14,
+    color: "#16A34A",
+    fontWeight: "600",
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  cancel: {
+    backgroundColor: "#f3f4f6",
+  },
+  confirm: {
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+});
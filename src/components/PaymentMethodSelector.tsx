@@ -0,0 +1,72 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { PaymentMethod } from "../database/types";
+import { PAYMENT_METHODS } from "../constants/paymentMethods";
+
+type Props = {
+  value: PaymentMethod;
+  onChange: (metodo: PaymentMethod) => void;
+  disabled?: boolean;
+};
+
+/**
+ * 💳 Seletor da forma de pagamento (dinheiro, PIX, cartão, transferência)
+ */
+export default function PaymentMethodSelector({ value, onChange, disabled = false }: Props) {
+  return (
+    <View style={styles.container}>
+      {PAYMENT_METHODS.map((item) => {
+        const active = value === item.key;
+        return (
+          <TouchableOpacity
+            key={item.key}
+            style={[styles.option, active && { backgroundColor: item.color, borderColor: item.color }]}
+            onPress={() => onChange(item.key)}
+            disabled={disabled}
+            accessibilityRole="button"
+            accessibilityState={{ selected: active }}
+            accessibilityLabel={`Forma de pagamento: ${item.label}`}
+          >
+            <Icon name={item.icon} size={18} color={active ? "#FFF" : item.color} />
+            <Text style={[styles.optionText, active && styles.optionTextActive]} numberOfLines={1}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginHorizontal: -4,
+    marginBottom: 12,
+  },
+  option: {
+    width: "46%",
+    flexGrow: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    margin: 4,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    backgroundColor: "#F8FAFC",
+  },
+  optionText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  optionTextActive: {
+    color: "#FFF",
+  },
+});
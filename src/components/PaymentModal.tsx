@@ -9,9 +9,14 @@ import {
   Alert,
 } from "react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
-import type { Payment } from "../database/types";
+import type { Payment, PaymentMethod } from "../database/types";
 import { addPayment } from "../database/repositories/paymentsRepo";
+import { getClientById } from "../database/repositories/clientsRepo";
+import { saveClient } from "../services/syncService";
+import { useAuth } from "../contexts/AuthContext";
 import { formatCurrency } from "../utils/formatCurrency";
+import { DEFAULT_PAYMENT_METHOD } from "../constants/paymentMethods";
+import PaymentMethodSelector from "./PaymentMethodSelector";
 
 type Props = {
   visible: boolean;
@@ -26,9 +31,11 @@ export default function PaymentModal({
   onClose,
   onSave,
 }: Props) {
+  const { user } = useAuth();
   const [valor, setValor] = useState("");
   const [date, setDate] = useState(new Date());
   const [showPicker, setShowPicker] = useState(false);
+  const [metodo, setMetodo] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
 
   const handleSave = async () => {
     const amount = parseFloat(valor.replace(",", "."));
@@ -38,15 +45,23 @@ export default function PaymentModal({
     }
 
     try {
-      // ✅ Converte clientId de string para number e passa apenas o valor
-      await addPayment(Number(clientId), amount);
+      // ✅ Converte clientId de string para number e envia a data escolhida (pagamento retroativo)
+      await addPayment(Number(clientId), amount, { dataPagamento: date, metodo });
+
+      // ✅ Sincroniza cliente (paid atualizado) e pagamentos com Firestore
+      const updatedClient = await getClientById(Number(clientId));
+      if (updatedClient && user?.uid) {
+        await saveClient(user.uid, updatedClient);
+      }
       onSave();
       onClose();
       Alert.alert("Sucesso", "Pagamento registrado com sucesso!");
       setValor("");
+      setDate(new Date());
+      setMetodo(DEFAULT_PAYMENT_METHOD);
     } catch (error) {
       console.error("Erro ao registrar pagamento:", error);
-      Alert.alert("Erro", "Não foi possível registrar o pagamento.");
+      Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível registrar o pagamento.");
     }
   };
 
@@ -66,6 +81,10 @@ export default function PaymentModal({
             onChangeText={setValor}
           />
 
+          {/* 💳 Forma de pagamento */}
+          <Text style={styles.label}>Forma de pagamento</Text>
+          <PaymentMethodSelector value={metodo} onChange={setMetodo} />
+
           {/* 📅 Data */}
           <TouchableOpacity
             style={styles.dateButton}
@@ -81,6 +100,7 @@ export default function PaymentModal({
               value={date}
               mode="date"
               display="calendar"
+              maximumDate={new Date()}
               onChange={(event, selectedDate) => {
                 setShowPicker(false);
                 if (selectedDate) setDate(selectedDate);
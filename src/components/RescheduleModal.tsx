@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet, Platform } from "react-native";
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import {
+  addDaysISO,
+  formatDateIso,
+  getNonWorkingReason,
+  nextWorkingDay,
+  todayISO,
+} from "../database/utils";
+import { formatDateBR } from "../utils/formatDate";
+
+type Props = {
+  visible: boolean;
+  descricao: string; // "Todo o dia 12/03", "Rua das Flores", "3 selecionados"
+  quantidade: number; // clientes pendentes que serão movidos
+  dataAtual: string; // yyyy-mm-dd da lista aberta
+  saving?: boolean;
+  onConfirm: (novaData: string) => void;
+  onClose: () => void;
+};
+
+/**
+ * 📅 Modal para reagendar várias cobranças de uma vez
+ * Sugere o próximo dia útil e avisa quando a data escolhida é feriado/folga
+ */
+export default function RescheduleModal({
+  visible,
+  descricao,
+  quantidade,
+  dataAtual,
+  saving = false,
+  onConfirm,
+  onClose,
+}: Props) {
+  // ✅ Sugestões partem do dia seguinte à lista (ou de hoje, se a lista já passou)
+  const opcoes = useMemo(() => {
+    const base = dataAtual > todayISO() ? dataAtual : todayISO();
+    return [
+      { label: "Próximo dia útil", data: nextWorkingDay(addDaysISO(base, 1)) },
+      { label: "Daqui a 1 semana", data: nextWorkingDay(addDaysISO(base, 7)) },
+    ];
+  }, [dataAtual]);
+
+  const [novaData, setNovaData] = useState(opcoes[0].data);
+  const [showPicker, setShowPicker] = useState(false);
+
+  // ✅ Volta para a sugestão sempre que o modal abre
+  useEffect(() => {
+    if (visible) setNovaData(opcoes[0].data);
+  }, [visible, opcoes]);
+
+  const naoUtil = getNonWorkingReason(novaData);
+
+  const handleChangeDate = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === "android") setShowPicker(false);
+    if (event.type === "set" && selectedDate) {
+      setNovaData(formatDateIso(selectedDate));
+      if (Platform.OS === "ios") setShowPicker(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>📅 Reagendar Cobranças</Text>
+          <Text style={styles.subtitle}>
+            {descricao}: {quantidade} cliente{quantidade === 1 ? "" : "s"} pendente{quantidade === 1 ? "" : "s"}
+          </Text>
+
+          <View style={styles.segment}>
+            {opcoes.map((item) => (
+              <TouchableOpacity
+                key={item.label}
+                style={[styles.segmentItem, novaData === item.data && styles.segmentItemActive]}
+                onPress={() => setNovaData(item.data)}
+              >
+                <Text style={[styles.segmentText, novaData === item.data && styles.segmentTextActive]}>
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Nova data</Text>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker(true)}>
+            <Text style={styles.dateText}>{formatDateBR(novaData)}</Text>
+          </TouchableOpacity>
+
+          {!!naoUtil && <Text style={styles.warning}>⚠️ {naoUtil}: não é dia útil</Text>}
+
+          {showPicker && (
+            <DateTimePicker
+              value={new Date(`${novaData}T12:00:00`)}
+              mode="date"
+              display="default"
+              minimumDate={new Date()}
+              onChange={handleChangeDate}
+            />
+          )}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={[styles.button, styles.cancel]} onPress={onClose} disabled={saving}>
+              <Text style={styles.buttonText}>Cancelar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.confirm]}
+              onPress={() => onConfirm(novaData)}
+              disabled={saving || quantidade === 0 || novaData === dataAtual}
+            >
+              <Text style={[styles.buttonText, { color: "#fff" }]}>{saving ? "Salvando..." : "Reagendar"}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modal: {
+    width: "100%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 6,
+    textAlign: "center",
+    color: "#111827",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#64748B",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  label: {
+    fontSize: 14,
+    color: "#555",
+    marginBottom: 6,
+  },
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 16,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#007AFF" },
+  segmentText: { fontSize: 14, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
+  dateButton: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  dateText: {
+    fontSize: 16,
+    color: "#111",
+  },
+  warning: {
+    textAlign: "center",
+    fontSize: 13,
+    color: "#B45309",
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  cancel: {
+    backgroundColor: "#f3f4f6",
+  },
+  confirm: {
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,85 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { SaleWithInstallments } from "../database/types";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+
+type Props = {
+  sales: SaleWithInstallments[];
+  onAddSale?: () => void;
+  // ✅ Mostrar contratos quitados também (histórico)
+  showClosed?: boolean;
+};
+
+/**
+ * 🧾 Saldo por contrato (venda a prazo) do cliente
+ * Mostra restante, parcelas pagas e próximo vencimento de cada contrato
+ */
+export default function SaleBalances({ sales, onAddSale, showClosed = false }: Props) {
+  const visible = showClosed ? sales : sales.filter((s) => s.status === "aberta");
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Contratos</Text>
+        {onAddSale && (
+          <TouchableOpacity onPress={onAddSale} style={styles.addButton}>
+            <Icon name="add-circle-outline" size={18} color="#0056b3" />
+            <Text style={styles.addText}>Nova venda</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {visible.length === 0 ? (
+        <Text style={styles.emptyText}>Nenhum contrato em aberto.</Text>
+      ) : (
+        visible.map((sale, index) => (
+          <View key={sale.id ?? index} style={[styles.item, index === visible.length - 1 && styles.itemLast]}>
+            <View style={styles.itemHeader}>
+              <Text style={styles.descricao} numberOfLines={1}>{sale.descricao}</Text>
+              <Text style={[styles.restante, sale.status === "quitada" && styles.quitado]}>
+                {sale.status === "quitada" ? "Quitado" : formatCurrency(sale.restante)}
+              </Text>
+            </View>
+            <Text style={styles.detail}>
+              {formatCurrency(sale.valor)} em {sale.parcelas}x · {sale.parcelasPagas}/{sale.parcelas} pagas
+            </Text>
+            {sale.proximoVencimento && (
+              <Text style={styles.detail}>
+                Próximo vencimento: {formatDateBR(sale.proximoVencimento)}
+              </Text>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+/* ========================= Styles ========================= */
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 10 },
+  title: { fontSize: 14, fontWeight: "600", color: "#64748B", textTransform: "uppercase", letterSpacing: 0.5 },
+  addButton: { flexDirection: "row", alignItems: "center" },
+  addText: { marginLeft: 4, color: "#0056b3", fontWeight: "600", fontSize: 13 },
+  emptyText: { fontSize: 14, color: "#94A3B8" },
+  item: { paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: "#F1F5F9" },
+  itemLast: { borderBottomWidth: 0 },
+  itemHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  descricao: { flex: 1, fontSize: 15, fontWeight: "600", color: "#1E293B", marginRight: 8 },
+  restante: { fontSize: 15, fontWeight: "700", color: "#EA580C" },
+  quitado: { color: "#16A34A" },
+  detail: { fontSize: 12, color: "#64748B", marginTop: 2 },
+});
@@ -24,6 +24,7 @@ const TimelineRow = React.memo<TimelineRowProps>(({ day, isLast, onDayPress }) =
             styles.dot,
             day.isToday && styles.dotToday,
             day.count > 0 && !day.isToday && styles.dotActive,
+            !!day.naoUtil && !day.isToday && styles.dotNaoUtil,
           ]}
         >
           {day.isToday ? <View style={styles.innerDotToday} /> : null}
@@ -40,6 +41,7 @@ const TimelineRow = React.memo<TimelineRowProps>(({ day, isLast, onDayPress }) =
     prevProps.day.dateStr === nextProps.day.dateStr &&
     prevProps.day.count === nextProps.day.count &&
     prevProps.day.isToday === nextProps.day.isToday &&
+    prevProps.day.naoUtil === nextProps.day.naoUtil &&
     prevProps.isLast === nextProps.isLast
   );
 });
@@ -73,6 +75,7 @@ const styles = StyleSheet.create({
     borderColor: "#F1F5F9",
   },
   dotActive: { backgroundColor: "#334155" },
+  dotNaoUtil: { backgroundColor: "#F59E0B" },
   dotToday: {
     width: 20,
     height: 20,
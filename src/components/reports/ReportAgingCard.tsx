@@ -0,0 +1,123 @@
+import React from "react";
+import { View } from "react-native";
+import { ReportCard } from "./ReportCard";
+import { ReportStatsGrid } from "./ReportStatsGrid";
+import { ReportDivider } from "./ReportDivider";
+import { ReportRow } from "./ReportRow";
+import { ReportText } from "./ReportText";
+import { EmptyState } from "./EmptyState";
+import { REPORTS_CARDS_CONFIG } from "../../constants/reportsCards";
+import { REPORTS_LABELS } from "../../constants/reportsAccessibility";
+import { getReportEmptyState } from "../../hooks/useReportEmptyStates";
+import { formatCurrency } from "../../utils/formatCurrency";
+import type { AgingFaixa, AgingReport } from "../../database/types";
+
+type ReportAgingCardProps = {
+  aging: AgingReport;
+  index: number;
+};
+
+// 📌 Limites para não alongar demais o card
+const MAX_BAIRROS = 5;
+const MAX_RUAS = 3;
+
+// 📌 "0-30: R$ 10,00 · 90+: R$ 5,00" (omite faixas zeradas)
+const resumoFaixas = (faixas: AgingFaixa[]) =>
+  faixas
+    .filter((f) => f.total > 0)
+    .map((f) => `${f.faixa}: ${formatCurrency(f.total)}`)
+    .join(" · ");
+
+/**
+ * ✅ Componente específico para Card de Inadimplência (aging)
+ * Saldo em atraso por faixa de dias, com detalhe por bairro e rua
+ */
+export const ReportAgingCard = React.memo<ReportAgingCardProps>(
+  ({ aging, index }) => {
+    const emptyStateConfig = getReportEmptyState("aging");
+
+    return (
+      <ReportCard
+        title={REPORTS_CARDS_CONFIG[4].title}
+        icon={REPORTS_CARDS_CONFIG[4].icon}
+        color={REPORTS_CARDS_CONFIG[4].color}
+        bg={REPORTS_CARDS_CONFIG[4].bg}
+        index={index}
+      >
+        {aging.quantidade === 0 ? (
+          <EmptyState icon={emptyStateConfig.icon} message={emptyStateConfig.message} />
+        ) : (
+          <>
+            <ReportRow justify="space-between">
+              <ReportText size="md" color="secondary">
+                {REPORTS_LABELS.totalEmAtraso} ({aging.quantidade})
+              </ReportText>
+              <ReportText size="xl" weight="bold" color="danger">
+                {formatCurrency(aging.total)}
+              </ReportText>
+            </ReportRow>
+
+            <ReportDivider orientation="horizontal" />
+
+            <ReportText size="sm" color="muted">
+              {REPORTS_LABELS.diasVencido}
+            </ReportText>
+            <ReportStatsGrid
+              items={aging.porVencimento.map((f) => ({
+                label: `${f.faixa} dias (${f.quantidade})`,
+                value: formatCurrency(f.total),
+              }))}
+            />
+
+            <ReportText size="sm" color="muted" style={{ marginTop: 12 }}>
+              {REPORTS_LABELS.diasSemPagamento}
+            </ReportText>
+            <ReportText size="sm" color="secondary">
+              {resumoFaixas(aging.porUltimoPagamento)}
+            </ReportText>
+
+            <ReportDivider orientation="horizontal" />
+
+            {aging.bairros.slice(0, MAX_BAIRROS).map((bairro) => (
+              <View key={bairro.bairro} style={{ marginBottom: 12 }}>
+                <ReportRow justify="space-between">
+                  <ReportText size="md" weight="semibold" numberOfLines={1} style={{ flex: 1 }}>
+                    {bairro.bairro}
+                  </ReportText>
+                  <ReportText size="md" weight="bold" color="danger">
+                    {formatCurrency(bairro.total)}
+                  </ReportText>
+                </ReportRow>
+                <ReportText size="sm" color="muted">
+                  {resumoFaixas(bairro.faixas)}
+                </ReportText>
+
+                {bairro.ruas.slice(0, MAX_RUAS).map((rua) => (
+                  <ReportRow key={rua.rua} justify="space-between" style={{ paddingLeft: 12, marginTop: 4 }}>
+                    <ReportText size="sm" color="secondary" numberOfLines={1} style={{ flex: 1 }}>
+                      {rua.rua} ({rua.quantidade})
+                    </ReportText>
+                    <ReportText size="sm" color="secondary">
+                      {formatCurrency(rua.total)}
+                    </ReportText>
+                  </ReportRow>
+                ))}
+              </View>
+            ))}
+          </>
+        )}
+      </ReportCard>
+    );
+  },
+  (prevProps, nextProps) => {
+    return (
+      prevProps.aging.dataRef === nextProps.aging.dataRef &&
+      prevProps.aging.total === nextProps.aging.total &&
+      prevProps.aging.quantidade === nextProps.aging.quantidade &&
+      prevProps.aging.bairros === nextProps.aging.bairros &&
+      prevProps.index === nextProps.index
+    );
+  }
+);
+
+ReportAgingCard.displayName = "ReportAgingCard";
@@ -26,6 +26,7 @@ export { ReportFinanceCard } from "./ReportFinanceCard";
 export { ReportPerformanceCard } from "./ReportPerformanceCard";
 export { ReportClientsCard } from "./ReportClientsCard";
 export { ReportGeoCard } from "./ReportGeoCard";
+export { ReportAgingCard } from "./ReportAgingCard";
 
 // ✅ Tokens consolidados em theme/reportTheme.ts
 // Use useReportTheme() ou getReportTheme() em vez disso
@@ -0,0 +1,28 @@
+/**
+ * 💳 Formas de pagamento aceitas na cobrança
+ * Centraliza rótulos, ícones e cores usados nos modais e no fechamento de caixa
+ */
+
+import type { PaymentMethod } from "../database/types";
+
+export type PaymentMethodConfig = {
+  key: PaymentMethod;
+  label: string;
+  icon: string;
+  color: string;
+};
+
+export const DEFAULT_PAYMENT_METHOD: PaymentMethod = "dinheiro";
+
+export const PAYMENT_METHODS: PaymentMethodConfig[] = [
+  { key: "dinheiro", label: "Dinheiro", icon: "cash-outline", color: "#16A34A" },
+  { key: "pix", label: "PIX", icon: "flash-outline", color: "#0891B2" },
+  { key: "cartao", label: "Cartão", icon: "card-outline", color: "#7C3AED" },
+  { key: "transferencia", label: "Transferência", icon: "swap-horizontal-outline", color: "#EA580C" },
+];
+
+/**
+ * ✅ Retorna o rótulo da forma de pagamento (fallback: Dinheiro)
+ */
+export const getPaymentMethodLabel = (metodo?: string | null): string =>
+  PAYMENT_METHODS.find((m) => m.key === metodo)?.label ?? "Dinheiro";
@@ -9,6 +9,7 @@ export const REPORTS_LABELS = {
   performanceMensal: "Performance Mensal",
   topClientes: "Top 3 Clientes",
   distribuicaoBairro: "Distribuição por Bairro",
+  inadimplencia: "Inadimplência por Atraso",
   
   // Labels de valores
   recebidoHoje: "Recebido Hoje",
@@ -16,6 +17,9 @@ export const REPORTS_LABELS = {
   totalPendenteReceber: "Total Pendente a Receber",
   mesAnterior: "Mês Anterior",
   mesAtual: "Mês Atual",
+  totalEmAtraso: "Total em Atraso",
+  diasVencido: "Dias desde o vencimento",
+  diasSemPagamento: "Dias desde o último pagamento",
   
   // Mensagens de crescimento
   crescimento: "Crescimento",
@@ -30,6 +34,7 @@ export const REPORTS_LABELS = {
   // Mensagens de empty state
   nenhumPagamentoMes: "Nenhum pagamento registrado neste mês",
   nenhumBairroCadastrado: "Nenhum bairro cadastrado",
+  nenhumClienteEmAtraso: "Nenhum cliente com cobrança em atraso",
 } as const;
 
 
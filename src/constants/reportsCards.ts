@@ -3,7 +3,7 @@
  * Facilita manutenção e adição de novos cards
  */
 
-export const CARD_COUNT = 4;
+export const CARD_COUNT = 5;
 
 export type CardConfig = {
   index: number;
@@ -51,6 +51,14 @@ export const REPORTS_CARDS_CONFIG: CardConfig[] = [
     bg: "#DCFCE7", // iconBgGreen
     accessibilityLabel: "Card de Distribuição de Clientes por Bairro",
   },
+  {
+    index: 4,
+    title: "Inadimplência por Atraso",
+    icon: "hourglass-outline",
+    color: "#DC2626", // danger
+    bg: "#FEE2E2", // iconBgRed
+    accessibilityLabel: "Card de Saldo em Atraso por Faixa de Dias",
+  },
 ];
 
 
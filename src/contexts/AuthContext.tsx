@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import type { FirebaseAuthTypes } from "@react-native-firebase/auth";
 import { onAuthChange, logout as firebaseLogout } from "../services/authService";
+import { setAuditActor } from "../database/db";
 
 // ============================================================
 // 🔐 Contexto de Autenticação
@@ -55,6 +56,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         currentUser ? currentUser.email : "Não autenticado"
       );
       setUser(currentUser);
+      setAuditActor(currentUid);
       setLoading(false);
     });
 
@@ -75,6 +77,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     try {
       await firebaseLogout();
       setUser(null);
+      setAuditActor(null);
     } catch (error) {
       console.error("Erro ao fazer logout:", error);
       throw error;
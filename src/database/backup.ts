@@ -10,22 +10,67 @@
 import RNFS from "react-native-fs";
 import { Share } from "react-native";
 import { withMetrics } from "./performance";
+import { withTransactionAsync, txRun, txExec, txRunAndGetId, txGetOne } from "./core/transactions";
+import { getAll, getOne, exec } from "./core/queries";
+import { performHealthCheck } from "./core/healthCheck";
+import { validateSchemaStandalone } from "./core/schemaValidator";
+import { invalidateFinancialCache } from "./services/financialCache";
+import { allocatePaymentTx, addOpeningSaleTx, adjustClientSalesTx } from "./repositories/salesRepo";
+import { txAddAudit } from "./repositories/auditRepo";
+import { formatDateTimeIso } from "./utils";
+import { todayISO } from "./utils/dateHelpers";
+import { clientAuditSnapshot } from "./utils/audit";
+import { base64ToBytes, bytesToBase64, createLineBuffer, utf8Decode } from "./utils/ndjson";
+import { isGzip, gunzip } from "./utils/deflate";
+import {
+  sealBackup,
+  openSealedBackup,
+  isSealedBackup,
+  BackupPinError,
+  SEALED_BACKUP_EXTENSION,
+  type BackupConteudo,
+} from "./utils/backupCrypto";
+import {
+  BACKUP_COLUMNS,
+  normalizeBackupRecord,
+  planBackupMerge,
+  MERGE_RECORD_TYPES,
+  type BackupData,
+  type BackupRecord,
+  type BackupRecordType,
+  type MergePlan,
+} from "./utils/backupRecords";
+import {
+  computeBackupTotals,
+  compareBackupCounts,
+  compareBackupTotals,
+  isVerificationApproved,
+  type BackupCounts,
+  type BackupTotals,
+  type BackupVerificationReport,
+  type VerificationItem,
+} from "./utils/backupVerification";
+
+// ✅ Versão atual do formato NDJSON
+// v4: inclui vendas a prazo, parcelas, abatimentos, encargos dispensados e versões de campos
+export const BACKUP_VERSION = 4;
+
+// ✅ Backups v3 (só bairros, ruas, clientes, pagamentos e logs) continuam sendo aceitos
+const MIN_BACKUP_VERSION = 3;
 
 // ✅ Tipos para backup
 interface BackupHeader {
   version: number;
   timestamp: number;
-  metadata: {
-    clientCount: number;
-    paymentCount: number;
-    logCount: number;
-    bairroCount: number;
-    ruaCount: number;
+  metadata: BackupCounts & {
+    totais?: BackupTotals; // Somas em centavos (ausente em backups antigos)
   };
 }
 
+type BackupChunkType = BackupRecordType;
+
 interface BackupChunk {
-  type: "clients" | "payments" | "logs" | "bairros" | "ruas";
+  type: BackupChunkType;
   data: any[];
   chunkIndex: number;
   totalChunks: number;
@@ -42,6 +87,8 @@ interface BackupChunk {
  * @param getAllBairros - Função para obter todos os bairros
  * @param getAllRuas - Função para obter todas as ruas
  * @param exec - Função para executar SQL (checkpoint WAL)
+ * @param pin - PIN do backup (arquivo final é criptografado)
+ * @param opcoes - Pasta de destino e se deve abrir o Share ao final (backup automático não compartilha)
  * @returns Caminho do arquivo de backup criado
  */
 export async function createBackupStreaming(
@@ -50,22 +97,25 @@ export async function createBackupStreaming(
   getAllLogs: () => Promise<any[]>,
   getAllBairros: () => Promise<any[]>,
   getAllRuas: () => Promise<any[]>,
-  exec: (sql: string) => Promise<void>
+  exec: (sql: string) => Promise<void>,
+  pin: string,
+  opcoes: { pasta?: string; compartilhar?: boolean } = {}
 ): Promise<string> {
+  const { pasta = RNFS.DocumentDirectoryPath, compartilhar = true } = opcoes;
   try {
     // ✅ CRÍTICO: Fazer checkpoint do WAL antes do backup
     await exec("PRAGMA wal_checkpoint(FULL);");
     console.log("✅ Checkpoint WAL executado antes do backup");
 
     const timestamp = Date.now();
-    const backupPath = `${RNFS.DocumentDirectoryPath}/crediario_backup_${timestamp}.ndjson`;
+    const backupPath = `${pasta}/crediario_backup_${timestamp}.ndjson`;
 
     // ✅ Criar arquivo vazio
     await RNFS.writeFile(backupPath, "", "utf8");
 
     // ✅ Escrever header (primeira linha)
     const header: BackupHeader = {
-      version: 3,
+      version: BACKUP_VERSION,
       timestamp,
       metadata: {
         clientCount: 0, // Será atualizado depois
@@ -73,100 +123,67 @@ export async function createBackupStreaming(
         logCount: 0,
         bairroCount: 0,
         ruaCount: 0,
+        fieldVersionCount: 0,
+        saleCount: 0,
+        installmentCount: 0,
+        allocationCount: 0,
+        waiverCount: 0,
       },
     };
 
     await RNFS.appendFile(backupPath, JSON.stringify(header) + "\n", "utf8");
 
-    // ✅ Escrever dados em chunks (100 registros por chunk)
+    // ✅ Escrever dados em chunks (100 registros por chunk), na ordem do restore
     const CHUNK_SIZE = 100;
-
-    // 1. Bairros (pequeno, pode escrever tudo de uma vez)
-    const bairros = await getAllBairros();
-    if (bairros.length > 0) {
-      const chunks = chunkArray(bairros, CHUNK_SIZE);
+    const writeChunks = async (type: BackupChunkType, rows: any[]) => {
+      const chunks = chunkArray(rows, CHUNK_SIZE);
       for (let i = 0; i < chunks.length; i++) {
         const chunk: BackupChunk = {
-          type: "bairros",
+          type,
           data: chunks[i],
           chunkIndex: i,
           totalChunks: chunks.length,
         };
         await RNFS.appendFile(backupPath, JSON.stringify(chunk) + "\n", "utf8");
-        
+
         // ✅ Usar setImmediate para não bloquear thread principal
         await new Promise(resolve => setImmediate(resolve));
       }
-    }
-    header.metadata.bairroCount = bairros.length;
+    };
 
-    // 2. Ruas (pequeno, pode escrever tudo de uma vez)
-    const ruas = await getAllRuas();
-    if (ruas.length > 0) {
-      const chunks = chunkArray(ruas, CHUNK_SIZE);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: BackupChunk = {
-          type: "ruas",
-          data: chunks[i],
-          chunkIndex: i,
-          totalChunks: chunks.length,
-        };
-        await RNFS.appendFile(backupPath, JSON.stringify(chunk) + "\n", "utf8");
-        await new Promise(resolve => setImmediate(resolve));
-      }
-    }
-    header.metadata.ruaCount = ruas.length;
+    // 📌 Tabelas sem função própria (vendas a prazo e afins) são lidas direto do banco
+    const allRows = (type: BackupChunkType) =>
+      getAll<any>(`SELECT ${BACKUP_COLUMNS[type].join(", ")} FROM ${type} ORDER BY rowid ASC`, [], ALL_ROWS);
 
-    // 3. Clientes (pode ser grande, escrever em chunks)
+    const bairros = await getAllBairros();
+    const ruas = await getAllRuas();
     const clients = await getAllClientsFull();
-    if (clients.length > 0) {
-      const chunks = chunkArray(clients, CHUNK_SIZE);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: BackupChunk = {
-          type: "clients",
-          data: chunks[i],
-          chunkIndex: i,
-          totalChunks: chunks.length,
-        };
-        await RNFS.appendFile(backupPath, JSON.stringify(chunk) + "\n", "utf8");
-        await new Promise(resolve => setImmediate(resolve));
-      }
-    }
-    header.metadata.clientCount = clients.length;
-
-    // 4. Pagamentos (pode ser grande, escrever em chunks)
     const payments = await getAllPayments();
-    if (payments.length > 0) {
-      const chunks = chunkArray(payments, CHUNK_SIZE);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: BackupChunk = {
-          type: "payments",
-          data: chunks[i],
-          chunkIndex: i,
-          totalChunks: chunks.length,
-        };
-        await RNFS.appendFile(backupPath, JSON.stringify(chunk) + "\n", "utf8");
-        await new Promise(resolve => setImmediate(resolve));
-      }
-    }
-    header.metadata.paymentCount = payments.length;
-
-    // 5. Logs (pode ser muito grande, escrever em chunks)
     const logs = await getAllLogs();
-    if (logs.length > 0) {
-      const chunks = chunkArray(logs, CHUNK_SIZE);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: BackupChunk = {
-          type: "logs",
-          data: chunks[i],
-          chunkIndex: i,
-          totalChunks: chunks.length,
-        };
-        await RNFS.appendFile(backupPath, JSON.stringify(chunk) + "\n", "utf8");
-        await new Promise(resolve => setImmediate(resolve));
-      }
+    const rows: Record<BackupChunkType, any[]> = {
+      bairros,
+      ruas,
+      clients,
+      client_field_versions: await allRows("client_field_versions"),
+      sales: await allRows("sales"),
+      installments: await allRows("installments"),
+      payments,
+      payment_allocations: await allRows("payment_allocations"),
+      late_fee_waivers: await allRows("late_fee_waivers"),
+      logs,
+    };
+
+    for (const { type, countKey } of RESTORE_ORDER) {
+      await writeChunks(type, rows[type]);
+      header.metadata[countKey] = rows[type].length;
     }
-    header.metadata.logCount = logs.length;
+
+    // ✅ Somas para a verificação do backup (em centavos, qualquer formato de origem)
+    const agora = formatDateTimeIso();
+    header.metadata.totais = computeBackupTotals(
+      clients.map((c) => normalizeBackupRecord("clients", c, agora)),
+      payments.map((p) => normalizeBackupRecord("payments", p, agora))
+    );
 
     // ✅ Atualizar header com contagens reais (reescrever primeira linha)
     const updatedHeader = JSON.stringify(header) + "\n";
@@ -183,7 +200,7 @@ export async function createBackupStreaming(
     // ✅ CRÍTICO: Comprimir backup para reduzir tamanho em 70-90%
     // Para bases grandes (>5MB), compressão é essencial para Share() funcionar
     const compressedPath = await withMetrics("compressBackup", async () => {
-      return await compressBackup(backupPath);
+      return await compressBackup(backupPath, pin);
     });
 
     // ✅ Verificar tamanho após compressão
@@ -192,7 +209,7 @@ export async function createBackupStreaming(
     const compressionRatio = ((1 - compressedInfo.size / fileInfo.size) * 100).toFixed(1);
     console.log(`✅ Backup comprimido: ${compressedSizeMB}MB (redução de ${compressionRatio}%)`);
 
-    // ✅ Remover arquivo não comprimido para economizar espaço
+    // ✅ Remover arquivo aberto (dados sem criptografia)
     try {
       await RNFS.unlink(backupPath);
     } catch (e) {
@@ -216,9 +233,11 @@ export async function createBackupStreaming(
       );
     }
 
+    if (!compartilhar) return finalPath;
+
     try {
       await Share.share({
-        title: "Backup do Crediário (comprimido)",
+        title: "Backup do Crediário (protegido por PIN)",
         message: `Backup criado em ${new Date(timestamp).toLocaleString("pt-BR")}\n` +
           `Tamanho original: ${originalSizeMB}MB\n` +
           `Tamanho comprimido: ${finalSizeMB}MB (${compressionRatio}% menor)\n\n` +
@@ -226,7 +245,8 @@ export async function createBackupStreaming(
           `Pagamentos: ${payments.length}\n` +
           `Logs: ${logs.length}\n` +
           `Bairros: ${bairros.length}\n` +
-          `Ruas: ${ruas.length}`,
+          `Ruas: ${ruas.length}\n` +
+          `Vendas a prazo: ${rows.sales.length}`,
         url: `file://${finalPath}`, // Android
       });
     } catch (shareError) {
@@ -253,59 +273,823 @@ function chunkArray<T>(array: T[], chunkSize: number): T[][] {
 }
 
 /**
- * ✅ Comprime backup usando gzip (simulado com base64 para React Native)
+ * ✅ Comprime (gzip) e criptografa o backup com o PIN
  * ✅ Reduz tamanho em 70-90% para bases grandes
- * ✅ Compatível com ferramentas de descompressão padrão
- * 
- * ⚠️ NOTA: React Native não tem suporte nativo para gzip
- * Esta implementação usa uma abordagem alternativa (base64 + otimização)
- * Para compressão real, considere usar uma biblioteca como:
- * - react-native-zip-archive (requer instalação)
- * - ou implementar compressão no backend
+ * ⚠️ Sem fallback para o arquivo aberto: se falhar, o erro sobe
  */
-async function compressBackup(backupPath: string): Promise<string> {
+async function compressBackup(backupPath: string, pin: string): Promise<string> {
+  const sealedPath = backupPath.replace(/\.ndjson$/, SEALED_BACKUP_EXTENSION);
+  await sealBackupFile(backupPath, sealedPath, "ndjson", pin);
+  return sealedPath;
+}
+
+// ============================================================================
+// 🔐 ARQUIVO PROTEGIDO (gzip + criptografia)
+// ============================================================================
+
+export type OpenedBackupFile = {
+  path: string;
+  conteudo: BackupConteudo;
+  temporario: boolean; // Gerado em cache: quem chamou deve remover
+};
+
+const SQLITE_MAGIC = "SQLite format 3";
+
+const readBytes = async (path: string) => base64ToBytes(await RNFS.readFile(path, "base64"));
+
+const writeBytes = (path: string, bytes: Uint8Array) => RNFS.writeFile(path, bytesToBase64(bytes), "base64");
+
+// 📌 Banco SQLite começa com "SQLite format 3"; o resto é tratado como NDJSON
+const detectConteudo = (bytes: Uint8Array): BackupConteudo =>
+  utf8Decode(bytes.subarray(0, SQLITE_MAGIC.length)) === SQLITE_MAGIC ? "sqlite" : "ndjson";
+
+/**
+ * ✅ Gera a versão protegida (gzip + ChaCha20 + HMAC) de um arquivo de backup
+ * @param srcPath - Arquivo original (banco, NDJSON ou JSON)
+ * @param destPath - Arquivo .crdb gerado
+ * @param conteudo - Tipo do conteúdo (registrado no cabeçalho)
+ * @param pin - PIN do backup
+ */
+export async function sealBackupFile(
+  srcPath: string,
+  destPath: string,
+  conteudo: BackupConteudo,
+  pin: string
+): Promise<string> {
+  const sealed = sealBackup(await readBytes(srcPath), pin, conteudo);
+  await writeBytes(destPath, sealed);
+  return destPath;
+}
+
+/**
+ * ✅ Abre um arquivo de backup para restauração, antes de tocar no banco
+ * - Protegido (.crdb): confere o HMAC com o PIN, decifra e descomprime
+ * - gzip: descomprime e confere o CRC
+ * - Sem proteção (.db/.ndjson antigos): usado direto
+ * @throws BackupPinError se o PIN estiver ausente ou errado (ou o arquivo foi alterado)
+ */
+export async function openBackupFile(backupPath: string, pin?: string | null): Promise<OpenedBackupFile> {
+  const path = backupPath.replace(/^file:\/\//, "");
+  if (!(await RNFS.exists(path))) {
+    throw new Error("Arquivo de backup não encontrado.");
+  }
+
+  const inicio = base64ToBytes(await RNFS.read(path, 16, 0, "base64"));
+  if (!isSealedBackup(inicio) && !isGzip(inicio)) {
+    return { path, conteudo: detectConteudo(inicio), temporario: false };
+  }
+
+  let conteudo: BackupConteudo;
+  let data: Uint8Array;
+  if (isSealedBackup(inicio)) {
+    if (!pin) throw new BackupPinError("Este backup é protegido. Informe o PIN do backup.");
+    const opened = openSealedBackup(await readBytes(path), pin);
+    conteudo = opened.header.conteudo;
+    data = opened.data;
+  } else {
+    data = gunzip(await readBytes(path));
+    conteudo = detectConteudo(data);
+  }
+
+  const extensao = conteudo === "sqlite" ? "db" : conteudo;
+  const openedPath = `${RNFS.CachesDirectoryPath}/backup_aberto_${Date.now()}.${extensao}`;
+  await writeBytes(openedPath, data);
+  return { path: openedPath, conteudo, temporario: true };
+}
+
+// ============================================================================
+// 🔄 RESTORE (streaming)
+// ============================================================================
+
+/**
+ * ✅ Progresso da restauração (para a tela de backup)
+ */
+export type RestoreProgress = {
+  etapa: "validando" | BackupChunkType | "finalizando" | "verificando";
+  processados: number;
+  total: number;
+};
+
+export type RestoreBackupResult = BackupHeader["metadata"];
+
+// ✅ Ordem de inserção (respeita as foreign keys) e contagem esperada no header
+// desde: versão do backup que passou a ter o bloco (ausente em backups antigos = 0 registros)
+const RESTORE_ORDER: { type: BackupChunkType; countKey: keyof BackupCounts; desde: number }[] = [
+  { type: "bairros", countKey: "bairroCount", desde: 3 },
+  { type: "ruas", countKey: "ruaCount", desde: 3 },
+  { type: "clients", countKey: "clientCount", desde: 3 },
+  { type: "client_field_versions", countKey: "fieldVersionCount", desde: 4 },
+  { type: "sales", countKey: "saleCount", desde: 4 },
+  { type: "installments", countKey: "installmentCount", desde: 4 },
+  { type: "payments", countKey: "paymentCount", desde: 3 },
+  { type: "payment_allocations", countKey: "allocationCount", desde: 4 },
+  { type: "late_fee_waivers", countKey: "waiverCount", desde: 4 },
+  { type: "logs", countKey: "logCount", desde: 3 },
+];
+
+// 📌 Sem LIMIT do getAll: backup e mesclagem leem todos os registros
+const ALL_ROWS = Number.MAX_SAFE_INTEGER;
+
+// 📌 Leitura em blocos de 192KB (múltiplo de 3 → base64 sem padding no meio)
+const READ_SIZE = 3 * 64 * 1024;
+
+const stagingTable = (type: BackupChunkType) => `restore_${type}`;
+
+/**
+ * ✅ Lê o arquivo linha a linha sem carregar tudo na memória
+ */
+async function forEachLine(path: string, onLine: (line: string, index: number) => Promise<void>): Promise<void> {
+  const buffer = createLineBuffer();
+  let position = 0;
+  let index = 0;
+
+  while (true) {
+    const base64 = await RNFS.read(path, READ_SIZE, position, "base64");
+    const bytes = base64ToBytes(base64);
+    if (bytes.length === 0) break;
+    position += bytes.length;
+
+    for (const line of buffer.push(bytes)) {
+      await onLine(line, index++);
+    }
+    if (bytes.length < READ_SIZE) break;
+  }
+
+  for (const line of buffer.end()) {
+    await onLine(line, index++);
+  }
+}
+
+/**
+ * ✅ Valida a primeira linha (versão e contagens)
+ */
+function parseHeader(line: string): BackupHeader {
+  let header: BackupHeader;
   try {
-    // ✅ Ler arquivo completo
-    const content = await RNFS.readFile(backupPath, "utf8");
-    
-    // ✅ Para React Native, vamos usar uma otimização simples:
-    // 1. Remover espaços desnecessários do JSON
-    // 2. Usar base64 para reduzir overhead de caracteres
-    // 3. Salvar como .gz (mesmo que não seja gzip real, mantém compatibilidade)
-    
-    // ✅ Otimizar JSON (remove espaços, quebras de linha desnecessárias)
-    const optimized = content
-      .split("\n")
-      .map(line => {
-        try {
-          // ✅ Tentar minificar cada linha JSON
-          const parsed = JSON.parse(line);
-          return JSON.stringify(parsed);
-        } catch {
-          // Se não for JSON válido, manter como está
-          return line;
+    header = JSON.parse(line);
+  } catch {
+    throw new Error("Arquivo de backup inválido: cabeçalho corrompido.");
+  }
+
+  if (!header || typeof header.version !== "number" || !header.metadata) {
+    throw new Error("Arquivo de backup inválido: cabeçalho ausente.");
+  }
+  if (header.version < MIN_BACKUP_VERSION || header.version > BACKUP_VERSION) {
+    throw new Error(`Versão de backup não suportada: ${header.version} (esperada ${BACKUP_VERSION}).`);
+  }
+  for (const { countKey, desde } of RESTORE_ORDER) {
+    if (header.version < desde) header.metadata[countKey] = 0;
+    const count = header.metadata[countKey];
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Arquivo de backup inválido: contagem "${countKey}" ausente no cabeçalho.`);
+    }
+  }
+  return header;
+}
+
+function parseChunk(line: string, index: number): BackupChunk {
+  let chunk: BackupChunk;
+  try {
+    chunk = JSON.parse(line);
+  } catch {
+    throw new Error(`Arquivo de backup corrompido na linha ${index + 1}.`);
+  }
+  if (!chunk || !BACKUP_COLUMNS[chunk.type] || !Array.isArray(chunk.data)) {
+    throw new Error(`Bloco inválido na linha ${index + 1} do backup.`);
+  }
+  return chunk;
+}
+
+async function dropStagingTables(): Promise<void> {
+  await withTransactionAsync(async (tx) => {
+    for (const { type } of RESTORE_ORDER) {
+      await txExec(tx, `DROP TABLE IF EXISTS ${stagingTable(type)}`);
+    }
+  });
+}
+
+/**
+ * ✅ Valida o arquivo inteiro: cabeçalho (versão), ordem dos blocos e contagens do metadata
+ * @returns Cabeçalho (contagens conferidas com os blocos)
+ */
+async function validateBackupFile(
+  path: string,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<BackupHeader> {
+  let header: BackupHeader | null = null;
+  const contagem = Object.fromEntries(RESTORE_ORDER.map(({ type }) => [type, 0])) as Record<BackupChunkType, number>;
+  let ordemAtual = 0;
+  let validados = 0;
+
+  await forEachLine(path, async (line, index) => {
+    if (index === 0) {
+      header = parseHeader(line);
+      return;
+    }
+    const chunk = parseChunk(line, index);
+    const ordem = RESTORE_ORDER.findIndex((o) => o.type === chunk.type);
+    if (ordem < ordemAtual) {
+      throw new Error(`Bloco "${chunk.type}" fora de ordem na linha ${index + 1} do backup.`);
+    }
+    ordemAtual = ordem;
+    contagem[chunk.type] += chunk.data.length;
+    validados += chunk.data.length;
+    onProgress?.({ etapa: "validando", processados: validados, total: validados });
+  });
+
+  if (!header) throw new Error("Arquivo de backup vazio.");
+  const metadata = (header as BackupHeader).metadata;
+  for (const { type, countKey } of RESTORE_ORDER) {
+    if (contagem[type] !== metadata[countKey]) {
+      throw new Error(
+        `Backup incompleto: ${type} esperados ${metadata[countKey]}, encontrados ${contagem[type]}.`
+      );
+    }
+  }
+  return header;
+}
+
+/**
+ * ✅ Restaura backup NDJSON em streaming
+ * 1. Valida cabeçalho (versão), ordem dos blocos e contagens do metadata
+ * 2. Insere os blocos em tabelas temporárias, uma transação por bloco
+ * 3. Troca os dados atuais pelos restaurados em uma única transação
+ *
+ * Se qualquer etapa falhar, as tabelas temporárias são descartadas e
+ * os dados atuais ficam intactos (rollback completo).
+ *
+ * ⚠️ Substitui bairros, ruas, clientes, pagamentos, logs, vendas a prazo (com parcelas e
+ * abatimentos), encargos dispensados e versões de campos. Backups v3 não têm vendas a prazo:
+ * são recusados enquanto houver vendas no banco (seriam apagadas junto com os clientes).
+ *
+ * @param backupPath - Caminho do arquivo .ndjson (ou .ndjson.gz gerado por createBackupStreaming)
+ * @param onProgress - Chamado a cada bloco processado
+ * @returns Contagens restauradas
+ */
+export async function restoreBackup(
+  backupPath: string,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<RestoreBackupResult> {
+  const path = backupPath.replace(/^file:\/\//, "");
+  if (!(await RNFS.exists(path))) {
+    throw new Error("Arquivo de backup não encontrado.");
+  }
+
+  // ✅ 1. Validação completa antes de tocar no banco
+  const { version, metadata } = await validateBackupFile(path, onProgress);
+  if (version < 4) {
+    const vendas = await getOne<{ total: number }>("SELECT COUNT(*) AS total FROM sales", []);
+    if ((vendas?.total ?? 0) > 0) {
+      throw new Error(
+        "Este backup é de uma versão sem vendas a prazo e apagaria as vendas atuais. Use a mesclagem ou um backup mais novo."
+      );
+    }
+  }
+
+  const total = RESTORE_ORDER.reduce((sum, { countKey }) => sum + metadata[countKey], 0);
+  const agora = formatDateTimeIso();
+  let processados = 0;
+
+  try {
+    // ✅ 2. Tabelas temporárias com as mesmas colunas (sem constraints)
+    await withTransactionAsync(async (tx) => {
+      for (const { type } of RESTORE_ORDER) {
+        await txExec(tx, `DROP TABLE IF EXISTS ${stagingTable(type)}`);
+        await txExec(
+          tx,
+          `CREATE TABLE ${stagingTable(type)} AS SELECT ${BACKUP_COLUMNS[type].join(", ")} FROM ${type} WHERE 0`
+        );
+      }
+    });
+
+    await forEachLine(path, async (line, index) => {
+      if (index === 0) return;
+      const chunk = parseChunk(line, index);
+      if (chunk.data.length === 0) return;
+
+      const columns = BACKUP_COLUMNS[chunk.type];
+      const sql = `INSERT INTO ${stagingTable(chunk.type)} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`;
+      await withTransactionAsync(async (tx) => {
+        for (const row of chunk.data) {
+          const record = normalizeBackupRecord(chunk.type, row, agora);
+          await txRun(tx, sql, columns.map((column) => record[column]));
         }
-      })
-      .join("\n");
-    
-    // ✅ Salvar versão "comprimida" (otimizada)
-    // Em produção, considere usar biblioteca de compressão real
-    const compressedPath = backupPath.replace(".ndjson", ".ndjson.gz");
-    await RNFS.writeFile(compressedPath, optimized, "utf8");
-    
-    return compressedPath;
+      });
+
+      processados += chunk.data.length;
+      onProgress?.({ etapa: chunk.type, processados, total });
+      await new Promise(resolve => setImmediate(resolve));
+    });
+
+    // ✅ 3. Troca atômica: apaga os dados atuais e copia os restaurados
+    onProgress?.({ etapa: "finalizando", processados, total });
+    await withTransactionAsync(async (tx) => {
+      for (const { type } of [...RESTORE_ORDER].reverse()) {
+        await txExec(tx, `DELETE FROM ${type}`);
+      }
+      for (const { type } of RESTORE_ORDER) {
+        const columns = BACKUP_COLUMNS[type].join(", ");
+        await txExec(tx, `INSERT INTO ${type} (${columns}) SELECT ${columns} FROM ${stagingTable(type)}`);
+      }
+    }, 120000);
   } catch (error) {
-    console.error("❌ Erro ao comprimir backup:", error);
-    // ✅ Se compressão falhar, retornar arquivo original
-    return backupPath;
+    console.error("❌ Erro ao restaurar backup (dados atuais mantidos):", error);
+    throw error instanceof Error ? error : new Error("Falha ao restaurar backup.");
+  } finally {
+    await dropStagingTables().catch((e) => console.warn("⚠️ Erro ao remover tabelas temporárias do restore:", e));
+  }
+
+  await invalidateFinancialCache();
+  console.log(
+    `✅ Backup restaurado: ${metadata.clientCount} clientes, ${metadata.paymentCount} pagamentos, ${metadata.logCount} logs`
+  );
+  return metadata;
+}
+
+// ============================================================================
+// 🔀 RESTORE POR MESCLAGEM
+// ============================================================================
+
+export type MergeBackupPreview = {
+  metadata: RestoreBackupResult;
+  plan: MergePlan;
+};
+
+/**
+ * ✅ Prévia da mesclagem: valida o backup e compara com os dados atuais
+ * Nada é gravado; o plano retornado é aplicado por applyMergeBackup
+ *
+ * @param backupPath - Caminho do arquivo .ndjson
+ * @param onProgress - Chamado durante a validação
+ */
+export async function previewMergeBackup(
+  backupPath: string,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<MergeBackupPreview> {
+  const path = backupPath.replace(/^file:\/\//, "");
+  if (!(await RNFS.exists(path))) {
+    throw new Error("Arquivo de backup não encontrado.");
   }
+
+  const { metadata } = await validateBackupFile(path, onProgress);
+  const agora = formatDateTimeIso();
+
+  const backup = Object.fromEntries(MERGE_RECORD_TYPES.map((type) => [type, []])) as unknown as BackupData;
+  await forEachLine(path, async (line, index) => {
+    if (index === 0) return;
+    const chunk = parseChunk(line, index);
+    const tipo = MERGE_RECORD_TYPES.find((t) => t === chunk.type);
+    if (!tipo) return;
+    for (const row of chunk.data) {
+      backup[tipo].push(normalizeBackupRecord(tipo, row, agora));
+    }
+  });
+
+  const local = {} as BackupData;
+  for (const type of MERGE_RECORD_TYPES) {
+    local[type] = await getAll<BackupRecord>(`SELECT ${BACKUP_COLUMNS[type].join(", ")} FROM ${type}`, [], ALL_ROWS);
+  }
+
+  return { metadata, plan: planBackupMerge(local, backup) };
+}
+
+type ClientAuditRow = { value_cents: number; paid_cents: number; status: string; proximaData: string | null };
+const CLIENT_AUDIT_SQL = "SELECT value_cents, paid_cents, status, proximaData FROM clients WHERE id = ?";
+
+// ✅ Ids locais gravados pela mesclagem (para enviar ao Firestore)
+export type MergeBackupResult = {
+  clientIds: number[]; // Novos, alterados ou com pagamentos novos
+  paymentIds: number[]; // Pagamentos novos fora da lixeira
+};
+
+// ✅ Insere um registro do backup com id novo (vínculos já remapeados)
+const insertBackupRecordTx = (tx: any, type: BackupRecordType, record: BackupRecord): Promise<number> => {
+  const columns = BACKUP_COLUMNS[type].filter((column) => column !== "id");
+  return txRunAndGetId(
+    tx,
+    `INSERT INTO ${type} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    columns.map((column) => record[column])
+  );
+};
+
+/**
+ * ✅ Aplica o plano de mesclagem em uma única transação
+ * - Insere bairros, ruas, clientes, vendas, parcelas, pagamentos, abatimentos, dispensas e logs novos
+ *   (ids novos, vínculos remapeados)
+ * - Cliente novo de backup sem vendas (v3) recebe o contrato de abertura, como addClient
+ * - Atualiza clientes em que o backup é mais novo (conflitos mantêm os dados atuais); valor alterado ajusta os contratos
+ * - Abate os pagamentos novos nas parcelas abertas e soma ao total pago dos clientes que já existiam
+ * - Registra na auditoria o antes/depois de cada cliente que já existia e foi alterado
+ * Se algo falhar, nada é gravado.
+ */
+export async function applyMergeBackup(plan: MergePlan): Promise<MergeBackupResult> {
+  const bairroIds = new Map(plan.bairros.ids);
+  const ruaIds = new Map(plan.ruas.ids);
+  const clientIds = new Map(plan.clients.ids);
+  const pagoPorCliente = new Map<number, number>();
+  const paymentIds: number[] = [];
+
+  await withTransactionAsync(async (tx) => {
+    // 🧾 Retrato dos clientes existentes antes da mesclagem (alterados ou com pagamentos novos)
+    const antes = new Map<number, ClientAuditRow>();
+    const existentes = [
+      ...plan.clients.alterados.map((c) => c.localId),
+      ...plan.payments.novos.filter((p) => !p.deleted_at).map((p) => plan.clients.ids.get(p.client_id)),
+    ];
+    for (const id of existentes) {
+      if (id === undefined || antes.has(id)) continue;
+      const row = await txGetOne<ClientAuditRow>(tx, CLIENT_AUDIT_SQL, [id]);
+      if (row) antes.set(id, row);
+    }
+
+    for (const bairro of plan.bairros.novos) {
+      const id = await txRunAndGetId(tx, "INSERT INTO bairros (nome, ordemRota) VALUES (?, ?)", [
+        bairro.nome,
+        bairro.ordemRota,
+      ]);
+      bairroIds.set(bairro.id, id);
+    }
+
+    for (const rua of plan.ruas.novos) {
+      const bairroId = bairroIds.get(rua.bairroId);
+      if (bairroId === undefined) continue;
+      const id = await txRunAndGetId(tx, "INSERT INTO ruas (nome, bairroId, ordemRota) VALUES (?, ?, ?)", [
+        rua.nome,
+        bairroId,
+        rua.ordemRota,
+      ]);
+      ruaIds.set(rua.id, id);
+    }
+
+    const comVendas = new Set(plan.sales.novos.map((sale) => sale.client_id));
+    for (const client of plan.clients.novos) {
+      const record: BackupRecord = { ...client, ruaId: client.ruaId == null ? null : ruaIds.get(client.ruaId) ?? null };
+      const id = await insertBackupRecordTx(tx, "clients", record);
+      clientIds.set(client.id, id);
+      // ✅ Backup sem vendas a prazo (v3): contrato de abertura já com o total pago do backup
+      if (!comVendas.has(client.id)) {
+        await addOpeningSaleTx(tx, id, client.value_cents, client.paid_cents, client.proximaData ?? todayISO());
+      }
+    }
+
+    for (const version of plan.client_field_versions.novos) {
+      const clientId = clientIds.get(version.client_id);
+      if (clientId === undefined) continue;
+      await txRun(tx, "INSERT OR REPLACE INTO client_field_versions (client_id, field, updated_at) VALUES (?, ?, ?)", [
+        clientId,
+        version.field,
+        version.updated_at,
+      ]);
+    }
+
+    // 🧾 Vendas e parcelas dos clientes novos (pago como no backup)
+    const saleIds = new Map<number, number>();
+    for (const sale of plan.sales.novos) {
+      const clientId = clientIds.get(sale.client_id);
+      if (clientId === undefined) continue;
+      saleIds.set(sale.id, await insertBackupRecordTx(tx, "sales", { ...sale, client_id: clientId }));
+    }
+
+    const installmentIds = new Map<number, number>();
+    for (const installment of plan.installments.novos) {
+      const saleId = saleIds.get(installment.sale_id);
+      if (saleId === undefined) continue;
+      installmentIds.set(installment.id, await insertBackupRecordTx(tx, "installments", { ...installment, sale_id: saleId }));
+    }
+
+    for (const { localId, backup, campos } of plan.clients.alterados) {
+      const valores = campos.map((campo) =>
+        campo === "ruaId" ? (backup.ruaId == null ? null : ruaIds.get(backup.ruaId) ?? null) : backup[campo]
+      );
+      await txRun(
+        tx,
+        `UPDATE clients SET ${campos.map((campo) => `${campo} = ?`).join(", ")}, updated_at = ? WHERE id = ?`,
+        [...valores, backup.updated_at, localId]
+      );
+      pagoPorCliente.set(localId, 0);
+
+      // ✅ Valor total mudou: contratos acompanham (como updateClient)
+      const before = antes.get(localId);
+      if (before && campos.includes("value_cents")) {
+        const proximaData = campos.includes("proximaData") ? backup.proximaData : before.proximaData;
+        await adjustClientSalesTx(tx, localId, backup.value_cents - before.value_cents, proximaData ?? todayISO());
+      }
+    }
+
+    const novosClientes = new Set(plan.clients.novos.map((c) => c.id));
+    const pagamentosIds = new Map<number, number>();
+    for (const payment of plan.payments.novos) {
+      const clientId = clientIds.get(payment.client_id);
+      if (clientId === undefined) continue;
+      const paymentId = await insertBackupRecordTx(tx, "payments", { ...payment, client_id: clientId });
+      pagamentosIds.set(payment.id, paymentId);
+      // ✅ Pagamento na lixeira não abate nem soma
+      // ✅ Cliente novo já veio com o total pago e as parcelas abatidas do backup
+      if (payment.deleted_at) continue;
+      paymentIds.push(paymentId);
+      if (novosClientes.has(payment.client_id)) continue;
+      await allocatePaymentTx(tx, clientId, paymentId, payment.value_cents, payment.created_at);
+      pagoPorCliente.set(clientId, (pagoPorCliente.get(clientId) ?? 0) + payment.value_cents);
+    }
+
+    for (const allocation of plan.payment_allocations.novos) {
+      const paymentId = pagamentosIds.get(allocation.payment_id);
+      const installmentId = installmentIds.get(allocation.installment_id);
+      if (paymentId === undefined || installmentId === undefined) continue;
+      await insertBackupRecordTx(tx, "payment_allocations", {
+        ...allocation,
+        payment_id: paymentId,
+        installment_id: installmentId,
+      });
+    }
+
+    for (const waiver of plan.late_fee_waivers.novos) {
+      const clientId = clientIds.get(waiver.client_id);
+      if (clientId === undefined) continue;
+      await insertBackupRecordTx(tx, "late_fee_waivers", { ...waiver, client_id: clientId });
+    }
+
+    for (const log of plan.logs.novos) {
+      const clientId = clientIds.get(log.clientId);
+      if (clientId === undefined) continue;
+      await txRun(tx, "INSERT INTO logs (sync_id, clientId, created_at, descricao) VALUES (?, ?, ?, ?)", [
+        log.sync_id,
+        clientId,
+        log.created_at,
+        log.descricao,
+      ]);
+    }
+
+    // ✅ Total pago e status (valor pode ter mudado nos clientes alterados)
+    for (const [clientId, acrescimo] of pagoPorCliente) {
+      await txRun(
+        tx,
+        `UPDATE clients
+         SET paid_cents = paid_cents + ?,
+             status = CASE WHEN value_cents > 0 AND paid_cents + ? >= value_cents THEN 'quitado' ELSE 'pendente' END
+         WHERE id = ?`,
+        [acrescimo, acrescimo, clientId]
+      );
+    }
+
+    for (const clientId of pagoPorCliente.keys()) {
+      const before = antes.get(clientId);
+      const after = await txGetOne<ClientAuditRow>(tx, CLIENT_AUDIT_SQL, [clientId]);
+      if (!before || !after) continue;
+      await txAddAudit(tx, {
+        clientId,
+        action: "backup_mesclado",
+        before: clientAuditSnapshot(before),
+        after: clientAuditSnapshot(after),
+      });
+    }
+  }, 120000);
+
+  await invalidateFinancialCache();
+  console.log(
+    `✅ Backup mesclado: ${plan.clients.novos.length} clientes novos, ${plan.clients.alterados.length} atualizados, ` +
+      `${plan.payments.novos.length} pagamentos novos`
+  );
+
+  const novos = plan.clients.novos.map((c) => clientIds.get(c.id)).filter((id): id is number => id !== undefined);
+  return { clientIds: [...new Set([...novos, ...pagoPorCliente.keys()])], paymentIds };
+}
+
+// ============================================================================
+// 🩺 VERIFICAÇÃO DO BACKUP (restore de teste)
+// ============================================================================
+
+// 📌 Banco temporário anexado à conexão (ATTACH): o banco atual não é alterado
+const VERIFICATION_SCHEMA = "verificacao";
+
+// "CREATE TABLE clients (...)" → "CREATE TABLE verificacao.clients (...)"
+const toVerificationDdl = (sql: string) =>
+  sql.replace(
+    /^CREATE\s+(UNIQUE\s+)?(TABLE|INDEX)\s+(IF\s+NOT\s+EXISTS\s+)?/i,
+    (_match, unique = "", kind) => `CREATE ${unique}${kind} ${VERIFICATION_SCHEMA}.`
+  );
+
+/**
+ * ✅ Recria no banco temporário as tabelas do backup (e seus índices) com o schema atual
+ */
+async function createVerificationTables(): Promise<void> {
+  const tables = RESTORE_ORDER.map(({ type }) => `'${type}'`).join(", ");
+  const ddl = await getAll<{ type: string; name: string; sql: string }>(
+    `SELECT type, name, sql FROM main.sqlite_master
+     WHERE tbl_name IN (${tables}) AND type IN ('table', 'index') AND sql IS NOT NULL`,
+    []
+  );
+  const version = await getOne<{ user_version: number }>("PRAGMA main.user_version");
+
+  await withTransactionAsync(async (tx) => {
+    for (const { type } of RESTORE_ORDER) {
+      const table = ddl.find((d) => d.type === "table" && d.name === type);
+      if (table) await txExec(tx, toVerificationDdl(table.sql));
+    }
+    for (const index of ddl.filter((d) => d.type === "index")) {
+      await txExec(tx, toVerificationDdl(index.sql));
+    }
+  });
+  await exec(`PRAGMA ${VERIFICATION_SCHEMA}.user_version = ${version?.user_version ?? 0}`);
 }
 
 /**
- * ✅ Restaura backup NDJSON (implementação futura)
- * TODO: Implementar restore incremental
+ * ✅ Carrega o NDJSON no banco temporário (uma transação por bloco, como no restore)
  */
-export async function restoreBackup(backupPath: string): Promise<void> {
-  // TODO: Implementar restore
-  throw new Error("Restore ainda não implementado");
+async function loadVerificationTables(
+  path: string,
+  total: number,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<void> {
+  const agora = formatDateTimeIso();
+  let processados = 0;
+
+  await forEachLine(path, async (line, index) => {
+    if (index === 0) return;
+    const chunk = parseChunk(line, index);
+    if (chunk.data.length === 0) return;
+
+    const columns = BACKUP_COLUMNS[chunk.type];
+    const sql = `INSERT INTO ${VERIFICATION_SCHEMA}.${chunk.type} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`;
+    await withTransactionAsync(async (tx) => {
+      for (const row of chunk.data) {
+        const record = normalizeBackupRecord(chunk.type, row, agora);
+        await txRun(tx, sql, columns.map((column) => record[column]));
+      }
+    });
+
+    processados += chunk.data.length;
+    onProgress?.({ etapa: chunk.type, processados, total });
+    await new Promise(resolve => setImmediate(resolve));
+  });
+}
+
+/**
+ * ✅ Contagens e somas lidas do banco temporário
+ */
+async function readVerificationTotals(): Promise<{ contagens: BackupCounts; totais: BackupTotals }> {
+  // 📌 Cópia de banco antiga pode não ter as tabelas de vendas a prazo
+  const tabelas = new Set(
+    (await getAll<{ name: string }>(`SELECT name FROM ${VERIFICATION_SCHEMA}.sqlite_master WHERE type = 'table'`, [])).map(
+      (t) => t.name
+    )
+  );
+  const count = async (table: string) =>
+    !tabelas.has(table)
+      ? 0
+      : (await getOne<{ total: number }>(`SELECT COUNT(*) AS total FROM ${VERIFICATION_SCHEMA}.${table}`, []))?.total ?? 0;
+
+  const clientes = await getOne<{ value: number | null; paid: number | null }>(
+    `SELECT SUM(value_cents) AS value, SUM(paid_cents) AS paid FROM ${VERIFICATION_SCHEMA}.clients`,
+    []
+  );
+  const pagamentos = await getOne<{ value: number | null }>(
+    `SELECT SUM(value_cents) AS value FROM ${VERIFICATION_SCHEMA}.payments`,
+    []
+  );
+
+  return {
+    contagens: {
+      clientCount: await count("clients"),
+      paymentCount: await count("payments"),
+      logCount: await count("logs"),
+      bairroCount: await count("bairros"),
+      ruaCount: await count("ruas"),
+      fieldVersionCount: await count("client_field_versions"),
+      saleCount: await count("sales"),
+      installmentCount: await count("installments"),
+      allocationCount: await count("payment_allocations"),
+      waiverCount: await count("late_fee_waivers"),
+    },
+    totais: {
+      valueCents: clientes?.value ?? 0,
+      paidCents: clientes?.paid ?? 0,
+      paymentCents: pagamentos?.value ?? 0,
+    },
+  };
+}
+
+/**
+ * 🩺 Verifica se um backup (já aberto com openBackupFile) pode ser restaurado
+ * 1. NDJSON: valida o arquivo e carrega tudo em um banco temporário com o schema atual
+ *    Cópia do banco (.db): usa uma cópia do arquivo como banco temporário
+ * 2. Roda performHealthCheck e validateSchemaStandalone no banco temporário
+ * 3. Confere contagens e somas (value_cents, paid_cents) com o cabeçalho
+ *
+ * ✅ O banco atual nunca é alterado; o banco temporário é descartado no final
+ * ⚠️ Configurações de conexão (WAL, cache, timeout) não fazem parte do relatório:
+ *    o banco restaurado recebe as do app
+ *
+ * @param backupPath - Caminho do arquivo aberto (decifrado e descomprimido)
+ * @param conteudo - Tipo do conteúdo detectado por openBackupFile
+ */
+export async function verifyBackupFile(
+  backupPath: string,
+  conteudo: BackupConteudo,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<BackupVerificationReport> {
+  if (conteudo === "json") {
+    throw new Error("A verificação funciona com backups do banco (.db) e NDJSON.");
+  }
+
+  const path = backupPath.replace(/^file:\/\//, "");
+  const tempPath = `${RNFS.CachesDirectoryPath}/verificacao_${Date.now()}.db`;
+  const itens: VerificationItem[] = [];
+  let metadata: RestoreBackupResult | null = null;
+  let anexado = false;
+
+  const relatorio = (
+    contagens: BackupCounts = Object.fromEntries(RESTORE_ORDER.map(({ countKey }) => [countKey, 0])) as BackupCounts,
+    totais: BackupTotals = { valueCents: 0, paidCents: 0, paymentCents: 0 }
+  ): BackupVerificationReport => ({
+    conteudo,
+    aprovado: isVerificationApproved(itens),
+    itens,
+    contagens,
+    totais,
+  });
+
+  try {
+    // ✅ 1. Banco temporário
+    if (conteudo === "ndjson") {
+      try {
+        const header = await validateBackupFile(path, onProgress);
+        metadata = header.metadata;
+        itens.push({ titulo: "Arquivo NDJSON", status: "ok", detalhe: `Versão ${header.version}, blocos em ordem e completos` });
+      } catch (e: any) {
+        itens.push({ titulo: "Arquivo NDJSON", status: "erro", detalhe: e?.message || "Arquivo inválido." });
+        return relatorio();
+      }
+    } else {
+      await RNFS.copyFile(path, tempPath);
+    }
+
+    await exec(`ATTACH DATABASE '${tempPath.replace(/'/g, "''")}' AS ${VERIFICATION_SCHEMA}`);
+    anexado = true;
+
+    if (metadata) {
+      const total = RESTORE_ORDER.reduce((sum, { countKey }) => sum + metadata![countKey], 0);
+      try {
+        await createVerificationTables();
+        await loadVerificationTables(path, total, onProgress);
+        itens.push({ titulo: "Carga no banco temporário", status: "ok", detalhe: `${total} registros inseridos com o schema atual` });
+      } catch (e: any) {
+        itens.push({ titulo: "Carga no banco temporário", status: "erro", detalhe: e?.message || "Falha ao inserir os registros." });
+        return relatorio();
+      }
+    }
+
+    // ✅ 2. Health check e schema do banco temporário
+    onProgress?.({ etapa: "verificando", processados: 0, total: 0 });
+    const health = await performHealthCheck(VERIFICATION_SCHEMA);
+    const integridade = [...health.integrity.errors, ...health.errors];
+    itens.push({
+      titulo: "Integridade",
+      status: integridade.length === 0 ? "ok" : "erro",
+      detalhe: integridade.length === 0 ? "integrity_check: ok" : integridade.join("; "),
+    });
+    itens.push({
+      titulo: "Índices",
+      status: health.indexes.missing.length === 0 ? "ok" : "aviso",
+      detalhe: health.indexes.missing.length === 0
+        ? `${health.indexes.found} índices`
+        : `Faltando (recriados ao restaurar): ${health.indexes.missing.join(", ")}`,
+    });
+    itens.push({
+      titulo: "Versão do schema",
+      status: health.migrations.issues.length === 0 ? "ok" : "aviso",
+      detalhe: health.migrations.issues.length === 0
+        ? `Versão ${health.migrations.currentVersion}`
+        : `${health.migrations.issues.join("; ")} (migrado ao restaurar)`,
+    });
+
+    const schema = await validateSchemaStandalone(VERIFICATION_SCHEMA);
+    itens.push({
+      titulo: "Schema",
+      status: schema.errors.length > 0 ? "erro" : schema.warnings.length > 0 ? "aviso" : "ok",
+      detalhe: [...schema.errors, ...schema.warnings].join("; ") || "Tabelas e colunas conferem",
+    });
+
+    // ✅ 3. Contagens e somas x cabeçalho
+    const { contagens, totais } = await readVerificationTotals();
+    itens.push(compareBackupCounts(metadata, contagens));
+    if (metadata) {
+      itens.push(compareBackupTotals(metadata.totais, totais));
+    }
+
+    return relatorio(contagens, totais);
+  } catch (e: any) {
+    console.error("❌ Erro ao verificar backup:", e);
+    itens.push({ titulo: "Verificação", status: "erro", detalhe: e?.message || "Falha ao verificar o backup." });
+    return relatorio();
+  } finally {
+    if (anexado) {
+      await exec(`DETACH DATABASE ${VERIFICATION_SCHEMA}`).catch((e) =>
+        console.warn("⚠️ Erro ao desanexar banco de verificação:", e)
+      );
+    }
+    for (const file of [tempPath, `${tempPath}-journal`, `${tempPath}-wal`, `${tempPath}-shm`]) {
+      await RNFS.unlink(file).catch(() => {});
+    }
+  }
 }
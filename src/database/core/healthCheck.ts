@@ -50,8 +50,10 @@ export interface HealthCheckResult {
 
 /**
  * ✅ Executa health check completo do banco de dados
+ * @param schema - Banco a verificar: "main" (atual) ou um banco anexado com ATTACH
+ *                 (ex.: verificação de backup). Pragmas de conexão valem para os dois.
  */
-export async function performHealthCheck(): Promise<HealthCheckResult> {
+export async function performHealthCheck(schema = "main"): Promise<HealthCheckResult> {
   const result: HealthCheckResult = {
     isValid: true,
     integrity: {
@@ -101,7 +103,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     // 1️⃣ INTEGRIDADE DO DB
     // ============================================================
     try {
-      const quickCheck = await getOne<{ "quick_check": string }>("PRAGMA quick_check;");
+      const quickCheck = await getOne<{ "quick_check": string }>(`PRAGMA ${schema}.quick_check;`);
       result.integrity.quickCheck = quickCheck?.["quick_check"] || null;
       
       if (result.integrity.quickCheck !== "ok") {
@@ -116,7 +118,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     // Se quick_check passou, executar integrity_check completo
     if (result.integrity.quickCheck === "ok") {
       try {
-        const integrityCheck = await getOne<{ "integrity_check": string }>("PRAGMA integrity_check;");
+        const integrityCheck = await getOne<{ "integrity_check": string }>(`PRAGMA ${schema}.integrity_check;`);
         result.integrity.integrityCheck = integrityCheck?.["integrity_check"] || null;
         
         if (result.integrity.integrityCheck !== "ok") {
@@ -133,7 +135,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     // 2️⃣ CONFIGURAÇÕES ESSENCIAIS (PRAGMAS)
     // ============================================================
     try {
-      const journalMode = await getOne<{ "journal_mode": string }>("PRAGMA journal_mode;");
+      const journalMode = await getOne<{ "journal_mode": string }>(`PRAGMA ${schema}.journal_mode;`);
       result.pragmas.journalMode = journalMode?.["journal_mode"] || null;
       if (result.pragmas.journalMode !== "wal") {
         result.pragmas.errors.push(`journal_mode deve ser 'wal', encontrado: ${result.pragmas.journalMode}`);
@@ -144,7 +146,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     }
 
     try {
-      const synchronous = await getOne<{ "synchronous": string }>("PRAGMA synchronous;");
+      const synchronous = await getOne<{ "synchronous": string }>(`PRAGMA ${schema}.synchronous;`);
       result.pragmas.synchronous = synchronous?.["synchronous"] || null;
       if (result.pragmas.synchronous !== "normal" && result.pragmas.synchronous !== "full") {
         result.pragmas.errors.push(`synchronous deve ser 'normal' ou 'full', encontrado: ${result.pragmas.synchronous}`);
@@ -178,7 +180,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     }
 
     try {
-      const autoVacuum = await getOne<{ "auto_vacuum": number }>("PRAGMA auto_vacuum;");
+      const autoVacuum = await getOne<{ "auto_vacuum": number }>(`PRAGMA ${schema}.auto_vacuum;`);
       result.pragmas.autoVacuum = autoVacuum?.["auto_vacuum"] || null;
       if (result.pragmas.autoVacuum === 0) {
         result.pragmas.errors.push(`auto_vacuum deve ser configurado (INCREMENTAL=2), encontrado: ${result.pragmas.autoVacuum} (NONE)`);
@@ -191,7 +193,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     }
 
     try {
-      const mmapSize = await getOne<{ "mmap_size": number }>("PRAGMA mmap_size;");
+      const mmapSize = await getOne<{ "mmap_size": number }>(`PRAGMA ${schema}.mmap_size;`);
       result.pragmas.mmapSize = mmapSize?.["mmap_size"] || null;
       if (!result.pragmas.mmapSize || result.pragmas.mmapSize <= 0) {
         result.pragmas.errors.push(`mmap_size deve ser > 0, encontrado: ${result.pragmas.mmapSize}`);
@@ -202,7 +204,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     }
 
     try {
-      const cacheSize = await getOne<{ "cache_size": number }>("PRAGMA cache_size;");
+      const cacheSize = await getOne<{ "cache_size": number }>(`PRAGMA ${schema}.cache_size;`);
       result.pragmas.cacheSize = cacheSize?.["cache_size"] || null;
       if (!result.pragmas.cacheSize || result.pragmas.cacheSize >= 0) {
         result.pragmas.errors.push(`cache_size deve ser negativo (modo KB), encontrado: ${result.pragmas.cacheSize}`);
@@ -213,7 +215,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     }
 
     try {
-      const pageSize = await getOne<{ "page_size": number }>("PRAGMA page_size;");
+      const pageSize = await getOne<{ "page_size": number }>(`PRAGMA ${schema}.page_size;`);
       result.pragmas.pageSize = pageSize?.["page_size"] || null;
       if (!result.pragmas.pageSize || result.pragmas.pageSize < 4096) {
         result.pragmas.errors.push(`page_size deve ser >= 4096, encontrado: ${result.pragmas.pageSize}`);
@@ -254,7 +256,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
 
       // Buscar índices existentes
       const existingIndexes = await getAll<{ name: string }>(
-        "SELECT name FROM sqlite_master WHERE type='index' AND name NOT LIKE 'sqlite_%'",
+        `SELECT name FROM ${schema}.sqlite_master WHERE type='index' AND name NOT LIKE 'sqlite_%'`,
         []
       );
 
@@ -291,7 +293,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
       
       // Verificar se tabela FTS5 existe
       const fts5Table = await getOne<{ name: string }>(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name='clients_fts'",
+        `SELECT name FROM ${schema}.sqlite_master WHERE type='table' AND name='clients_fts'`,
         []
       );
       result.fts5.tableExists = fts5Table !== null;
@@ -327,11 +329,12 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     // 6️⃣ MIGRATIONS
     // ============================================================
     try {
-      const version = await getOne<{ version: number }>("PRAGMA user_version;");
+      const version = await getOne<{ version: number }>(`PRAGMA ${schema}.user_version;`);
       result.migrations.currentVersion = version?.version || 0;
       
-      if (result.migrations.currentVersion < 4) {
-        result.migrations.issues.push(`Versão do schema (${result.migrations.currentVersion}) está abaixo da esperada (4)`);
+      const { LATEST_SCHEMA_VERSION } = await import("../migrations");
+      if (result.migrations.currentVersion < LATEST_SCHEMA_VERSION) {
+        result.migrations.issues.push(`Versão do schema (${result.migrations.currentVersion}) está abaixo da esperada (${LATEST_SCHEMA_VERSION})`);
         result.warnings.push("Migrações podem precisar ser executadas");
       }
     } catch (e) {
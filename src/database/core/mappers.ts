@@ -44,8 +44,18 @@
  *    → Evita cálculos financeiros incorretos
  */
 
-import { toReais } from "../utils";
-import { ClientDB, PaymentDB, Client, Payment } from "../types";
+import { toReais, normalizePaymentMethod, formatDateIso, formatDateTimeIso } from "../utils";
+import { normalizeCadencia } from "../utils/cadence";
+import {
+  ClientDB,
+  PaymentDB,
+  Client,
+  Payment,
+  SaleDB,
+  Sale,
+  InstallmentDB,
+  Installment,
+} from "../types";
 
 // ============================================================================
 // ⚙️ CONFIGURAÇÃO DO MAPPER
@@ -493,6 +503,7 @@ export function mapClient(row: ClientDB): Client {
   
   return {
     id: normalizeInt(row.id, 0, context),
+    sync_id: row.sync_id ?? null,
     
     // ✅ 1.7. Helper para string obrigatória
     name: normalizeRequiredString(row.name, "Sem nome", field("name")),
@@ -517,6 +528,8 @@ export function mapClient(row: ClientDB): Client {
     prioritario: normalizeBool(row.prioritario, field("prioritario")),
     observacoes: normalizeString(row.observacoes, field("observacoes")),
     status: normalizeStatus(row.status, field("status")),
+    ...normalizeCadencia(row.cadencia, row.cadencia_dia),
+    updated_at: row.updated_at ?? null,
   };
 }
 
@@ -540,7 +553,7 @@ export function mapPayment(row: PaymentDB): Payment {
   const field = (campo: string) => withField(context, campo);
   
   const valueCents = normalizeCents(row.value_cents, 0, field("value_cents"));
-  const fallbackDate = new Date().toISOString();
+  const fallbackDate = formatDateTimeIso();
   const created_at = normalizeDateWithFallback(
     row.created_at, 
     fallbackDate, 
@@ -555,11 +568,68 @@ export function mapPayment(row: PaymentDB): Payment {
   
   return {
     id: normalizeInt(row.id, 0, context),
+    sync_id: row.sync_id ?? null,
     client_id,
     created_at,
+    // ✅ Momento do lançamento (auditoria) - pode diferir da data do pagamento
+    registered_at: row.registered_at ?? created_at,
     
     // ✅ 1. Safe toReais com fallback
     valor: safeToReais(valueCents, field("valor")),
+    metodo: normalizePaymentMethod(row.method),
   };
 }
 
+
+// ============================================================================
+// 🔄 MAPEAMENTO DE VENDAS E PARCELAS
+// ============================================================================
+
+/**
+ * ✅ Mapeia contrato (venda a prazo) do banco para formato da API
+ * Converte centavos → reais e garante status válido
+ */
+export function mapSale(row: SaleDB): Sale {
+  validateRow(row, "sales");
+
+  const context: LogContext = { table: "sales", rowId: normalizeInt(row.id) };
+  const field = (campo: string) => withField(context, campo);
+
+  const valueCents = normalizeCents(row.value_cents, 0, field("value_cents"));
+  const paidCents = normalizeCents(row.paid_cents, 0, field("paid_cents"));
+
+  return {
+    id: normalizeInt(row.id, 0, context),
+    client_id: normalizeInt(row.client_id, 0, field("client_id")),
+    descricao: normalizeRequiredString(row.descricao, "Venda", field("descricao")),
+    valor: safeToReais(valueCents, field("valor")),
+    pago: safeToReais(paidCents, field("pago")),
+    parcelas: Math.max(normalizeInt(row.installments_count, 1, field("installments_count")), 1),
+    // ✅ Status derivado dos valores quando o banco trouxer algo inesperado
+    status: row.status === "quitada" || (valueCents > 0 && paidCents >= valueCents) ? "quitada" : "aberta",
+    created_at: normalizeDateWithFallback(row.created_at, formatDateTimeIso(), field("created_at")),
+  };
+}
+
+/**
+ * ✅ Mapeia parcela do banco para formato da API
+ */
+export function mapInstallment(row: InstallmentDB): Installment {
+  validateRow(row, "installments");
+
+  const context: LogContext = { table: "installments", rowId: normalizeInt(row.id) };
+  const field = (campo: string) => withField(context, campo);
+
+  const valueCents = normalizeCents(row.value_cents, 0, field("value_cents"));
+  const paidCents = normalizeCents(row.paid_cents, 0, field("paid_cents"));
+
+  return {
+    id: normalizeInt(row.id, 0, context),
+    sale_id: normalizeInt(row.sale_id, 0, field("sale_id")),
+    numero: Math.max(normalizeInt(row.numero, 1, field("numero")), 1),
+    vencimento: normalizeDateWithFallback(row.due_date, formatDateIso(), field("due_date")),
+    valor: safeToReais(valueCents, field("valor")),
+    pago: safeToReais(paidCents, field("pago")),
+    status: row.status === "paga" || (valueCents > 0 && paidCents >= valueCents) ? "paga" : "aberta",
+  };
+}
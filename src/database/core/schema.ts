@@ -23,14 +23,18 @@ export const TABLES = {
   bairros: `
     CREATE TABLE IF NOT EXISTS bairros (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      nome TEXT NOT NULL UNIQUE
+      sync_id TEXT,
+      nome TEXT NOT NULL UNIQUE,
+      ordemRota INTEGER
     );
   `,
   ruas: `
     CREATE TABLE IF NOT EXISTS ruas (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sync_id TEXT,
       nome TEXT NOT NULL,
       bairroId INTEGER NOT NULL,
+      ordemRota INTEGER,
       FOREIGN KEY (bairroId) REFERENCES bairros(id) ON DELETE CASCADE,
       UNIQUE(nome, bairroId)
     );
@@ -38,6 +42,7 @@ export const TABLES = {
   clients: `
     CREATE TABLE IF NOT EXISTS clients (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sync_id TEXT,
       name TEXT NOT NULL,
       value_cents INTEGER NOT NULL CHECK (value_cents >= 0),
       numero TEXT,
@@ -53,27 +58,125 @@ export const TABLES = {
           created_at TEXT NOT NULL DEFAULT (datetime('now')) CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
           updated_at TEXT NOT NULL DEFAULT (datetime('now')) CHECK (updated_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
           ultimaVisita TEXT CHECK (ultimaVisita IS NULL OR ultimaVisita GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
+          deleted_at TEXT,
+          cadencia TEXT CHECK (cadencia IS NULL OR cadencia IN ('semanal', 'quinzenal', 'mensal', 'dia_fixo')),
+          cadencia_dia INTEGER CHECK (cadencia_dia IS NULL OR cadencia_dia BETWEEN 0 AND 31),
           FOREIGN KEY (ruaId) REFERENCES ruas(id) ON DELETE SET NULL
     );
   `,
   payments: `
     CREATE TABLE IF NOT EXISTS payments (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sync_id TEXT,
       client_id INTEGER NOT NULL,
       created_at TEXT NOT NULL CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
+      registered_at TEXT CHECK (registered_at IS NULL OR registered_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
       value_cents INTEGER NOT NULL CHECK (value_cents > 0),
+      method TEXT NOT NULL DEFAULT 'dinheiro' CHECK (method IN ('dinheiro', 'pix', 'cartao', 'transferencia')),
+      deleted_at TEXT,
       FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
     );
   `,
   logs: `
     CREATE TABLE IF NOT EXISTS logs (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sync_id TEXT,
       clientId INTEGER NOT NULL,
       created_at TEXT NOT NULL CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
       descricao TEXT NOT NULL,
       FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE
     );
   `,
+  // ✅ V5: Vendas a prazo (contratos) e parcelas
+  sales: `
+    CREATE TABLE IF NOT EXISTS sales (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client_id INTEGER NOT NULL,
+      descricao TEXT NOT NULL,
+      value_cents INTEGER NOT NULL CHECK (value_cents > 0),
+      paid_cents INTEGER NOT NULL DEFAULT 0 CHECK (paid_cents >= 0 AND paid_cents <= value_cents),
+      installments_count INTEGER NOT NULL DEFAULT 1 CHECK (installments_count > 0),
+      status TEXT NOT NULL DEFAULT 'aberta' CHECK (status IN ('aberta', 'quitada')),
+      created_at TEXT NOT NULL CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
+      updated_at TEXT NOT NULL CHECK (updated_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
+      FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+  `,
+  installments: `
+    CREATE TABLE IF NOT EXISTS installments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sale_id INTEGER NOT NULL,
+      numero INTEGER NOT NULL CHECK (numero > 0),
+      due_date TEXT NOT NULL CHECK (due_date GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]'),
+      value_cents INTEGER NOT NULL CHECK (value_cents > 0),
+      paid_cents INTEGER NOT NULL DEFAULT 0 CHECK (paid_cents >= 0 AND paid_cents <= value_cents),
+      status TEXT NOT NULL DEFAULT 'aberta' CHECK (status IN ('aberta', 'paga')),
+      paid_at TEXT,
+      FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+      UNIQUE(sale_id, numero)
+    );
+  `,
+  // ✅ Quanto de cada pagamento foi abatido de cada parcela (permite estornar)
+  payment_allocations: `
+    CREATE TABLE IF NOT EXISTS payment_allocations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      payment_id INTEGER NOT NULL,
+      installment_id INTEGER NOT NULL,
+      value_cents INTEGER NOT NULL CHECK (value_cents > 0),
+      FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE CASCADE,
+      FOREIGN KEY (installment_id) REFERENCES installments(id) ON DELETE CASCADE
+    );
+  `,
+  // ✅ Versão (updated_at) de cada campo do cliente - last-writer-wins por campo na sincronização
+  client_field_versions: `
+    CREATE TABLE IF NOT EXISTS client_field_versions (
+      client_id INTEGER NOT NULL,
+      field TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (client_id, field),
+      FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+  `,
+  // ✅ Encargos por atraso dispensados pelo cobrador (um registro por vencimento)
+  late_fee_waivers: `
+    CREATE TABLE IF NOT EXISTS late_fee_waivers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client_id INTEGER NOT NULL,
+      vencimento TEXT NOT NULL CHECK (vencimento GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]'),
+      valor_cents INTEGER NOT NULL CHECK (valor_cents >= 0),
+      motivo TEXT NOT NULL,
+      created_at TEXT NOT NULL CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'),
+      FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+      UNIQUE(client_id, vencimento)
+    );
+  `,
+  // ✅ Trilha de auditoria financeira: permanente, sem FK (sobrevive à exclusão do cliente)
+  // Nunca é podada nem alterada (gatilhos da V14 bloqueiam UPDATE/DELETE)
+  audit_log: `
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client_id INTEGER NOT NULL,
+      payment_id INTEGER,
+      action TEXT NOT NULL,
+      actor_uid TEXT,
+      device TEXT,
+      before_json TEXT,
+      after_json TEXT,
+      created_at TEXT NOT NULL CHECK (created_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*')
+    );
+  `,
+  // ✅ Fila offline persistente de escritas no Firestore (syncOptimizer)
+  sync_outbox: `
+    CREATE TABLE IF NOT EXISTS sync_outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL CHECK (action IN ('SET', 'UPDATE', 'DELETE')),
+      path TEXT NOT NULL,
+      data TEXT,
+      timestamp INTEGER NOT NULL,
+      retry_count INTEGER NOT NULL DEFAULT 0,
+      UNIQUE(action, path)
+    );
+  `,
   app_settings: `
     CREATE TABLE IF NOT EXISTS app_settings (
       key TEXT PRIMARY KEY,
@@ -130,6 +233,11 @@ export const ALL_INDEXES = [
   // ✅ Índices para buscas por rua e bairro (melhora performance em searchService)
   "CREATE INDEX IF NOT EXISTS idx_ruas_nome ON ruas(nome COLLATE NOCASE);",
   "CREATE INDEX IF NOT EXISTS idx_bairros_nome ON bairros(nome COLLATE NOCASE);",
+  // ✅ Índices V5 (vendas e parcelas)
+  "CREATE INDEX IF NOT EXISTS idx_sales_client ON sales(client_id, status);",
+  "CREATE INDEX IF NOT EXISTS idx_installments_sale ON installments(sale_id, numero);",
+  "CREATE INDEX IF NOT EXISTS idx_installments_due ON installments(status, due_date);",
+  "CREATE INDEX IF NOT EXISTS idx_allocations_payment ON payment_allocations(payment_id);",
 ];
 
 /**
@@ -5,7 +5,7 @@
  */
 
 import { txGetAll, txGetOne } from "./transactions";
-import { getOne } from "./queries";
+import { getOne, getAll } from "./queries";
 import { formatDateIso } from "../utils";
 
 export type ColumnInfo = {
@@ -203,15 +203,16 @@ export async function validateSchema(tx: any): Promise<SchemaValidationResult> {
 
 /**
  * ✅ Valida schema sem transação (para uso fora de migrações)
+ * @param schema - Banco a validar: "main" (atual) ou um banco anexado com ATTACH (ex.: verificação de backup)
  */
-export async function validateSchemaStandalone(): Promise<SchemaValidationResult> {
+export async function validateSchemaStandalone(schema = "main"): Promise<SchemaValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   const tables: TableInfo[] = [];
   
   try {
     // ✅ Verificar integridade do banco
-    const integrityResult = await getOne<{ integrity_check: string }>("PRAGMA integrity_check");
+    const integrityResult = await getOne<{ integrity_check: string }>(`PRAGMA ${schema}.integrity_check`);
     if (integrityResult?.integrity_check !== "ok") {
       errors.push(`Integridade do banco comprometida: ${integrityResult?.integrity_check}`);
     }
@@ -221,6 +222,31 @@ export async function validateSchemaStandalone(): Promise<SchemaValidationResult
     if (fkResult?.foreign_keys !== 1) {
       warnings.push("Foreign keys não estão habilitadas.");
     }
+
+    // ✅ Estrutura das tabelas críticas (mesmas regras do validateSchema)
+    const tableNames = (
+      await getAll<{ name: string }>(
+        `SELECT name FROM ${schema}.sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`,
+        []
+      )
+    ).map(t => t.name);
+
+    for (const tableName of ["clients", "payments"]) {
+      if (!tableNames.includes(tableName)) continue;
+      const columns = await getAll<ColumnInfo>(`PRAGMA ${schema}.table_info(${tableName})`, []);
+      tables.push({ name: tableName, columns });
+      const result = tableName === "clients"
+        ? await validateClientsTable(null, columns)
+        : await validatePaymentsTable(null, columns);
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+    }
+
+    for (const table of ["clients", "payments", "logs"]) {
+      if (!tableNames.includes(table)) {
+        warnings.push(`Tabela essencial não encontrada: ${table}`);
+      }
+    }
     
   } catch (error) {
     errors.push(`Erro ao validar schema: ${error}`);
@@ -233,4 +259,3 @@ export async function validateSchemaStandalone(): Promise<SchemaValidationResult
     tables,
   };
 }
-
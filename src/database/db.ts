@@ -14,8 +14,8 @@
  * 
  * 📦 ESTRUTURA MODULAR:
  * - core/ (connection, transactions, queries, schema, mappers)
- * - migrations/ (V2, V3, V4, index)
- * - repositories/ (clients, payments, logs, bairros, ruas)
+ * - migrations/ (V2, V3, V4, V5, V6, V7, V8, V9, V10, V11, V12, index)
+ * - repositories/ (clients, payments, sales, logs, bairros, ruas)
  * - services/ (search, reports, backup, financialCache)
  * - utils/ (dateParsers, dateHelpers, clientNormalization)
  * - legacy/ (funções complexas ainda não migradas)
@@ -69,13 +69,19 @@ export { fixDatabaseStructure } from "./migrations";
 export {
   addClient,
   deleteClient,
+  restoreClient,
+  purgeClient,
+  rescheduleClients,
+  undoReschedule,
   getAllClients,
   getClientsPage,
   getTotalClients,
   getAllClientsFull,
   getClientById,
+  getClientBySyncId,
   getClientsUpdatedSince,
   getUpcomingCharges,
+  getChargesByMonth,
   getClientsByRua,
   getClientesPrioritariosHoje,
 } from "./repositories/clientsRepo";
@@ -89,8 +95,78 @@ export {
   marcarClienteAusente,
   getPaymentsByClient,
   deletePayment,
+  restorePayment,
+  purgePayment,
 } from "./repositories/paymentsRepo";
 
+// ============================================================================
+// 🧾 REPOSITORIES - VENDAS E PARCELAS
+// ============================================================================
+
+export {
+  addSale,
+  getSalesByClient,
+  type NewSaleInput,
+} from "./repositories/salesRepo";
+
+// ============================================================================
+// 🗺️ REPOSITORIES - ROTA DO DIA
+// ============================================================================
+
+export {
+  getRotaDoDia,
+  salvarOrdemRuas,
+  salvarOrdemBairros,
+} from "./repositories/routeRepo";
+
+// ============================================================================
+// 💸 REPOSITORIES - ENCARGOS POR ATRASO
+// ============================================================================
+
+export {
+  getLateFeeConfig,
+  saveLateFeeConfig,
+  getEncargosCliente,
+  getEncargosPorClientes,
+  dispensarEncargos,
+} from "./repositories/lateFeesRepo";
+
+// ============================================================================
+// 🗑️ REPOSITORIES - LIXEIRA
+// ============================================================================
+
+export {
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  getDeletedClients,
+  getDeletedPayments,
+  purgeTrash,
+  purgeExpiredTrash,
+  type TrashPurgeResult,
+} from "./repositories/trashRepo";
+
+// ============================================================================
+// 🧾 REPOSITORIES - AUDITORIA
+// ============================================================================
+
+export { setAuditActor, getAuditByClient } from "./repositories/auditRepo";
+
+// ============================================================================
+// 📅 FUSO HORÁRIO DO NEGÓCIO
+// ============================================================================
+
+export { loadBusinessTimeZone, saveBusinessTimeZone } from "./repositories/settingsRepo";
+
+// ============================================================================
+// 🗓️ CALENDÁRIO DE DIAS ÚTEIS
+// ============================================================================
+
+export {
+  getWorkCalendarConfig,
+  loadWorkCalendar,
+  saveWorkCalendarConfig,
+} from "./repositories/workCalendarRepo";
+
 // ============================================================================
 // 📜 REPOSITORIES - LOGS
 // ============================================================================
@@ -150,6 +226,12 @@ export {
   getTopClientesMes,
   getCrediariosPorBairro,
   getCrescimentoPercentual,
+  getFechamentoCaixa,
+  getResumoPeriodo,
+  getAgingReport,
+  getClientesParaExportar,
+  getPagamentosParaExportar,
+  getResumoBairrosParaExportar,
 } from "./services/reportsService";
 
 // ============================================================================
@@ -158,6 +240,7 @@ export {
 
 export {
   createBackup,
+  createNdjsonBackup,
 } from "./services/backupService";
 
 // ============================================================================
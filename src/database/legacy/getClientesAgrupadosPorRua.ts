@@ -38,7 +38,7 @@ export async function getClientesAgrupadosPorRua(date: string): Promise<Clientes
     FROM clients c
     LEFT JOIN ruas r ON c.ruaId = r.id
     LEFT JOIN bairros b ON r.bairroId = b.id
-    WHERE c.proximaData = ?
+    WHERE c.proximaData = ? AND c.deleted_at IS NULL
     GROUP BY COALESCE(c.ruaId, -1), r.nome, b.nome
     ORDER BY r.nome ASC, b.nome ASC
   `, [normalizedDate]);
@@ -54,7 +54,7 @@ export async function getClientesAgrupadosPorRua(date: string): Promise<Clientes
     // ✅ Buscar clientes: se ruaId = -1, buscar clientes sem rua (ruaId IS NULL)
     const clientes = await selectMapped<Client, ClientDB>(
       `SELECT * FROM clients 
-       WHERE proximaData = ? AND (ruaId = ? OR (ruaId IS NULL AND ? = -1))
+       WHERE proximaData = ? AND deleted_at IS NULL AND (ruaId = ? OR (ruaId IS NULL AND ? = -1))
        ORDER BY ordemVisita ASC, name ASC`,
       [normalizedDate, ruaId === -1 ? null : ruaId, ruaId],
       mapClient
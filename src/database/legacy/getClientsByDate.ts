@@ -20,7 +20,7 @@ export async function getClientsByDate(date: string): Promise<Client[]> {
   
   return await selectMapped<Client, ClientDB>(
     `SELECT * FROM clients 
-     WHERE proximaData = ?
+     WHERE proximaData = ? AND deleted_at IS NULL
      ORDER BY name ASC`,
     [normalizedDate],
     mapClient
@@ -5,8 +5,9 @@
  */
 
 import { waitForInitDB } from "../core/schema";
-import { getClientById } from "../repositories/clientsRepo";
-import { run } from "../core/queries";
+import { getClientById, setClientFieldVersions } from "../repositories/clientsRepo";
+import { withTransactionAsync, txGetOne, txRun } from "../core/transactions";
+import type { FieldVersions } from "../utils/conflictResolution";
 import { buildLogDescription, detectClientChanges } from "../utils/clientNormalization";
 import {
   normalizePartialUpdate,
@@ -15,6 +16,10 @@ import {
   buildUpdateFields,
 } from "../utils/clientNormalization";
 import { addLog } from "../repositories/logsRepo";
+import { txAddAudit, SYNC_AUDIT_DEVICE } from "../repositories/auditRepo";
+import { adjustClientSalesTx } from "../repositories/salesRepo";
+import { todayISO } from "../utils/dateHelpers";
+import { clientAuditSnapshot, diffAuditSnapshots } from "../utils/audit";
 import { clearTotalsCache } from "../services/reportsService";
 import { invalidateFinancialCache } from "../services/financialCache";
 import type { Client } from "../types";
@@ -22,7 +27,7 @@ import type { Client } from "../types";
 export async function updateClient(
   client: Client,
   newData?: Partial<Client>,
-  options?: { fromFirestore?: boolean }
+  options?: { fromFirestore?: boolean; fieldVersions?: FieldVersions }
 ): Promise<void> {
   await waitForInitDB();
   
@@ -101,10 +106,51 @@ export async function updateClient(
     }
   }
 
+  // ✅ updated_at alimenta a versão por campo (gatilho da V10)
+  // Mudança vinda do Firestore não usa "agora" (seria mais nova que a edição real)
+  const remoteVersions = Object.values(options?.fieldVersions ?? {}).filter(Boolean) as string[];
+  if (fromFirestore && remoteVersions.length > 0) {
+    const updatedAtIndex = dbEntries.findIndex(([key]) => key === "updated_at");
+    dbEntries[updatedAtIndex] = [
+      "updated_at",
+      [originalClient.updated_at ?? "", ...remoteVersions].reduce((max, v) => (v > max ? v : max)),
+    ];
+  }
+
   const fields = dbEntries.map(([key]) => `${key} = ?`).join(", ");
   const values = dbEntries.map(([, value]) => value);
 
-  await run(`UPDATE clients SET ${fields} WHERE id = ?`, [...values, client.id]);
+  const clientId = client.id;
+  const auditSql = "SELECT value_cents, paid_cents, status, proximaData FROM clients WHERE id = ?";
+
+  await withTransactionAsync(async (tx) => {
+    const antes = await txGetOne<any>(tx, auditSql, [clientId]);
+    await txRun(tx, `UPDATE clients SET ${fields} WHERE id = ?`, [...values, clientId]);
+    const depois = await txGetOne<any>(tx, auditSql, [clientId]);
+
+    // 🧾 Valor total editado: os contratos acompanham (soma dos contratos = valor do cliente)
+    if (antes && depois && depois.value_cents !== antes.value_cents) {
+      await adjustClientSalesTx(tx, clientId, depois.value_cents - antes.value_cents, depois.proximaData ?? todayISO());
+    }
+
+    // 🧾 Auditoria só quando algum campo monetário mudou (mesma transação)
+    const before = antes ? clientAuditSnapshot(antes) : null;
+    const after = depois ? clientAuditSnapshot(depois) : null;
+    if (diffAuditSnapshots(before, after).length > 0) {
+      await txAddAudit(tx, {
+        clientId,
+        action: "cliente_alterado",
+        before,
+        after,
+        ...(fromFirestore ? { device: SYNC_AUDIT_DEVICE } : {}),
+      });
+    }
+  });
+
+  // ✅ Campos vindos de outro aparelho guardam a versão exata de lá
+  if (fromFirestore && options?.fieldVersions) {
+    await setClientFieldVersions(client.id, options.fieldVersions);
+  }
 
   // 📝 Criar log detalhado com as mudanças
   const changes = detectClientChanges(originalClient, data);
@@ -0,0 +1,57 @@
+/**
+ * 🔄 Migração V10: Versão por campo do cliente
+ * Cria tabela client_field_versions e gatilho que registra o updated_at
+ * de cada campo alterado - base do last-writer-wins por campo na sincronização
+ */
+
+import { txExec } from "../core/transactions";
+import { TABLES } from "../core/schema";
+
+// ✅ Campo da API → coluna do banco (mesma lista de CLIENT_SYNC_FIELDS na época da V10)
+export const TRACKED_COLUMNS: [string, string][] = [
+  ["name", "name"],
+  ["value", "value_cents"],
+  ["numero", "numero"],
+  ["referencia", "referencia"],
+  ["telefone", "telefone"],
+  ["observacoes", "observacoes"],
+  ["ruaId", "ruaId"],
+  ["ordemVisita", "ordemVisita"],
+  ["prioritario", "prioritario"],
+  ["proximaData", "proximaData"],
+];
+
+/**
+ * ✅ Migração V10: Cria tabela de versões e gatilho de UPDATE em clients
+ * O gatilho cobre qualquer UPDATE (updateClient, addPayment, ordem de visita...)
+ */
+export async function migrateV10(tx: any): Promise<void> {
+  try {
+    await txExec(tx, TABLES.client_field_versions);
+    await createFieldVersionsTrigger(tx, TRACKED_COLUMNS);
+  } catch (error) {
+    console.error("❌ Erro na migração V10:", error);
+    throw error;
+  }
+}
+
+/**
+ * ✅ (Re)cria o gatilho de versões com as colunas informadas
+ * Migrações que adicionam campos sincronizados recriam o gatilho com a lista completa
+ */
+export async function createFieldVersionsTrigger(tx: any, columns: [string, string][]): Promise<void> {
+  const inserts = columns.map(
+    ([field, column]) => `
+          INSERT OR REPLACE INTO client_field_versions (client_id, field, updated_at)
+          SELECT NEW.id, '${field}', NEW.updated_at WHERE NEW.${column} IS NOT OLD.${column};`
+  ).join("");
+
+  await txExec(tx, "DROP TRIGGER IF EXISTS trg_clients_field_versions;");
+  await txExec(tx, `
+        CREATE TRIGGER trg_clients_field_versions
+        AFTER UPDATE ON clients
+        FOR EACH ROW
+        BEGIN${inserts}
+        END;
+      `);
+}
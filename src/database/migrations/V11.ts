@@ -0,0 +1,35 @@
+/**
+ * 🔄 Migração V11: Ordem da rota do dia
+ * Adiciona ordemRota em bairros (ordem entre bairros) e em ruas (ordem dentro do bairro)
+ */
+
+import { txExec, txGetAll } from "../core/transactions";
+
+/**
+ * ✅ Migração V11: Adiciona coluna ordemRota se não existir
+ */
+export async function migrateV11(tx: any): Promise<void> {
+  try {
+    for (const table of ["bairros", "ruas"]) {
+      // ✅ Verificar se coluna já existe
+      const colsRaw = await txGetAll<any>(tx, `PRAGMA table_info(${table})`, []);
+      if (!Array.isArray(colsRaw)) {
+        console.warn(`⚠️ Não foi possível verificar colunas de ${table}, pulando ordemRota`);
+        continue;
+      }
+
+      const cols = colsRaw.map((c: any) => c.name);
+      if (!cols.includes("ordemRota")) {
+        await txExec(tx, `ALTER TABLE ${table} ADD COLUMN ordemRota INTEGER;`);
+        console.log(`✅ Coluna ordemRota adicionada em ${table}`);
+      } else {
+        console.log(`ℹ️ Coluna ordemRota já existe em ${table}`);
+      }
+    }
+
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_ruas_bairro_ordem ON ruas(bairroId, ordemRota);");
+  } catch (error) {
+    console.error("❌ Erro na migração V11:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * 🔄 Migração V12: Dispensa de encargos por atraso
+ * Cria tabela late_fee_waivers (multa/juros perdoados pelo cobrador, com motivo)
+ */
+
+import { txExec } from "../core/transactions";
+import { TABLES } from "../core/schema";
+
+/**
+ * ✅ Migração V12: Cria tabela late_fee_waivers se não existir
+ */
+export async function migrateV12(tx: any): Promise<void> {
+  try {
+    await txExec(tx, TABLES.late_fee_waivers);
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_late_fee_waivers_client ON late_fee_waivers(client_id);");
+  } catch (error) {
+    console.error("❌ Erro na migração V12:", error);
+    throw error;
+  }
+}
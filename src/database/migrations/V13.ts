@@ -0,0 +1,36 @@
+/**
+ * 🔄 Migração V13: Lixeira (exclusão reversível)
+ * Adiciona deleted_at em clients e payments: registros excluídos ficam na lixeira até a limpeza
+ */
+
+import { txExec, txGetAll } from "../core/transactions";
+
+/**
+ * ✅ Migração V13: Adiciona coluna deleted_at se não existir
+ */
+export async function migrateV13(tx: any): Promise<void> {
+  try {
+    for (const table of ["clients", "payments"]) {
+      // ✅ Verificar se coluna já existe
+      const colsRaw = await txGetAll<any>(tx, `PRAGMA table_info(${table})`, []);
+      if (!Array.isArray(colsRaw)) {
+        console.warn(`⚠️ Não foi possível verificar colunas de ${table}, pulando deleted_at`);
+        continue;
+      }
+
+      const cols = colsRaw.map((c: any) => c.name);
+      if (!cols.includes("deleted_at")) {
+        await txExec(tx, `ALTER TABLE ${table} ADD COLUMN deleted_at TEXT;`);
+        console.log(`✅ Coluna deleted_at adicionada em ${table}`);
+      } else {
+        console.log(`ℹ️ Coluna deleted_at já existe em ${table}`);
+      }
+    }
+
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_clients_deleted ON clients(deleted_at);");
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_payments_deleted ON payments(deleted_at);");
+  } catch (error) {
+    console.error("❌ Erro na migração V13:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * 🔄 Migração V14: Trilha de auditoria financeira
+ * Cria tabela audit_log (permanente) e gatilhos que impedem alterar ou apagar registros
+ */
+
+import { txExec } from "../core/transactions";
+import { TABLES } from "../core/schema";
+
+/**
+ * ✅ Migração V14: Cria tabela audit_log e gatilhos de imutabilidade se não existirem
+ */
+export async function migrateV14(tx: any): Promise<void> {
+  try {
+    await txExec(tx, TABLES.audit_log);
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_audit_log_client ON audit_log(client_id, id);");
+    await txExec(
+      tx,
+      `CREATE TRIGGER IF NOT EXISTS trg_audit_log_no_update BEFORE UPDATE ON audit_log
+       BEGIN SELECT RAISE(ABORT, 'audit_log é somente inserção'); END;`
+    );
+    await txExec(
+      tx,
+      `CREATE TRIGGER IF NOT EXISTS trg_audit_log_no_delete BEFORE DELETE ON audit_log
+       BEGIN SELECT RAISE(ABORT, 'audit_log é somente inserção'); END;`
+    );
+  } catch (error) {
+    console.error("❌ Erro na migração V14:", error);
+    throw error;
+  }
+}
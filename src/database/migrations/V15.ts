@@ -0,0 +1,42 @@
+/**
+ * 🔄 Migração V15: Cadência de cobrança do cliente
+ * Adiciona cadencia/cadencia_dia em clients e inclui os dois campos
+ * no gatilho de versão por campo (sincronização last-writer-wins)
+ */
+
+import { txExec, txGetAll } from "../core/transactions";
+import { TRACKED_COLUMNS, createFieldVersionsTrigger } from "./V10";
+
+const NEW_COLUMNS: [string, string][] = [
+  ["cadencia", "TEXT CHECK (cadencia IS NULL OR cadencia IN ('semanal', 'quinzenal', 'mensal', 'dia_fixo'))"],
+  ["cadencia_dia", "INTEGER CHECK (cadencia_dia IS NULL OR cadencia_dia BETWEEN 0 AND 31)"],
+];
+
+/**
+ * ✅ Migração V15: Adiciona colunas de cadência se não existirem
+ */
+export async function migrateV15(tx: any): Promise<void> {
+  try {
+    // ✅ Verificar se colunas já existem
+    const colsRaw = await txGetAll<any>(tx, "PRAGMA table_info(clients)", []);
+    const cols = Array.isArray(colsRaw) ? colsRaw.map((c: any) => c.name) : [];
+
+    for (const [column, definition] of NEW_COLUMNS) {
+      if (!cols.includes(column)) {
+        await txExec(tx, `ALTER TABLE clients ADD COLUMN ${column} ${definition};`);
+        console.log(`✅ Coluna ${column} adicionada em clients`);
+      } else {
+        console.log(`ℹ️ Coluna ${column} já existe em clients`);
+      }
+    }
+
+    await createFieldVersionsTrigger(tx, [
+      ...TRACKED_COLUMNS,
+      ["cadencia", "cadencia"],
+      ["cadenciaDia", "cadencia_dia"],
+    ]);
+  } catch (error) {
+    console.error("❌ Erro na migração V15:", error);
+    throw error;
+  }
+}
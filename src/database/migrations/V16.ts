@@ -0,0 +1,23 @@
+/**
+ * 🔄 Migração V16: IDs globais para bairros e ruas
+ * Mesmo modelo da V9: o sync_id é o ID do documento no Firestore e a rua
+ * do cliente é enviada pelo sync_id (o id INTEGER difere entre aparelhos)
+ */
+
+import { addSyncIdColumn } from "./V9";
+
+const SYNC_TABLES = ["bairros", "ruas"] as const;
+
+/**
+ * ✅ Migração V16: Adiciona sync_id em bairros e ruas
+ */
+export async function migrateV16(tx: any): Promise<void> {
+  try {
+    for (const table of SYNC_TABLES) {
+      await addSyncIdColumn(tx, table);
+    }
+  } catch (error) {
+    console.error("❌ Erro na migração V16:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 🔄 Migração V17: Contratos para o valor sem contrato
+ * Clientes cadastrados (ou com valor aumentado) depois da V5 ficaram sem contrato
+ * para parte do valor; a diferença vira um contrato "Saldo anterior" de 1 parcela
+ */
+
+import { txExec } from "../core/transactions";
+import { SALDO_ANTERIOR_DESCRICAO } from "./V5";
+
+/**
+ * ✅ Migração V17: Completa os contratos até o valor total de cada cliente
+ * ✅ Usa tx diretamente para evitar transações duplicadas
+ */
+export async function migrateV17(tx: any): Promise<void> {
+  try {
+    // ✅ Diferença entre o valor do cliente e a soma dos contratos
+    // O pago que os contratos não explicam entra abatido no contrato novo
+    await txExec(tx, `
+      INSERT INTO sales (client_id, descricao, value_cents, paid_cents, installments_count, status, created_at, updated_at)
+      SELECT
+        c.id,
+        '${SALDO_ANTERIOR_DESCRICAO}',
+        c.value_cents - COALESCE(t.value_cents, 0),
+        MIN(c.value_cents - COALESCE(t.value_cents, 0), MAX(0, c.paid_cents - COALESCE(t.paid_cents, 0))),
+        1,
+        CASE WHEN c.paid_cents - COALESCE(t.paid_cents, 0) >= c.value_cents - COALESCE(t.value_cents, 0)
+          THEN 'quitada' ELSE 'aberta' END,
+        COALESCE(c.created_at, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+        strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
+      FROM clients c
+      LEFT JOIN (
+        SELECT client_id, SUM(value_cents) AS value_cents, SUM(paid_cents) AS paid_cents
+        FROM sales GROUP BY client_id
+      ) t ON t.client_id = c.id
+      WHERE c.value_cents > COALESCE(t.value_cents, 0);
+    `);
+
+    // ✅ Parcela única com o mesmo vencimento da V5 (próxima cobrança ou data de cadastro)
+    await txExec(tx, `
+      INSERT INTO installments (sale_id, numero, due_date, value_cents, paid_cents, status)
+      SELECT
+        s.id,
+        1,
+        COALESCE(c.proximaData, c.next_charge, substr(c.created_at, 1, 10), date('now')),
+        s.value_cents,
+        s.paid_cents,
+        CASE WHEN s.paid_cents >= s.value_cents THEN 'paga' ELSE 'aberta' END
+      FROM sales s
+      INNER JOIN clients c ON c.id = s.client_id
+      WHERE s.descricao = '${SALDO_ANTERIOR_DESCRICAO}'
+      AND NOT EXISTS (SELECT 1 FROM installments i WHERE i.sale_id = s.id);
+    `);
+
+    console.log("✅ Contratos completados até o valor total dos clientes");
+  } catch (error) {
+    console.error("❌ Erro na migração V17:", error);
+    throw error;
+  }
+}
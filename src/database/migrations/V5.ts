@@ -0,0 +1,62 @@
+/**
+ * 🔄 Migração V5: Vendas a prazo (contratos) e parcelas
+ * Cria tabelas sales, installments e payment_allocations
+ * Converte o saldo atual de cada cliente em um contrato "Saldo anterior"
+ */
+
+import { txExec } from "../core/transactions";
+import { TABLES } from "../core/schema";
+
+export const SALDO_ANTERIOR_DESCRICAO = "Saldo anterior";
+
+/**
+ * ✅ Migração V5: Cria estrutura de contratos sem perder dados existentes
+ * ✅ Usa tx diretamente para evitar transações duplicadas
+ */
+export async function migrateV5(tx: any): Promise<void> {
+  try {
+    // ✅ Criar tabelas se não existirem (mesma definição do schema base)
+    await txExec(tx, TABLES.sales);
+    await txExec(tx, TABLES.installments);
+    await txExec(tx, TABLES.payment_allocations);
+
+    // ✅ Cada cliente com dívida vira um contrato de 1 parcela
+    // Mantém value_cents/paid_cents do cliente como totais agregados
+    await txExec(tx, `
+      INSERT INTO sales (client_id, descricao, value_cents, paid_cents, installments_count, status, created_at, updated_at)
+      SELECT
+        c.id,
+        '${SALDO_ANTERIOR_DESCRICAO}',
+        c.value_cents,
+        c.paid_cents,
+        1,
+        CASE WHEN c.paid_cents >= c.value_cents THEN 'quitada' ELSE 'aberta' END,
+        COALESCE(c.created_at, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+        strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
+      FROM clients c
+      WHERE c.value_cents > 0
+      AND NOT EXISTS (SELECT 1 FROM sales s WHERE s.client_id = c.id);
+    `);
+
+    // ✅ Vencimento da parcela única = próxima cobrança do cliente (ou data de cadastro)
+    await txExec(tx, `
+      INSERT INTO installments (sale_id, numero, due_date, value_cents, paid_cents, status)
+      SELECT
+        s.id,
+        1,
+        COALESCE(c.proximaData, c.next_charge, substr(c.created_at, 1, 10), date('now')),
+        s.value_cents,
+        s.paid_cents,
+        CASE WHEN s.paid_cents >= s.value_cents THEN 'paga' ELSE 'aberta' END
+      FROM sales s
+      INNER JOIN clients c ON c.id = s.client_id
+      WHERE s.descricao = '${SALDO_ANTERIOR_DESCRICAO}'
+      AND NOT EXISTS (SELECT 1 FROM installments i WHERE i.sale_id = s.id);
+    `);
+
+    console.log("✅ Contratos criados a partir do saldo dos clientes");
+  } catch (error) {
+    console.error("❌ Erro na migração V5:", error);
+    throw error;
+  }
+}
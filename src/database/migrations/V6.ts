@@ -0,0 +1,40 @@
+/**
+ * 🔄 Migração V6: Adiciona coluna registered_at em payments
+ * created_at passa a ser a data em que o pagamento foi recebido
+ * registered_at guarda o momento em que foi lançado no app (auditoria)
+ */
+
+import { txExec, txGetAll } from "../core/transactions";
+
+/**
+ * ✅ Migração V6: Adiciona coluna registered_at se não existir
+ */
+export async function migrateV6(tx: any): Promise<void> {
+  try {
+    // ✅ Verificar se coluna já existe
+    const paymentsColsRaw = await txGetAll<any>(tx, "PRAGMA table_info(payments)", []);
+    if (!Array.isArray(paymentsColsRaw)) {
+      console.warn("⚠️ Não foi possível verificar colunas de payments, pulando migração V6");
+      return;
+    }
+
+    const paymentsCols = paymentsColsRaw.map((c: any) => c.name);
+
+    if (!paymentsCols.includes("registered_at")) {
+      await txExec(tx, `
+        ALTER TABLE payments 
+        ADD COLUMN registered_at TEXT 
+        CHECK (registered_at IS NULL OR registered_at GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*');
+      `);
+      console.log("✅ Coluna registered_at adicionada");
+    } else {
+      console.log("ℹ️ Coluna registered_at já existe");
+    }
+
+    // ✅ Pagamentos antigos: lançamento = data do pagamento
+    await txExec(tx, "UPDATE payments SET registered_at = created_at WHERE registered_at IS NULL;");
+  } catch (error) {
+    console.error("❌ Erro na migração V6:", error);
+    throw error;
+  }
+}
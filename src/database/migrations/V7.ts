@@ -0,0 +1,40 @@
+/**
+ * 🔄 Migração V7: Adiciona coluna method em payments
+ * Registra a forma de pagamento (dinheiro, PIX, cartão, transferência)
+ * Pagamentos antigos ficam como "dinheiro"
+ */
+
+import { txExec, txGetAll } from "../core/transactions";
+
+/**
+ * ✅ Migração V7: Adiciona coluna method se não existir
+ */
+export async function migrateV7(tx: any): Promise<void> {
+  try {
+    // ✅ Verificar se coluna já existe
+    const paymentsColsRaw = await txGetAll<any>(tx, "PRAGMA table_info(payments)", []);
+    if (!Array.isArray(paymentsColsRaw)) {
+      console.warn("⚠️ Não foi possível verificar colunas de payments, pulando migração V7");
+      return;
+    }
+
+    const paymentsCols = paymentsColsRaw.map((c: any) => c.name);
+
+    if (!paymentsCols.includes("method")) {
+      await txExec(tx, `
+        ALTER TABLE payments 
+        ADD COLUMN method TEXT NOT NULL DEFAULT 'dinheiro' 
+        CHECK (method IN ('dinheiro', 'pix', 'cartao', 'transferencia'));
+      `);
+      console.log("✅ Coluna method adicionada");
+    } else {
+      console.log("ℹ️ Coluna method já existe");
+    }
+
+    // ✅ Índice para o fechamento de caixa (data + forma de pagamento)
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_payments_created_method ON payments(created_at, method);");
+  } catch (error) {
+    console.error("❌ Erro na migração V7:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 🔄 Migração V8: Fila offline persistente
+ * Cria tabela sync_outbox para que operações pendentes do Firestore
+ * sobrevivam ao fechamento do app
+ */
+
+import { txExec } from "../core/transactions";
+import { TABLES } from "../core/schema";
+
+/**
+ * ✅ Migração V8: Cria tabela sync_outbox se não existir
+ */
+export async function migrateV8(tx: any): Promise<void> {
+  try {
+    await txExec(tx, TABLES.sync_outbox);
+    await txExec(tx, "CREATE INDEX IF NOT EXISTS idx_sync_outbox_timestamp ON sync_outbox(timestamp);");
+  } catch (error) {
+    console.error("❌ Erro na migração V8:", error);
+    throw error;
+  }
+}
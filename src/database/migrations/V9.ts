@@ -0,0 +1,109 @@
+/**
+ * 🔄 Migração V9: IDs globais para sincronização entre aparelhos
+ * Adiciona sync_id (UUID v4) em clients, payments e logs
+ * O id INTEGER continua sendo usado nos joins locais;
+ * o sync_id é o ID do documento no Firestore (não colide entre aparelhos)
+ * ✅ Registros existentes recebem sync_id derivado da chave natural: aparelhos que já
+ * compartilhavam os clientes (modelo antigo, ids INTEGER) chegam ao mesmo sync_id
+ */
+
+import { txExec, txGetAll, txRun } from "../core/transactions";
+import { legacySyncIds, legacyClientKey, legacyPaymentKey, legacyLogKey } from "../utils/syncIds";
+import type { BackupRecord } from "../utils/backupRecords";
+
+// ✅ UUID v4 gerado pelo próprio SQLite (formato xxxxxxxx-xxxx-4xxx-[89ab]xxx-xxxxxxxxxxxx)
+const SQL_UUID_V4 = `(
+  lower(hex(randomblob(4))) || '-' ||
+  lower(hex(randomblob(2))) || '-4' ||
+  substr(lower(hex(randomblob(2))), 2) || '-' ||
+  substr('89ab', abs(random()) % 4 + 1, 1) ||
+  substr(lower(hex(randomblob(2))), 2) || '-' ||
+  lower(hex(randomblob(6)))
+)`;
+
+const SYNC_TABLES = ["clients", "payments", "logs"] as const;
+
+/**
+ * ✅ Adiciona sync_id em uma tabela, preenche registros existentes e cria índice e gatilho
+ * Migrações que sincronizam novas tabelas reutilizam esta função
+ */
+export async function addSyncIdColumn(tx: any, table: string): Promise<void> {
+  // ✅ Verificar se coluna já existe
+  const colsRaw = await txGetAll<any>(tx, `PRAGMA table_info(${table})`, []);
+  if (!Array.isArray(colsRaw)) {
+    console.warn(`⚠️ Não foi possível verificar colunas de ${table}, pulando sync_id`);
+    return;
+  }
+
+  const cols = colsRaw.map((c: any) => c.name);
+  if (!cols.includes("sync_id")) {
+    await txExec(tx, `ALTER TABLE ${table} ADD COLUMN sync_id TEXT;`);
+    console.log(`✅ Coluna sync_id adicionada em ${table}`);
+  } else {
+    console.log(`ℹ️ Coluna sync_id já existe em ${table}`);
+  }
+
+  // ✅ Registros existentes recebem UUID próprio
+  await txExec(tx, `UPDATE ${table} SET sync_id = ${SQL_UUID_V4} WHERE sync_id IS NULL;`);
+
+  await txExec(tx, `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_sync_id ON ${table}(sync_id);`);
+
+  // ✅ SQLite não aceita DEFAULT não constante em ALTER TABLE
+  // Gatilho garante sync_id em qualquer INSERT (inclusive código legado que não envia o campo)
+  await txExec(tx, `
+    CREATE TRIGGER IF NOT EXISTS trg_${table}_sync_id
+    AFTER INSERT ON ${table}
+    FOR EACH ROW WHEN NEW.sync_id IS NULL
+    BEGIN
+      UPDATE ${table} SET sync_id = ${SQL_UUID_V4} WHERE id = NEW.id;
+    END;
+  `);
+}
+
+/**
+ * ✅ Troca o UUID aleatório dos registros existentes pelo derivado da chave natural
+ * Clientes primeiro: pagamentos e logs usam o sync_id do cliente na chave
+ */
+async function assignLegacySyncIds(
+  tx: any,
+  table: (typeof SYNC_TABLES)[number],
+  sql: string,
+  keyOf: (row: BackupRecord) => string
+): Promise<void> {
+  const rows = await txGetAll<BackupRecord>(tx, sql, []);
+  const ids = legacySyncIds(rows, keyOf);
+  for (let i = 0; i < rows.length; i++) {
+    await txRun(tx, `UPDATE ${table} SET sync_id = ? WHERE id = ?`, [ids[i], rows[i].id]);
+  }
+  console.log(`✅ ${rows.length} registro(s) de ${table} com sync_id derivado`);
+}
+
+/**
+ * ✅ Migração V9: Adiciona sync_id, preenche registros existentes e cria gatilhos
+ */
+export async function migrateV9(tx: any): Promise<void> {
+  try {
+    for (const table of SYNC_TABLES) {
+      await addSyncIdColumn(tx, table);
+    }
+
+    await assignLegacySyncIds(tx, "clients", "SELECT id, name, telefone, created_at FROM clients", legacyClientKey);
+    await assignLegacySyncIds(
+      tx,
+      "payments",
+      `SELECT p.id, p.created_at, p.value_cents, c.sync_id AS client_sync_id
+       FROM payments p JOIN clients c ON c.id = p.client_id`,
+      legacyPaymentKey
+    );
+    await assignLegacySyncIds(
+      tx,
+      "logs",
+      `SELECT l.id, l.created_at, l.descricao, c.sync_id AS client_sync_id
+       FROM logs l JOIN clients c ON c.id = l.clientId`,
+      legacyLogKey
+    );
+  } catch (error) {
+    console.error("❌ Erro na migração V9:", error);
+    throw error;
+  }
+}
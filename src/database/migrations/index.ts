@@ -9,8 +9,26 @@ import { formatDateTimeIso } from "../utils";
 import { migrateV2 } from "./V2";
 import { migrateV3 } from "./V3";
 import { migrateV4 } from "./V4";
+import { migrateV5 } from "./V5";
+import { migrateV6 } from "./V6";
+import { migrateV7 } from "./V7";
+import { migrateV8 } from "./V8";
+import { migrateV9 } from "./V9";
+import { migrateV10 } from "./V10";
+import { migrateV11 } from "./V11";
+import { migrateV12 } from "./V12";
+import { migrateV13 } from "./V13";
+import { migrateV14 } from "./V14";
+import { migrateV15 } from "./V15";
+import { migrateV16 } from "./V16";
+import { migrateV17 } from "./V17";
 import { validateSchema } from "../core/schemaValidator";
 
+/**
+ * ✅ Versão mais recente do schema (atualizar ao criar nova migração)
+ */
+export const LATEST_SCHEMA_VERSION = 17;
+
 /**
  * ✅ Obtém a versão atual do schema do banco
  */
@@ -132,6 +150,149 @@ export async function runMigrations(): Promise<void> {
     });
     console.log("✅ Migração V4 concluída!");
   }
+
+  // ✅ Migração V5: Vendas a prazo (contratos) e parcelas
+  if (currentVersion < 5) {
+    console.log("🔄 Executando migração V5...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV5(tx);
+      await setSchemaVersion(5, tx);
+    });
+    console.log("✅ Migração V5 concluída!");
+  }
+
+  // ✅ Migração V6: Data do pagamento separada do momento do lançamento
+  if (currentVersion < 6) {
+    console.log("🔄 Executando migração V6...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV6(tx);
+      await setSchemaVersion(6, tx);
+    });
+    console.log("✅ Migração V6 concluída!");
+  }
+
+  // ✅ Migração V7: Forma de pagamento (dinheiro, PIX, cartão, transferência)
+  if (currentVersion < 7) {
+    console.log("🔄 Executando migração V7...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV7(tx);
+      await setSchemaVersion(7, tx);
+    });
+    console.log("✅ Migração V7 concluída!");
+  }
+
+  // ✅ Migração V8: Fila offline persistente (sync_outbox)
+  if (currentVersion < 8) {
+    console.log("🔄 Executando migração V8...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV8(tx);
+      await setSchemaVersion(8, tx);
+    });
+    console.log("✅ Migração V8 concluída!");
+  }
+
+  // ✅ Migração V9: IDs globais (sync_id) para sincronização entre aparelhos
+  if (currentVersion < 9) {
+    console.log("🔄 Executando migração V9...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV9(tx);
+      await setSchemaVersion(9, tx);
+    });
+    console.log("✅ Migração V9 concluída!");
+  }
+
+  // ✅ Migração V10: Versão por campo do cliente (resolução de conflitos)
+  if (currentVersion < 10) {
+    console.log("🔄 Executando migração V10...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV10(tx);
+      await setSchemaVersion(10, tx);
+    });
+    console.log("✅ Migração V10 concluída!");
+  }
+
+  // ✅ Migração V11: Ordem de bairros e ruas na rota do dia
+  if (currentVersion < 11) {
+    console.log("🔄 Executando migração V11...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV11(tx);
+      await setSchemaVersion(11, tx);
+    });
+    console.log("✅ Migração V11 concluída!");
+  }
+
+  // ✅ Migração V12: Dispensa de encargos por atraso
+  if (currentVersion < 12) {
+    console.log("🔄 Executando migração V12...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV12(tx);
+      await setSchemaVersion(12, tx);
+    });
+    console.log("✅ Migração V12 concluída!");
+  }
+
+  // ✅ Migração V13: Lixeira (deleted_at em clientes e pagamentos)
+  if (currentVersion < 13) {
+    console.log("🔄 Executando migração V13...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV13(tx);
+      await setSchemaVersion(13, tx);
+    });
+    console.log("✅ Migração V13 concluída!");
+  }
+
+  // ✅ Migração V14: Trilha de auditoria financeira
+  if (currentVersion < 14) {
+    console.log("🔄 Executando migração V14...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV14(tx);
+      await setSchemaVersion(14, tx);
+    });
+    console.log("✅ Migração V14 concluída!");
+  }
+
+  // ✅ Migração V15: Cadência de cobrança do cliente
+  if (currentVersion < 15) {
+    console.log("🔄 Executando migração V15...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV15(tx);
+      await setSchemaVersion(15, tx);
+    });
+    console.log("✅ Migração V15 concluída!");
+  }
+
+  // ✅ Migração V16: IDs globais (sync_id) para bairros e ruas
+  if (currentVersion < 16) {
+    console.log("🔄 Executando migração V16...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV16(tx);
+      await setSchemaVersion(16, tx);
+    });
+    console.log("✅ Migração V16 concluída!");
+  }
+
+  // ✅ Migração V17: Contratos para o valor dos clientes que ficou sem contrato
+  if (currentVersion < 17) {
+    console.log("🔄 Executando migração V17...");
+    const { withTransactionAsync } = await import("../core/transactions");
+    await withTransactionAsync(async (tx) => {
+      await migrateV17(tx);
+      await setSchemaVersion(17, tx);
+    });
+    console.log("✅ Migração V17 concluída!");
+  }
 }
 
 /**
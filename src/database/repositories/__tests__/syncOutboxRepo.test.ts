@@ -0,0 +1,142 @@
+/**
+ * 🧪 Testes Unitários - Fila Offline (sync_outbox)
+ * - Ordem de envio: a última operação de um path fica no fim da fila
+ * - Duplicadas substituem dados e zeram tentativas
+ * - Fila cheia descarta a operação mais antiga
+ * - Limpeza por idade
+ */
+
+import {
+  enqueueOutboxOperation,
+  getOutboxOperations,
+  getOutboxStats,
+  pruneOutbox,
+  setOutboxRetryCount,
+} from "../syncOutboxRepo";
+
+type Row = { id: number; action: string; path: string; data: string | null; timestamp: number; retry_count: number };
+
+// 🗄️ Tabela sync_outbox em memória (só as consultas usadas pelo repositório)
+const table = { rows: [] as Row[], nextId: 1 };
+
+const fakeSql = (sql: string, params: any[] = []): any[] => {
+  const q = sql.replace(/\s+/g, " ").trim();
+
+  if (q.startsWith("SELECT id FROM sync_outbox WHERE action = ? AND path = ?")) {
+    return table.rows.filter((r) => r.action === params[0] && r.path === params[1]);
+  }
+  if (q.startsWith("SELECT COUNT(*) AS total, MIN(timestamp) AS oldest")) {
+    const oldest = table.rows.length ? Math.min(...table.rows.map((r) => r.timestamp)) : null;
+    return [{ total: table.rows.length, oldest }];
+  }
+  if (q.startsWith("SELECT COUNT(*) AS total FROM sync_outbox WHERE timestamp < ?")) {
+    return [{ total: table.rows.filter((r) => r.timestamp < params[0]).length }];
+  }
+  if (q.startsWith("SELECT COUNT(*) AS total FROM sync_outbox")) {
+    return [{ total: table.rows.length }];
+  }
+  if (q.startsWith("SELECT * FROM sync_outbox ORDER BY id ASC")) {
+    return [...table.rows].sort((a, b) => a.id - b.id);
+  }
+  if (q.startsWith("DELETE FROM sync_outbox WHERE id = (SELECT id FROM sync_outbox ORDER BY id ASC LIMIT 1)")) {
+    const oldest = Math.min(...table.rows.map((r) => r.id));
+    table.rows = table.rows.filter((r) => r.id !== oldest);
+    return [];
+  }
+  if (q.startsWith("DELETE FROM sync_outbox WHERE id = ?")) {
+    table.rows = table.rows.filter((r) => r.id !== params[0]);
+    return [];
+  }
+  if (q.startsWith("DELETE FROM sync_outbox WHERE timestamp < ?")) {
+    table.rows = table.rows.filter((r) => r.timestamp >= params[0]);
+    return [];
+  }
+  if (q.startsWith("INSERT INTO sync_outbox")) {
+    const [action, path, data, timestamp] = params;
+    table.rows.push({ id: table.nextId++, action, path, data, timestamp, retry_count: 0 });
+    return [];
+  }
+  if (q.startsWith("UPDATE sync_outbox SET retry_count = ? WHERE id = ?")) {
+    table.rows.forEach((r) => {
+      if (r.id === params[1]) r.retry_count = params[0];
+    });
+    return [];
+  }
+  throw new Error(`SQL não suportado no teste: ${q}`);
+};
+
+jest.mock("../../core/transactions", () => ({
+  withTransactionAsync: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+  txRun: async (_tx: unknown, sql: string, params: any[]) => {
+    fakeSql(sql, params);
+  },
+  txGetOne: async (_tx: unknown, sql: string, params: any[]) => fakeSql(sql, params)[0] ?? null,
+}));
+
+jest.mock("../../core/queries", () => ({
+  run: async (sql: string, params: any[]) => {
+    fakeSql(sql, params);
+  },
+  getOne: async (sql: string, params: any[]) => fakeSql(sql, params)[0] ?? null,
+  getAll: async (sql: string, params: any[]) => fakeSql(sql, params),
+}));
+
+const PATH = "users/u1/payments/p1";
+
+beforeEach(() => {
+  table.rows = [];
+  table.nextId = 1;
+});
+
+describe("enqueueOutboxOperation()", () => {
+  it("✅ deve manter a última operação de um path no fim da fila (SET → DELETE → SET)", async () => {
+    await enqueueOutboxOperation("SET", PATH, { valor: 50 }, 100);
+    await enqueueOutboxOperation("DELETE", PATH, undefined, 100);
+    await enqueueOutboxOperation("SET", PATH, { valor: 50, restaurado: true }, 100);
+
+    const fila = await getOutboxOperations();
+    expect(fila.map((op) => op.action)).toEqual(["DELETE", "SET"]);
+    expect(fila[1].data).toEqual({ valor: 50, restaurado: true });
+  });
+
+  it("✅ deve substituir a operação duplicada com os dados novos e zerar as tentativas", async () => {
+    await enqueueOutboxOperation("SET", PATH, { valor: 10 }, 100);
+    await enqueueOutboxOperation("SET", "users/u1/clients/c1", { name: "Ana" }, 100);
+    const [primeira] = await getOutboxOperations();
+    await setOutboxRetryCount(primeira.id, 3);
+
+    await enqueueOutboxOperation("SET", PATH, { valor: 20 }, 100);
+
+    const fila = await getOutboxOperations();
+    expect(fila.map((op) => op.path)).toEqual(["users/u1/clients/c1", PATH]);
+    expect(fila[1]).toMatchObject({ data: { valor: 20 }, retryCount: 0 });
+  });
+
+  it("✅ deve descartar a operação mais antiga quando a fila está cheia", async () => {
+    await enqueueOutboxOperation("SET", "a", {}, 2);
+    await enqueueOutboxOperation("SET", "b", {}, 2);
+    await enqueueOutboxOperation("SET", "c", {}, 2);
+
+    expect((await getOutboxOperations()).map((op) => op.path)).toEqual(["b", "c"]);
+  });
+
+  it("✅ não deve descartar nada ao substituir duplicada com a fila cheia", async () => {
+    await enqueueOutboxOperation("SET", "a", {}, 2);
+    await enqueueOutboxOperation("SET", "b", {}, 2);
+    await enqueueOutboxOperation("SET", "a", { novo: true }, 2);
+
+    expect((await getOutboxOperations()).map((op) => op.path)).toEqual(["b", "a"]);
+  });
+});
+
+describe("pruneOutbox()", () => {
+  it("✅ deve remover só operações mais antigas que o limite", async () => {
+    await enqueueOutboxOperation("SET", "antiga", {}, 100);
+    table.rows[0].timestamp = Date.now() - 10 * 24 * 60 * 60 * 1000;
+    await enqueueOutboxOperation("SET", "recente", {}, 100);
+
+    expect(await pruneOutbox(7 * 24 * 60 * 60 * 1000)).toBe(1);
+    expect(await getOutboxStats()).toMatchObject({ count: 1 });
+    expect((await getOutboxOperations()).map((op) => op.path)).toEqual(["recente"]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * 🧾 Repositório da Auditoria Financeira
+ * Registro permanente (audit_log) de quem mudou valores do cliente, em qual aparelho,
+ * com os campos monetários antes/depois. Gravado na mesma transação da operação
+ * ⚠️ Diferente dos logs (texto livre, últimos 50): aqui nada é podado ou alterado
+ */
+
+import { Platform } from "react-native";
+import { formatDateTimeIso } from "../utils";
+import { getAll } from "../core/queries";
+import { txRun } from "../core/transactions";
+import { parseAuditSnapshot } from "../utils/audit";
+import type { AuditAction, AuditEntry, AuditSnapshot } from "../types";
+
+// ✅ Usuário logado (atualizado pelo AuthContext)
+let actorUid: string | null = null;
+
+/**
+ * ✅ Define quem assina os próximos registros de auditoria (null = deslogado)
+ */
+export function setAuditActor(uid: string | null): void {
+  actorUid = uid || null;
+}
+
+// ✅ Ex.: "android 33 SM-A135M"
+const describeDevice = (): string => {
+  const model = (Platform as any).constants?.Model;
+  return [Platform.OS, Platform.Version, model].filter(Boolean).join(" ");
+};
+
+// 🔄 Aparelho dos registros aplicados pela sincronização (mudança feita em outro aparelho)
+export const SYNC_AUDIT_DEVICE = "Sincronização (outro aparelho)";
+
+export type NewAuditEntry = {
+  clientId: number;
+  paymentId?: number | null;
+  action: AuditAction;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  device?: string; // Padrão: este aparelho
+};
+
+/**
+ * ✅ Grava registro de auditoria dentro da transação da operação
+ * (se a operação falhar, o registro também não fica)
+ */
+export async function txAddAudit(tx: any, entry: NewAuditEntry): Promise<void> {
+  await txRun(
+    tx,
+    `INSERT INTO audit_log (client_id, payment_id, action, actor_uid, device, before_json, after_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.clientId,
+      entry.paymentId ?? null,
+      entry.action,
+      actorUid,
+      entry.device ?? describeDevice(),
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+      formatDateTimeIso(),
+    ]
+  );
+}
+
+/**
+ * ✅ Auditoria do cliente (mais recente primeiro), opcionalmente de uma ação
+ */
+export async function getAuditByClient(clientId: number, action?: AuditAction | null): Promise<AuditEntry[]> {
+  if (!clientId) return [];
+
+  const rows = await getAll<any>(
+    `SELECT * FROM audit_log
+     WHERE client_id = ?${action ? " AND action = ?" : ""}
+     ORDER BY id DESC`,
+    action ? [clientId, action] : [clientId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    clientId: row.client_id,
+    paymentId: row.payment_id ?? null,
+    action: row.action,
+    actorUid: row.actor_uid ?? null,
+    device: row.device ?? null,
+    before: parseAuditSnapshot(row.before_json),
+    after: parseAuditSnapshot(row.after_json),
+    createdAt: row.created_at,
+  }));
+}
@@ -42,3 +42,43 @@ export async function deleteBairro(id: number): Promise<void> {
   await run("DELETE FROM bairros WHERE id = ?", [id]);
 }
 
+export async function getBairroBySyncId(syncId: string): Promise<Bairro | null> {
+  if (!syncId) return null;
+  return await getOne<Bairro>("SELECT * FROM bairros WHERE sync_id = ?", [syncId]);
+}
+
+/**
+ * ✅ Aplica bairro vindo do Firestore pelo sync_id (o id local difere entre aparelhos)
+ * ⚠️ Bairro com o mesmo nome criado nos dois aparelhos: os dois ficam com o menor sync_id
+ * @returns sync_id local substituído (o documento antigo deve sair do Firestore) ou null
+ */
+export async function upsertBairroFromSync(bairro: Bairro): Promise<string | null> {
+  if (!bairro.sync_id || !bairro.nome || !bairro.nome.trim()) return null;
+
+  const nome = sanitizeString(bairro.nome, 100);
+  const existing = await getBairroBySyncId(bairro.sync_id);
+  if (existing) {
+    if (existing.nome !== nome) {
+      await run("UPDATE bairros SET nome = ? WHERE id = ?", [nome, existing.id]);
+    }
+    return null;
+  }
+
+  const sameName = await getOne<Bairro>("SELECT * FROM bairros WHERE nome = ?", [nome]);
+  if (sameName) {
+    if (sameName.sync_id && sameName.sync_id < bairro.sync_id) return null;
+    await run("UPDATE bairros SET sync_id = ? WHERE id = ?", [bairro.sync_id, sameName.id]);
+    return sameName.sync_id ?? null;
+  }
+
+  await run("INSERT INTO bairros (sync_id, nome) VALUES (?, ?)", [bairro.sync_id, nome]);
+  return null;
+}
+
+/**
+ * ✅ Remove bairro apagado em outro aparelho (ruas vão junto pelo ON DELETE CASCADE)
+ */
+export async function deleteBairroFromSync(syncId: string): Promise<void> {
+  if (!syncId) return;
+  await run("DELETE FROM bairros WHERE sync_id = ?", [syncId]);
+}
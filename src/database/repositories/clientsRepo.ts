@@ -10,9 +10,13 @@
 
 import { waitForInitDB } from "../core/schema";
 import { normalizeClientData } from "../utils";
-import { runAndGetId, run, getOne, getAll, selectMapped } from "../core/queries";
+import { run, getOne, getAll, selectMapped } from "../core/queries";
+import { withTransactionAsync, txRun, txGetOne, txRunAndGetId } from "../core/transactions";
 import { mapClient } from "../core/mappers";
 import { addLog } from "./logsRepo";
+import { txAddAudit } from "./auditRepo";
+import { addOpeningSaleTx } from "./salesRepo";
+import { clientAuditSnapshot } from "../utils/audit";
 // Importação dinâmica para evitar dependência circular
 async function clearTotalsCache() {
   try {
@@ -25,33 +29,56 @@ async function clearTotalsCache() {
 }
 import { formatDateTimeIso, toCentavos, toReais, normalizeDateToISO, sanitizeString } from "../utils";
 import { todayISO, daysFromTodayISO } from "../utils/dateHelpers";
-import type { Client, ClientDB } from "../types";
+import { startOfMonthOf, endOfMonthOf } from "../utils/civilDate";
+import type { Client, ClientDB, CobrancasDoDia, ReagendamentoLote } from "../types";
+import type { FieldVersions } from "../utils/conflictResolution";
 
+/**
+ * ✅ Cadastra o cliente e o contrato "Saldo anterior" com o valor inicial (mesma transação)
+ * Assim clients.value_cents continua igual à soma dos contratos e os pagamentos abatem nele
+ */
 export async function addClient(client: Client): Promise<number> {
   await waitForInitDB();
   const normalized = normalizeClientData(client);
-  
-  const id = await runAndGetId(
-    `INSERT INTO clients (name, value_cents, numero, referencia, telefone, paid_cents, ruaId, ordemVisita, prioritario, observacoes, status, proximaData, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [
-      normalized.name,
+  let id = 0;
+
+  await withTransactionAsync(async (tx) => {
+    id = await txRunAndGetId(
+      tx,
+      `INSERT INTO clients (sync_id, name, value_cents, numero, referencia, telefone, paid_cents, ruaId, ordemVisita, prioritario, observacoes, status, proximaData, cadencia, cadencia_dia, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        // ✅ Cliente vindo do Firestore mantém o sync_id; novo cliente recebe UUID pelo gatilho da V9
+        client.sync_id ?? null,
+        normalized.name,
+        normalized.value_cents,
+        normalized.numero,
+        normalized.referencia,
+        normalized.telefone,
+        normalized.paid_cents,
+        normalized.ruaId,
+        normalized.ordemVisita,
+        normalized.prioritario,
+        normalized.observacoes,
+        normalized.status,
+        normalized.proximaData,
+        normalized.cadencia,
+        normalized.cadencia_dia,
+        normalized.created_at,
+        normalized.updated_at,
+      ]
+    );
+
+    // ✅ Vencimento como na V5: próxima cobrança do cliente ou hoje
+    await addOpeningSaleTx(
+      tx,
+      id,
       normalized.value_cents,
-      normalized.numero,
-      normalized.referencia,
-      normalized.telefone,
       normalized.paid_cents,
-      normalized.ruaId,
-      normalized.ordemVisita,
-      normalized.prioritario,
-      normalized.observacoes,
-      normalized.status,
-      normalized.proximaData,
-      normalized.created_at,
-      normalized.updated_at,
-    ]
-  );
-  await   await clearTotalsCache();
+      normalized.proximaData ?? normalized.next_charge ?? todayISO()
+    );
+  });
+  await clearTotalsCache();
   
   // ⚡ Invalidar cache financeiro
   const { invalidateFinancialCache } = await import("../services/financialCache");
@@ -64,9 +91,28 @@ export async function addClient(client: Client): Promise<number> {
 // Esta função ainda precisa ser migrada do db.ts original
 // Por enquanto, use diretamente do db.ts original se necessário
 
+/**
+ * ✅ Move o cliente para a lixeira (exclusão reversível)
+ * Os pagamentos vão junto, marcados com o mesmo deleted_at do cliente
+ * ⚠️ Remoção definitiva só pela lixeira (purgeClient / limpeza automática)
+ */
 export async function deleteClient(id: number): Promise<void> {
   if (!id) return;
-  await run("DELETE FROM clients WHERE id = ?", [id]);
+  const agora = formatDateTimeIso();
+
+  await withTransactionAsync(async (tx) => {
+    const client = await txGetOne<{ id: number }>(tx, "SELECT id FROM clients WHERE id = ? AND deleted_at IS NULL", [id]);
+    if (!client) return;
+
+    await txRun(tx, "UPDATE clients SET deleted_at = ?, updated_at = ? WHERE id = ?", [agora, agora, id]);
+    await txRun(tx, "UPDATE payments SET deleted_at = ? WHERE client_id = ? AND deleted_at IS NULL", [agora, id]);
+    await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+      id,
+      agora,
+      "🗑️ Cliente movido para a lixeira",
+    ]);
+  });
+
   await clearTotalsCache();
   
   // ⚡ Invalidar cache financeiro
@@ -74,6 +120,159 @@ export async function deleteClient(id: number): Promise<void> {
   await invalidateFinancialCache();
 }
 
+/**
+ * ✅ Restaura cliente da lixeira
+ * Volta junto só os pagamentos apagados com ele (mesmo deleted_at);
+ * pagamentos excluídos antes continuam na lixeira
+ */
+export async function restoreClient(id: number): Promise<void> {
+  if (!id) return;
+
+  // ✅ Consulta fora da transação: chamado pela sincronização para todo cliente recebido
+  const client = await getOne<{ deleted_at: string | null }>("SELECT deleted_at FROM clients WHERE id = ?", [id]);
+  if (!client) throw new Error("Cliente não encontrado");
+  if (!client.deleted_at) return;
+
+  const agora = formatDateTimeIso();
+  await withTransactionAsync(async (tx) => {
+    await txRun(tx, "UPDATE payments SET deleted_at = NULL WHERE client_id = ? AND deleted_at = ?", [
+      id,
+      client.deleted_at,
+    ]);
+    await txRun(tx, "UPDATE clients SET deleted_at = NULL, updated_at = ? WHERE id = ?", [agora, id]);
+    await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+      id,
+      agora,
+      "♻️ Cliente restaurado da lixeira",
+    ]);
+  });
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+}
+
+/**
+ * ✅ Restaura cliente da lixeira quando o Firestore traz versão mais nova que a exclusão
+ * (restaurado ou editado em outro aparelho). Documento antigo não desfaz a exclusão
+ */
+export async function restoreClientFromSync(id: number, remoteUpdatedAt?: string | null): Promise<void> {
+  if (!id || !remoteUpdatedAt) return;
+  const row = await getOne<{ deleted_at: string | null }>("SELECT deleted_at FROM clients WHERE id = ?", [id]);
+  if (!row?.deleted_at || remoteUpdatedAt <= row.deleted_at) return;
+  await restoreClient(id);
+}
+
+/**
+ * ✅ Remove definitivamente cliente que está na lixeira
+ * Pagamentos, vendas e logs saem junto (ON DELETE CASCADE)
+ */
+export async function purgeClient(id: number): Promise<void> {
+  if (!id) return;
+  await run("DELETE FROM clients WHERE id = ? AND deleted_at IS NOT NULL", [id]);
+}
+
+// 📅 Campos do reagendamento (mesmos da auditoria)
+const RESCHEDULE_SQL =
+  "SELECT id, value_cents, paid_cents, status, proximaData FROM clients WHERE id = ? AND deleted_at IS NULL";
+
+const isoToBR = (iso: string | null) => (iso ? iso.split("-").reverse().join("/") : "sem data");
+
+/**
+ * ✅ Reagenda vários clientes pendentes para a mesma data (chuva, cobrador doente...)
+ * Tudo numa transação, com log e auditoria por cliente
+ * Quitados, na lixeira ou já na nova data ficam de fora
+ * Retorna as datas anteriores para undoReschedule
+ */
+export async function rescheduleClients(clientIds: number[], novaData: string): Promise<ReagendamentoLote> {
+  const data = normalizeDateToISO(novaData);
+  if (!data) throw new Error("Nova data inválida");
+
+  const ids = [...new Set(clientIds.filter((id) => Number.isInteger(id) && id > 0))];
+  const lote: ReagendamentoLote = { novaData: data, clientes: [], ignorados: 0 };
+  if (ids.length === 0) return lote;
+
+  const agora = formatDateTimeIso();
+  await withTransactionAsync(async (tx) => {
+    for (const id of ids) {
+      const antes = await txGetOne<ClientDB>(tx, RESCHEDULE_SQL, [id]);
+      if (!antes || antes.status === "quitado" || antes.proximaData === data) {
+        lote.ignorados++;
+        continue;
+      }
+
+      await txRun(tx, "UPDATE clients SET proximaData = ?, next_charge = NULL, updated_at = ? WHERE id = ?", [
+        data,
+        agora,
+        id,
+      ]);
+      await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+        id,
+        agora,
+        `📅 Cobrança reagendada em lote: ${isoToBR(antes.proximaData)} → ${isoToBR(data)}`,
+      ]);
+      await txAddAudit(tx, {
+        clientId: id,
+        action: "cliente_reagendado",
+        before: clientAuditSnapshot(antes),
+        after: clientAuditSnapshot({ ...antes, proximaData: data }),
+      });
+
+      lote.clientes.push({ id, proximaDataAnterior: antes.proximaData ?? null });
+    }
+  });
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+
+  return lote;
+}
+
+/**
+ * ✅ Desfaz um reagendamento em lote (volta cada cliente à data anterior)
+ * ⚠️ Cliente que mudou depois do lote (pagou, foi reagendado de novo) não é tocado
+ * Retorna os IDs restaurados
+ */
+export async function undoReschedule(lote: ReagendamentoLote): Promise<number[]> {
+  if (!lote?.clientes?.length) return [];
+
+  const agora = formatDateTimeIso();
+  const restaurados: number[] = [];
+
+  await withTransactionAsync(async (tx) => {
+    for (const { id, proximaDataAnterior } of lote.clientes) {
+      const antes = await txGetOne<ClientDB>(tx, RESCHEDULE_SQL, [id]);
+      if (!antes || antes.status === "quitado" || antes.proximaData !== lote.novaData) continue;
+
+      await txRun(tx, "UPDATE clients SET proximaData = ?, updated_at = ? WHERE id = ?", [
+        proximaDataAnterior,
+        agora,
+        id,
+      ]);
+      await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+        id,
+        agora,
+        `↩️ Reagendamento desfeito: cobrança volta para ${isoToBR(proximaDataAnterior)}`,
+      ]);
+      await txAddAudit(tx, {
+        clientId: id,
+        action: "cliente_reagendado",
+        before: clientAuditSnapshot(antes),
+        after: clientAuditSnapshot({ ...antes, proximaData: proximaDataAnterior }),
+      });
+
+      restaurados.push(id);
+    }
+  });
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+
+  return restaurados;
+}
+
 export const getAllClients = async (): Promise<Client[]> => {
   // ✅ Usar paginação mesmo para getAllClients (limite de 500)
   // Isso garante que nunca carregamos todos os clientes de uma vez
@@ -84,7 +283,7 @@ export const getAllClients = async (): Promise<Client[]> => {
     
     // ✅ Verificar se a tabela existe e tem dados
     const { getOne } = await import("../core/queries");
-    const countResult = await getOne<{ count: number }>("SELECT COUNT(*) as count FROM clients", []);
+    const countResult = await getOne<{ count: number }>("SELECT COUNT(*) as count FROM clients WHERE deleted_at IS NULL", []);
     const totalCount = countResult?.count ?? 0;
     
     if (__DEV__) {
@@ -97,7 +296,7 @@ export const getAllClients = async (): Promise<Client[]> => {
     }
     
     const result = await selectMapped<Client, ClientDB>(
-      "SELECT * FROM clients ORDER BY name ASC LIMIT 500", 
+      "SELECT * FROM clients WHERE deleted_at IS NULL ORDER BY name ASC LIMIT 500", 
       [], 
       mapClient
     );
@@ -118,7 +317,7 @@ export const getAllClients = async (): Promise<Client[]> => {
 };
 
 export const getTotalClients = async (): Promise<number> => {
-  const result = await getOne<{ total: number }>("SELECT COUNT(*) as total FROM clients", []);
+  const result = await getOne<{ total: number }>("SELECT COUNT(*) as total FROM clients WHERE deleted_at IS NULL", []);
   return result?.total ?? 0;
 };
 
@@ -127,7 +326,7 @@ export const getAllClientsFull = async (): Promise<Client[]> => {
   // Considerar usar getClientsPage() com paginação em vez disso
   // Limite explícito de 10000 para evitar carregar todos os clientes de uma vez
   return await selectMapped<Client, ClientDB>(
-    "SELECT * FROM clients ORDER BY name ASC LIMIT 10000", 
+    "SELECT * FROM clients WHERE deleted_at IS NULL ORDER BY name ASC LIMIT 10000", 
     [], 
     mapClient
   );
@@ -146,7 +345,7 @@ export const getClientsPage = async (limit: number, offset: number): Promise<Cli
   }
   
   return await selectMapped<Client, ClientDB>(
-    "SELECT * FROM clients ORDER BY name ASC LIMIT ? OFFSET ?",
+    "SELECT * FROM clients WHERE deleted_at IS NULL ORDER BY name ASC LIMIT ? OFFSET ?",
     [limit, offset],
     mapClient
   );
@@ -154,16 +353,60 @@ export const getClientsPage = async (limit: number, offset: number): Promise<Cli
 
 export const getClientById = async (id: number): Promise<Client | null> => {
   if (!id) return null;
-  const row = await getOne<ClientDB>("SELECT * FROM clients WHERE id = ?", [id]);
+  const row = await getOne<ClientDB>("SELECT * FROM clients WHERE id = ? AND deleted_at IS NULL", [id]);
+  if (!row) return null;
+  return mapClient(row);
+};
+
+/**
+ * ✅ Busca cliente pelo ID global (mesmo em todos os aparelhos)
+ * ⚠️ Inclui clientes na lixeira: a sincronização não deve recriá-los como novos
+ */
+export const getClientBySyncId = async (syncId: string): Promise<Client | null> => {
+  if (!syncId) return null;
+  const row = await getOne<ClientDB>("SELECT * FROM clients WHERE sync_id = ?", [syncId]);
   if (!row) return null;
   return mapClient(row);
 };
 
+/**
+ * ✅ Versão (updated_at) de cada campo do cliente
+ * Preenchida pelo gatilho da V10 a cada UPDATE em clients
+ */
+export const getClientFieldVersions = async (clientId: number): Promise<FieldVersions> => {
+  if (!clientId) return {};
+  const rows = await getAll<{ field: string; updated_at: string }>(
+    "SELECT field, updated_at FROM client_field_versions WHERE client_id = ?",
+    [clientId]
+  );
+  const versions: Record<string, string> = {};
+  for (const row of rows) versions[row.field] = row.updated_at;
+  return versions as FieldVersions;
+};
+
+/**
+ * ✅ Grava versões de campos vindas de outro aparelho (após aplicar a mudança)
+ */
+export async function setClientFieldVersions(clientId: number, versions: FieldVersions): Promise<void> {
+  const entries = Object.entries(versions).filter(([, updatedAt]) => !!updatedAt);
+  if (!clientId || entries.length === 0) return;
+
+  await withTransactionAsync(async (tx) => {
+    for (const [field, updatedAt] of entries) {
+      await txRun(
+        tx,
+        "INSERT OR REPLACE INTO client_field_versions (client_id, field, updated_at) VALUES (?, ?, ?)",
+        [clientId, field, updatedAt]
+      );
+    }
+  });
+}
+
 export const getClientsUpdatedSince = async (timestamp: string): Promise<Client[]> => {
   if (!timestamp) return [];
   return await selectMapped<Client, ClientDB>(
     `SELECT * FROM clients 
-     WHERE updated_at IS NOT NULL AND updated_at >= ?
+     WHERE deleted_at IS NULL AND updated_at IS NOT NULL AND updated_at >= ?
      ORDER BY updated_at ASC`,
     [timestamp],
     mapClient
@@ -175,7 +418,8 @@ export const getUpcomingCharges = async (): Promise<Client[]> => {
   const next7 = daysFromTodayISO(7);
   return await selectMapped<Client, ClientDB>(
     `SELECT * FROM clients
-     WHERE proximaData IS NOT NULL
+     WHERE deleted_at IS NULL
+     AND proximaData IS NOT NULL
      AND proximaData BETWEEN ? AND ?
      ORDER BY proximaData ASC`,
     [today, next7],
@@ -183,10 +427,34 @@ export const getUpcomingCharges = async (): Promise<Client[]> => {
   );
 };
 
+/**
+ * ✅ Agenda do mês: clientes e valor previsto por dia (uma consulta agregada)
+ * Previsto = saldo em aberto de cada cliente agendado
+ * @param mesISO - Qualquer data do mês (yyyy-mm-dd)
+ */
+export const getChargesByMonth = async (mesISO: string): Promise<CobrancasDoDia[]> => {
+  const rows = await getAll<{ data: string; clientes: number; previsto_cents: number | null }>(
+    `SELECT proximaData AS data,
+            COUNT(*) AS clientes,
+            SUM(MAX(value_cents - paid_cents, 0)) AS previsto_cents
+     FROM clients
+     WHERE deleted_at IS NULL
+     AND proximaData BETWEEN ? AND ?
+     GROUP BY proximaData
+     ORDER BY proximaData ASC`,
+    [startOfMonthOf(mesISO), endOfMonthOf(mesISO)]
+  );
+  return rows.map((row) => ({
+    data: row.data,
+    clientes: row.clientes,
+    previsto: toReais(row.previsto_cents ?? 0),
+  }));
+};
+
 export async function getClientsByRua(ruaId: number): Promise<Client[]> {
   if (!ruaId) return [];
   return await selectMapped<Client, ClientDB>(
-    "SELECT * FROM clients WHERE ruaId = ? ORDER BY ordemVisita ASC, name ASC",
+    "SELECT * FROM clients WHERE ruaId = ? AND deleted_at IS NULL ORDER BY ordemVisita ASC, name ASC",
     [ruaId],
     mapClient
   );
@@ -197,6 +465,7 @@ export async function getClientesPrioritariosHoje(): Promise<Client[]> {
   return await selectMapped<Client, ClientDB>(
     `SELECT * FROM clients 
      WHERE prioritario = 1 
+     AND deleted_at IS NULL
      AND proximaData = ?
      ORDER BY name ASC`,
     [hoje],
@@ -0,0 +1,174 @@
+/**
+ * 💸 Repositório de Encargos por Atraso
+ * Configuração de multa/juros (app_settings), cálculo do saldo atualizado
+ * e dispensa dos encargos com motivo registrado no log do cliente
+ */
+
+import { formatDateTimeIso, toCentavos, toReais, sanitizeString } from "../utils";
+import { todayISO } from "../utils/dateHelpers";
+import { getAll, getOne } from "../core/queries";
+import { withTransactionAsync, txRun } from "../core/transactions";
+import { getSetting, setSetting } from "./settingsRepo";
+import {
+  calcularEncargos,
+  DEFAULT_LATE_FEE_CONFIG,
+  type LateFeeConfig,
+  type JurosPeriodo,
+} from "../utils/lateFees";
+import type { Client, EncargosCliente } from "../types";
+
+// ✅ Chaves em app_settings
+const KEYS = {
+  multaPercent: "encargos_multa_percent",
+  jurosPercent: "encargos_juros_percent",
+  jurosPeriodo: "encargos_juros_periodo",
+  carenciaDias: "encargos_carencia_dias",
+} as const;
+
+const toNumber = (value: string | null, fallback: number): number => {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+/**
+ * ✅ Lê configuração de multa e juros (padrão: desligados)
+ */
+export async function getLateFeeConfig(): Promise<LateFeeConfig> {
+  const [multa, juros, periodo, carencia] = await Promise.all([
+    getSetting(KEYS.multaPercent),
+    getSetting(KEYS.jurosPercent),
+    getSetting(KEYS.jurosPeriodo),
+    getSetting(KEYS.carenciaDias),
+  ]);
+
+  return {
+    multaPercent: toNumber(multa, DEFAULT_LATE_FEE_CONFIG.multaPercent),
+    jurosPercent: toNumber(juros, DEFAULT_LATE_FEE_CONFIG.jurosPercent),
+    jurosPeriodo: periodo === "diario" || periodo === "mensal" ? (periodo as JurosPeriodo) : DEFAULT_LATE_FEE_CONFIG.jurosPeriodo,
+    carenciaDias: Math.floor(toNumber(carencia, DEFAULT_LATE_FEE_CONFIG.carenciaDias)),
+  };
+}
+
+/**
+ * ✅ Salva configuração de multa e juros
+ * @throws Error se algum percentual for inválido
+ */
+export async function saveLateFeeConfig(config: LateFeeConfig): Promise<void> {
+  if (!Number.isFinite(config.multaPercent) || config.multaPercent < 0 || config.multaPercent > 100) {
+    throw new Error("Multa deve estar entre 0% e 100%");
+  }
+  if (!Number.isFinite(config.jurosPercent) || config.jurosPercent < 0 || config.jurosPercent > 100) {
+    throw new Error("Juros devem estar entre 0% e 100%");
+  }
+  if (!Number.isInteger(config.carenciaDias) || config.carenciaDias < 0) {
+    throw new Error("Carência deve ser um número inteiro de dias");
+  }
+
+  await setSetting(KEYS.multaPercent, String(config.multaPercent));
+  await setSetting(KEYS.jurosPercent, String(config.jurosPercent));
+  await setSetting(KEYS.jurosPeriodo, config.jurosPeriodo);
+  await setSetting(KEYS.carenciaDias, String(config.carenciaDias));
+}
+
+// 📌 Vencimento atual do cliente (proximaData; next_charge é legado)
+const getVencimento = (client: Client): string | null => client.proximaData ?? client.next_charge ?? null;
+
+function buildEncargos(
+  client: Client,
+  config: LateFeeConfig,
+  dataRef: string,
+  dispensa?: { motivo: string } | null
+): EncargosCliente | null {
+  const vencimento = getVencimento(client);
+  if (!vencimento || client.status === "quitado") return null;
+
+  const saldoCents = Math.max(0, toCentavos(client.value || 0) - toCentavos(client.paid || 0));
+  const calc = calcularEncargos(saldoCents, vencimento, dataRef, config);
+  if (calc.diasAtraso === 0 || calc.encargosCents === 0) return null;
+
+  const dispensado = !!dispensa;
+  return {
+    vencimento,
+    diasAtraso: calc.diasAtraso,
+    saldo: toReais(saldoCents),
+    multa: toReais(calc.multaCents),
+    juros: toReais(calc.jurosCents),
+    encargos: dispensado ? 0 : toReais(calc.encargosCents),
+    saldoAtualizado: toReais(dispensado ? saldoCents : calc.saldoAtualizadoCents),
+    dispensado,
+    motivoDispensa: dispensa?.motivo ?? null,
+  };
+}
+
+/**
+ * ✅ Encargos do cliente na data de referência
+ * Retorna null se não está vencido, se está na carência ou se os encargos estão desligados
+ */
+export async function getEncargosCliente(client: Client, dataRef: string = todayISO()): Promise<EncargosCliente | null> {
+  const vencimento = getVencimento(client);
+  if (!client.id || !vencimento) return null;
+
+  const config = await getLateFeeConfig();
+  const dispensa = await getOne<{ motivo: string }>(
+    "SELECT motivo FROM late_fee_waivers WHERE client_id = ? AND vencimento = ?",
+    [client.id, vencimento]
+  );
+  return buildEncargos(client, config, dataRef, dispensa);
+}
+
+/**
+ * ✅ Encargos de vários clientes de uma vez (listas)
+ * @returns Mapa clientId → encargos (só clientes com encargos)
+ */
+export async function getEncargosPorClientes(
+  clients: Client[],
+  dataRef: string = todayISO()
+): Promise<Map<number, EncargosCliente>> {
+  const result = new Map<number, EncargosCliente>();
+  const vencidos = clients.filter((c) => c.id && getVencimento(c) && getVencimento(c)! < dataRef);
+  if (vencidos.length === 0) return result;
+
+  const config = await getLateFeeConfig();
+  if (config.multaPercent === 0 && config.jurosPercent === 0) return result;
+
+  const ids = vencidos.map((c) => c.id!);
+  const dispensas = await getAll<{ client_id: number; vencimento: string; motivo: string }>(
+    `SELECT client_id, vencimento, motivo FROM late_fee_waivers WHERE client_id IN (${ids.map(() => "?").join(", ")})`,
+    ids
+  );
+  const porCliente = new Map(dispensas.map((d) => [`${d.client_id}|${d.vencimento}`, d]));
+
+  for (const client of vencidos) {
+    const encargos = buildEncargos(client, config, dataRef, porCliente.get(`${client.id}|${getVencimento(client)}`));
+    if (encargos) result.set(client.id!, encargos);
+  }
+  return result;
+}
+
+/**
+ * ✅ Dispensa multa e juros do vencimento atual do cliente
+ * Registra o motivo no log do cliente (mesma transação)
+ * @throws Error se o motivo estiver vazio ou se não houver encargos
+ */
+export async function dispensarEncargos(client: Client, motivo: string): Promise<void> {
+  const motivoLimpo = sanitizeString(motivo || "", 300);
+  if (!motivoLimpo) throw new Error("Informe o motivo da dispensa");
+  if (!client.id) throw new Error("Cliente inválido");
+
+  const encargos = await getEncargosCliente(client);
+  if (!encargos || encargos.dispensado) throw new Error("Não há encargos a dispensar");
+
+  const agora = formatDateTimeIso();
+  await withTransactionAsync(async (tx) => {
+    await txRun(
+      tx,
+      "INSERT INTO late_fee_waivers (client_id, vencimento, valor_cents, motivo, created_at) VALUES (?, ?, ?, ?, ?)",
+      [client.id, encargos.vencimento, toCentavos(encargos.encargos), motivoLimpo, agora]
+    );
+    await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+      client.id,
+      agora,
+      `🧾 Encargos dispensados: R$ ${encargos.encargos.toFixed(2)} (multa + juros de ${encargos.diasAtraso} dias)\nMotivo: ${motivoLimpo}`,
+    ]);
+  });
+}
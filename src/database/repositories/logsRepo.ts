@@ -5,7 +5,7 @@
 
 import { formatDateTimeIso } from "../utils";
 import { withTransactionAsync, txRun } from "../core/transactions";
-import { runAndGetId, getAll } from "../core/queries";
+import { runAndGetId, getOne, getAll } from "../core/queries";
 import type { Log } from "../types";
 
 /**
@@ -56,8 +56,12 @@ export async function addLogAndGet(clientId: number, descricao: string): Promise
 
   if (!logId) return null;
 
+  // ✅ sync_id é preenchido pelo gatilho da V9 logo após o INSERT
+  const row = await getOne<{ sync_id: string | null }>("SELECT sync_id FROM logs WHERE id = ?", [logId]);
+
   return {
     id: logId,
+    sync_id: row?.sync_id ?? null,
     clientId,
     created_at,
     descricao,
@@ -68,8 +72,22 @@ export const getLogsByClient = async (clientId: number): Promise<Log[]> => {
   if (!clientId) return [];
   // ✅ CRÍTICO: Limitar a últimas 50 linhas por cliente para evitar logs enormes
   return await getAll<Log>(
-    "SELECT id, clientId, created_at, descricao FROM logs WHERE clientId = ? ORDER BY id DESC LIMIT 50",
+    "SELECT id, sync_id, clientId, created_at, descricao FROM logs WHERE clientId = ? ORDER BY id DESC LIMIT 50",
     [clientId]
   );
 };
 
+/**
+ * ✅ IDs locais de todos os logs do cliente (sem o limite de getLogsByClient)
+ * Usado para apagar os documentos antigos do Firestore (ID local como ID do documento)
+ */
+export const getLogIdsByClient = async (clientId: number): Promise<number[]> => {
+  if (!clientId) return [];
+  const rows = await getAll<{ id: number }>(
+    "SELECT id FROM logs WHERE clientId = ?",
+    [clientId],
+    Number.MAX_SAFE_INTEGER
+  );
+  return rows.map((row) => row.id);
+};
+
@@ -3,12 +3,17 @@
  * Gerencia operações de pagamentos de clientes
  */
 
-import { formatDateTimeIso, toCentavos, toReais, normalizeDateToISO } from "../utils";
+import { formatDateTimeIso, toCentavos, toReais, normalizeDateToISO, PAYMENT_METHOD_KEYS } from "../utils";
 import { todayISO, tomorrowISO } from "../utils/dateHelpers";
-import { withTransactionAsync, txRun, txGetOne } from "../core/transactions";
+import { withTransactionAsync, txRun, txGetOne, txRunAndGetId } from "../core/transactions";
 import { run, selectMapped, getOne } from "../core/queries";
 import { mapPayment } from "../core/mappers";
 import { addLog } from "./logsRepo";
+import { allocatePaymentTx, revertPaymentAllocationsTx } from "./salesRepo";
+import { txAddAudit, SYNC_AUDIT_DEVICE } from "./auditRepo";
+import { clientAuditSnapshot, paymentAuditSnapshot } from "../utils/audit";
+import { nextChargeDate } from "../utils/cadence";
+import { nextWorkingDay } from "../utils/workCalendar";
 // Importação dinâmica para evitar dependência circular
 async function clearTotalsCache() {
   try {
@@ -19,18 +24,69 @@ async function clearTotalsCache() {
     console.warn("⚠️ Não foi possível limpar cache:", e);
   }
 }
-import type { Payment, PaymentDB, ClientDB } from "../types";
+import type { Payment, PaymentDB, ClientDB, PaymentMethod, AuditAction } from "../types";
 
+const CLIENT_AUDIT_SQL = "SELECT value_cents, paid_cents, status, proximaData FROM clients WHERE id = ?";
+
+// ✅ Mesmos campos + cadência (agenda a próxima cobrança sem data informada)
+const CLIENT_SCHEDULE_SQL =
+  "SELECT value_cents, paid_cents, status, proximaData, cadencia, cadencia_dia FROM clients WHERE id = ?";
+
+// 📅 yyyy-mm-dd → dd/mm/yyyy (texto dos logs)
+const isoToBR = (iso: string) => iso.split("-").reverse().join("/");
+
+// 💳 Rótulos da forma de pagamento usados nos logs
+const METODO_LOG_LABEL: Record<PaymentMethod, string> = {
+  dinheiro: "Dinheiro",
+  pix: "PIX",
+  cartao: "Cartão",
+  transferencia: "Transferência",
+};
+
+/**
+ * ✅ Converte a data do pagamento informada (Date ou string) em yyyy-mm-dd
+ * ⚠️ Date é convertida no timezone local (data escolhida no DateTimePicker)
+ */
+function resolveDataPagamento(dataPagamento: string | Date): string {
+  const iso = dataPagamento instanceof Date
+    ? formatDateTimeIso(dataPagamento).slice(0, 10)
+    : normalizeDateToISO(dataPagamento);
+
+  if (!iso) throw new Error("Data do pagamento inválida");
+
+  const hoje = formatDateTimeIso().slice(0, 10);
+  if (iso > hoje) throw new Error("A data do pagamento não pode ser no futuro");
+
+  return iso;
+}
+
+/**
+ * ✅ Registra um pagamento do cliente
+ * created_at = data em que o dinheiro foi recebido (usada pelos relatórios)
+ * registered_at = momento do lançamento no app (auditoria)
+ * Sem dataPagamento, o pagamento é considerado recebido agora
+ * Sem metodo, o pagamento é registrado como dinheiro
+ * Pagamento parcial sem proximaData: usa a cadência do cliente e, sem ela,
+ * o vencimento da próxima parcela em aberto
+ */
 export async function addPayment(
   clientId: number, 
   valor: number,
-  options?: { proximaData?: string | null }
+  options?: { proximaData?: string | null; dataPagamento?: string | Date | null; metodo?: PaymentMethod }
 ): Promise<void> {
   if (!clientId || valor <= 0) throw new Error("Cliente e valor obrigatórios");
 
+  const metodo = options?.metodo ?? "dinheiro";
+  if (!PAYMENT_METHOD_KEYS.includes(metodo)) throw new Error(`Forma de pagamento inválida: ${metodo}`);
+
   const valorCents = toCentavos(valor);
   const valorRecebido = valor;
-  const created_at = formatDateTimeIso();
+  const registered_at = formatDateTimeIso();
+
+  // ✅ Pagamento retroativo: mantém o horário do lançamento na data informada
+  const dataPagamento = options?.dataPagamento ? resolveDataPagamento(options.dataPagamento) : null;
+  const retroativo = !!dataPagamento && dataPagamento !== registered_at.slice(0, 10);
+  const created_at = retroativo ? `${dataPagamento}${registered_at.slice(10)}` : registered_at;
 
   // ✅ Normalizar proximaData se fornecida
   let novaProximaData: string | null = null;
@@ -41,7 +97,7 @@ export async function addPayment(
   // 🔒 Transação atômica usando tx.executeSql diretamente (elimina deadlocks)
   await withTransactionAsync(async (tx) => {
     // ✅ Busca o cliente DENTRO da transação usando tx diretamente
-    const clientDB = await txGetOne<ClientDB>(tx, "SELECT paid_cents, value_cents FROM clients WHERE id = ?", [clientId]);
+    const clientDB = await txGetOne<ClientDB>(tx, CLIENT_SCHEDULE_SQL, [clientId]);
     
     if (!clientDB) throw new Error("Cliente não encontrado");
 
@@ -56,20 +112,28 @@ export async function addPayment(
       // ✅ Quitou tudo
       novoStatus = "quitado";
       novaProximaData = null;
-    } else {
+    }
+
+    const paymentId = await txRunAndGetId(
+      tx,
+      "INSERT INTO payments (client_id, created_at, registered_at, value_cents, method) VALUES (?, ?, ?, ?, ?)",
+      [clientId, created_at, registered_at, valorCents, metodo]
+    );
+
+    // ✅ Abater nas parcelas abertas (contrato/parcela mais antiga primeiro)
+    const proximaParcela = await allocatePaymentTx(tx, clientId, paymentId, valorCents, created_at);
+
+    if (novoStatus === "pendente" && !novaProximaData) {
       // ✅ Pagamento parcial - CRÍTICO: exige proximaData
-      novoStatus = "pendente";
-      if (!options?.proximaData) {
+      // Sem data informada, usa a cadência (a partir do dia do pagamento, no próximo dia útil)
+      // e, sem cadência, o vencimento da próxima parcela em aberto
+      const pelaCadencia = nextChargeDate(clientDB.cadencia, clientDB.cadencia_dia, created_at.slice(0, 10));
+      novaProximaData = pelaCadencia ? nextWorkingDay(pelaCadencia) : proximaParcela;
+      if (!novaProximaData) {
         throw new Error("Pagamento parcial exige próxima data. Por favor, informe quando será a próxima cobrança.");
       }
     }
 
-    await txRun(tx, "INSERT INTO payments (client_id, created_at, value_cents) VALUES (?, ?, ?)", [
-      clientId,
-      created_at,
-      valorCents,
-    ]);
-
     await txRun(
       tx,
       "UPDATE clients SET paid_cents = paid_cents + ?, status = ?, proximaData = ?, next_charge = NULL, updated_at = ? WHERE id = ?",
@@ -79,13 +143,27 @@ export async function addPayment(
     // ✅ Log detalhado mostrando valor antes, valor recebido e valor depois
     await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
       clientId,
-      created_at,
+      registered_at,
       `💵 Pagamento adicionado:\n` +
+      (retroativo ? `Data do pagamento: ${dataPagamento} (lançado em ${registered_at.slice(0, 10)})\n` : "") +
       `Valor pago antes: R$ ${valorPagoAntes.toFixed(2)}\n` +
-      `Valor recebido: R$ ${valorRecebido.toFixed(2)}\n` +
+      `Valor recebido: R$ ${valorRecebido.toFixed(2)} (${METODO_LOG_LABEL[metodo]})\n` +
       `Valor pago atual: R$ ${valorPagoDepois.toFixed(2)}\n` +
       `Status: ${novoStatus === "quitado" ? "✅ Quitado" : "⏳ Pendente"}`
     ]);
+
+    // 🧾 Auditoria (mesma transação)
+    const depois = await txGetOne<ClientDB>(tx, CLIENT_AUDIT_SQL, [clientId]);
+    await txAddAudit(tx, {
+      clientId,
+      paymentId,
+      action: "pagamento_registrado",
+      before: clientAuditSnapshot(clientDB),
+      after: {
+        ...clientAuditSnapshot(depois ?? clientDB),
+        ...paymentAuditSnapshot({ value_cents: valorCents, method: metodo, created_at }),
+      },
+    });
   });
   
   // ✅ Limpar cache apenas após commit bem-sucedido (value/paid mudaram)
@@ -96,14 +174,26 @@ export async function addPayment(
   await invalidateFinancialCache();
 }
 
-export async function marcarClienteAusente(clientId: number): Promise<void> {
+/**
+ * ✅ Cliente não estava em casa: reagenda a cobrança
+ * Sem proximaData informada, usa a cadência do cliente (a partir de hoje) e, sem ela, amanhã
+ * ✅ A data automática pula folgas e feriados (próximo dia útil); a informada é respeitada
+ */
+export async function marcarClienteAusente(clientId: number, options?: { proximaData?: string | null }): Promise<void> {
   if (!clientId) throw new Error("ID do cliente é obrigatório");
 
-  // ✅ Usar helper para data de amanhã
-  const proximaData = normalizeDateToISO(tomorrowISO());
+  const informada = options?.proximaData ? normalizeDateToISO(options.proximaData) : null;
+  if (options?.proximaData && !informada) throw new Error("Próxima data inválida");
   const created_at = formatDateTimeIso();
 
   await withTransactionAsync(async (tx) => {
+    const antes = await txGetOne<ClientDB>(tx, CLIENT_SCHEDULE_SQL, [clientId]);
+    if (!antes) throw new Error("Cliente não encontrado");
+
+    const pelaCadencia = informada ? null : nextChargeDate(antes.cadencia, antes.cadencia_dia, todayISO());
+    const proximaData = informada ?? nextWorkingDay(pelaCadencia ?? tomorrowISO());
+    const adiada = !informada && !pelaCadencia && proximaData !== tomorrowISO();
+
     await txRun(
       tx,
       "UPDATE clients SET status = ?, proximaData = ?, next_charge = NULL, updated_at = ? WHERE id = ?",
@@ -113,26 +203,252 @@ export async function marcarClienteAusente(clientId: number): Promise<void> {
     await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
       clientId,
       created_at,
-      "🚫 Cliente ausente. Próxima cobrança agendada para amanhã.",
+      proximaData === tomorrowISO()
+        ? "🚫 Cliente ausente. Próxima cobrança agendada para amanhã."
+        : `🚫 Cliente ausente. Próxima cobrança agendada para ${isoToBR(proximaData)}${
+            pelaCadencia ? " (cadência)" : adiada ? " (próximo dia útil)" : ""
+          }.`,
     ]);
+
+    // 🧾 Auditoria (mesma transação)
+    await txAddAudit(tx, {
+      clientId,
+      action: "cliente_ausente",
+      before: clientAuditSnapshot(antes),
+      after: clientAuditSnapshot({ ...antes, status: "pendente", proximaData }),
+    });
   });
 }
 
 export const getPaymentsByClient = async (clientId: number): Promise<Payment[]> => {
   if (!clientId) return [];
   return await selectMapped<Payment, PaymentDB>(
-    "SELECT * FROM payments WHERE client_id = ? ORDER BY created_at DESC",
+    "SELECT * FROM payments WHERE client_id = ? AND deleted_at IS NULL ORDER BY created_at DESC",
     [clientId],
     mapPayment
   );
 };
 
+export const getPaymentById = async (id: number): Promise<Payment | null> => {
+  if (!id) return null;
+  const rows = await selectMapped<Payment, PaymentDB>("SELECT * FROM payments WHERE id = ?", [id], mapPayment);
+  return rows[0] ?? null;
+};
+
+export const getPaymentBySyncId = async (syncId: string): Promise<Payment | null> => {
+  if (!syncId) return null;
+  const rows = await selectMapped<Payment, PaymentDB>("SELECT * FROM payments WHERE sync_id = ?", [syncId], mapPayment);
+  return rows[0] ?? null;
+};
+
+// ✅ Pago do cliente que não veio de pagamento registrado ("Saldo anterior", CSV importado)
+const OPENING_PAID_SQL = `
+  SELECT c.paid_cents - COALESCE(
+    (SELECT SUM(p.value_cents) FROM payments p WHERE p.client_id = c.id AND p.deleted_at IS NULL), 0
+  ) AS opening_cents
+  FROM clients c WHERE c.id = ?`;
+
+/**
+ * ✅ Parte do total pago que não tem pagamento registrado (em centavos)
+ * Nunca negativa: diferença deixada pelo antigo limite (pago ≤ valor) não é mantida
+ */
+async function getOpeningPaidTx(tx: any, clientId: number): Promise<number> {
+  const row = await txGetOne<{ opening_cents: number | null }>(tx, OPENING_PAID_SQL, [clientId]);
+  return Math.max(0, row?.opening_cents ?? 0);
+}
+
+/**
+ * ✅ Pago do cliente sem pagamento registrado, em reais (enviado ao Firestore com o cliente)
+ * O outro aparelho cadastra o cliente só com esta parte; os pagamentos completam o total
+ */
+export const getClientOpeningPaid = async (clientId: number): Promise<number> => {
+  if (!clientId) return 0;
+  const row = await getOne<{ opening_cents: number | null }>(OPENING_PAID_SQL, [clientId]);
+  return toReais(Math.max(0, row?.opening_cents ?? 0));
+};
+
+type SyncPaymentAudit = {
+  paymentId: number;
+  action: AuditAction;
+  before?: Pick<PaymentDB, "value_cents" | "method" | "created_at"> | null; // Pagamento como estava (se contava)
+  after?: Pick<PaymentDB, "value_cents" | "method" | "created_at"> | null; // Pagamento como ficou (se conta)
+};
+
+/**
+ * ✅ Recalcula o total pago do cliente após pagamento sincronizado e grava a auditoria
+ * Total = parte sem pagamento registrado (lida ANTES de mexer nos pagamentos) + soma dos pagamentos fora da lixeira
+ * ⚠️ Sem limite pelo valor total: somar e depois subtrair o mesmo pagamento volta ao total anterior
+ */
+async function recomputeClientPaidTx(
+  tx: any,
+  clientId: number,
+  openingCents: number,
+  audit: SyncPaymentAudit
+): Promise<void> {
+  const antes = await txGetOne<ClientDB>(tx, CLIENT_AUDIT_SQL, [clientId]);
+  if (!antes) return;
+
+  await txRun(
+    tx,
+    `UPDATE clients
+     SET paid_cents = ? + (SELECT COALESCE(SUM(value_cents), 0) FROM payments WHERE client_id = ? AND deleted_at IS NULL)
+     WHERE id = ?`,
+    [openingCents, clientId, clientId]
+  );
+  await txRun(
+    tx,
+    "UPDATE clients SET status = CASE WHEN value_cents > 0 AND paid_cents >= value_cents THEN 'quitado' ELSE 'pendente' END WHERE id = ?",
+    [clientId]
+  );
+
+  // 🧾 Auditoria (mesma transação): o pagamento aparece do lado em que conta
+  const depois = await txGetOne<ClientDB>(tx, CLIENT_AUDIT_SQL, [clientId]);
+  await txAddAudit(tx, {
+    clientId,
+    paymentId: audit.paymentId,
+    action: audit.action,
+    before: { ...clientAuditSnapshot(antes), ...(audit.before ? paymentAuditSnapshot(audit.before) : {}) },
+    after: { ...clientAuditSnapshot(depois ?? antes), ...(audit.after ? paymentAuditSnapshot(audit.after) : {}) },
+    device: SYNC_AUDIT_DEVICE,
+  });
+}
+
+/**
+ * ✅ Aplica pagamento vindo do Firestore (outro aparelho) pelo sync_id
+ * O cliente é localizado pelo sync_id dele (IDs locais diferem entre aparelhos)
+ * ✅ Pagamento novo: abate nas parcelas e entra no total pago (como addPayment)
+ * ✅ Pagamento já aplicado: só mexe no total se valor ou cliente mudaram (reaplicar é inofensivo)
+ * ⚠️ Pagamento na lixeira daqui só volta se foi restaurado lá depois da exclusão (restored_at)
+ * @returns false se o cliente ainda não existe aqui (fora da lixeira): quem chama guarda e reaplica depois
+ */
+export async function upsertPaymentFromSync(
+  payment: Payment & { restored_at?: string | null },
+  clientSyncId: string
+): Promise<boolean> {
+  if (!payment.sync_id || !clientSyncId || !(payment.valor > 0)) return true;
+
+  const valorCents = toCentavos(payment.valor);
+  const metodo = PAYMENT_METHOD_KEYS.includes(payment.metodo) ? payment.metodo : "dinheiro";
+  const registeredAt = payment.registered_at ?? payment.created_at;
+  const novo = { value_cents: valorCents, method: metodo, created_at: payment.created_at };
+  let aplicado = true;
+
+  await withTransactionAsync(async (tx) => {
+    const client = await txGetOne<{ id: number }>(
+      tx,
+      "SELECT id FROM clients WHERE sync_id = ? AND deleted_at IS NULL",
+      [clientSyncId]
+    );
+    if (!client) {
+      aplicado = false;
+      return;
+    }
+
+    const existing = await txGetOne<PaymentDB>(tx, "SELECT * FROM payments WHERE sync_id = ?", [payment.sync_id]);
+
+    if (!existing) {
+      const opening = await getOpeningPaidTx(tx, client.id);
+      const paymentId = await txRunAndGetId(
+        tx,
+        "INSERT INTO payments (sync_id, client_id, created_at, registered_at, value_cents, method) VALUES (?, ?, ?, ?, ?, ?)",
+        [payment.sync_id, client.id, payment.created_at, registeredAt, valorCents, metodo]
+      );
+      await allocatePaymentTx(tx, client.id, paymentId, valorCents, payment.created_at);
+      await recomputeClientPaidTx(tx, client.id, opening, {
+        paymentId,
+        action: "pagamento_registrado",
+        after: novo,
+      });
+      return;
+    }
+
+    const restaurado = !!existing.deleted_at && !!payment.restored_at && payment.restored_at > existing.deleted_at;
+    if (existing.deleted_at && !restaurado) return;
+
+    const mudouCliente = existing.client_id !== client.id;
+    const mudouTotal = restaurado || mudouCliente || existing.value_cents !== valorCents;
+
+    // ✅ Parte sem pagamento registrado lida antes de mexer no pagamento
+    const opening = mudouTotal ? await getOpeningPaidTx(tx, client.id) : 0;
+    const openingAntigo = mudouTotal && mudouCliente ? await getOpeningPaidTx(tx, existing.client_id) : 0;
+
+    if (mudouTotal && !existing.deleted_at) {
+      await revertPaymentAllocationsTx(tx, existing.id);
+    }
+
+    await txRun(
+      tx,
+      "UPDATE payments SET client_id = ?, created_at = ?, registered_at = ?, value_cents = ?, method = ?, deleted_at = NULL WHERE id = ?",
+      [client.id, payment.created_at, registeredAt, valorCents, metodo, existing.id]
+    );
+    if (!mudouTotal) return;
+
+    // ✅ Pagamento trocou de cliente: sai do total do cliente antigo
+    if (mudouCliente && !existing.deleted_at) {
+      await recomputeClientPaidTx(tx, existing.client_id, openingAntigo, {
+        paymentId: existing.id,
+        action: "pagamento_excluido",
+        before: existing,
+      });
+    }
+
+    await allocatePaymentTx(tx, client.id, existing.id, valorCents, payment.created_at);
+    await recomputeClientPaidTx(tx, client.id, opening, {
+      paymentId: existing.id,
+      action: restaurado ? "pagamento_restaurado" : "pagamento_registrado",
+      before: mudouCliente || existing.deleted_at ? null : existing,
+      after: novo,
+    });
+  });
+
+  if (!aplicado) return false;
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+  return true;
+}
+
+/**
+ * ✅ Move para a lixeira pagamento apagado em outro aparelho
+ * ✅ O valor sai das parcelas e o total pago é recalculado (como deletePayment)
+ */
+export async function deletePaymentFromSync(syncId: string): Promise<void> {
+  if (!syncId) return;
+
+  await withTransactionAsync(async (tx) => {
+    const existing = await txGetOne<PaymentDB>(
+      tx,
+      "SELECT * FROM payments WHERE sync_id = ? AND deleted_at IS NULL",
+      [syncId]
+    );
+    if (!existing) return;
+
+    const opening = await getOpeningPaidTx(tx, existing.client_id);
+    await revertPaymentAllocationsTx(tx, existing.id);
+    await txRun(tx, "UPDATE payments SET deleted_at = ? WHERE id = ?", [formatDateTimeIso(), existing.id]);
+    await recomputeClientPaidTx(tx, existing.client_id, opening, {
+      paymentId: existing.id,
+      action: "pagamento_excluido",
+      before: existing,
+    });
+  });
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+}
+
+/**
+ * ✅ Move o pagamento para a lixeira (exclusão reversível)
+ * O valor sai do total pago e das parcelas; restorePayment aplica de novo
+ */
 export async function deletePayment(id: number): Promise<void> {
   if (!id) return;
 
   try {
     // ✅ Buscar dados ANTES da transação (não afeta atomicidade)
-    const paymentDB = await getOne<PaymentDB>("SELECT * FROM payments WHERE id = ?", [id]);
+    const paymentDB = await getOne<PaymentDB>("SELECT * FROM payments WHERE id = ? AND deleted_at IS NULL", [id]);
     if (!paymentDB) return;
 
     const valorCents = paymentDB.value_cents;
@@ -140,14 +456,16 @@ export async function deletePayment(id: number): Promise<void> {
 
     await withTransactionAsync(async (tx) => {
       // ✅ Buscar cliente DENTRO da transação
-      const clientDB = await txGetOne<ClientDB>(tx, "SELECT paid_cents, value_cents FROM clients WHERE id = ?", [clientId]);
+      const clientDB = await txGetOne<ClientDB>(tx, CLIENT_AUDIT_SQL, [clientId]);
       if (!clientDB) throw new Error("Cliente não encontrado");
 
       // ✅ Reverter pagamento
       const novoPaidCents = Math.max(0, clientDB.paid_cents - valorCents);
       const novoStatus = novoPaidCents >= clientDB.value_cents ? "quitado" : "pendente";
 
-      await txRun(tx, "DELETE FROM payments WHERE id = ?", [id]);
+      // ✅ Estornar o valor das parcelas antes de mandar o pagamento para a lixeira
+      await revertPaymentAllocationsTx(tx, id);
+      await txRun(tx, "UPDATE payments SET deleted_at = ? WHERE id = ?", [formatDateTimeIso(), id]);
       await txRun(
         tx,
         "UPDATE clients SET paid_cents = ?, status = ? WHERE id = ?",
@@ -158,8 +476,17 @@ export async function deletePayment(id: number): Promise<void> {
       await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
         clientId,
         formatDateTimeIso(),
-        `🗑️ Pagamento removido: R$ ${toReais(valorCents).toFixed(2)}`,
+        `🗑️ Pagamento movido para a lixeira: R$ ${toReais(valorCents).toFixed(2)}`,
       ]);
+
+      // 🧾 Auditoria (mesma transação)
+      await txAddAudit(tx, {
+        clientId,
+        paymentId: id,
+        action: "pagamento_excluido",
+        before: { ...clientAuditSnapshot(clientDB), ...paymentAuditSnapshot(paymentDB) },
+        after: clientAuditSnapshot({ ...clientDB, paid_cents: novoPaidCents, status: novoStatus }),
+      });
     });
 
     await clearTotalsCache();
@@ -173,3 +500,72 @@ export async function deletePayment(id: number): Promise<void> {
   }
 }
 
+/**
+ * ✅ Restaura pagamento da lixeira
+ * Soma de volta no total pago e abate de novo nas parcelas abertas
+ * @throws Error se o cliente do pagamento também estiver na lixeira
+ */
+export async function restorePayment(id: number): Promise<void> {
+  if (!id) return;
+
+  const paymentDB = await getOne<PaymentDB>("SELECT * FROM payments WHERE id = ?", [id]);
+  if (!paymentDB) throw new Error("Pagamento não encontrado");
+  if (!paymentDB.deleted_at) return;
+
+  const valorCents = paymentDB.value_cents;
+  const clientId = paymentDB.client_id;
+
+  await withTransactionAsync(async (tx) => {
+    const clientDB = await txGetOne<ClientDB>(
+      tx,
+      "SELECT value_cents, paid_cents, status, proximaData, deleted_at FROM clients WHERE id = ?",
+      [clientId]
+    );
+    if (!clientDB) throw new Error("Cliente não encontrado");
+    if (clientDB.deleted_at) throw new Error("O cliente deste pagamento está na lixeira. Restaure o cliente primeiro.");
+
+    // ✅ Sem limite pelo valor total: excluir e restaurar o mesmo pagamento volta ao total anterior
+    const novoPaidCents = clientDB.paid_cents + valorCents;
+    const novoStatus = clientDB.value_cents > 0 && novoPaidCents >= clientDB.value_cents ? "quitado" : "pendente";
+
+    await txRun(tx, "UPDATE payments SET deleted_at = NULL WHERE id = ?", [id]);
+    await allocatePaymentTx(tx, clientId, id, valorCents, paymentDB.created_at);
+    await txRun(tx, "UPDATE clients SET paid_cents = ?, status = ?, updated_at = ? WHERE id = ?", [
+      novoPaidCents,
+      novoStatus,
+      formatDateTimeIso(),
+      clientId,
+    ]);
+
+    await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+      clientId,
+      formatDateTimeIso(),
+      `♻️ Pagamento restaurado da lixeira: R$ ${toReais(valorCents).toFixed(2)}`,
+    ]);
+
+    // 🧾 Auditoria (mesma transação)
+    await txAddAudit(tx, {
+      clientId,
+      paymentId: id,
+      action: "pagamento_restaurado",
+      before: clientAuditSnapshot(clientDB),
+      after: {
+        ...clientAuditSnapshot({ ...clientDB, paid_cents: novoPaidCents, status: novoStatus }),
+        ...paymentAuditSnapshot(paymentDB),
+      },
+    });
+  });
+
+  await clearTotalsCache();
+  const { invalidateFinancialCache } = await import("../services/financialCache");
+  await invalidateFinancialCache();
+}
+
+/**
+ * ✅ Remove definitivamente pagamento que está na lixeira
+ * ⚠️ Total pago e parcelas já foram estornados ao mandar para a lixeira
+ */
+export async function purgePayment(id: number): Promise<void> {
+  if (!id) return;
+  await run("DELETE FROM payments WHERE id = ? AND deleted_at IS NOT NULL", [id]);
+}
@@ -0,0 +1,93 @@
+/**
+ * 🗺️ Repositório da Rota do Dia
+ * Monta o plano de visitas de uma data (bairros → ruas → clientes)
+ * e persiste a ordem escolhida de bairros e ruas para as próximas rotas
+ */
+
+import { normalizeDateToISO } from "../utils";
+import { getAll } from "../core/queries";
+import { withTransactionAsync, txRun } from "../core/transactions";
+import { montarRotaDoDia, mergeOrdem, type RotaRow } from "../utils/rota";
+import type { RotaDoDia } from "../types";
+
+// ✅ Sem ordem definida vai para o fim (ordenado por nome)
+const SEM_ORDEM = 2147483647;
+
+/**
+ * ✅ Monta a rota do dia
+ * - Bairros na ordem salva (ordemRota), depois por nome; "sem bairro" por último
+ * - Ruas na ordem salva dentro do bairro, depois por nome; "sem rua" por último
+ * - Clientes da rua: prioritários primeiro, depois ordemVisita
+ *
+ * @param date - Data da rota (yyyy-mm-dd ou dd/mm/yyyy)
+ * @param incluirAtrasados - Inclui cobranças de dias anteriores ainda pendentes (padrão: true)
+ */
+export async function getRotaDoDia(date: string, incluirAtrasados: boolean = true): Promise<RotaDoDia> {
+  const data = normalizeDateToISO(date);
+  if (!data) {
+    console.warn(`⚠️ Data inválida: ${date}`);
+    return montarRotaDoDia("", []);
+  }
+
+  const rows = await getAll<RotaRow>(
+    `SELECT c.*,
+            COALESCE(r.id, -1) AS rota_rua_id,
+            r.nome AS rota_rua_nome,
+            COALESCE(b.id, -1) AS rota_bairro_id,
+            b.nome AS rota_bairro_nome
+     FROM clients c
+     LEFT JOIN ruas r ON c.ruaId = r.id
+     LEFT JOIN bairros b ON r.bairroId = b.id
+     WHERE c.deleted_at IS NULL
+       AND (c.proximaData = ? OR (? = 1 AND c.proximaData < ? AND c.status = 'pendente'))
+     ORDER BY (b.id IS NULL) ASC, COALESCE(b.ordemRota, ?) ASC, b.nome ASC,
+              (r.id IS NULL) ASC, COALESCE(r.ordemRota, ?) ASC, r.nome ASC,
+              c.prioritario DESC, c.ordemVisita ASC, c.name ASC`,
+    [data, incluirAtrasados ? 1 : 0, data, SEM_ORDEM, SEM_ORDEM]
+  );
+
+  // ✅ Linhas já vêm ordenadas: basta agrupar na sequência
+  return montarRotaDoDia(data, rows);
+}
+
+/**
+ * ✅ Salva a ordem das ruas de um bairro na rota
+ * @param bairroId - Bairro das ruas
+ * @param ruaIds - Ruas na nova ordem (pode ser só as ruas com visitas hoje)
+ */
+export async function salvarOrdemRuas(bairroId: number, ruaIds: number[]): Promise<void> {
+  if (!bairroId || bairroId < 0 || ruaIds.length === 0) return;
+
+  const todas = await getAll<{ id: number }>(
+    "SELECT id FROM ruas WHERE bairroId = ? ORDER BY COALESCE(ordemRota, ?) ASC, nome ASC",
+    [bairroId, SEM_ORDEM]
+  );
+  const ordem = mergeOrdem(todas.map((r) => r.id), ruaIds);
+
+  await withTransactionAsync(async (tx) => {
+    for (let i = 0; i < ordem.length; i++) {
+      await txRun(tx, "UPDATE ruas SET ordemRota = ? WHERE id = ?", [i + 1, ordem[i]]);
+    }
+  });
+}
+
+/**
+ * ✅ Salva a ordem dos bairros na rota
+ * @param bairroIds - Bairros na nova ordem (pode ser só os bairros com visitas hoje)
+ */
+export async function salvarOrdemBairros(bairroIds: number[]): Promise<void> {
+  const ids = bairroIds.filter((id) => id > 0);
+  if (ids.length === 0) return;
+
+  const todos = await getAll<{ id: number }>(
+    "SELECT id FROM bairros ORDER BY COALESCE(ordemRota, ?) ASC, nome ASC",
+    [SEM_ORDEM]
+  );
+  const ordem = mergeOrdem(todos.map((b) => b.id), ids);
+
+  await withTransactionAsync(async (tx) => {
+    for (let i = 0; i < ordem.length; i++) {
+      await txRun(tx, "UPDATE bairros SET ordemRota = ? WHERE id = ?", [i + 1, ordem[i]]);
+    }
+  });
+}
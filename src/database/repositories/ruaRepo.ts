@@ -49,3 +49,50 @@ export async function deleteRua(id: number): Promise<void> {
   await run("DELETE FROM ruas WHERE id = ?", [id]);
 }
 
+export async function getRuaBySyncId(syncId: string): Promise<Rua | null> {
+  if (!syncId) return null;
+  return await getOne<Rua>("SELECT * FROM ruas WHERE sync_id = ?", [syncId]);
+}
+
+/**
+ * ✅ Aplica rua vinda do Firestore pelo sync_id; o bairro é localizado pelo sync_id dele
+ * ⚠️ Ignora se o bairro ainda não existe localmente
+ * ⚠️ Rua com o mesmo nome no bairro criada nos dois aparelhos: as duas ficam com o menor sync_id
+ * @returns sync_id local substituído (o documento antigo deve sair do Firestore) ou null
+ */
+export async function upsertRuaFromSync(rua: Rua, bairroSyncId: string): Promise<string | null> {
+  if (!rua.sync_id || !rua.nome || !rua.nome.trim() || !bairroSyncId) return null;
+
+  const bairro = await getOne<{ id: number }>("SELECT id FROM bairros WHERE sync_id = ?", [bairroSyncId]);
+  if (!bairro) {
+    console.warn(`⚠️ Bairro ${bairroSyncId} da rua ${rua.sync_id} não existe localmente, ignorando`);
+    return null;
+  }
+
+  const nome = sanitizeString(rua.nome, 100);
+  const existing = await getRuaBySyncId(rua.sync_id);
+  if (existing) {
+    if (existing.nome !== nome || existing.bairroId !== bairro.id) {
+      await run("UPDATE ruas SET nome = ?, bairroId = ? WHERE id = ?", [nome, bairro.id, existing.id]);
+    }
+    return null;
+  }
+
+  const sameName = await getOne<Rua>("SELECT * FROM ruas WHERE nome = ? AND bairroId = ?", [nome, bairro.id]);
+  if (sameName) {
+    if (sameName.sync_id && sameName.sync_id < rua.sync_id) return null;
+    await run("UPDATE ruas SET sync_id = ? WHERE id = ?", [rua.sync_id, sameName.id]);
+    return sameName.sync_id ?? null;
+  }
+
+  await run("INSERT INTO ruas (sync_id, nome, bairroId) VALUES (?, ?, ?)", [rua.sync_id, nome, bairro.id]);
+  return null;
+}
+
+/**
+ * ✅ Remove rua apagada em outro aparelho (clientes ficam sem rua pelo ON DELETE SET NULL)
+ */
+export async function deleteRuaFromSync(syncId: string): Promise<void> {
+  if (!syncId) return;
+  await run("DELETE FROM ruas WHERE sync_id = ?", [syncId]);
+}
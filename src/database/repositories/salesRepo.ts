@@ -0,0 +1,369 @@
+/**
+ * 🧾 Repositório de Vendas (contratos) e Parcelas
+ * Cada cliente pode ter vários contratos abertos, cada um com N parcelas
+ *
+ * ⚠️ NOTA: clients.value_cents/paid_cents continuam sendo os totais
+ * agregados de todos os contratos (usados por relatórios e listas)
+ */
+
+import { formatDateTimeIso, toCentavos, toReais, normalizeDateToISO, sanitizeString } from "../utils";
+import {
+  buildInstallmentSchedule,
+  allocatePaymentToInstallments,
+  reduceOpenInstallments,
+  type InstallmentInterval,
+  type OpenInstallment,
+} from "../utils/installments";
+import { nextWorkingDay } from "../utils/workCalendar";
+import { withTransactionAsync, txRun, txGetOne, txGetAll, txRunAndGetId } from "../core/transactions";
+import { selectMapped } from "../core/queries";
+import { mapSale, mapInstallment } from "../core/mappers";
+import { SALDO_ANTERIOR_DESCRICAO } from "../migrations/V5";
+import type {
+  Sale,
+  SaleDB,
+  Installment,
+  InstallmentDB,
+  SaleWithInstallments,
+  ClientDB,
+} from "../types";
+
+// 🧾 Contrato criado quando o valor total do cliente é aumentado na edição
+export const AJUSTE_VALOR_DESCRICAO = "Ajuste de valor";
+
+export type NewSaleInput = {
+  descricao: string;
+  valor: number; // Reais
+  parcelas: number;
+  primeiroVencimento: string; // yyyy-mm-dd ou dd/mm/yyyy
+  intervalo?: InstallmentInterval;
+};
+
+/**
+ * ✅ Cria um novo contrato com cronograma de parcelas
+ * Soma o valor ao total do cliente e reabre a cobrança se estava quitado
+ */
+export async function addSale(clientId: number, input: NewSaleInput): Promise<number> {
+  if (!clientId) throw new Error("Cliente é obrigatório");
+
+  const descricao = sanitizeString(input.descricao, 200);
+  if (!descricao) throw new Error("Descrição da venda é obrigatória");
+
+  const valueCents = toCentavos(input.valor);
+  const primeiroVencimento = normalizeDateToISO(input.primeiroVencimento);
+  if (!primeiroVencimento) throw new Error("Data do primeiro vencimento inválida");
+
+  // ✅ Valida valores antes de abrir a transação
+  // Parcelas seguintes caem no próximo dia útil (o 1º vencimento escolhido é respeitado)
+  const schedule = buildInstallmentSchedule(valueCents, input.parcelas, primeiroVencimento, input.intervalo).map(
+    (parcela, index) => (index === 0 ? parcela : { ...parcela, due_date: nextWorkingDay(parcela.due_date) })
+  );
+  const now = formatDateTimeIso();
+  let saleId = 0;
+
+  await withTransactionAsync(async (tx) => {
+    const clientDB = await txGetOne<ClientDB>(tx, "SELECT id, proximaData FROM clients WHERE id = ?", [clientId]);
+    if (!clientDB) throw new Error("Cliente não encontrado");
+
+    saleId = await txRunAndGetId(
+      tx,
+      `INSERT INTO sales (client_id, descricao, value_cents, paid_cents, installments_count, status, created_at, updated_at)
+       VALUES (?, ?, ?, 0, ?, 'aberta', ?, ?)`,
+      [clientId, descricao, valueCents, schedule.length, now, now]
+    );
+
+    for (const parcela of schedule) {
+      await txRun(
+        tx,
+        "INSERT INTO installments (sale_id, numero, due_date, value_cents, paid_cents, status) VALUES (?, ?, ?, ?, 0, 'aberta')",
+        [saleId, parcela.numero, parcela.due_date, parcela.value_cents]
+      );
+    }
+
+    // ✅ Próxima cobrança = a mais cedo entre a atual e o 1º vencimento
+    const proximaData =
+      clientDB.proximaData && clientDB.proximaData < schedule[0].due_date
+        ? clientDB.proximaData
+        : schedule[0].due_date;
+
+    await txRun(
+      tx,
+      "UPDATE clients SET value_cents = value_cents + ?, status = 'pendente', proximaData = ?, next_charge = NULL, updated_at = ? WHERE id = ?",
+      [valueCents, proximaData, now, clientId]
+    );
+
+    await txRun(tx, "INSERT INTO logs (clientId, created_at, descricao) VALUES (?, ?, ?)", [
+      clientId,
+      now,
+      `🧾 Nova venda: ${descricao}\n` +
+      `Valor: R$ ${toReais(valueCents).toFixed(2)} em ${schedule.length}x\n` +
+      `1º vencimento: ${schedule[0].due_date}`,
+    ]);
+  });
+
+  const { clearTotalsCache } = await import("../services/reportsService");
+  clearTotalsCache();
+
+  return saleId;
+}
+
+/**
+ * ✅ Contrato de parcela única (saldo inicial ou ajuste de valor)
+ * ⚠️ Não mexe nos totais do cliente: quem chama já gravou value_cents/paid_cents
+ */
+async function insertSingleInstallmentSaleTx(
+  tx: any,
+  clientId: number,
+  descricao: string,
+  valueCents: number,
+  paidCents: number,
+  dueDate: string
+): Promise<void> {
+  const now = formatDateTimeIso();
+  const paid = Math.min(Math.max(paidCents, 0), valueCents);
+  const quitada = paid >= valueCents;
+
+  const saleId = await txRunAndGetId(
+    tx,
+    `INSERT INTO sales (client_id, descricao, value_cents, paid_cents, installments_count, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, 1, ?, ?, ?)`,
+    [clientId, descricao, valueCents, paid, quitada ? "quitada" : "aberta", now, now]
+  );
+  await txRun(
+    tx,
+    "INSERT INTO installments (sale_id, numero, due_date, value_cents, paid_cents, status, paid_at) VALUES (?, 1, ?, ?, ?, ?, ?)",
+    [saleId, dueDate, valueCents, paid, quitada ? "paga" : "aberta", quitada ? now : null]
+  );
+}
+
+/**
+ * ✅ Valor inicial do cliente vira o contrato "Saldo anterior" (mesmo formato da V5)
+ * O pago inicial (ex.: CSV importado) já entra abatido na parcela
+ * ⚠️ Deve ser chamada DENTRO da transação que cria o cliente
+ */
+export async function addOpeningSaleTx(
+  tx: any,
+  clientId: number,
+  valueCents: number,
+  paidCents: number,
+  dueDate: string
+): Promise<void> {
+  if (valueCents <= 0) return;
+  await insertSingleInstallmentSaleTx(tx, clientId, SALDO_ANTERIOR_DESCRICAO, valueCents, paidCents, dueDate);
+}
+
+/**
+ * ✅ Acompanha nos contratos a edição do valor total do cliente
+ * - Aumento: novo contrato "Ajuste de valor" de uma parcela
+ * - Redução: sai do saldo em aberto das parcelas mais novas (parcela zerada é removida)
+ * ⚠️ Deve ser chamada DENTRO da transação que altera clients.value_cents
+ */
+export async function adjustClientSalesTx(tx: any, clientId: number, deltaCents: number, dueDate: string): Promise<void> {
+  if (deltaCents > 0) {
+    await insertSingleInstallmentSaleTx(tx, clientId, AJUSTE_VALOR_DESCRICAO, deltaCents, 0, dueDate);
+    return;
+  }
+  if (deltaCents === 0) return;
+
+  const open = await txGetAll<OpenInstallment & { sale_id: number }>(
+    tx,
+    `SELECT i.id, i.sale_id, i.numero, i.due_date, i.value_cents, i.paid_cents
+     FROM installments i
+     INNER JOIN sales s ON s.id = i.sale_id
+     WHERE s.client_id = ? AND i.status = 'aberta'`,
+    [clientId]
+  );
+
+  const { reductions } = reduceOpenInstallments(open, -deltaCents);
+  const touchedSales = new Set<number>();
+
+  for (const reduction of reductions) {
+    const installment = open.find((i) => i.id === reduction.installment_id)!;
+    touchedSales.add(installment.sale_id);
+
+    if (reduction.value_cents >= installment.value_cents) {
+      await txRun(tx, "DELETE FROM installments WHERE id = ?", [installment.id]);
+      continue;
+    }
+    await txRun(
+      tx,
+      `UPDATE installments
+       SET value_cents = value_cents - ?,
+           status = CASE WHEN paid_cents >= value_cents - ? THEN 'paga' ELSE 'aberta' END,
+           paid_at = CASE WHEN paid_cents >= value_cents - ? THEN ? ELSE paid_at END
+       WHERE id = ?`,
+      [reduction.value_cents, reduction.value_cents, reduction.value_cents, formatDateTimeIso(), installment.id]
+    );
+  }
+
+  for (const saleId of touchedSales) {
+    // ✅ Contrato sem parcelas sai; os demais ficam com o valor das parcelas restantes
+    await txRun(tx, "DELETE FROM sales WHERE id = ? AND NOT EXISTS (SELECT 1 FROM installments WHERE sale_id = ?)", [
+      saleId,
+      saleId,
+    ]);
+    await txRun(
+      tx,
+      `UPDATE sales
+       SET value_cents = (SELECT SUM(value_cents) FROM installments WHERE sale_id = ?),
+           installments_count = (SELECT COUNT(*) FROM installments WHERE sale_id = ?)
+       WHERE id = ?`,
+      [saleId, saleId, saleId]
+    );
+    await syncSaleTotalsTx(tx, saleId);
+  }
+}
+
+/**
+ * ✅ Lista contratos do cliente com parcelas e saldo de cada um
+ * Contratos abertos primeiro, depois os mais recentes
+ */
+export async function getSalesByClient(clientId: number): Promise<SaleWithInstallments[]> {
+  if (!clientId) return [];
+
+  const sales = await selectMapped<Sale, SaleDB>(
+    `SELECT * FROM sales WHERE client_id = ?
+     ORDER BY CASE WHEN status = 'aberta' THEN 0 ELSE 1 END, created_at DESC, id DESC`,
+    [clientId],
+    mapSale
+  );
+  if (sales.length === 0) return [];
+
+  const installments = await selectMapped<Installment, InstallmentDB>(
+    `SELECT i.* FROM installments i
+     INNER JOIN sales s ON s.id = i.sale_id
+     WHERE s.client_id = ?
+     ORDER BY i.sale_id, i.numero`,
+    [clientId],
+    mapInstallment
+  );
+
+  return sales.map((sale) => {
+    const parcelas = installments.filter((i) => i.sale_id === sale.id);
+    const abertas = parcelas.filter((i) => i.status === "aberta");
+    return {
+      ...sale,
+      installments: parcelas,
+      restante: Math.max(toReais(toCentavos(sale.valor) - toCentavos(sale.pago)), 0),
+      parcelasPagas: parcelas.length - abertas.length,
+      proximoVencimento: abertas.length > 0 ? abertas[0].vencimento : null,
+    };
+  });
+}
+
+/**
+ * ✅ Abate um pagamento nas parcelas abertas do cliente (mais antiga primeiro)
+ * ⚠️ Deve ser chamada DENTRO da transação do pagamento
+ * Retorna o vencimento da próxima parcela em aberto (ou null)
+ */
+export async function allocatePaymentTx(
+  tx: any,
+  clientId: number,
+  paymentId: number,
+  valorCents: number,
+  paidAt: string
+): Promise<string | null> {
+  const open = await txGetAll<OpenInstallment & { sale_id: number }>(
+    tx,
+    `SELECT i.id, i.sale_id, i.numero, i.due_date, i.value_cents, i.paid_cents
+     FROM installments i
+     INNER JOIN sales s ON s.id = i.sale_id
+     WHERE s.client_id = ? AND i.status = 'aberta'`,
+    [clientId]
+  );
+
+  const { allocations } = allocatePaymentToInstallments(open, valorCents);
+  const touchedSales = new Set<number>();
+
+  for (const allocation of allocations) {
+    const installment = open.find((i) => i.id === allocation.installment_id)!;
+    touchedSales.add(installment.sale_id);
+
+    await txRun(tx, "INSERT INTO payment_allocations (payment_id, installment_id, value_cents) VALUES (?, ?, ?)", [
+      paymentId,
+      allocation.installment_id,
+      allocation.value_cents,
+    ]);
+    await txRun(
+      tx,
+      `UPDATE installments
+       SET paid_cents = paid_cents + ?,
+           status = CASE WHEN paid_cents + ? >= value_cents THEN 'paga' ELSE 'aberta' END,
+           paid_at = CASE WHEN paid_cents + ? >= value_cents THEN ? ELSE paid_at END
+       WHERE id = ?`,
+      [allocation.value_cents, allocation.value_cents, allocation.value_cents, paidAt, allocation.installment_id]
+    );
+  }
+
+  for (const saleId of touchedSales) {
+    await syncSaleTotalsTx(tx, saleId);
+  }
+
+  return await getNextOpenDueDateTx(tx, clientId);
+}
+
+/**
+ * ✅ Estorna as alocações de um pagamento nas parcelas
+ * ⚠️ Deve ser chamada DENTRO da transação, ANTES de apagar o pagamento
+ */
+export async function revertPaymentAllocationsTx(tx: any, paymentId: number): Promise<void> {
+  const allocations = await txGetAll<{ installment_id: number; value_cents: number; sale_id: number }>(
+    tx,
+    `SELECT a.installment_id, a.value_cents, i.sale_id
+     FROM payment_allocations a
+     INNER JOIN installments i ON i.id = a.installment_id
+     WHERE a.payment_id = ?`,
+    [paymentId]
+  );
+
+  const touchedSales = new Set<number>();
+  for (const allocation of allocations) {
+    touchedSales.add(allocation.sale_id);
+    await txRun(
+      tx,
+      `UPDATE installments
+       SET paid_cents = MAX(paid_cents - ?, 0), status = 'aberta', paid_at = NULL
+       WHERE id = ?`,
+      [allocation.value_cents, allocation.installment_id]
+    );
+  }
+
+  await txRun(tx, "DELETE FROM payment_allocations WHERE payment_id = ?", [paymentId]);
+
+  for (const saleId of touchedSales) {
+    await syncSaleTotalsTx(tx, saleId);
+  }
+}
+
+/**
+ * ✅ Vencimento da parcela em aberto mais antiga do cliente
+ */
+export async function getNextOpenDueDateTx(tx: any, clientId: number): Promise<string | null> {
+  const row = await txGetOne<{ due_date: string | null }>(
+    tx,
+    `SELECT MIN(i.due_date) AS due_date
+     FROM installments i
+     INNER JOIN sales s ON s.id = i.sale_id
+     WHERE s.client_id = ? AND i.status = 'aberta'`,
+    [clientId]
+  );
+  return row?.due_date ?? null;
+}
+
+/**
+ * ✅ Recalcula pago/status do contrato a partir das parcelas
+ */
+async function syncSaleTotalsTx(tx: any, saleId: number): Promise<void> {
+  await txRun(
+    tx,
+    `UPDATE sales
+     SET paid_cents = (SELECT COALESCE(SUM(paid_cents), 0) FROM installments WHERE sale_id = ?),
+         status = CASE
+           WHEN (SELECT COALESCE(SUM(paid_cents), 0) FROM installments WHERE sale_id = ?) >= value_cents THEN 'quitada'
+           ELSE 'aberta'
+         END,
+         updated_at = ?
+     WHERE id = ?`,
+    [saleId, saleId, formatDateTimeIso(), saleId]
+  );
+}
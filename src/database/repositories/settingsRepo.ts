@@ -0,0 +1,51 @@
+/**
+ * ⚙️ Repositório de Configurações (app_settings)
+ * Pares chave/valor persistidos no SQLite
+ */
+
+import { formatDateTimeIso } from "../utils";
+import { run, getOne } from "../core/queries";
+import { isValidTimeZone, setBusinessTimeZone, getBusinessTimeZone } from "../utils/civilDate";
+
+// ✅ Fuso do negócio (IANA, ex.: America/Sao_Paulo)
+const TIME_ZONE_KEY = "fuso_horario";
+
+/**
+ * ✅ Lê configuração (null se não existir)
+ */
+export async function getSetting(key: string): Promise<string | null> {
+  if (!key) return null;
+  const row = await getOne<{ value: string }>("SELECT value FROM app_settings WHERE key = ?", [key]);
+  return row?.value ?? null;
+}
+
+/**
+ * ✅ Grava configuração (cria ou substitui)
+ */
+export async function setSetting(key: string, value: string): Promise<void> {
+  if (!key) throw new Error("Chave da configuração é obrigatória");
+  await run("INSERT OR REPLACE INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)", [
+    key,
+    value,
+    formatDateTimeIso(),
+  ]);
+}
+
+/**
+ * ✅ Aplica o fuso salvo (ou o padrão) a todas as datas do app
+ * Chamado uma vez na inicialização, depois do initDB
+ */
+export async function loadBusinessTimeZone(): Promise<string> {
+  setBusinessTimeZone(await getSetting(TIME_ZONE_KEY));
+  return getBusinessTimeZone();
+}
+
+/**
+ * ✅ Salva e aplica o fuso do negócio
+ * @throws Error se o nome não for um fuso IANA reconhecido pelo aparelho
+ */
+export async function saveBusinessTimeZone(timeZone: string): Promise<void> {
+  if (!isValidTimeZone(timeZone)) throw new Error(`Fuso horário inválido: ${timeZone}`);
+  await setSetting(TIME_ZONE_KEY, timeZone);
+  setBusinessTimeZone(timeZone);
+}
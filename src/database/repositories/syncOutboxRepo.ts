@@ -0,0 +1,154 @@
+/**
+ * 📤 Repositório da Fila Offline (sync_outbox)
+ * Persiste as operações pendentes do Firestore no SQLite
+ * para que sobrevivam ao fechamento do app pelo Android
+ */
+
+import { withTransactionAsync, txRun, txGetOne } from "../core/transactions";
+import { run, getOne, getAll } from "../core/queries";
+
+export type OutboxAction = "SET" | "UPDATE" | "DELETE";
+
+/**
+ * ✅ Operação pendente (mesmo formato do PendingOperation do syncOptimizer)
+ */
+export type OutboxOperation = {
+  id: number;
+  action: OutboxAction;
+  path: string;
+  data?: any;
+  timestamp: number;
+  retryCount: number;
+};
+
+type OutboxOperationDB = {
+  id: number;
+  action: OutboxAction;
+  path: string;
+  data: string | null;
+  timestamp: number;
+  retry_count: number;
+};
+
+function mapOutboxOperation(row: OutboxOperationDB): OutboxOperation {
+  let data: any;
+  try {
+    data = row.data ? JSON.parse(row.data) : undefined;
+  } catch (e) {
+    console.warn(`⚠️ Dados inválidos na fila offline (id ${row.id}):`, e);
+    data = undefined;
+  }
+
+  return {
+    id: row.id,
+    action: row.action,
+    path: row.path,
+    data,
+    timestamp: Number(row.timestamp) || 0,
+    retryCount: Number(row.retry_count) || 0,
+  };
+}
+
+/**
+ * ✅ Enfileira operação (proteção contra duplicação)
+ * Se já existe operação igual (action + path), ela sai da fila e a nova entra no fim:
+ * a ordem de envio é a ordem do id, então a última operação de um path fica sempre por último
+ * (ex.: SET, DELETE, SET de novo → DELETE, SET; atualizar no lugar enviaria SET, DELETE)
+ * Se a fila está cheia, remove a operação mais antiga
+ */
+export async function enqueueOutboxOperation(
+  action: OutboxAction,
+  path: string,
+  data: any,
+  maxSize: number
+): Promise<void> {
+  const json = data === undefined ? null : JSON.stringify(data);
+  const now = Date.now();
+
+  await withTransactionAsync(async (tx) => {
+    const existing = await txGetOne<{ id: number }>(
+      tx,
+      "SELECT id FROM sync_outbox WHERE action = ? AND path = ?",
+      [action, path]
+    );
+
+    if (existing) {
+      console.log(`🔄 Operação duplicada detectada, movendo para o fim da fila: ${action} em ${path}`);
+      await txRun(tx, "DELETE FROM sync_outbox WHERE id = ?", [existing.id]);
+    }
+
+    // ✅ Verificar se fila está muito grande
+    const count = await txGetOne<{ total: number }>(tx, "SELECT COUNT(*) AS total FROM sync_outbox", []);
+    if ((count?.total ?? 0) >= maxSize) {
+      console.warn(`⚠️ Fila offline muito grande (${count?.total}), removendo operação mais antiga...`);
+      await txRun(tx, "DELETE FROM sync_outbox WHERE id = (SELECT id FROM sync_outbox ORDER BY id ASC LIMIT 1)", []);
+    }
+
+    await txRun(tx, "INSERT INTO sync_outbox (action, path, data, timestamp, retry_count) VALUES (?, ?, ?, ?, 0)", [
+      action,
+      path,
+      json,
+      now,
+    ]);
+  });
+}
+
+/**
+ * ✅ Lista operações pendentes na ordem em que foram enfileiradas
+ */
+export async function getOutboxOperations(): Promise<OutboxOperation[]> {
+  const rows = await getAll<OutboxOperationDB>("SELECT * FROM sync_outbox ORDER BY id ASC", []);
+  return rows.map(mapOutboxOperation);
+}
+
+/**
+ * ✅ Remove operação da fila (enviada com sucesso ou descartada)
+ */
+export async function removeOutboxOperation(id: number): Promise<void> {
+  await run("DELETE FROM sync_outbox WHERE id = ?", [id]);
+}
+
+/**
+ * ✅ Atualiza contador de tentativas de uma operação
+ */
+export async function setOutboxRetryCount(id: number, retryCount: number): Promise<void> {
+  await run("UPDATE sync_outbox SET retry_count = ? WHERE id = ?", [retryCount, id]);
+}
+
+/**
+ * ✅ Remove operações mais antigas que maxAgeMs (fail-safe contra fila infinita)
+ * Retorna quantas operações foram removidas
+ */
+export async function pruneOutbox(maxAgeMs: number): Promise<number> {
+  const limit = Date.now() - maxAgeMs;
+  const old = await getOne<{ total: number }>("SELECT COUNT(*) AS total FROM sync_outbox WHERE timestamp < ?", [limit]);
+  const total = old?.total ?? 0;
+  if (total > 0) {
+    await run("DELETE FROM sync_outbox WHERE timestamp < ?", [limit]);
+  }
+  return total;
+}
+
+/**
+ * ✅ Estatísticas da fila gravada em disco
+ */
+export async function getOutboxStats(): Promise<{ count: number; oldestTimestamp: number | null }> {
+  const row = await getOne<{ total: number; oldest: number | null }>(
+    "SELECT COUNT(*) AS total, MIN(timestamp) AS oldest FROM sync_outbox",
+    []
+  );
+  return {
+    count: row?.total ?? 0,
+    oldestTimestamp: row?.oldest ?? null,
+  };
+}
+
+/**
+ * ✅ Limpa toda a fila (usar com cuidado!)
+ * Retorna quantas operações foram removidas
+ */
+export async function clearOutbox(): Promise<number> {
+  const { count } = await getOutboxStats();
+  await run("DELETE FROM sync_outbox", []);
+  return count;
+}
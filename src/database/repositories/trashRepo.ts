@@ -0,0 +1,132 @@
+/**
+ * 🗑️ Repositório da Lixeira
+ * Clientes e pagamentos excluídos (deleted_at preenchido), prazo de retenção
+ * em app_settings e limpeza definitiva dos itens vencidos
+ * ⚠️ Restaurar um item fica em clientsRepo/paymentsRepo (restoreClient / restorePayment)
+ */
+
+import { toReais, normalizePaymentMethod } from "../utils";
+import { getAll } from "../core/queries";
+import { withTransactionAsync, txRun, txGetOne } from "../core/transactions";
+import { getSetting, setSetting } from "./settingsRepo";
+import { getTrashCutoff, normalizeTrashRetentionDays } from "../utils/trash";
+import type { ClienteLixeira, PagamentoLixeira } from "../types";
+
+// ✅ Chave em app_settings
+const RETENTION_KEY = "lixeira_retencao_dias";
+
+export type TrashPurgeResult = {
+  clientes: number;
+  pagamentos: number;
+};
+
+/**
+ * ✅ Dias que um item fica na lixeira antes da limpeza automática (padrão: 30)
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  return normalizeTrashRetentionDays(await getSetting(RETENTION_KEY));
+}
+
+/**
+ * ✅ Salva o prazo de retenção
+ * @throws Error se o prazo não for um número inteiro de dias entre 1 e 365
+ */
+export async function saveTrashRetentionDays(dias: number): Promise<void> {
+  if (!Number.isInteger(dias) || normalizeTrashRetentionDays(dias) !== dias) {
+    throw new Error("O prazo da lixeira deve ser de 1 a 365 dias");
+  }
+  await setSetting(RETENTION_KEY, String(dias));
+}
+
+/**
+ * ✅ Clientes na lixeira (excluído mais recentemente primeiro)
+ */
+export async function getDeletedClients(): Promise<ClienteLixeira[]> {
+  const rows = await getAll<any>(`
+    SELECT
+      c.id, c.name, c.value_cents, c.paid_cents, c.deleted_at,
+      b.nome AS bairro,
+      r.nome AS rua,
+      (SELECT COUNT(*) FROM payments p WHERE p.client_id = c.id AND p.deleted_at = c.deleted_at) AS pagamentos
+    FROM clients c
+    LEFT JOIN ruas r ON c.ruaId = r.id
+    LEFT JOIN bairros b ON r.bairroId = b.id
+    WHERE c.deleted_at IS NOT NULL
+    ORDER BY c.deleted_at DESC
+  `, []);
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    bairro: row.bairro ?? null,
+    rua: row.rua ?? null,
+    saldo: toReais((row.value_cents ?? 0) - (row.paid_cents ?? 0)),
+    pagamentos: row.pagamentos ?? 0,
+    deletedAt: row.deleted_at,
+  }));
+}
+
+/**
+ * ✅ Pagamentos excluídos um a um (os do cliente na lixeira voltam com ele)
+ */
+export async function getDeletedPayments(): Promise<PagamentoLixeira[]> {
+  const rows = await getAll<any>(`
+    SELECT p.id, p.client_id, p.value_cents, p.method, p.created_at, p.deleted_at, c.name AS cliente
+    FROM payments p
+    INNER JOIN clients c ON p.client_id = c.id
+    WHERE p.deleted_at IS NOT NULL AND c.deleted_at IS NULL
+    ORDER BY p.deleted_at DESC
+  `, []);
+
+  return rows.map((row) => ({
+    id: row.id,
+    clientId: row.client_id,
+    cliente: row.cliente,
+    valor: toReais(row.value_cents ?? 0),
+    metodo: normalizePaymentMethod(row.method),
+    data: row.created_at,
+    deletedAt: row.deleted_at,
+  }));
+}
+
+/**
+ * ✅ Remove definitivamente o que está na lixeira há mais de `dias` dias
+ * Cliente leva junto pagamentos, vendas e logs (ON DELETE CASCADE)
+ * @param dias - 0 esvazia a lixeira inteira
+ */
+export async function purgeTrash(dias: number): Promise<TrashPurgeResult> {
+  const cutoff = getTrashCutoff(dias);
+  const result: TrashPurgeResult = { clientes: 0, pagamentos: 0 };
+
+  await withTransactionAsync(async (tx) => {
+    const clientes = await txGetOne<{ total: number }>(
+      tx,
+      "SELECT COUNT(*) AS total FROM clients WHERE deleted_at IS NOT NULL AND deleted_at <= ?",
+      [cutoff]
+    );
+    const pagamentos = await txGetOne<{ total: number }>(
+      tx,
+      `SELECT COUNT(*) AS total FROM payments p
+       INNER JOIN clients c ON p.client_id = c.id
+       WHERE p.deleted_at IS NOT NULL AND p.deleted_at <= ? AND c.deleted_at IS NULL`,
+      [cutoff]
+    );
+    result.clientes = clientes?.total ?? 0;
+    result.pagamentos = pagamentos?.total ?? 0;
+
+    await txRun(tx, "DELETE FROM clients WHERE deleted_at IS NOT NULL AND deleted_at <= ?", [cutoff]);
+    await txRun(tx, "DELETE FROM payments WHERE deleted_at IS NOT NULL AND deleted_at <= ?", [cutoff]);
+  });
+
+  if (result.clientes > 0 || result.pagamentos > 0) {
+    console.log(`🗑️ Lixeira: ${result.clientes} cliente(s) e ${result.pagamentos} pagamento(s) removidos de vez`);
+  }
+  return result;
+}
+
+/**
+ * ✅ Limpeza automática pelo prazo configurado
+ */
+export async function purgeExpiredTrash(): Promise<TrashPurgeResult> {
+  return purgeTrash(await getTrashRetentionDays());
+}
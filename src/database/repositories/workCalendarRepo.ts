@@ -0,0 +1,74 @@
+/**
+ * 🗓️ Repositório do Calendário de Dias Úteis
+ * Dias de folga e feriados municipais persistidos no app_settings
+ */
+
+import { getSetting, setSetting } from "./settingsRepo";
+import {
+  DEFAULT_WORK_CALENDAR,
+  normalizeWorkCalendar,
+  setWorkCalendar,
+  getWorkCalendar,
+  type FeriadoMunicipal,
+  type WorkCalendarConfig,
+} from "../utils/workCalendar";
+
+// ✅ Chaves em app_settings
+const KEYS = {
+  diasFolga: "calendario_dias_folga",
+  feriadosNacionais: "calendario_feriados_nacionais",
+  feriadosMunicipais: "calendario_feriados_municipais",
+} as const;
+
+const parseFeriados = (value: string | null): FeriadoMunicipal[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    console.warn("⚠️ Feriados municipais corrompidos no app_settings, ignorando");
+    return [];
+  }
+};
+
+/**
+ * ✅ Lê o calendário salvo (padrão: folga no domingo e feriados nacionais)
+ */
+export async function getWorkCalendarConfig(): Promise<WorkCalendarConfig> {
+  const [diasFolga, nacionais, municipais] = await Promise.all([
+    getSetting(KEYS.diasFolga),
+    getSetting(KEYS.feriadosNacionais),
+    getSetting(KEYS.feriadosMunicipais),
+  ]);
+
+  return normalizeWorkCalendar({
+    diasFolga: diasFolga === null ? DEFAULT_WORK_CALENDAR.diasFolga : diasFolga.split(",").filter(Boolean).map(Number),
+    feriadosNacionais: nacionais === null ? DEFAULT_WORK_CALENDAR.feriadosNacionais : nacionais === "1",
+    feriadosMunicipais: parseFeriados(municipais),
+  });
+}
+
+/**
+ * ✅ Aplica o calendário salvo a todo o agendamento
+ * Chamado uma vez na inicialização, depois do initDB
+ */
+export async function loadWorkCalendar(): Promise<WorkCalendarConfig> {
+  setWorkCalendar(await getWorkCalendarConfig());
+  return getWorkCalendar();
+}
+
+/**
+ * ✅ Salva e aplica o calendário
+ * @throws Error se todos os dias da semana forem de folga
+ */
+export async function saveWorkCalendarConfig(config: WorkCalendarConfig): Promise<void> {
+  if (new Set(config.diasFolga).size >= 7) {
+    throw new Error("Deixe ao menos um dia da semana para as cobranças");
+  }
+
+  const normalized = normalizeWorkCalendar(config);
+  await setSetting(KEYS.diasFolga, normalized.diasFolga.join(","));
+  await setSetting(KEYS.feriadosNacionais, normalized.feriadosNacionais ? "1" : "0");
+  await setSetting(KEYS.feriadosMunicipais, JSON.stringify(normalized.feriadosMunicipais));
+  setWorkCalendar(normalized);
+}
@@ -11,6 +11,8 @@ import { getAllBairros } from "../repositories/bairroRepo";
 import { getAllRuas } from "../repositories/ruaRepo";
 import { getAll } from "../core/queries";
 import type { PaymentDB, Log } from "../types";
+import { sealBackupFile, createBackupStreaming } from "../backup";
+import { SEALED_BACKUP_EXTENSION } from "../utils/backupCrypto";
 
 /**
  * ⚠️ NOTA: No Android, o banco está em /data/data/<package>/databases/crediario.db
@@ -19,8 +21,9 @@ import type { PaymentDB, Log } from "../types";
  * Solução alternativa: Exportar dados via SQL e salvar em JSON
  * 
  * ⚠️ ATENÇÃO: Backup pode ultrapassar 10MB em bases grandes
+ * ✅ O arquivo compartilhado é comprimido e criptografado com o PIN (.crdb)
  */
-export const createBackup = async (): Promise<string> => {
+export const createBackup = async (pin: string): Promise<string> => {
   try {
     // ✅ CRÍTICO: Fazer checkpoint do WAL antes do backup
     await exec("PRAGMA wal_checkpoint(FULL);");
@@ -104,24 +107,61 @@ export const createBackup = async (): Promise<string> => {
     }
     
     await RNFS.writeFile(backupPath, jsonContent, "utf8");
-    console.log(`✅ Backup criado: ${fileSizeMB}MB`);
+
+    // 🔐 Comprime e criptografa; o JSON aberto é removido
+    let sealedPath: string;
+    try {
+      sealedPath = await sealBackupFile(backupPath, backupPath.replace(/\.json$/, SEALED_BACKUP_EXTENSION), "json", pin);
+    } finally {
+      await RNFS.unlink(backupPath).catch(() => {});
+    }
+    console.log(`✅ Backup criado: ${fileSizeMB}MB (antes da compressão)`);
 
     // ✅ Usar Share que autoriza acesso temporário ao arquivo
     try {
       await Share.share({
         title: "Backup do Crediário",
         message: `Backup criado em ${new Date(timestamp).toLocaleString("pt-BR")} (${fileSizeMB}MB)`,
-        url: `file://${backupPath}`,
+        url: `file://${sealedPath}`,
       });
     } catch (shareError) {
       console.warn(`⚠️ Erro ao compartilhar backup (${fileSizeMB}MB):`, shareError);
-      console.warn("💡 Dica: Arquivo salvo em:", backupPath);
+      console.warn("💡 Dica: Arquivo salvo em:", sealedPath);
     }
 
-    return backupPath;
+    return sealedPath;
   } catch (error) {
     console.error("❌ Erro ao criar backup:", error);
     throw error;
   }
 };
 
+// 📌 Sem LIMIT do getAll: o backup leva todos os registros
+const ALL_ROWS = Number.MAX_SAFE_INTEGER;
+
+const allRows = (table: string) => () => getAll<any>(`SELECT * FROM ${table} ORDER BY id ASC`, [], ALL_ROWS);
+
+/**
+ * 💾 Backup NDJSON (comprimido e criptografado) em uma pasta, sem abrir o Share
+ * Usado pelo backup automático; o arquivo pode ser restaurado ou mesclado pela tela de Backup
+ *
+ * @param pin - PIN do backup
+ * @param pasta - Pasta onde o arquivo .crdb será criado
+ * @returns Caminho do arquivo criado
+ */
+export const createNdjsonBackup = async (pin: string, pasta: string): Promise<string> => {
+  if (!(await RNFS.exists(pasta))) {
+    await RNFS.mkdir(pasta);
+  }
+
+  return createBackupStreaming(
+    allRows("clients"),
+    allRows("payments"),
+    allRows("logs"),
+    allRows("bairros"),
+    allRows("ruas"),
+    exec,
+    pin,
+    { pasta, compartilhar: false }
+  );
+};
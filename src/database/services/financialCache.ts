@@ -104,6 +104,7 @@ export async function getTotalPaidCached(): Promise<number> {
   const result = await getOne<{ totalPaid: number }>(`
     SELECT COALESCE(SUM(paid_cents), 0) AS totalPaid
     FROM clients
+    WHERE deleted_at IS NULL
   `);
 
   const total = toReais(result?.totalPaid ?? 0);
@@ -125,6 +126,7 @@ export async function getTotalToReceiveCached(): Promise<number> {
   const result = await getOne<{ totalToReceive: number }>(`
     SELECT COALESCE(SUM(value_cents - paid_cents), 0) AS totalToReceive
     FROM clients
+    WHERE deleted_at IS NULL
   `);
 
   const total = toReais(result?.totalToReceive ?? 0);
@@ -149,7 +151,7 @@ export async function getTotalHojeCached(): Promise<number> {
   const result = await getOne<{ total: number }>(`
     SELECT COALESCE(SUM(value_cents), 0) AS total
     FROM payments
-    WHERE DATE(created_at) = ?
+    WHERE DATE(created_at) = ? AND deleted_at IS NULL
   `, [today]);
 
   const total = toReais(result?.total ?? 0);
@@ -182,6 +184,7 @@ export async function refreshFinancialCache(): Promise<void> {
           COALESCE(SUM(paid_cents), 0) AS totalPaid,
           COALESCE(SUM(value_cents - paid_cents), 0) AS totalToReceive
         FROM clients
+        WHERE deleted_at IS NULL
       `, []);
 
       if (totals) {
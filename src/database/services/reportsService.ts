@@ -3,10 +3,22 @@
  * Gerencia relatórios financeiros e estatísticas
  */
 
-import { toReais, formatDateIso } from "../utils";
+import { toReais, normalizeDateToISO, normalizePaymentMethod, PAYMENT_METHOD_KEYS } from "../utils";
 import { todayISO, startOfMonthISO, endOfMonthISO, daysFromTodayISO } from "../utils/dateHelpers";
+import { addDaysISO, startOfMonthOf, endOfMonthOf } from "../utils/civilDate";
 import { getOne, getAll } from "../core/queries";
-import type { TopCliente, CrediarioPorBairro } from "../types";
+import { montarAgingReport, type AgingRow } from "../utils/aging";
+import type {
+  TopCliente,
+  CrediarioPorBairro,
+  FechamentoCaixa,
+  PaymentMethod,
+  AgingReport,
+  ResumoPeriodo,
+  ClienteExportRow,
+  PagamentoExportRow,
+  ResumoBairroExportRow,
+} from "../types";
 import {
   getTotalPaidCached,
   getTotalToReceiveCached,
@@ -50,6 +62,7 @@ export const getTotals = async (forceRefresh = false): Promise<{ totalPaid: numb
       COALESCE(SUM(paid_cents), 0) AS totalPaid,
       COALESCE(SUM(value_cents - paid_cents), 0) AS totalToReceive
     FROM clients
+    WHERE deleted_at IS NULL
   `);
 
   // ✅ Tratamento robusto de null/undefined
@@ -107,7 +120,7 @@ export const getTotalHoje = async (): Promise<number> => {
   const result = await getOne<{ total: number }>(`
     SELECT COALESCE(SUM(value_cents), 0) AS total
     FROM payments
-    WHERE created_at >= ? AND created_at < ?
+    WHERE created_at >= ? AND created_at < ? AND deleted_at IS NULL
   `, [today, tomorrow]);
   
   return toReais(result?.total ?? 0);
@@ -124,7 +137,7 @@ export const getTotalMesAtual = async (): Promise<number> => {
   const result = await getOne<{ total: number }>(`
     SELECT COALESCE(SUM(value_cents), 0) AS total
     FROM payments
-    WHERE created_at >= ? AND created_at <= ?
+    WHERE created_at >= ? AND created_at <= ? AND deleted_at IS NULL
   `, [startDate, endDateWithTime]);
   
   return toReais(result?.total ?? 0);
@@ -132,10 +145,9 @@ export const getTotalMesAtual = async (): Promise<number> => {
 
 export const getTotalMesAnterior = async (): Promise<number> => {
   // ✅ Calcular início e fim do mês anterior
-  const now = new Date();
-  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const startDate = formatDateIso(lastMonth);
-  const endDate = formatDateIso(new Date(now.getFullYear(), now.getMonth(), 0));
+  const hoje = todayISO();
+  const startDate = startOfMonthOf(hoje, -1);
+  const endDate = endOfMonthOf(hoje, -1);
   
   // ✅ CRÍTICO: Usar comparação direta com strings ISO em vez de DATE()
   // Isso permite uso do índice idx_payments_created_at
@@ -144,20 +156,16 @@ export const getTotalMesAnterior = async (): Promise<number> => {
   const result = await getOne<{ total: number }>(`
     SELECT COALESCE(SUM(value_cents), 0) AS total
     FROM payments
-    WHERE created_at >= ? AND created_at <= ?
+    WHERE created_at >= ? AND created_at <= ? AND deleted_at IS NULL
   `, [startDate, endDateWithTime]);
   
   return toReais(result?.total ?? 0);
 };
 
 export const getTopClientesMes = async (): Promise<TopCliente[]> => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
-  
   // ✅ CRÍTICO: Usar BETWEEN em vez de strftime para melhor performance
-  const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
-  const endDate = `${year}-${String(month).padStart(2, '0')}-31`;
+  const startDate = startOfMonthISO();
+  const endDate = `${endOfMonthISO()}T23:59:59`;
   
   const results = await getAll<{ client_id: number; name: string; total_cents: number }>(`
     SELECT 
@@ -166,7 +174,7 @@ export const getTopClientesMes = async (): Promise<TopCliente[]> => {
       SUM(p.value_cents) AS total_cents
     FROM payments p
     INNER JOIN clients c ON p.client_id = c.id
-    WHERE p.created_at BETWEEN ? AND ?
+    WHERE p.created_at BETWEEN ? AND ? AND p.deleted_at IS NULL
     GROUP BY p.client_id, c.name
     ORDER BY total_cents DESC
     LIMIT 3
@@ -187,6 +195,7 @@ export const getCrediariosPorBairro = async (): Promise<CrediarioPorBairro[]> =>
     FROM clients c
     LEFT JOIN ruas r ON c.ruaId = r.id
     LEFT JOIN bairros b ON r.bairroId = b.id
+    WHERE c.deleted_at IS NULL
     GROUP BY COALESCE(b.nome, 'Sem bairro')
     ORDER BY quantidade DESC
     LIMIT 5
@@ -215,3 +224,205 @@ export const getCrescimentoPercentual = async (): Promise<{ percentual: number;
   };
 };
 
+// ============================================================
+// 🧮 FECHAMENTO DE CAIXA
+// ============================================================
+
+// ✅ yyyy-mm-dd do dia seguinte (limite exclusivo para created_at)
+const diaSeguinte = (dia: string): string => addDaysISO(dia, 1);
+
+// ✅ Pagamentos com created_at em [de, ate) somados por forma de pagamento
+// Todas as formas aparecem no resultado, mesmo com total zero
+const somarPorMetodo = async (de: string, ate: string) => {
+  // ✅ Comparação direta com strings ISO (usa índice em created_at)
+  const results = await getAll<{ method: string; total_cents: number; quantidade: number }>(`
+    SELECT method, COALESCE(SUM(value_cents), 0) AS total_cents, COUNT(*) AS quantidade
+    FROM payments
+    WHERE created_at >= ? AND created_at < ? AND deleted_at IS NULL
+    GROUP BY method
+  `, [de, ate]);
+
+  const porMetodo = PAYMENT_METHOD_KEYS.map((metodo: PaymentMethod) => {
+    const row = results.find((r) => r.method === metodo);
+    return {
+      metodo,
+      total: toReais(row?.total_cents ?? 0),
+      quantidade: row?.quantidade ?? 0,
+    };
+  });
+
+  return {
+    total: toReais(results.reduce((sum, r) => sum + (r.total_cents ?? 0), 0)),
+    quantidade: results.reduce((sum, r) => sum + (r.quantidade ?? 0), 0),
+    porMetodo,
+  };
+};
+
+/**
+ * ✅ Soma os pagamentos de um dia por forma de pagamento
+ * Usa a data do pagamento (created_at), não a data do lançamento
+ * Todas as formas aparecem no resultado, mesmo com total zero
+ */
+export const getFechamentoCaixa = async (data: string = todayISO()): Promise<FechamentoCaixa> => {
+  const dia = normalizeDateToISO(data);
+  if (!dia) throw new Error(`Data inválida para fechamento de caixa: ${data}`);
+
+  return { data: dia, ...(await somarPorMetodo(dia, diaSeguinte(dia))) };
+};
+
+/**
+ * ✅ Recebimentos de um período (inicio e fim inclusive), por forma de pagamento
+ */
+export const getResumoPeriodo = async (inicio: string, fim: string): Promise<ResumoPeriodo> => {
+  const de = normalizeDateToISO(inicio);
+  const ate = normalizeDateToISO(fim);
+  if (!de || !ate || de > ate) throw new Error(`Período inválido: ${inicio} a ${fim}`);
+
+  return { inicio: de, fim: ate, ...(await somarPorMetodo(de, diaSeguinte(ate))) };
+};
+
+// ============================================================
+// ⏳ INADIMPLÊNCIA (AGING)
+// ============================================================
+
+/**
+ * ✅ Saldo em aberto de clientes pendentes vencidos, por faixa de atraso
+ * Faixas por dias desde proximaData e desde o último pagamento, com detalhe por bairro/rua
+ */
+export const getAgingReport = async (dataRef: string = todayISO()): Promise<AgingReport> => {
+  const dia = normalizeDateToISO(dataRef);
+  if (!dia) throw new Error(`Data inválida para relatório de inadimplência: ${dataRef}`);
+
+  const rows = await getAll<AgingRow>(`
+    SELECT
+      c.value_cents - c.paid_cents AS saldo_cents,
+      c.proximaData,
+      (SELECT MAX(p.created_at) FROM payments p WHERE p.client_id = c.id AND p.deleted_at IS NULL) AS ultimo_pagamento,
+      COALESCE(b.nome, 'Sem bairro') AS bairro,
+      COALESCE(r.nome, 'Sem rua') AS rua
+    FROM clients c
+    LEFT JOIN ruas r ON c.ruaId = r.id
+    LEFT JOIN bairros b ON r.bairroId = b.id
+    WHERE c.deleted_at IS NULL
+      AND c.status = 'pendente'
+      AND c.proximaData IS NOT NULL
+      AND c.proximaData < ?
+      AND c.value_cents > c.paid_cents
+  `, [dia]);
+
+  return montarAgingReport(rows, dia);
+};
+
+// ============================================================
+// 📤 EXPORTAÇÃO (planilhas)
+// ============================================================
+
+// ✅ Exportação é sob demanda: sem o limite padrão de linhas do getAll
+const EXPORT_MAX_ROWS = Number.MAX_SAFE_INTEGER;
+
+const periodoValido = (inicio: string, fim: string): [string, string] => {
+  const de = normalizeDateToISO(inicio);
+  const ate = normalizeDateToISO(fim);
+  if (!de || !ate || de > ate) throw new Error(`Período inválido para exportação: ${inicio} a ${fim}`);
+  return [de, diaSeguinte(ate)];
+};
+
+/**
+ * ✅ Todos os clientes com saldo, endereço e data do último pagamento
+ * Ordem da rota: bairro, rua, ordem de visita
+ */
+export const getClientesParaExportar = async (): Promise<ClienteExportRow[]> => {
+  const results = await getAll<any>(`
+    SELECT
+      c.id, c.name, c.telefone, c.numero, c.value_cents, c.paid_cents, c.status, c.proximaData,
+      b.nome AS bairro,
+      r.nome AS rua,
+      (SELECT MAX(p.created_at) FROM payments p WHERE p.client_id = c.id AND p.deleted_at IS NULL) AS ultimo_pagamento
+    FROM clients c
+    LEFT JOIN ruas r ON c.ruaId = r.id
+    LEFT JOIN bairros b ON r.bairroId = b.id
+    WHERE c.deleted_at IS NULL
+    ORDER BY b.nome IS NULL, b.nome, r.nome, c.ordemVisita, c.name
+  `, [], EXPORT_MAX_ROWS);
+
+  return results.map((row) => ({
+    id: row.id,
+    name: row.name,
+    telefone: row.telefone ?? null,
+    bairro: row.bairro ?? null,
+    rua: row.rua ?? null,
+    numero: row.numero ?? null,
+    valor: toReais(row.value_cents ?? 0),
+    pago: toReais(row.paid_cents ?? 0),
+    saldo: toReais((row.value_cents ?? 0) - (row.paid_cents ?? 0)),
+    status: row.status ?? null,
+    proximaData: row.proximaData ?? null,
+    ultimoPagamento: row.ultimo_pagamento ?? null,
+  }));
+};
+
+/**
+ * ✅ Pagamentos recebidos entre inicio e fim (inclusive), pela data do pagamento
+ */
+export const getPagamentosParaExportar = async (inicio: string, fim: string): Promise<PagamentoExportRow[]> => {
+  const [de, ate] = periodoValido(inicio, fim);
+
+  const results = await getAll<{ created_at: string; cliente: string; bairro: string; value_cents: number; method: string }>(`
+    SELECT p.created_at, c.name AS cliente, COALESCE(b.nome, 'Sem bairro') AS bairro, p.value_cents, p.method
+    FROM payments p
+    INNER JOIN clients c ON p.client_id = c.id
+    LEFT JOIN ruas r ON c.ruaId = r.id
+    LEFT JOIN bairros b ON r.bairroId = b.id
+    WHERE p.created_at >= ? AND p.created_at < ? AND p.deleted_at IS NULL
+    ORDER BY p.created_at ASC
+  `, [de, ate], EXPORT_MAX_ROWS);
+
+  return results.map((row) => ({
+    data: row.created_at,
+    cliente: row.cliente,
+    bairro: row.bairro,
+    valor: toReais(row.value_cents ?? 0),
+    metodo: normalizePaymentMethod(row.method),
+  }));
+};
+
+/**
+ * ✅ Resumo por bairro: carteira atual + recebido no período
+ */
+export const getResumoBairrosParaExportar = async (inicio: string, fim: string): Promise<ResumoBairroExportRow[]> => {
+  const [de, ate] = periodoValido(inicio, fim);
+
+  const results = await getAll<any>(`
+    SELECT
+      COALESCE(b.nome, 'Sem bairro') AS bairro,
+      COUNT(*) AS clientes,
+      SUM(CASE WHEN c.value_cents > c.paid_cents THEN 1 ELSE 0 END) AS pendentes,
+      COALESCE(SUM(c.value_cents), 0) AS value_cents,
+      COALESCE(SUM(c.paid_cents), 0) AS paid_cents,
+      COALESCE(SUM(pp.recebido_cents), 0) AS recebido_cents,
+      COALESCE(SUM(pp.quantidade), 0) AS pagamentos
+    FROM clients c
+    LEFT JOIN ruas r ON c.ruaId = r.id
+    LEFT JOIN bairros b ON r.bairroId = b.id
+    LEFT JOIN (
+      SELECT client_id, SUM(value_cents) AS recebido_cents, COUNT(*) AS quantidade
+      FROM payments
+      WHERE created_at >= ? AND created_at < ? AND deleted_at IS NULL
+      GROUP BY client_id
+    ) pp ON pp.client_id = c.id
+    WHERE c.deleted_at IS NULL
+    GROUP BY COALESCE(b.nome, 'Sem bairro')
+    ORDER BY bairro ASC
+  `, [de, ate], EXPORT_MAX_ROWS);
+
+  return results.map((row) => ({
+    bairro: row.bairro,
+    clientes: row.clientes ?? 0,
+    pendentes: row.pendentes ?? 0,
+    valorTotal: toReais(row.value_cents),
+    totalPago: toReais(row.paid_cents),
+    saldo: toReais(row.value_cents - row.paid_cents),
+    recebidoPeriodo: toReais(row.recebido_cents),
+    pagamentosPeriodo: row.pagamentos ?? 0,
+  }));
+};
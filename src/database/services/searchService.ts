@@ -29,7 +29,7 @@ export const getClientsBySearch = async (query: string, limit: number = 100): Pr
       const placeholders = fts5Ids.map(() => "?").join(",");
       return await selectMapped<Client, ClientDB>(
         `SELECT * FROM clients 
-         WHERE id IN (${placeholders})
+         WHERE id IN (${placeholders}) AND deleted_at IS NULL
          ORDER BY name ASC
          LIMIT ?`,
         [...fts5Ids, limit],
@@ -69,6 +69,7 @@ export const getClientsBySearch = async (query: string, limit: number = 100): Pr
       )
       SELECT clients.* FROM clients
       INNER JOIN search_results sr ON clients.id = sr.id
+      WHERE clients.deleted_at IS NULL
       ORDER BY clients.name ASC
       LIMIT ?`,
       [q, q, q, q, q, q, limit],
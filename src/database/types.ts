@@ -5,17 +5,22 @@
 
 export type Bairro = {
   id?: number;
+  sync_id?: string | null; // ✅ ID global (UUID) usado no Firestore
   nome: string;
+  ordemRota?: number | null; // ✅ Posição do bairro na rota do dia (null = fim, por nome)
 };
 
 export type Rua = {
   id?: number;
+  sync_id?: string | null; // ✅ ID global (UUID) usado no Firestore
   nome: string;
   bairroId: number;
+  ordemRota?: number | null; // ✅ Posição da rua dentro do bairro na rota do dia
 };
 
 export type Client = {
   id?: number;
+  sync_id?: string | null; // ✅ ID global (UUID) usado no Firestore - id local fica só para joins
   name: string;
   value: number; // Reais (API) - armazenado como value_cents (INTEGER) no banco
   bairro?: string | null; // ⚠️ DEPRECATED: usar ruaId
@@ -31,17 +36,69 @@ export type Client = {
   observacoes?: string | null;
   status?: "pendente" | "quitado" | null; // Status do pagamento
   proximaData?: string | null; // ISO: yyyy-mm-dd (data da próxima cobrança)
+  cadencia?: Cadencia | null; // ✅ V15: ritmo de cobrança (agenda a próxima data sozinho)
+  cadenciaDia?: number | null; // ✅ V15: dia da semana (0-6) ou dia do mês (1-31, dia_fixo)
+  updated_at?: string | null; // ISO: última alteração local (resolução de conflitos na sincronização)
 };
 
+/**
+ * 🔁 Cadência de cobrança (armazenada em clients.cadencia)
+ */
+export type Cadencia = "semanal" | "quinzenal" | "mensal" | "dia_fixo";
+
+/**
+ * 💳 Forma de pagamento (armazenada em payments.method)
+ */
+export type PaymentMethod = "dinheiro" | "pix" | "cartao" | "transferencia";
+
 export type Payment = {
   id?: number;
+  sync_id?: string | null; // ✅ ID global (UUID) usado no Firestore
   client_id: number;
-  created_at: string; // ISO: yyyy-mm-ddTHH:mm:ss.sssZ
+  created_at: string; // ISO: yyyy-mm-ddTHH:mm:ss.sssZ - data em que o pagamento foi recebido
+  registered_at?: string; // ISO: momento em que o pagamento foi lançado no app (auditoria)
+  valor: number; // Reais (API) - armazenado como value_cents (INTEGER) no banco
+  metodo: PaymentMethod; // Armazenado como method no banco
+};
+
+/**
+ * 🧾 Venda a prazo (contrato) de um cliente
+ * Cada cliente pode ter vários contratos abertos, cada um com suas parcelas
+ */
+export type Sale = {
+  id?: number;
+  client_id: number;
+  descricao: string;
   valor: number; // Reais (API) - armazenado como value_cents (INTEGER) no banco
+  pago: number; // Reais (API) - armazenado como paid_cents (INTEGER) no banco
+  parcelas: number;
+  status: "aberta" | "quitada";
+  created_at: string; // ISO: yyyy-mm-ddTHH:mm:ssZ
+};
+
+export type Installment = {
+  id?: number;
+  sale_id: number;
+  numero: number; // 1..N
+  vencimento: string; // ISO: yyyy-mm-dd
+  valor: number; // Reais (API) - armazenado como value_cents (INTEGER) no banco
+  pago: number; // Reais (API) - armazenado como paid_cents (INTEGER) no banco
+  status: "aberta" | "paga";
+};
+
+/**
+ * ✅ Contrato com parcelas e saldo calculado (usado nas telas)
+ */
+export type SaleWithInstallments = Sale & {
+  installments: Installment[];
+  restante: number;
+  parcelasPagas: number;
+  proximoVencimento: string | null;
 };
 
 export type Log = {
   id?: number;
+  sync_id?: string | null; // ✅ ID global (UUID) usado no Firestore
   clientId: number;
   created_at: string; // ISO: yyyy-mm-ddTHH:mm:ss.sssZ
   descricao: string;
@@ -50,6 +107,7 @@ export type Log = {
 // Tipos internos do banco (com centavos)
 export type ClientDB = {
   id: number;
+  sync_id?: string | null;
   name: string;
   value_cents: number;
   bairro: string | null;
@@ -65,14 +123,44 @@ export type ClientDB = {
   observacoes: string | null;
   status: string | null;
   proximaData: string | null;
+  cadencia?: string | null; // ✅ V15
+  cadencia_dia?: number | null; // ✅ V15
   updated_at?: string | null;
+  deleted_at?: string | null; // ✅ V13: na lixeira desde (NULL = ativo)
 };
 
 export type PaymentDB = {
   id: number;
+  sync_id?: string | null;
   client_id: number;
   created_at: string;
+  registered_at?: string | null;
+  value_cents: number;
+  method?: string | null;
+  deleted_at?: string | null; // ✅ V13: na lixeira desde (NULL = ativo)
+};
+
+export type SaleDB = {
+  id: number;
+  client_id: number;
+  descricao: string;
+  value_cents: number;
+  paid_cents: number;
+  installments_count: number;
+  status: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type InstallmentDB = {
+  id: number;
+  sale_id: number;
+  numero: number;
+  due_date: string;
   value_cents: number;
+  paid_cents: number;
+  status: string;
+  paid_at: string | null;
 };
 
 export type TopCliente = {
@@ -82,8 +170,216 @@ export type TopCliente = {
 };
 
 export type CrediarioPorBairro = {
+  bairro: string;
+  quantidade: number; // Clientes no bairro
+};
+
+/**
+ * 🧮 Fechamento de caixa do dia (pagamentos somados por forma de pagamento)
+ */
+export type FechamentoCaixaMetodo = {
+  metodo: PaymentMethod;
+  total: number; // Reais
+  quantidade: number;
+};
+
+export type FechamentoCaixa = {
+  data: string; // yyyy-mm-dd
+  total: number; // Reais
+  quantidade: number;
+  porMetodo: FechamentoCaixaMetodo[];
+};
+
+/**
+ * 🗓️ Recebimentos de um período (inicio e fim inclusive)
+ */
+export type ResumoPeriodo = {
+  inicio: string; // yyyy-mm-dd
+  fim: string; // yyyy-mm-dd
+  total: number; // Reais
+  quantidade: number;
+  porMetodo: FechamentoCaixaMetodo[];
+};
+
+/**
+ * ⏳ Relatório de inadimplência por faixa de atraso (valores em reais)
+ */
+export type AgingFaixaKey = "0-30" | "31-60" | "61-90" | "90+";
+
+export type AgingFaixa = {
+  faixa: AgingFaixaKey;
+  total: number;
+  quantidade: number;
+};
+
+export type AgingRua = {
+  rua: string;
+  total: number;
+  quantidade: number;
+  faixas: AgingFaixa[]; // Por dias desde o vencimento
+};
+
+export type AgingBairro = {
   bairro: string;
   total: number;
+  quantidade: number;
+  faixas: AgingFaixa[];
+  ruas: AgingRua[];
+};
+
+export type AgingReport = {
+  dataRef: string; // yyyy-mm-dd
+  total: number;
+  quantidade: number;
+  porVencimento: AgingFaixa[]; // Dias desde proximaData
+  porUltimoPagamento: AgingFaixa[]; // Dias desde o último pagamento
+  bairros: AgingBairro[]; // Maior saldo em atraso primeiro
+};
+
+/**
+ * 📤 Linhas das planilhas exportadas (valores em reais)
+ */
+export type ClienteExportRow = {
+  id: number;
+  name: string;
+  telefone: string | null;
+  bairro: string | null;
+  rua: string | null;
+  numero: string | null;
+  valor: number;
+  pago: number;
+  saldo: number;
+  status: "pendente" | "quitado" | null;
+  proximaData: string | null; // yyyy-mm-dd
+  ultimoPagamento: string | null; // ISO
+};
+
+export type PagamentoExportRow = {
+  data: string; // ISO (created_at)
+  cliente: string;
+  bairro: string;
+  valor: number;
+  metodo: PaymentMethod;
+};
+
+export type ResumoBairroExportRow = {
+  bairro: string;
+  clientes: number;
+  pendentes: number; // Clientes com saldo em aberto
+  valorTotal: number;
+  totalPago: number;
+  saldo: number;
+  recebidoPeriodo: number; // Pagamentos no período
+  pagamentosPeriodo: number;
+};
+
+/**
+ * 🧾 Trilha de auditoria financeira (audit_log, nunca podada)
+ * before/after guardam os campos monetários em centavos
+ */
+export type AuditAction =
+  | "pagamento_registrado"
+  | "pagamento_excluido"
+  | "pagamento_restaurado"
+  | "cliente_alterado"
+  | "cliente_ausente"
+  | "cliente_reagendado"
+  | "backup_mesclado";
+
+export type AuditSnapshot = Record<string, string | number | null>;
+
+export type AuditEntry = {
+  id: number;
+  clientId: number;
+  paymentId: number | null;
+  action: AuditAction;
+  actorUid: string | null;
+  device: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  createdAt: string; // ISO
+};
+
+/**
+ * 📅 Cobranças agendadas de um dia (agenda do mês, valores em reais)
+ */
+export type CobrancasDoDia = {
+  data: string; // yyyy-mm-dd
+  clientes: number;
+  previsto: number; // saldo em aberto dos clientes do dia
+};
+
+/**
+ * 📅 Reagendamento em lote (guardado na tela para desfazer)
+ */
+export type ReagendamentoLote = {
+  novaData: string; // yyyy-mm-dd
+  clientes: { id: number; proximaDataAnterior: string | null }[];
+  ignorados: number; // quitados, na lixeira ou que já estavam na nova data
+};
+
+/**
+ * 🗑️ Itens na lixeira (valores em reais)
+ */
+export type ClienteLixeira = {
+  id: number;
+  name: string;
+  bairro: string | null;
+  rua: string | null;
+  saldo: number;
+  pagamentos: number; // Pagamentos que voltam junto na restauração
+  deletedAt: string; // ISO
+};
+
+export type PagamentoLixeira = {
+  id: number;
+  clientId: number;
+  cliente: string;
+  valor: number;
+  metodo: PaymentMethod;
+  data: string; // ISO (created_at)
+  deletedAt: string; // ISO
+};
+
+/**
+ * 💸 Encargos por atraso de um cliente (valores em reais)
+ */
+export type EncargosCliente = {
+  vencimento: string; // ISO: yyyy-mm-dd
+  diasAtraso: number;
+  saldo: number; // value - paid
+  multa: number;
+  juros: number;
+  encargos: number; // multa + juros (0 se dispensados)
+  saldoAtualizado: number; // saldo + encargos
+  dispensado: boolean;
+  motivoDispensa?: string | null;
+};
+
+/**
+ * 🗺️ Rota do dia: bairros → ruas → clientes, na ordem de visita
+ */
+export type RotaRua = {
+  ruaId: number; // -1 = sem rua
+  ruaNome: string;
+  bairroId: number; // -1 = sem bairro
+  clientes: Client[]; // Prioritários primeiro, depois ordemVisita
+  totalPendente: number; // Reais
+};
+
+export type RotaBairro = {
+  bairroId: number; // -1 = sem bairro
+  bairroNome: string;
+  ruas: RotaRua[];
+};
+
+export type RotaDoDia = {
+  data: string; // ISO: yyyy-mm-dd
+  bairros: RotaBairro[];
+  totalClientes: number;
+  totalPrioritarios: number;
+  totalAtrasados: number; // Cobranças de dias anteriores ainda pendentes
+  totalPendente: number; // Reais
 };
 
 export type ClientesPorRua = {
@@ -2,57 +2,45 @@
  * 🛠️ Utilitários do banco de dados
  */
 
-import type { Client } from "./types";
+import type { Cadencia, Client, PaymentMethod } from "./types";
 import {
   sanitizeClientStrings,
   normalizeMonetaryValues,
   normalizeClientDates,
 } from "./utils/clientNormalization";
+import { civilDateISO, civilDateTimeIso } from "./utils/civilDate";
+import { normalizeCadencia } from "./utils/cadence";
 
 // Re-exportar funções auxiliares
 export * from "./utils/clientNormalization";
 export * from "./utils/dateParsers";
 export * from "./utils/dateHelpers";
+export * from "./utils/civilDate";
+export * from "./utils/cadence";
+export * from "./utils/workCalendar";
+export * from "./utils/installments";
 
 // 📅 Formato brasileiro para UI (dd/mm/yyyy)
 export const formatDate = (date = new Date()): string => date.toLocaleDateString("pt-BR");
 
-// 📅 Formato ISO completo para armazenamento (yyyy-mm-ddTHH:mm:ss.sssZ)
-/**
- * ✅ Retorna data/hora ISO no timezone local (não UTC)
- * ✅ new Date().toISOString() salva horário UTC → no Brasil fica 3–4h deslocado
- * ✅ Esta função corrige o timezone para o horário local
- */
-function nowIsoLocal(): string {
-  try {
-    const d = new Date();
-    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
-    return d.toISOString().slice(0, 19) + "Z";
-  } catch (error) {
-    // ✅ Fallback seguro em caso de erro de timezone
-    console.warn("⚠️ Erro ao obter timezone local, usando UTC:", error);
-    return new Date().toISOString().slice(0, 19) + "Z";
-  }
-}
-
+// 📅 Formato ISO completo para armazenamento (yyyy-mm-ddTHH:mm:ssZ)
 /**
  * ✅ Formata data/hora para ISO string compatível com CHECK constraint
  * ✅ Garante formato: YYYY-MM-DDTHH:mm:ssZ (sem milissegundos)
  * ✅ Compatível com CHECK constraint: GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T[0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'
- * ✅ Usa timezone local (não UTC) para evitar deslocamento de 3-4h no Brasil
+ * ✅ Horário de parede do fuso do negócio (America/Sao_Paulo), não UTC
  */
-export const formatDateTimeIso = (date?: Date): string => {
-  // ✅ Usar timezone local para evitar deslocamento de 3-4h no Brasil
-  if (!date) {
-    return nowIsoLocal();
-  }
-  const d = new Date(date);
-  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
-  return d.toISOString().slice(0, 19) + "Z";
-};
+export const formatDateTimeIso = (date?: Date): string => civilDateTimeIso(date ? new Date(date) : new Date());
+
+// 📅 Formato ISO apenas data (yyyy-mm-dd), no fuso do negócio
+export const formatDateIso = (date = new Date()): string => civilDateISO(date);
+
+// 💳 Formas de pagamento válidas (mesma lista do CHECK em payments.method)
+export const PAYMENT_METHOD_KEYS: PaymentMethod[] = ["dinheiro", "pix", "cartao", "transferencia"];
 
-// 📅 Formato ISO apenas data (yyyy-mm-dd)
-export const formatDateIso = (date = new Date()): string => date.toISOString().slice(0, 10);
+// 💳 Normaliza forma de pagamento (valores desconhecidos/antigos → dinheiro)
+export const normalizePaymentMethod = (value: unknown): PaymentMethod =>
+  PAYMENT_METHOD_KEYS.includes(value as PaymentMethod) ? (value as PaymentMethod) : "dinheiro";
 
 // 💰 Conversão de valores monetários (evita problemas de float)
 export const toCentavos = (reais: number): number => Math.round(reais * 100); // R$ 15.00 → 1500 centavos
@@ -128,6 +116,8 @@ export type NormalizedClientData = {
   observacoes: string | null;
   status: string;
   proximaData: string | null;
+  cadencia: Cadencia | null;
+  cadencia_dia: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -147,6 +137,7 @@ export function normalizeClientData(client: Partial<Client>): NormalizedClientDa
   const status = client.status ?? "pendente";
   const ordemVisita = client.ordemVisita ?? 1;
   const prioritario = client.prioritario ?? 0;
+  const { cadencia, cadenciaDia } = normalizeCadencia(client.cadencia, client.cadenciaDia);
   const created_at = formatDateTimeIso();
   const updated_at = formatDateTimeIso();
   
@@ -165,6 +156,8 @@ export function normalizeClientData(client: Partial<Client>): NormalizedClientDa
     observacoes: strings.observacoes || null,
     status,
     proximaData: dates.proximaData,
+    cadencia,
+    cadencia_dia: cadenciaDia,
     created_at,
     updated_at,
   };
@@ -0,0 +1,63 @@
+/**
+ * 🧪 Testes Unitários - Relatório de inadimplência (aging)
+ * - Faixas de atraso
+ * - Agrupamento por bairro/rua e por último pagamento
+ */
+
+import { getAgingFaixaIndex, montarAgingReport, type AgingRow } from "../aging";
+
+const row = (overrides: Partial<AgingRow>): AgingRow => ({
+  saldo_cents: 10000,
+  proximaData: "2025-03-01",
+  ultimo_pagamento: null,
+  bairro: "Centro",
+  rua: "Rua A",
+  ...overrides,
+});
+
+describe("getAgingFaixaIndex()", () => {
+  it("✅ deve respeitar os limites das faixas", () => {
+    expect(getAgingFaixaIndex(1)).toBe(0);
+    expect(getAgingFaixaIndex(30)).toBe(0);
+    expect(getAgingFaixaIndex(31)).toBe(1);
+    expect(getAgingFaixaIndex(90)).toBe(2);
+    expect(getAgingFaixaIndex(91)).toBe(3);
+  });
+});
+
+describe("montarAgingReport()", () => {
+  it("✅ deve somar por faixa de vencimento e agrupar por bairro/rua", () => {
+    const report = montarAgingReport(
+      [
+        row({ proximaData: "2025-03-21" }), // 10 dias
+        row({ proximaData: "2025-02-01", saldo_cents: 5000, rua: "Rua B" }), // 58 dias
+        row({ proximaData: "2024-12-01", saldo_cents: 20000, bairro: "Vila Nova" }), // 120 dias
+      ],
+      "2025-03-31"
+    );
+
+    expect(report.total).toBe(350);
+    expect(report.quantidade).toBe(3);
+    expect(report.porVencimento.map((f) => f.total)).toEqual([100, 50, 0, 200]);
+
+    expect(report.bairros.map((b) => b.bairro)).toEqual(["Vila Nova", "Centro"]);
+    const centro = report.bairros[1];
+    expect(centro.total).toBe(150);
+    expect(centro.ruas.map((r) => r.rua)).toEqual(["Rua A", "Rua B"]);
+    expect(centro.faixas[1].quantidade).toBe(1);
+  });
+
+  it("✅ deve usar o último pagamento na faixa secundária e ignorar saldo zerado", () => {
+    const report = montarAgingReport(
+      [
+        row({ proximaData: "2024-12-01", ultimo_pagamento: "2025-03-20T10:00:00-0300" }),
+        row({ saldo_cents: 0 }),
+      ],
+      "2025-03-31"
+    );
+
+    expect(report.quantidade).toBe(1);
+    expect(report.porVencimento[3].total).toBe(100);
+    expect(report.porUltimoPagamento[0].total).toBe(100);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * 🧪 Testes Unitários - Auditoria financeira
+ * - Retrato dos campos monetários e diferenças antes/depois
+ * - Leitura do JSON gravado no audit_log
+ */
+
+import { clientAuditSnapshot, diffAuditSnapshots, parseAuditSnapshot } from "../audit";
+
+describe("audit", () => {
+  it("✅ clientAuditSnapshot mantém apenas os campos monetários", () => {
+    const row = { value_cents: 10000, paid_cents: 2500, status: "pendente", proximaData: "2025-03-10", name: "Ana" };
+    expect(clientAuditSnapshot(row)).toEqual({
+      value_cents: 10000,
+      paid_cents: 2500,
+      status: "pendente",
+      proximaData: "2025-03-10",
+    });
+  });
+
+  it("✅ diffAuditSnapshots lista só os campos alterados", () => {
+    const antes = clientAuditSnapshot({ value_cents: 10000, paid_cents: 2500, status: "pendente" });
+    const depois = clientAuditSnapshot({ value_cents: 10000, paid_cents: 10000, status: "quitado" });
+    expect(diffAuditSnapshots(antes, depois)).toEqual([
+      { campo: "paid_cents", antes: 2500, depois: 10000 },
+      { campo: "status", antes: "pendente", depois: "quitado" },
+    ]);
+    expect(diffAuditSnapshots(antes, antes)).toEqual([]);
+  });
+
+  it("✅ diffAuditSnapshots trata campos que só existem de um lado", () => {
+    expect(diffAuditSnapshots({ paid_cents: 500 }, { paid_cents: 500, pagamento_cents: 500 })).toEqual([
+      { campo: "pagamento_cents", antes: null, depois: 500 },
+    ]);
+  });
+
+  it("✅ parseAuditSnapshot ignora JSON vazio ou inválido", () => {
+    expect(parseAuditSnapshot('{"paid_cents":100}')).toEqual({ paid_cents: 100 });
+    expect(parseAuditSnapshot(null)).toBeNull();
+    expect(parseAuditSnapshot("[1,2]")).toBeNull();
+    expect(parseAuditSnapshot("{quebrado")).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * 🧪 Testes Unitários - Backup protegido
+ * - SHA-256, HMAC, PBKDF2 e ChaCha20 conferidos com o crypto do Node
+ * - PIN errado e arquivo adulterado são recusados
+ * - Sem gerador aleatório seguro o backup não é criado
+ */
+
+import { createHash, createHmac, pbkdf2Sync, createCipheriv } from "crypto";
+import {
+  sha256,
+  hmacSha256,
+  pbkdf2Sha256,
+  chacha20,
+  sealBackup,
+  openSealedBackup,
+  readSealedBackupHeader,
+  BackupPinError,
+  MAX_PBKDF2_ITERATIONS,
+} from "../backupCrypto";
+
+const bytes = (text: string) => Uint8Array.from(Buffer.from(text, "utf8"));
+const hex = (data: Uint8Array) => Buffer.from(data).toString("hex");
+
+describe("primitivas", () => {
+  it("✅ SHA-256 e HMAC iguais ao Node", () => {
+    for (const size of [0, 3, 55, 56, 64, 1000]) {
+      const data = Uint8Array.from({ length: size }, (_, i) => (i * 31) & 0xff);
+      expect(hex(sha256(data))).toBe(createHash("sha256").update(data).digest("hex"));
+      expect(hex(hmacSha256(bytes("chave"), data))).toBe(createHmac("sha256", "chave").update(data).digest("hex"));
+    }
+  });
+
+  it("✅ PBKDF2 e ChaCha20 iguais ao Node", () => {
+    expect(hex(pbkdf2Sha256(bytes("123456"), bytes("salt"), 1000, 40))).toBe(
+      pbkdf2Sync("123456", "salt", 1000, 40, "sha256").toString("hex")
+    );
+
+    const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const nonce = Uint8Array.from({ length: 12 }, (_, i) => i * 3);
+    const data = Uint8Array.from({ length: 200 }, (_, i) => i & 0xff);
+    const iv = Buffer.concat([Buffer.from([1, 0, 0, 0]), Buffer.from(nonce)]);
+    const esperado = createCipheriv("chacha20", key, iv).update(data);
+    expect(hex(chacha20(key, nonce, data))).toBe(esperado.toString("hex"));
+  });
+});
+
+describe("sealBackup() / openSealedBackup()", () => {
+  const CONTEUDO = bytes('{"version":3}\n{"type":"clients","data":[{"name":"João"}]}');
+
+  it("✅ deve cifrar e abrir com o mesmo PIN", () => {
+    const sealed = sealBackup(CONTEUDO, "482913", "ndjson", 10);
+    expect(Buffer.from(sealed).includes(Buffer.from("João"))).toBe(false);
+    expect(readSealedBackupHeader(sealed).header).toEqual(
+      expect.objectContaining({ conteudo: "ndjson", compressao: "gzip", cifra: "chacha20", iteracoes: 10 })
+    );
+
+    const { data } = openSealedBackup(sealed, "482913");
+    expect(Buffer.from(data).toString("utf8")).toBe(Buffer.from(CONTEUDO).toString("utf8"));
+  });
+
+  it("❌ deve recusar PIN errado, PIN curto e arquivo adulterado", () => {
+    const sealed = sealBackup(CONTEUDO, "482913", "ndjson", 10);
+    expect(() => openSealedBackup(sealed, "000000")).toThrow(BackupPinError);
+    expect(() => sealBackup(CONTEUDO, "123", "ndjson", 10)).toThrow(BackupPinError);
+
+    sealed[sealed.length - 40] ^= 1;
+    expect(() => openSealedBackup(sealed, "482913")).toThrow(BackupPinError);
+  });
+
+  it("❌ deve recusar cabeçalho com iterações acima do limite", () => {
+    const sealed = sealBackup(CONTEUDO, "482913", "ndjson", 10);
+    const { header, headerEnd } = readSealedBackupHeader(sealed);
+    const novoHeader = bytes(JSON.stringify({ ...header, iteracoes: MAX_PBKDF2_ITERATIONS + 1 }));
+    const tamanho = new Uint8Array(4);
+    new DataView(tamanho.buffer).setUint32(0, novoHeader.length);
+    const adulterado = Uint8Array.from([...sealed.subarray(0, 4), ...tamanho, ...novoHeader, ...sealed.subarray(headerEnd)]);
+
+    expect(() => readSealedBackupHeader(adulterado)).toThrow("formato ou algoritmo não suportado");
+    expect(() => openSealedBackup(adulterado, "482913")).toThrow("formato ou algoritmo não suportado");
+  });
+
+  it("❌ não deve criar backup sem gerador aleatório seguro", () => {
+    const original = Object.getOwnPropertyDescriptor(globalThis, "crypto");
+    Object.defineProperty(globalThis, "crypto", { value: undefined, configurable: true });
+    try {
+      expect(() => sealBackup(CONTEUDO, "482913", "ndjson", 10)).toThrow("aleatórios seguro indisponível");
+    } finally {
+      if (original) Object.defineProperty(globalThis, "crypto", original);
+      else delete (globalThis as any).crypto;
+    }
+  });
+});
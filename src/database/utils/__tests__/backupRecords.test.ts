@@ -0,0 +1,170 @@
+/**
+ * 🧪 Testes Unitários - Registros de backup e mesclagem
+ * - Normalização (formato do banco ou da API; vendas a prazo só no formato do banco)
+ * - Clientes por sync_id ou nome + telefone, vence o updated_at mais novo
+ * - Pagamentos e logs duplicados
+ * - Vendas a prazo só dos clientes novos
+ */
+
+import { normalizeBackupRecord, planBackupMerge, type BackupData } from "../backupRecords";
+
+const AGORA = "2024-03-10 12:00:00";
+
+const cliente = (overrides: Record<string, any>) =>
+  normalizeBackupRecord(
+    "clients",
+    { name: "Maria", telefone: "(11) 99999-0000", value_cents: 10000, paid_cents: 0, updated_at: "2024-03-01 10:00:00", ...overrides },
+    AGORA
+  );
+
+const vazio = (): BackupData => ({
+  bairros: [],
+  ruas: [],
+  clients: [],
+  client_field_versions: [],
+  sales: [],
+  installments: [],
+  payments: [],
+  payment_allocations: [],
+  late_fee_waivers: [],
+  logs: [],
+});
+
+describe("normalizeBackupRecord()", () => {
+  it("✅ deve aceitar cliente no formato da API (reais)", () => {
+    const record = normalizeBackupRecord("clients", { id: 1, name: "João", value: 50, paid: 80, next_charge: "2024-03-15" }, AGORA);
+    expect(record.value_cents).toBe(5000);
+    expect(record.paid_cents).toBe(5000);
+    expect(record.status).toBe("quitado");
+    expect(record.proximaData).toBe("2024-03-15");
+    expect(record.updated_at).toBe(AGORA);
+  });
+
+  it("✅ deve copiar só as colunas das parcelas (campos ausentes viram null)", () => {
+    const record = normalizeBackupRecord(
+      "installments",
+      { id: 7, sale_id: 3, numero: 2, due_date: "2024-04-10", value_cents: 5000, paid_cents: 0, status: "aberta", extra: 1 },
+      AGORA
+    );
+    expect(record).toEqual({
+      id: 7,
+      sale_id: 3,
+      numero: 2,
+      due_date: "2024-04-10",
+      value_cents: 5000,
+      paid_cents: 0,
+      status: "aberta",
+      paid_at: null,
+    });
+  });
+});
+
+describe("planBackupMerge()", () => {
+  it("✅ deve casar clientes por nome + telefone e separar novos, alterados e conflitos", () => {
+    const local = vazio();
+    local.clients = [
+      cliente({ id: 1, name: "Maria", observacoes: "local", updated_at: "2024-03-05 10:00:00" }),
+      cliente({ id: 2, name: "José", telefone: "11988887777", observacoes: "local", updated_at: "2024-03-01 10:00:00" }),
+      cliente({ id: 3, name: "Ana" }),
+    ];
+
+    const backup = vazio();
+    backup.clients = [
+      cliente({ id: 10, name: "maria ", telefone: "11 99999 0000", observacoes: "backup", updated_at: "2024-03-02 10:00:00" }),
+      cliente({ id: 11, name: "José", telefone: "11988887777", observacoes: "backup", updated_at: "2024-03-04 10:00:00" }),
+      cliente({ id: 12, name: "Ana" }),
+      cliente({ id: 13, name: "Pedro" }),
+    ];
+
+    const plan = planBackupMerge(local, backup);
+    expect(plan.clients.novos.map((c) => c.name)).toEqual(["Pedro"]);
+    expect(plan.clients.alterados).toEqual([expect.objectContaining({ localId: 2, campos: ["observacoes"] })]);
+    expect(plan.clients.conflitos).toEqual([expect.objectContaining({ localId: 1, campos: ["name", "telefone", "observacoes"] })]);
+    expect(plan.clients.iguais).toBe(1);
+    expect(plan.clients.ids.get(10)).toBe(1);
+  });
+
+  it("✅ deve preferir sync_id e remapear bairros e ruas pelo nome", () => {
+    const local = vazio();
+    local.bairros = [{ id: 1, nome: "Centro", ordemRota: 1 }];
+    local.ruas = [{ id: 5, nome: "Rua A", bairroId: 1, ordemRota: 1 }];
+    local.clients = [cliente({ id: 1, sync_id: "abc", name: "Maria Silva", ruaId: 5 })];
+
+    const backup = vazio();
+    backup.bairros = [{ id: 7, nome: "centro", ordemRota: 1 }, { id: 8, nome: "Vila Nova", ordemRota: 2 }];
+    backup.ruas = [{ id: 20, nome: "Rua A", bairroId: 7, ordemRota: 1 }, { id: 21, nome: "Rua B", bairroId: 8, ordemRota: 1 }];
+    backup.clients = [cliente({ id: 30, sync_id: "abc", name: "Maria", ruaId: 20 })];
+
+    const plan = planBackupMerge(local, backup);
+    expect(plan.bairros.novos.map((b) => b.nome)).toEqual(["Vila Nova"]);
+    expect(plan.ruas.novos.map((r) => r.nome)).toEqual(["Rua B"]);
+    expect(plan.ruas.ids.get(20)).toBe(5);
+    expect(plan.clients.ids.get(30)).toBe(1);
+    expect(plan.clients.conflitos[0].campos).toEqual(["name"]);
+  });
+
+  it("✅ deve ignorar pagamentos e logs duplicados", () => {
+    const local = vazio();
+    local.clients = [cliente({ id: 1 })];
+    local.payments = [{ id: 1, sync_id: null, client_id: 1, created_at: "2024-03-05 09:00:00", value_cents: 2000 }];
+    local.logs = [{ id: 1, sync_id: "log-1", clientId: 1, created_at: "2024-03-05 09:00:00", descricao: "Pagou" }];
+
+    const backup = vazio();
+    backup.clients = [cliente({ id: 9 }), cliente({ id: 10, name: "Pedro" })];
+    backup.payments = [
+      { id: 1, sync_id: null, client_id: 9, created_at: "2024-03-05 18:30:00", value_cents: 2000 },
+      { id: 2, sync_id: null, client_id: 9, created_at: "2024-03-06 09:00:00", value_cents: 2000 },
+      { id: 3, sync_id: null, client_id: 10, created_at: "2024-03-05 09:00:00", value_cents: 2000 },
+    ];
+    backup.logs = [{ id: 4, sync_id: "log-1", clientId: 9, created_at: "outra", descricao: "Pagou" }];
+
+    const plan = planBackupMerge(local, backup);
+    expect(plan.payments.novos.map((p) => p.id)).toEqual([2, 3]);
+    expect(plan.payments.duplicados).toBe(1);
+    expect(plan.logs.novos).toHaveLength(0);
+    expect(plan.logs.duplicados).toBe(1);
+  });
+
+  it("✅ deve trazer vendas, parcelas e abatimentos só dos clientes novos", () => {
+    const local = vazio();
+    local.clients = [cliente({ id: 1 })];
+    local.late_fee_waivers = [{ id: 1, client_id: 1, vencimento: "2024-03-01", valor_cents: 100, motivo: "x" }];
+
+    const backup = vazio();
+    backup.clients = [cliente({ id: 9 }), cliente({ id: 10, name: "Pedro" })];
+    backup.client_field_versions = [
+      { client_id: 9, field: "name", updated_at: "2024-03-01 10:00:00" },
+      { client_id: 10, field: "name", updated_at: "2024-03-01 10:00:00" },
+    ];
+    backup.sales = [
+      { id: 1, client_id: 9, value_cents: 10000 },
+      { id: 2, client_id: 10, value_cents: 10000 },
+    ];
+    backup.installments = [
+      { id: 11, sale_id: 1, numero: 1 },
+      { id: 12, sale_id: 2, numero: 1 },
+    ];
+    backup.payments = [
+      { id: 21, sync_id: null, client_id: 9, created_at: "2024-03-06 09:00:00", value_cents: 2000 },
+      { id: 22, sync_id: null, client_id: 10, created_at: "2024-03-06 09:00:00", value_cents: 2000 },
+    ];
+    backup.payment_allocations = [
+      { id: 31, payment_id: 21, installment_id: 11, value_cents: 2000 },
+      { id: 32, payment_id: 22, installment_id: 12, value_cents: 2000 },
+    ];
+    backup.late_fee_waivers = [
+      { id: 41, client_id: 9, vencimento: "2024-03-01" },
+      { id: 42, client_id: 10, vencimento: "2024-03-01" },
+    ];
+
+    const plan = planBackupMerge(local, backup);
+    expect(plan.client_field_versions.novos.map((v) => v.client_id)).toEqual([10]);
+    expect(plan.sales.novos.map((s) => s.id)).toEqual([2]);
+    expect(plan.sales.existentes).toBe(1);
+    expect(plan.installments.novos.map((i) => i.id)).toEqual([12]);
+    expect(plan.installments.existentes).toBe(1);
+    expect(plan.payment_allocations.novos.map((a) => a.id)).toEqual([32]);
+    expect(plan.late_fee_waivers.novos.map((w) => w.id)).toEqual([42]);
+    expect(plan.late_fee_waivers.duplicados).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 🧪 Testes Unitários - Verificação de backup
+ * - Somas em centavos para o cabeçalho
+ * - Contagens e somas x cabeçalho (erro, aviso ou ok)
+ */
+
+import {
+  computeBackupTotals,
+  compareBackupCounts,
+  compareBackupTotals,
+  isVerificationApproved,
+} from "../backupVerification";
+
+const CONTAGENS = {
+  clientCount: 2,
+  paymentCount: 3,
+  logCount: 1,
+  bairroCount: 1,
+  ruaCount: 1,
+  fieldVersionCount: 4,
+  saleCount: 1,
+  installmentCount: 3,
+  allocationCount: 2,
+  waiverCount: 0,
+};
+
+describe("computeBackupTotals()", () => {
+  it("✅ deve somar valor e pago dos clientes e os pagamentos", () => {
+    const totais = computeBackupTotals(
+      [{ value_cents: 10000, paid_cents: 2500 }, { value_cents: 5000, paid_cents: 5000 }],
+      [{ value_cents: 2500 }, { value_cents: 5000 }, { value_cents: null }]
+    );
+    expect(totais).toEqual({ valueCents: 15000, paidCents: 7500, paymentCents: 7500 });
+  });
+});
+
+describe("compareBackupCounts() / compareBackupTotals()", () => {
+  it("✅ deve aprovar quando tudo confere com o cabeçalho", () => {
+    const totais = { valueCents: 15000, paidCents: 7500, paymentCents: 7500 };
+    const itens = [compareBackupCounts(CONTAGENS, CONTAGENS), compareBackupTotals(totais, totais)];
+    expect(itens.map((i) => i.status)).toEqual(["ok", "ok"]);
+    expect(isVerificationApproved(itens)).toBe(true);
+  });
+
+  it("❌ deve reprovar contagens e somas divergentes", () => {
+    const contagem = compareBackupCounts(CONTAGENS, { ...CONTAGENS, paymentCount: 2 });
+    expect(contagem.status).toBe("erro");
+    expect(contagem.detalhe).toBe("pagamentos: cabeçalho 3, banco 2");
+
+    const soma = compareBackupTotals(
+      { valueCents: 15000, paidCents: 7500, paymentCents: 7500 },
+      { valueCents: 15000, paidCents: 7000, paymentCents: 7500 }
+    );
+    expect(soma.status).toBe("erro");
+    expect(soma.detalhe).toBe("pago pelos clientes: cabeçalho R$ 75,00, banco R$ 70,00");
+    expect(isVerificationApproved([contagem, soma])).toBe(false);
+  });
+
+  it("⚠️ deve só avisar quando o backup não tem totais no cabeçalho", () => {
+    const item = compareBackupTotals(undefined, { valueCents: 0, paidCents: 0, paymentCents: 0 });
+    expect(item.status).toBe("aviso");
+    expect(isVerificationApproved([item])).toBe(true);
+    expect(compareBackupCounts(null, CONTAGENS).status).toBe("ok");
+  });
+});
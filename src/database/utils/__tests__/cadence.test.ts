@@ -0,0 +1,52 @@
+/**
+ * 🧪 Testes Unitários - Cadência de cobrança
+ * - Próxima cobrança semanal/quinzenal/mensal (com dia da semana fixo)
+ * - Dia fixo do mês (meses curtos)
+ * - Normalização do dia e texto para a UI
+ */
+
+import { describeCadencia, nextChargeDate, normalizeCadencia } from "../cadence";
+
+describe("nextChargeDate()", () => {
+  it("✅ deve somar 7/14 dias e respeitar o dia da semana fixo", () => {
+    // 2025-03-12 é quarta-feira
+    expect(nextChargeDate("semanal", null, "2025-03-12")).toBe("2025-03-19");
+    expect(nextChargeDate("quinzenal", null, "2025-03-12")).toBe("2025-03-26");
+    // Pagou na quarta, cobra às terças → terça seguinte mais próxima
+    expect(nextChargeDate("semanal", 2, "2025-03-12")).toBe("2025-03-18");
+    expect(nextChargeDate("semanal", 5, "2025-03-12")).toBe("2025-03-21");
+  });
+
+  it("✅ deve manter o dia no mês seguinte e limitar ao último dia", () => {
+    expect(nextChargeDate("mensal", null, "2025-03-15")).toBe("2025-04-15");
+    expect(nextChargeDate("mensal", null, "2025-01-31")).toBe("2025-02-28");
+    expect(nextChargeDate("mensal", null, "2025-12-10")).toBe("2026-01-10");
+  });
+
+  it("✅ deve agendar o próximo dia fixo depois da base", () => {
+    expect(nextChargeDate("dia_fixo", 10, "2025-03-05")).toBe("2025-03-10");
+    expect(nextChargeDate("dia_fixo", 10, "2025-03-10")).toBe("2025-04-10");
+    expect(nextChargeDate("dia_fixo", 31, "2025-01-31")).toBe("2025-02-28");
+    expect(nextChargeDate("dia_fixo", 31, "2025-02-10")).toBe("2025-02-28");
+  });
+
+  it("✅ deve retornar null sem cadência ou com cadência inválida", () => {
+    expect(nextChargeDate(null, null, "2025-03-12")).toBeNull();
+    expect(nextChargeDate("anual", 3, "2025-03-12")).toBeNull();
+  });
+});
+
+describe("normalizeCadencia() / describeCadencia()", () => {
+  it("✅ deve descartar dia fora da faixa da cadência", () => {
+    expect(normalizeCadencia("semanal", 7)).toEqual({ cadencia: "semanal", cadenciaDia: null });
+    expect(normalizeCadencia("dia_fixo", 0)).toEqual({ cadencia: "dia_fixo", cadenciaDia: null });
+    expect(normalizeCadencia("dia_fixo", "15")).toEqual({ cadencia: "dia_fixo", cadenciaDia: 15 });
+    expect(normalizeCadencia("x", 3)).toEqual({ cadencia: null, cadenciaDia: null });
+  });
+
+  it("✅ deve descrever a cadência para a tela", () => {
+    expect(describeCadencia("semanal", 2)).toBe("Semanal (terça)");
+    expect(describeCadencia("dia_fixo", 10)).toBe("Todo dia 10");
+    expect(describeCadencia(null, null)).toBe("Sem cadência");
+  });
+});
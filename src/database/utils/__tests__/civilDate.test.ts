@@ -0,0 +1,65 @@
+/**
+ * 🧪 Testes Unitários - Datas civis no fuso do negócio
+ * - Virada do dia em UTC (21h em São Paulo) não muda o "hoje"
+ * - Horário de verão antigo e fusos configurados
+ * - Conta de dias/meses sobre yyyy-mm-dd
+ */
+
+import {
+  DEFAULT_TIME_ZONE,
+  addDaysISO,
+  civilDateISO,
+  civilDateTimeIso,
+  endOfMonthOf,
+  getBusinessTimeZone,
+  setBusinessTimeZone,
+  startOfMonthOf,
+} from "../civilDate";
+
+afterEach(() => setBusinessTimeZone(DEFAULT_TIME_ZONE));
+
+describe("civilDateISO() / civilDateTimeIso()", () => {
+  it("✅ deve manter o dia de São Paulo depois das 21h (UTC já virou)", () => {
+    const noite = new Date("2025-03-16T02:30:00Z"); // 15/03 às 23:30 em São Paulo
+    expect(civilDateISO(noite)).toBe("2025-03-15");
+    expect(civilDateTimeIso(noite)).toBe("2025-03-15T23:30:00Z");
+  });
+
+  it("✅ deve virar o dia à meia-noite de São Paulo (03:00 UTC)", () => {
+    expect(civilDateISO(new Date("2025-03-16T02:59:59Z"))).toBe("2025-03-15");
+    expect(civilDateISO(new Date("2025-03-16T03:00:00Z"))).toBe("2025-03-16");
+    expect(civilDateTimeIso(new Date("2025-03-16T03:00:00Z"))).toBe("2025-03-16T00:00:00Z");
+  });
+
+  it("✅ deve respeitar o horário de verão antigo (UTC-2)", () => {
+    // Horário de verão de 2018/2019: meia-noite em São Paulo = 02:00 UTC
+    expect(civilDateTimeIso(new Date("2019-01-10T02:00:00Z"))).toBe("2019-01-10T00:00:00Z");
+    expect(civilDateISO(new Date("2019-01-10T01:59:59Z"))).toBe("2019-01-09");
+  });
+
+  it("✅ deve usar o fuso configurado e voltar ao padrão quando inválido", () => {
+    const instante = new Date("2025-03-16T02:30:00Z");
+    setBusinessTimeZone("America/Manaus");
+    expect(getBusinessTimeZone()).toBe("America/Manaus");
+    expect(civilDateTimeIso(instante)).toBe("2025-03-15T22:30:00Z");
+
+    setBusinessTimeZone("Fuso/Inexistente");
+    expect(getBusinessTimeZone()).toBe(DEFAULT_TIME_ZONE);
+    expect(civilDateISO(instante, "UTC")).toBe("2025-03-16");
+  });
+});
+
+describe("addDaysISO() / startOfMonthOf() / endOfMonthOf()", () => {
+  it("✅ deve atravessar mês, ano e fevereiro bissexto", () => {
+    expect(addDaysISO("2025-03-31", 1)).toBe("2025-04-01");
+    expect(addDaysISO("2025-01-01", -1)).toBe("2024-12-31");
+    expect(addDaysISO("2024-02-28T23:30:00Z", 1)).toBe("2024-02-29");
+  });
+
+  it("✅ deve calcular início e fim do mês (com deslocamento)", () => {
+    expect(startOfMonthOf("2025-03-15")).toBe("2025-03-01");
+    expect(endOfMonthOf("2025-03-15")).toBe("2025-03-31");
+    expect(startOfMonthOf("2025-01-15", -1)).toBe("2024-12-01");
+    expect(endOfMonthOf("2025-03-15", -1)).toBe("2025-02-28");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * 🧪 Testes Unitários - Resolução de conflitos
+ * - Last-writer-wins por campo
+ * - Edição local mais nova é mantida e reportada
+ * - Empate resolvido igual nos dois aparelhos
+ */
+
+import { resolveClientConflict, sameFieldValue } from "../conflictResolution";
+import type { Client } from "../../types";
+
+const local: Client = {
+  id: 7,
+  name: "Maria",
+  value: 500,
+  paid: 100,
+  telefone: "11999990000",
+  observacoes: null,
+  updated_at: "2025-03-10T10:00:00Z",
+};
+
+describe("resolveClientConflict()", () => {
+  it("✅ deve aplicar campo remoto mais novo e manter campo local mais novo", () => {
+    const { changes, versions, conflicts } = resolveClientConflict(
+      local,
+      { telefone: "2025-03-10T12:00:00Z" },
+      { name: "Maria Souza", telefone: "11888880000" },
+      { name: "2025-03-10T11:00:00Z", telefone: "2025-03-10T11:30:00Z" }
+    );
+
+    expect(changes).toEqual({ name: "Maria Souza" });
+    expect(versions).toEqual({ name: "2025-03-10T11:00:00Z" });
+    expect(conflicts).toEqual(["telefone"]);
+  });
+
+  it("✅ deve ignorar paid e campos iguais", () => {
+    const { changes, conflicts } = resolveClientConflict(
+      local,
+      {},
+      { name: "Maria", paid: 999, observacoes: "", updated_at: "2025-03-11T10:00:00Z" },
+      null
+    );
+
+    expect(changes).toEqual({});
+    expect(conflicts).toEqual([]);
+  });
+
+  it("✅ deve usar updated_at do registro quando o campo não tem versão", () => {
+    const { changes } = resolveClientConflict(
+      local,
+      {},
+      { value: 600, updated_at: "2025-03-11T08:00:00Z" },
+      null
+    );
+
+    expect(changes).toEqual({ value: 600 });
+  });
+
+  it("✅ deve desempatar pelo valor (mesmo resultado nos dois aparelhos)", () => {
+    const version = { name: "2025-03-10T11:00:00Z" };
+    const a = resolveClientConflict({ ...local, name: "Ana" }, version, { name: "Bia" }, version);
+    const b = resolveClientConflict({ ...local, name: "Bia" }, version, { name: "Ana" }, version);
+
+    expect(a.changes).toEqual({ name: "Bia" });
+    expect(b.changes).toEqual({});
+    expect(b.conflicts).toEqual(["name"]);
+  });
+});
+
+describe("sameFieldValue()", () => {
+  it("✅ deve tratar vazio, null e undefined como iguais", () => {
+    expect(sameFieldValue("", null)).toBe(true);
+    expect(sameFieldValue(undefined, null)).toBe(true);
+    expect(sameFieldValue(10, 10.0)).toBe(true);
+    expect(sameFieldValue(10, null)).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * 🧪 Testes Unitários - Compressão gzip
+ * - Compatibilidade com o zlib do Node (nos dois sentidos)
+ * - Verificação de CRC
+ */
+
+import { gzipSync, gunzipSync } from "zlib";
+import { gzip, gunzip, crc32 } from "../deflate";
+
+// ✅ NDJSON repetitivo (como um backup real) + acentos
+const TEXTO = Array.from({ length: 300 }, (_, i) =>
+  JSON.stringify({ type: "clients", data: [{ id: i, name: `Cliente ${i}`, bairro: "São João", value_cents: i * 137 }] })
+).join("\n");
+const BYTES = Uint8Array.from(Buffer.from(TEXTO, "utf8"));
+
+describe("gzip()", () => {
+  it("✅ deve gerar gzip válido e menor que o original", () => {
+    const compressed = gzip(BYTES);
+    expect(compressed.length).toBeLessThan(BYTES.length / 3);
+    expect(Buffer.from(gunzipSync(compressed)).toString("utf8")).toBe(TEXTO);
+  });
+
+  it("✅ deve funcionar com entrada vazia e sem repetições", () => {
+    const aleatorio = Uint8Array.from({ length: 5000 }, (_, i) => (i * 7919 + (i >> 3) * 31) & 0xff);
+    expect(Array.from(gunzipSync(gzip(new Uint8Array(0))))).toEqual([]);
+    expect(Uint8Array.from(gunzipSync(gzip(aleatorio)))).toEqual(aleatorio);
+  });
+});
+
+describe("gunzip()", () => {
+  it("✅ deve abrir arquivos do zlib (blocos dinâmicos e armazenados)", () => {
+    expect(Buffer.from(gunzip(gzipSync(BYTES, { level: 9 }))).toString("utf8")).toBe(TEXTO);
+    expect(Buffer.from(gunzip(gzipSync(BYTES, { level: 0 }))).toString("utf8")).toBe(TEXTO);
+  });
+
+  it("❌ deve recusar arquivo com CRC inválido", () => {
+    const compressed = gzip(BYTES);
+    compressed[compressed.length - 8] ^= 0xff;
+    expect(() => gunzip(compressed)).toThrow("CRC");
+    expect(crc32(Uint8Array.from(Buffer.from("123456789")))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * 🧪 Testes Unitários - Parcelas
+ * - Cronograma: resto dos centavos, fim de mês, intervalos
+ * - Alocação: parcela mais antiga primeiro, sobra sem parcela
+ * - Redução do valor: parcela mais nova primeiro, sem tocar no já pago
+ */
+
+import { buildInstallmentSchedule, allocatePaymentToInstallments, reduceOpenInstallments } from "../installments";
+
+describe("buildInstallmentSchedule()", () => {
+  it("✅ deve colocar o resto dos centavos na primeira parcela", () => {
+    const schedule = buildInstallmentSchedule(10000, 3, "2025-01-10");
+    expect(schedule.map((p) => p.value_cents)).toEqual([3334, 3333, 3333]);
+    expect(schedule.reduce((sum, p) => sum + p.value_cents, 0)).toBe(10000);
+  });
+
+  it("✅ deve limitar o vencimento mensal ao último dia do mês", () => {
+    const schedule = buildInstallmentSchedule(3000, 3, "2025-01-31");
+    expect(schedule.map((p) => p.due_date)).toEqual(["2025-01-31", "2025-02-28", "2025-03-31"]);
+  });
+
+  it("✅ deve gerar vencimentos semanais e quinzenais", () => {
+    expect(buildInstallmentSchedule(200, 2, "2025-12-29", "semanal").map((p) => p.due_date)).toEqual([
+      "2025-12-29",
+      "2026-01-05",
+    ]);
+    expect(buildInstallmentSchedule(200, 2, "2025-02-20", "quinzenal").map((p) => p.due_date)).toEqual([
+      "2025-02-20",
+      "2025-03-07",
+    ]);
+  });
+
+  it("❌ deve rejeitar valores e datas inválidos", () => {
+    expect(() => buildInstallmentSchedule(0, 1, "2025-01-10")).toThrow();
+    expect(() => buildInstallmentSchedule(1000, 0, "2025-01-10")).toThrow();
+    expect(() => buildInstallmentSchedule(1000, 2, "10/01/2025")).toThrow();
+  });
+});
+
+describe("allocatePaymentToInstallments()", () => {
+  const open = [
+    { id: 3, numero: 1, due_date: "2025-03-01", value_cents: 5000, paid_cents: 0 },
+    { id: 1, numero: 2, due_date: "2025-02-01", value_cents: 5000, paid_cents: 2000 },
+    { id: 2, numero: 1, due_date: "2025-02-01", value_cents: 5000, paid_cents: 0 },
+  ];
+
+  it("✅ deve quitar a parcela mais antiga primeiro", () => {
+    const { allocations, remainingCents } = allocatePaymentToInstallments(open, 7000);
+    expect(allocations).toEqual([
+      { installment_id: 2, value_cents: 5000 },
+      { installment_id: 1, value_cents: 2000 },
+    ]);
+    expect(remainingCents).toBe(0);
+  });
+
+  it("✅ deve retornar a sobra quando o pagamento excede as parcelas", () => {
+    const { allocations, remainingCents } = allocatePaymentToInstallments(open, 14000);
+    expect(allocations.map((a) => a.installment_id)).toEqual([2, 1, 3]);
+    expect(remainingCents).toBe(1000);
+  });
+});
+
+describe("reduceOpenInstallments()", () => {
+  const open = [
+    { id: 1, numero: 1, due_date: "2025-02-01", value_cents: 5000, paid_cents: 0 },
+    { id: 2, numero: 2, due_date: "2025-03-01", value_cents: 5000, paid_cents: 4000 },
+    { id: 3, numero: 1, due_date: "2025-03-01", value_cents: 5000, paid_cents: 0 },
+  ];
+
+  it("✅ deve reduzir a parcela mais nova primeiro, só no saldo em aberto", () => {
+    const { reductions, remainingCents } = reduceOpenInstallments(open, 6500);
+    expect(reductions).toEqual([
+      { installment_id: 2, value_cents: 1000 },
+      { installment_id: 3, value_cents: 5000 },
+      { installment_id: 1, value_cents: 500 },
+    ]);
+    expect(remainingCents).toBe(0);
+  });
+
+  it("✅ deve retornar a sobra quando a redução excede o saldo em aberto", () => {
+    const { reductions, remainingCents } = reduceOpenInstallments(open, 12000);
+    expect(reductions.reduce((sum, r) => sum + r.value_cents, 0)).toBe(11000);
+    expect(remainingCents).toBe(1000);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * 🧪 Testes Unitários - Encargos por atraso
+ * - Multa fixa e juros diários/mensais
+ * - Carência e saldo zerado
+ */
+
+import { calcularEncargos, diasEntre, type LateFeeConfig } from "../lateFees";
+
+const config: LateFeeConfig = {
+  multaPercent: 2,
+  jurosPercent: 3,
+  jurosPeriodo: "mensal",
+  carenciaDias: 0,
+};
+
+describe("diasEntre()", () => {
+  it("✅ deve contar dias corridos atravessando meses", () => {
+    expect(diasEntre("2025-01-30", "2025-02-02")).toBe(3);
+    expect(diasEntre("2025-03-10", "2025-03-10")).toBe(0);
+    expect(diasEntre("2025-03-10", "2025-03-01")).toBe(-9);
+  });
+});
+
+describe("calcularEncargos()", () => {
+  it("✅ deve aplicar multa fixa e juros mensais pro rata", () => {
+    const r = calcularEncargos(10000, "2025-01-01", "2025-01-31", config);
+    expect(r.diasAtraso).toBe(30);
+    expect(r.multaCents).toBe(200);
+    expect(r.jurosCents).toBe(300);
+    expect(r.saldoAtualizadoCents).toBe(10500);
+  });
+
+  it("✅ deve aplicar juros diários", () => {
+    const r = calcularEncargos(10000, "2025-01-01", "2025-01-11", {
+      ...config,
+      multaPercent: 0,
+      jurosPercent: 0.5,
+      jurosPeriodo: "diario",
+    });
+    expect(r.jurosCents).toBe(500);
+    expect(r.encargosCents).toBe(500);
+  });
+
+  it("✅ não deve cobrar dentro da carência, antes do vencimento ou sem saldo", () => {
+    expect(calcularEncargos(10000, "2025-01-01", "2025-01-03", { ...config, carenciaDias: 3 }).encargosCents).toBe(0);
+    expect(calcularEncargos(10000, "2025-01-10", "2025-01-05", config).encargosCents).toBe(0);
+    expect(calcularEncargos(0, "2025-01-01", "2025-02-01", config).encargosCents).toBe(0);
+    expect(calcularEncargos(10000, null, "2025-02-01", config).encargosCents).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * 🧪 Testes Unitários - Leitura incremental de NDJSON
+ * - Decodificação base64/UTF-8
+ * - Linhas cortadas entre blocos (inclusive no meio de um acento)
+ */
+
+import { base64ToBytes, utf8Decode, createLineBuffer } from "../ndjson";
+
+// ✅ Texto de exemplo codificado em UTF-8
+const TEXTO = "ação 🚀\n{\"a\":1}\n{\"b\":\"é\"}";
+const BYTES = Uint8Array.from(unescape(encodeURIComponent(TEXTO)), (c) => c.charCodeAt(0));
+
+describe("base64ToBytes() / utf8Decode()", () => {
+  it("✅ deve decodificar base64 com e sem padding", () => {
+    expect(Array.from(base64ToBytes("TWFu"))).toEqual([77, 97, 110]);
+    expect(Array.from(base64ToBytes("TWE="))).toEqual([77, 97]);
+    expect(Array.from(base64ToBytes("TQ=="))).toEqual([77]);
+  });
+
+  it("✅ deve decodificar acentos e emojis", () => {
+    expect(utf8Decode(BYTES)).toBe(TEXTO);
+  });
+});
+
+describe("createLineBuffer()", () => {
+  it("✅ deve montar linhas cortadas em qualquer byte", () => {
+    for (let corte = 1; corte < BYTES.length; corte++) {
+      const buffer = createLineBuffer();
+      const lines = [
+        ...buffer.push(BYTES.subarray(0, corte)),
+        ...buffer.push(BYTES.subarray(corte)),
+        ...buffer.end(),
+      ];
+      expect(lines).toEqual(["ação 🚀", "{\"a\":1}", "{\"b\":\"é\"}"]);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 🧪 Testes Unitários - Rota do Dia
+ * - Agrupamento das linhas ordenadas em bairros → ruas
+ * - Totais (pendente, prioritários, atrasados)
+ * - Ordem salva com reordenação parcial
+ */
+
+import { mergeOrdem, montarRotaDoDia, type RotaRow } from "../rota";
+
+let nextId = 1;
+
+const row = (overrides: Partial<RotaRow>): RotaRow => ({
+  id: nextId++,
+  sync_id: null,
+  name: "Cliente",
+  value_cents: 10000,
+  paid_cents: 0,
+  bairro: null,
+  numero: null,
+  referencia: null,
+  telefone: null,
+  next_charge: null,
+  ruaId: null,
+  ordemVisita: 1,
+  prioritario: 0,
+  observacoes: null,
+  status: "pendente",
+  proximaData: "2025-03-10",
+  rota_rua_id: 1,
+  rota_rua_nome: "Rua A",
+  rota_bairro_id: 1,
+  rota_bairro_nome: "Centro",
+  ...overrides,
+});
+
+describe("montarRotaDoDia()", () => {
+  it("✅ deve agrupar na sequência das linhas, com sem bairro/sem rua nomeados", () => {
+    const rota = montarRotaDoDia("2025-03-10", [
+      row({ name: "Ana" }),
+      row({ name: "Bia" }),
+      row({ name: "Caio", rota_rua_id: 2, rota_rua_nome: "Rua B" }),
+      row({ name: "Duda", rota_bairro_id: 2, rota_bairro_nome: "Vila Nova", rota_rua_id: 3, rota_rua_nome: "Rua C" }),
+      row({ name: "Edu", rota_bairro_id: -1, rota_bairro_nome: null, rota_rua_id: -1, rota_rua_nome: null }),
+    ]);
+
+    expect(
+      rota.bairros.map((b) => [b.bairroNome, b.ruas.map((r) => [r.ruaNome, r.clientes.map((c) => c.name)])])
+    ).toEqual([
+      ["Centro", [["Rua A", ["Ana", "Bia"]], ["Rua B", ["Caio"]]]],
+      ["Vila Nova", [["Rua C", ["Duda"]]]],
+      ["Sem bairro", [["Sem rua", ["Edu"]]]],
+    ]);
+    expect(rota.totalClientes).toBe(5);
+  });
+
+  it("✅ deve somar o saldo pendente e contar prioritários e atrasados", () => {
+    const rota = montarRotaDoDia("2025-03-10", [
+      row({ value_cents: 10000, paid_cents: 2500, prioritario: 1 }),
+      row({ value_cents: 5000, paid_cents: 6000, proximaData: "2025-03-03" }),
+      row({ value_cents: 3000, paid_cents: 0, rota_rua_id: 2, rota_rua_nome: "Rua B" }),
+    ]);
+
+    expect(rota.totalPendente).toBe(105);
+    expect(rota.bairros[0].ruas.map((r) => r.totalPendente)).toEqual([75, 30]);
+    expect(rota.totalPrioritarios).toBe(1);
+    expect(rota.totalAtrasados).toBe(1);
+  });
+
+  it("✅ deve devolver rota vazia sem linhas", () => {
+    expect(montarRotaDoDia("2025-03-10", [])).toEqual({
+      data: "2025-03-10",
+      bairros: [],
+      totalClientes: 0,
+      totalPrioritarios: 0,
+      totalAtrasados: 0,
+      totalPendente: 0,
+    });
+  });
+});
+
+describe("mergeOrdem()", () => {
+  it("✅ deve aplicar a nova ordem completa", () => {
+    expect(mergeOrdem([1, 2, 3], [3, 1, 2])).toEqual([3, 1, 2]);
+  });
+
+  it("✅ deve encaixar a reordenação parcial mantendo a posição dos demais", () => {
+    expect(mergeOrdem([1, 2, 3, 4], [3, 1])).toEqual([3, 2, 1, 4]);
+    expect(mergeOrdem([5, 6, 7, 8, 9], [9, 6])).toEqual([5, 9, 7, 8, 6]);
+  });
+
+  it("✅ deve ignorar ids que não estão na ordem salva", () => {
+    expect(mergeOrdem([1, 2, 3], [99, 3, 1])).toEqual([3, 2, 1]);
+    expect(mergeOrdem([], [1, 2])).toEqual([]);
+  });
+});
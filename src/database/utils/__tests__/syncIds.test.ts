@@ -0,0 +1,37 @@
+/**
+ * 🧪 Testes Unitários - sync_id determinístico (dados anteriores à V9)
+ * - Mesmo nome → mesmo UUID (formato versão 8)
+ * - Registros com a mesma chave numerados pela ordem, independente do id local
+ */
+
+import { deterministicSyncId, legacySyncIds, legacyClientKey } from "../syncIds";
+
+describe("deterministicSyncId()", () => {
+  it("✅ deve gerar o mesmo UUID para o mesmo nome", () => {
+    const id = deterministicSyncId("clients|maria|11999990000#1");
+    expect(id).toBe(deterministicSyncId("clients|maria|11999990000#1"));
+    expect(id).not.toBe(deterministicSyncId("clients|maria|11999990000#2"));
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
+
+describe("legacySyncIds()", () => {
+  it("✅ deve chegar aos mesmos sync_id em aparelhos com ids locais diferentes", () => {
+    const aparelhoA = [
+      { id: 1, name: "Maria", telefone: "(11) 99999-0000", created_at: "2024-01-01 10:00:00" },
+      { id: 2, name: "João", telefone: null, created_at: "2024-01-02 10:00:00" },
+      { id: 3, name: "maria ", telefone: "11999990000", created_at: "2024-01-03 10:00:00" },
+    ];
+    const aparelhoB = [
+      { id: 7, name: "MARIA", telefone: "11 99999 0000", created_at: "2024-01-03 10:00:00" },
+      { id: 8, name: "Maria", telefone: "11999990000", created_at: "2024-01-01 10:00:00" },
+      { id: 9, name: "João", telefone: "", created_at: "2024-01-02 10:00:00" },
+    ];
+
+    const idsA = legacySyncIds(aparelhoA, legacyClientKey);
+    const idsB = legacySyncIds(aparelhoB, legacyClientKey);
+
+    expect(new Set(idsA).size).toBe(3);
+    expect(idsB).toEqual([idsA[2], idsA[0], idsA[1]]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * 🧪 Testes Unitários - Lixeira
+ * - Prazo de retenção configurado
+ * - Limite da limpeza automática e dias restantes
+ */
+
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  getTrashCutoff,
+  normalizeTrashRetentionDays,
+} from "../trash";
+import { formatDateTimeIso } from "../../utils";
+
+const AGORA = new Date(2025, 2, 31, 10, 0, 0);
+const diasAtras = (dias: number) => formatDateTimeIso(new Date(AGORA.getTime() - dias * 24 * 60 * 60 * 1000));
+
+describe("normalizeTrashRetentionDays()", () => {
+  it("✅ deve aceitar inteiros entre 1 e 365 (também vindos do app_settings)", () => {
+    expect(normalizeTrashRetentionDays(15)).toBe(15);
+    expect(normalizeTrashRetentionDays("60")).toBe(60);
+    expect(normalizeTrashRetentionDays(7.8)).toBe(7);
+  });
+
+  it("✅ deve usar o padrão para valores inválidos", () => {
+    for (const valor of [null, undefined, "", "abc", 0, -5, 400, NaN]) {
+      expect(normalizeTrashRetentionDays(valor)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    }
+  });
+});
+
+describe("getTrashCutoff() / daysUntilPurge()", () => {
+  it("✅ deve remover só o que passou do prazo", () => {
+    const cutoff = getTrashCutoff(30, AGORA);
+    expect(diasAtras(31) <= cutoff).toBe(true);
+    expect(diasAtras(29) <= cutoff).toBe(false);
+    expect(getTrashCutoff(0, AGORA)).toBe(formatDateTimeIso(AGORA));
+  });
+
+  it("✅ deve contar os dias restantes até a limpeza", () => {
+    expect(daysUntilPurge(diasAtras(0), 30, AGORA)).toBe(30);
+    expect(daysUntilPurge(diasAtras(29.5), 30, AGORA)).toBe(1);
+    expect(daysUntilPurge(diasAtras(45), 30, AGORA)).toBe(0);
+  });
+});
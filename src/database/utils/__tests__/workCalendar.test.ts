@@ -0,0 +1,72 @@
+/**
+ * 🧪 Testes Unitários - Calendário de dias úteis
+ * - Páscoa e feriados móveis
+ * - Folgas da semana e feriados municipais
+ * - Avanço para o próximo dia útil
+ */
+
+import {
+  DEFAULT_WORK_CALENDAR,
+  easterSunday,
+  getHoliday,
+  getNonWorkingReason,
+  nationalHolidays,
+  nextWorkingDay,
+  normalizeWorkCalendar,
+  setWorkCalendar,
+} from "../workCalendar";
+
+afterEach(() => setWorkCalendar(DEFAULT_WORK_CALENDAR));
+
+describe("easterSunday() / nationalHolidays()", () => {
+  it("✅ deve calcular a Páscoa e os feriados móveis", () => {
+    expect(easterSunday(2024)).toBe("2024-03-31");
+    expect(easterSunday(2025)).toBe("2025-04-20");
+    expect(getHoliday("2025-03-04")).toBe("Carnaval");
+    expect(getHoliday("2025-04-18")).toBe("Sexta-feira Santa");
+    expect(getHoliday("2025-06-19")).toBe("Corpus Christi");
+  });
+
+  it("✅ deve listar os feriados do ano em ordem de data", () => {
+    const feriados = nationalHolidays(2025);
+    expect(feriados).toHaveLength(13);
+    expect(feriados[0]).toEqual({ data: "2025-01-01", nome: "Confraternização Universal" });
+    expect(feriados[feriados.length - 1]).toEqual({ data: "2025-12-25", nome: "Natal" });
+  });
+});
+
+describe("nextWorkingDay()", () => {
+  it("✅ deve pular domingo e feriado nacional", () => {
+    expect(nextWorkingDay("2025-03-12")).toBe("2025-03-12"); // quarta comum
+    expect(nextWorkingDay("2025-03-16")).toBe("2025-03-17"); // domingo
+    // Sexta-feira Santa → sábado é dia útil
+    expect(nextWorkingDay("2025-04-18")).toBe("2025-04-19");
+    // Natal numa quinta de 2025
+    expect(nextWorkingDay("2025-12-25")).toBe("2025-12-26");
+  });
+
+  it("✅ deve respeitar folgas configuradas e feriados municipais", () => {
+    setWorkCalendar({
+      diasFolga: [0, 6],
+      feriadosNacionais: false,
+      feriadosMunicipais: [
+        { data: "2020-03-19", nome: "São José", anual: true },
+        { data: "2025-03-20", nome: "Ponto facultativo", anual: false },
+      ],
+    });
+
+    expect(nextWorkingDay("2025-12-25")).toBe("2025-12-25"); // feriados nacionais desligados
+    expect(getNonWorkingReason("2025-03-19")).toBe("São José");
+    expect(nextWorkingDay("2025-03-19")).toBe("2025-03-21");
+    expect(nextWorkingDay("2025-03-22")).toBe("2025-03-24"); // sábado e domingo
+    expect(getNonWorkingReason("2025-03-22")).toBe("Folga (sábado)");
+  });
+});
+
+describe("normalizeWorkCalendar()", () => {
+  it("✅ deve descartar dias inválidos e semana inteira de folga", () => {
+    expect(normalizeWorkCalendar({ diasFolga: [6, 0, 0, 9] }).diasFolga).toEqual([0, 6]);
+    expect(normalizeWorkCalendar({ diasFolga: [0, 1, 2, 3, 4, 5, 6] }).diasFolga).toEqual([0]);
+    expect(normalizeWorkCalendar(null)).toEqual(DEFAULT_WORK_CALENDAR);
+  });
+});
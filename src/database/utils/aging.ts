@@ -0,0 +1,124 @@
+/**
+ * ⏳ Funções puras para o relatório de inadimplência (aging)
+ * Agrupa o saldo em aberto por faixa de dias de atraso e por bairro/rua
+ * ✅ Soma sempre em centavos e converte para reais só no final
+ */
+
+import { toReais } from "../utils";
+import { diasEntre } from "./lateFees";
+import type { AgingBairro, AgingFaixa, AgingFaixaKey, AgingReport, AgingRua } from "../types";
+
+export const AGING_FAIXAS: { faixa: AgingFaixaKey; ate: number }[] = [
+  { faixa: "0-30", ate: 30 },
+  { faixa: "31-60", ate: 60 },
+  { faixa: "61-90", ate: 90 },
+  { faixa: "90+", ate: Infinity },
+];
+
+/**
+ * 📌 Linha de entrada: cliente pendente com vencimento passado
+ */
+export type AgingRow = {
+  saldo_cents: number;
+  proximaData: string; // yyyy-mm-dd
+  ultimo_pagamento: string | null; // created_at do último pagamento
+  bairro: string;
+  rua: string;
+};
+
+type Acumulador = { totalCents: number; quantidade: number; faixas: { totalCents: number; quantidade: number }[] };
+
+const novoAcumulador = (): Acumulador => ({
+  totalCents: 0,
+  quantidade: 0,
+  faixas: AGING_FAIXAS.map(() => ({ totalCents: 0, quantidade: 0 })),
+});
+
+const somar = (acc: Acumulador, faixa: number, cents: number) => {
+  acc.totalCents += cents;
+  acc.quantidade++;
+  acc.faixas[faixa].totalCents += cents;
+  acc.faixas[faixa].quantidade++;
+};
+
+const toFaixas = (acc: Acumulador): AgingFaixa[] =>
+  acc.faixas.map((f, i) => ({
+    faixa: AGING_FAIXAS[i].faixa,
+    total: toReais(f.totalCents),
+    quantidade: f.quantidade,
+  }));
+
+/**
+ * ✅ Índice da faixa para os dias de atraso (0-30 inclui o primeiro dia)
+ */
+export function getAgingFaixaIndex(dias: number): number {
+  const index = AGING_FAIXAS.findIndex((f) => dias <= f.ate);
+  return index === -1 ? AGING_FAIXAS.length - 1 : index;
+}
+
+/**
+ * ✅ Monta o relatório de aging
+ * - Faixa principal: dias desde o vencimento (proximaData)
+ * - Faixa secundária: dias desde o último pagamento (sem pagamento → desde o vencimento)
+ * @param rows - Clientes em atraso (saldo > 0)
+ * @param dataRef - Data de referência (yyyy-mm-dd)
+ */
+export function montarAgingReport(rows: AgingRow[], dataRef: string): AgingReport {
+  const geral = novoAcumulador();
+  const porPagamento = novoAcumulador();
+  const bairros = new Map<string, { acc: Acumulador; ruas: Map<string, Acumulador> }>();
+
+  for (const row of rows) {
+    const cents = Math.max(0, Math.round(row.saldo_cents || 0));
+    if (cents === 0) continue;
+
+    const diasVencido = Math.max(0, diasEntre(row.proximaData, dataRef));
+    const ultimo = row.ultimo_pagamento ? row.ultimo_pagamento.slice(0, 10) : null;
+    const diasSemPagamento = ultimo ? Math.max(0, diasEntre(ultimo, dataRef)) : diasVencido;
+    const faixa = getAgingFaixaIndex(diasVencido);
+
+    somar(geral, faixa, cents);
+    somar(porPagamento, getAgingFaixaIndex(diasSemPagamento), cents);
+
+    let bairro = bairros.get(row.bairro);
+    if (!bairro) {
+      bairro = { acc: novoAcumulador(), ruas: new Map() };
+      bairros.set(row.bairro, bairro);
+    }
+    let rua = bairro.ruas.get(row.rua);
+    if (!rua) {
+      rua = novoAcumulador();
+      bairro.ruas.set(row.rua, rua);
+    }
+    somar(bairro.acc, faixa, cents);
+    somar(rua, faixa, cents);
+  }
+
+  const porTotal = (a: { total: number }, b: { total: number }) => b.total - a.total;
+
+  const listaBairros: AgingBairro[] = Array.from(bairros.entries())
+    .map(([nome, { acc, ruas }]) => ({
+      bairro: nome,
+      total: toReais(acc.totalCents),
+      quantidade: acc.quantidade,
+      faixas: toFaixas(acc),
+      ruas: Array.from(ruas.entries())
+        .map(([rua, ruaAcc]): AgingRua => ({
+          rua,
+          total: toReais(ruaAcc.totalCents),
+          quantidade: ruaAcc.quantidade,
+          faixas: toFaixas(ruaAcc),
+        }))
+        .sort(porTotal),
+    }))
+    .sort(porTotal);
+
+  return {
+    dataRef,
+    total: toReais(geral.totalCents),
+    quantidade: geral.quantidade,
+    porVencimento: toFaixas(geral),
+    porUltimoPagamento: toFaixas(porPagamento),
+    bairros: listaBairros,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * 🧾 Trilha de auditoria financeira
+ * - Retrato dos campos monetários do cliente (antes/depois) em centavos
+ * - Diferenças campo a campo para exibir no histórico
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import type { AuditAction, AuditSnapshot } from "../types";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  pagamento_registrado: "Pagamento registrado",
+  pagamento_excluido: "Pagamento excluído",
+  pagamento_restaurado: "Pagamento restaurado",
+  cliente_alterado: "Valores alterados",
+  cliente_ausente: "Cliente ausente",
+  cliente_reagendado: "Cobrança reagendada",
+  backup_mesclado: "Backup mesclado",
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  value_cents: "Valor total",
+  paid_cents: "Total pago",
+  status: "Situação",
+  proximaData: "Próxima cobrança",
+  pagamento_cents: "Valor do pagamento",
+  pagamento_metodo: "Forma de pagamento",
+  pagamento_data: "Data do pagamento",
+};
+
+// ✅ Campos guardados em centavos (exibidos como moeda)
+export const AUDIT_MONEY_FIELDS = ["value_cents", "paid_cents", "pagamento_cents"];
+
+export type AuditChange = {
+  campo: string;
+  antes: string | number | null;
+  depois: string | number | null;
+};
+
+/**
+ * ✅ Campos monetários do cliente (linha do banco)
+ */
+export function clientAuditSnapshot(row: {
+  value_cents?: number | null;
+  paid_cents?: number | null;
+  status?: string | null;
+  proximaData?: string | null;
+}): AuditSnapshot {
+  return {
+    value_cents: row.value_cents ?? 0,
+    paid_cents: row.paid_cents ?? 0,
+    status: row.status ?? null,
+    proximaData: row.proximaData ?? null,
+  };
+}
+
+/**
+ * ✅ Campos do pagamento, somados ao retrato do cliente
+ */
+export function paymentAuditSnapshot(row: { value_cents: number; method?: string | null; created_at: string }): AuditSnapshot {
+  return {
+    pagamento_cents: row.value_cents,
+    pagamento_metodo: row.method ?? null,
+    pagamento_data: row.created_at,
+  };
+}
+
+/**
+ * ✅ Campos que mudaram entre os retratos (na ordem em que aparecem)
+ */
+export function diffAuditSnapshots(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditChange[] {
+  const campos = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  return campos
+    .map((campo) => ({ campo, antes: before?.[campo] ?? null, depois: after?.[campo] ?? null }))
+    .filter((change) => change.antes !== change.depois);
+}
+
+/**
+ * ✅ JSON gravado em before_json/after_json (null se vazio ou corrompido)
+ */
+export function parseAuditSnapshot(json: string | null | undefined): AuditSnapshot | null {
+  if (!json) return null;
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
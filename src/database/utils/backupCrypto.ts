@@ -0,0 +1,425 @@
+/**
+ * 🔐 Arquivo de backup protegido (TypeScript puro)
+ * - Chave derivada do PIN com PBKDF2-HMAC-SHA256 (salt aleatório por arquivo)
+ * - Conteúdo comprimido com gzip, cifrado com ChaCha20 (RFC 8439)
+ *   e autenticado com HMAC-SHA256 (cabeçalho + conteúdo cifrado)
+ * - Cabeçalho JSON registra os algoritmos para a restauração
+ *
+ * Formato: "CRDB" | tamanho do cabeçalho (uint32) | cabeçalho JSON | conteúdo cifrado | HMAC (32 bytes)
+ *
+ * ⚠️ A proteção depende do PIN: PINs curtos podem ser descobertos por tentativa.
+ * ✅ Funções puras (sem RNFS) para poder testar
+ */
+
+import { gzip, gunzip } from "./deflate";
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes } from "./ndjson";
+
+// ============================================================================
+// #️⃣ SHA-256 / HMAC / PBKDF2
+// ============================================================================
+
+const SHA256_K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_H0 = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+function sha256Block(state: Int32Array, w: Int32Array, block: Uint8Array, offset: number) {
+  for (let t = 0; t < 16; t++) {
+    const j = offset + t * 4;
+    w[t] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let t = 16; t < 64; t++) {
+    const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+    const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+    w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+
+  for (let t = 0; t < 64; t++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+type Sha256 = {
+  update: (data: Uint8Array) => Sha256;
+  digest: () => Uint8Array;
+  clone: () => Sha256;
+};
+
+/**
+ * ✅ SHA-256 incremental (update/digest); clone reaproveita o estado no PBKDF2
+ */
+function createSha256(
+  state = Int32Array.from(SHA256_H0),
+  buffer = new Uint8Array(64),
+  buffered = 0,
+  total = 0
+): Sha256 {
+  const w = new Int32Array(64);
+
+  const hasher: Sha256 = {
+    update(data) {
+      let i = 0;
+      total += data.length;
+      if (buffered > 0) {
+        const take = Math.min(64 - buffered, data.length);
+        buffer.set(data.subarray(0, take), buffered);
+        buffered += take;
+        i = take;
+        if (buffered < 64) return hasher;
+        sha256Block(state, w, buffer, 0);
+        buffered = 0;
+      }
+      for (; i + 64 <= data.length; i += 64) sha256Block(state, w, data, i);
+      buffer.set(data.subarray(i), 0);
+      buffered = data.length - i;
+      return hasher;
+    },
+    digest() {
+      const bits = total * 8;
+      const padLength = buffered < 56 ? 56 - buffered : 120 - buffered;
+      const padding = new Uint8Array(padLength + 8);
+      padding[0] = 0x80;
+      const view = new DataView(padding.buffer);
+      view.setUint32(padLength, Math.floor(bits / 0x100000000));
+      view.setUint32(padLength + 4, bits >>> 0);
+      hasher.update(padding);
+
+      const out = new Uint8Array(32);
+      const outView = new DataView(out.buffer);
+      for (let i = 0; i < 8; i++) outView.setInt32(i * 4, state[i]);
+      return out;
+    },
+    clone() {
+      return createSha256(Int32Array.from(state), Uint8Array.from(buffer), buffered, total);
+    },
+  };
+  return hasher;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  return createSha256().update(data).digest();
+}
+
+/**
+ * ✅ HMAC-SHA256 com os hashes internos/externos já iniciados com a chave
+ */
+function createHmac(key: Uint8Array) {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+
+  const inner = createSha256().update(block.map((b) => b ^ 0x36));
+  const outer = createSha256().update(block.map((b) => b ^ 0x5c));
+
+  return (...parts: Uint8Array[]) => {
+    const h = inner.clone();
+    for (const part of parts) h.update(part);
+    return outer.clone().update(h.digest()).digest();
+  };
+}
+
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return createHmac(key)(data);
+}
+
+/**
+ * ✅ PBKDF2-HMAC-SHA256 (RFC 8018)
+ */
+export function pbkdf2Sha256(password: Uint8Array, salt: Uint8Array, iterations: number, length = 32): Uint8Array {
+  const hmac = createHmac(password);
+  const out = new Uint8Array(length);
+
+  for (let blockIndex = 1, pos = 0; pos < length; blockIndex++, pos += 32) {
+    const counter = new Uint8Array([blockIndex >>> 24, (blockIndex >>> 16) & 0xff, (blockIndex >>> 8) & 0xff, blockIndex & 0xff]);
+    let u = hmac(salt, counter);
+    const t = Uint8Array.from(u);
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(u);
+      for (let k = 0; k < 32; k++) t[k] ^= u[k];
+    }
+    out.set(t.subarray(0, Math.min(32, length - pos)), pos);
+  }
+  return out;
+}
+
+// ============================================================================
+// 🔑 CHACHA20
+// ============================================================================
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+
+/**
+ * ✅ Cifra/decifra com ChaCha20 (mesma operação nos dois sentidos)
+ * @param key - 32 bytes
+ * @param nonce - 12 bytes
+ * @param counter - Contador inicial do bloco (RFC 8439 usa 1 para dados)
+ */
+export function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter = 1): Uint8Array {
+  if (key.length !== 32 || nonce.length !== 12) {
+    throw new Error("ChaCha20: chave de 32 bytes e nonce de 12 bytes obrigatórios.");
+  }
+
+  const input = new Int32Array(16);
+  input[0] = 0x61707865;
+  input[1] = 0x3320646e;
+  input[2] = 0x79622d32;
+  input[3] = 0x6b206574;
+  for (let i = 0; i < 8; i++) input[4 + i] = readUint32LE(key, i * 4);
+  input[12] = counter;
+  for (let i = 0; i < 3; i++) input[13 + i] = readUint32LE(nonce, i * 4);
+
+  const x = new Int32Array(16);
+  const keystream = new Uint8Array(64);
+  const out = new Uint8Array(data.length);
+
+  const quarter = (a: number, b: number, c: number, d: number) => {
+    x[a] = (x[a] + x[b]) | 0; x[d] ^= x[a]; x[d] = (x[d] << 16) | (x[d] >>> 16);
+    x[c] = (x[c] + x[d]) | 0; x[b] ^= x[c]; x[b] = (x[b] << 12) | (x[b] >>> 20);
+    x[a] = (x[a] + x[b]) | 0; x[d] ^= x[a]; x[d] = (x[d] << 8) | (x[d] >>> 24);
+    x[c] = (x[c] + x[d]) | 0; x[b] ^= x[c]; x[b] = (x[b] << 7) | (x[b] >>> 25);
+  };
+
+  for (let pos = 0; pos < data.length; pos += 64) {
+    x.set(input);
+    for (let round = 0; round < 10; round++) {
+      quarter(0, 4, 8, 12);
+      quarter(1, 5, 9, 13);
+      quarter(2, 6, 10, 14);
+      quarter(3, 7, 11, 15);
+      quarter(0, 5, 10, 15);
+      quarter(1, 6, 11, 12);
+      quarter(2, 7, 8, 13);
+      quarter(3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) {
+      const v = (x[i] + input[i]) | 0;
+      keystream[i * 4] = v & 0xff;
+      keystream[i * 4 + 1] = (v >>> 8) & 0xff;
+      keystream[i * 4 + 2] = (v >>> 16) & 0xff;
+      keystream[i * 4 + 3] = (v >>> 24) & 0xff;
+    }
+
+    const end = Math.min(64, data.length - pos);
+    for (let i = 0; i < end; i++) out[pos + i] = data[pos + i] ^ keystream[i];
+    input[12] = (input[12] + 1) | 0;
+  }
+  return out;
+}
+
+// ============================================================================
+// 📦 ARQUIVO PROTEGIDO
+// ============================================================================
+
+export type BackupConteudo = "sqlite" | "ndjson" | "json";
+
+export type SealedBackupHeader = {
+  formato: "crediario-backup";
+  versao: 1;
+  conteudo: BackupConteudo;
+  compressao: "gzip";
+  cifra: "chacha20";
+  autenticacao: "hmac-sha256";
+  kdf: "pbkdf2-sha256";
+  iteracoes: number;
+  salt: string; // base64
+  nonce: string; // base64
+  criadoEm: number;
+};
+
+/**
+ * ✅ PIN incorreto, ausente ou arquivo adulterado (falha na verificação)
+ */
+export class BackupPinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupPinError";
+  }
+}
+
+export const SEALED_BACKUP_EXTENSION = ".crdb";
+export const MIN_BACKUP_PIN_LENGTH = 6;
+export const DEFAULT_PBKDF2_ITERATIONS = 50000;
+// ⚠️ Limite ao abrir: cabeçalho adulterado com milhões de iterações travaria o app
+export const MAX_PBKDF2_ITERATIONS = 1000000;
+
+const MAGIC = utf8Encode("CRDB");
+const TAG_LENGTH = 32;
+const CONTEUDOS: BackupConteudo[] = ["sqlite", "ndjson", "json"];
+
+/**
+ * ✅ Arquivo começa com a assinatura "CRDB"
+ */
+export const isSealedBackup = (bytes: Uint8Array) => MAGIC.every((b, i) => bytes[i] === b);
+
+/**
+ * ✅ Valida o PIN antes de salvar (mensagem de erro ou null)
+ */
+export function validateBackupPin(pin: string): string | null {
+  if (pin.trim().length < MIN_BACKUP_PIN_LENGTH) {
+    return `O PIN do backup precisa ter pelo menos ${MIN_BACKUP_PIN_LENGTH} caracteres.`;
+  }
+  return null;
+}
+
+/**
+ * ✅ Bytes aleatórios para salt e nonce (gerador criptográfico)
+ * No app o crypto.getRandomValues vem do react-native-get-random-values (index.js)
+ * @throws Error se o runtime não tiver gerador criptográfico (nunca cai no Math.random)
+ */
+function randomBytes(length: number): Uint8Array {
+  const webCrypto = (globalThis as any).crypto;
+  if (typeof webCrypto?.getRandomValues !== "function") {
+    throw new Error("Gerador de números aleatórios seguro indisponível: não é possível proteger o backup.");
+  }
+  const bytes = new Uint8Array(length);
+  webCrypto.getRandomValues(bytes);
+  return bytes;
+}
+
+function deriveKeys(pin: string, salt: Uint8Array, iteracoes: number) {
+  const master = pbkdf2Sha256(utf8Encode(pin), salt, iteracoes);
+  return {
+    cifra: hmacSha256(master, utf8Encode("crediario-backup/cifra")),
+    mac: hmacSha256(master, utf8Encode("crediario-backup/mac")),
+  };
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/**
+ * ✅ Lê e valida o cabeçalho (algoritmos suportados) sem precisar do PIN
+ */
+export function readSealedBackupHeader(bytes: Uint8Array): { header: SealedBackupHeader; headerEnd: number } {
+  if (!isSealedBackup(bytes) || bytes.length < 8 + TAG_LENGTH) {
+    throw new Error("Arquivo não é um backup protegido do Crediário.");
+  }
+
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(4);
+  const headerEnd = 8 + headerLength;
+  if (headerEnd > bytes.length - TAG_LENGTH) {
+    throw new Error("Backup protegido corrompido: cabeçalho incompleto.");
+  }
+
+  let header: SealedBackupHeader;
+  try {
+    header = JSON.parse(utf8Decode(bytes.subarray(8, headerEnd)));
+  } catch {
+    throw new Error("Backup protegido corrompido: cabeçalho ilegível.");
+  }
+
+  if (
+    header?.formato !== "crediario-backup" ||
+    header.versao !== 1 ||
+    header.compressao !== "gzip" ||
+    header.cifra !== "chacha20" ||
+    header.autenticacao !== "hmac-sha256" ||
+    header.kdf !== "pbkdf2-sha256" ||
+    !CONTEUDOS.includes(header.conteudo) ||
+    !Number.isInteger(header.iteracoes) ||
+    header.iteracoes < 1 ||
+    header.iteracoes > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new Error("Backup protegido em formato ou algoritmo não suportado.");
+  }
+  return { header, headerEnd };
+}
+
+/**
+ * ✅ Comprime (gzip), cifra e autentica o conteúdo de um backup
+ * @param data - Conteúdo original (banco SQLite, NDJSON ou JSON)
+ * @param pin - PIN do usuário (chave derivada com PBKDF2)
+ */
+export function sealBackup(
+  data: Uint8Array,
+  pin: string,
+  conteudo: BackupConteudo,
+  iteracoes = DEFAULT_PBKDF2_ITERATIONS
+): Uint8Array {
+  const pinError = validateBackupPin(pin);
+  if (pinError) throw new BackupPinError(pinError);
+
+  const salt = randomBytes(16);
+  const nonce = randomBytes(12);
+  const header: SealedBackupHeader = {
+    formato: "crediario-backup",
+    versao: 1,
+    conteudo,
+    compressao: "gzip",
+    cifra: "chacha20",
+    autenticacao: "hmac-sha256",
+    kdf: "pbkdf2-sha256",
+    iteracoes,
+    salt: bytesToBase64(salt),
+    nonce: bytesToBase64(nonce),
+    criadoEm: Date.now(),
+  };
+
+  const keys = deriveKeys(pin, salt, iteracoes);
+  const headerBytes = utf8Encode(JSON.stringify(header));
+  const cipher = chacha20(keys.cifra, nonce, gzip(data));
+
+  const out = new Uint8Array(8 + headerBytes.length + cipher.length + TAG_LENGTH);
+  out.set(MAGIC, 0);
+  new DataView(out.buffer).setUint32(4, headerBytes.length);
+  out.set(headerBytes, 8);
+  out.set(cipher, 8 + headerBytes.length);
+
+  const tagOffset = out.length - TAG_LENGTH;
+  out.set(hmacSha256(keys.mac, out.subarray(0, tagOffset)), tagOffset);
+  return out;
+}
+
+/**
+ * ✅ Verifica a integridade (HMAC), decifra e descomprime
+ * @throws BackupPinError se o PIN estiver errado ou o arquivo foi alterado
+ */
+export function openSealedBackup(bytes: Uint8Array, pin: string): { header: SealedBackupHeader; data: Uint8Array } {
+  const { header, headerEnd } = readSealedBackupHeader(bytes);
+  if (!pin) throw new BackupPinError("Informe o PIN do backup.");
+
+  const keys = deriveKeys(pin, base64ToBytes(header.salt), header.iteracoes);
+  const tagOffset = bytes.length - TAG_LENGTH;
+  const tag = hmacSha256(keys.mac, bytes.subarray(0, tagOffset));
+  if (!sameBytes(tag, bytes.subarray(tagOffset))) {
+    throw new BackupPinError("PIN incorreto ou arquivo de backup alterado.");
+  }
+
+  const compressed = chacha20(keys.cifra, base64ToBytes(header.nonce), bytes.subarray(headerEnd, tagOffset));
+  return { header, data: gunzip(compressed) };
+}
@@ -0,0 +1,363 @@
+/**
+ * 🧩 Registros de backup NDJSON: normalização e planejamento do restore por mesclagem
+ * - normalizeBackupRecord: aceita linhas no formato do banco (centavos) ou da API (reais)
+ * - planBackupMerge: compara backup x dados atuais e monta o plano (novos / alterados / conflitos)
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import { toCentavos } from "../utils";
+import { sameFieldValue, CLIENT_SYNC_FIELD_LABELS } from "./conflictResolution";
+import { normalizeCadencia } from "./cadence";
+
+export type BackupRecordType =
+  | "bairros"
+  | "ruas"
+  | "clients"
+  | "client_field_versions"
+  | "sales"
+  | "installments"
+  | "payments"
+  | "payment_allocations"
+  | "late_fee_waivers"
+  | "logs";
+
+export type BackupRecord = Record<string, any>;
+
+// ✅ Colunas de cada tabela presentes no backup
+export const BACKUP_COLUMNS: Record<BackupRecordType, string[]> = {
+  bairros: ["id", "sync_id", "nome", "ordemRota"],
+  ruas: ["id", "sync_id", "nome", "bairroId", "ordemRota"],
+  clients: [
+    "id", "sync_id", "name", "value_cents", "numero", "referencia", "telefone", "paid_cents", "ruaId",
+    "ordemVisita", "prioritario", "observacoes", "status", "proximaData", "created_at", "updated_at", "ultimaVisita",
+    "deleted_at", "cadencia", "cadencia_dia",
+  ],
+  client_field_versions: ["client_id", "field", "updated_at"],
+  sales: [
+    "id", "client_id", "descricao", "value_cents", "paid_cents", "installments_count", "status", "created_at", "updated_at",
+  ],
+  installments: ["id", "sale_id", "numero", "due_date", "value_cents", "paid_cents", "status", "paid_at"],
+  payments: ["id", "sync_id", "client_id", "created_at", "registered_at", "value_cents", "method", "deleted_at"],
+  payment_allocations: ["id", "payment_id", "installment_id", "value_cents"],
+  late_fee_waivers: ["id", "client_id", "vencimento", "valor_cents", "motivo", "created_at"],
+  logs: ["id", "sync_id", "clientId", "created_at", "descricao"],
+};
+
+const centsOf = (cents: any, reais: any): number =>
+  Number.isFinite(cents) ? Math.round(cents) : toCentavos(Number(reais) || 0);
+
+/**
+ * ✅ Converte um registro do backup (formato do banco ou da API) nas colunas da tabela
+ * @param agora - Data usada quando created_at/updated_at não vieram no backup
+ */
+export function normalizeBackupRecord(type: BackupRecordType, row: any, agora: string): BackupRecord {
+  switch (type) {
+    case "bairros":
+      return { id: row.id, sync_id: row.sync_id ?? null, nome: row.nome, ordemRota: row.ordemRota ?? null };
+    case "ruas":
+      return {
+        id: row.id,
+        sync_id: row.sync_id ?? null,
+        nome: row.nome,
+        bairroId: row.bairroId,
+        ordemRota: row.ordemRota ?? null,
+      };
+    case "clients": {
+      const value = Math.max(0, centsOf(row.value_cents, row.value));
+      const paid = Math.min(value, Math.max(0, centsOf(row.paid_cents, row.paid)));
+      const { cadencia, cadenciaDia } = normalizeCadencia(row.cadencia, row.cadencia_dia ?? row.cadenciaDia);
+      return {
+        id: row.id,
+        sync_id: row.sync_id ?? null,
+        name: row.name,
+        value_cents: value,
+        numero: row.numero ?? null,
+        referencia: row.referencia ?? null,
+        telefone: row.telefone ?? null,
+        paid_cents: paid,
+        ruaId: row.ruaId ?? null,
+        ordemVisita: row.ordemVisita > 0 ? row.ordemVisita : 1,
+        prioritario: row.prioritario ? 1 : 0,
+        observacoes: row.observacoes ?? null,
+        status: row.status === "quitado" || (value > 0 && paid >= value) ? "quitado" : "pendente",
+        proximaData: row.proximaData ?? row.next_charge ?? null,
+        created_at: row.created_at ?? agora,
+        updated_at: row.updated_at ?? agora,
+        ultimaVisita: row.ultimaVisita ?? null,
+        deleted_at: row.deleted_at ?? null,
+        cadencia,
+        cadencia_dia: cadenciaDia,
+      };
+    }
+    case "client_field_versions":
+    case "sales":
+    case "installments":
+    case "payment_allocations":
+    case "late_fee_waivers":
+      // ✅ Só existem no formato do banco: copia as colunas
+      return Object.fromEntries(BACKUP_COLUMNS[type].map((column) => [column, row[column] ?? null]));
+    case "payments":
+      return {
+        id: row.id,
+        sync_id: row.sync_id ?? null,
+        client_id: row.client_id ?? row.clientId,
+        created_at: row.created_at,
+        registered_at: row.registered_at ?? null,
+        value_cents: centsOf(row.value_cents, row.valor),
+        method: row.method ?? row.metodo ?? "dinheiro",
+        deleted_at: row.deleted_at ?? null,
+      };
+    case "logs":
+      return {
+        id: row.id,
+        sync_id: row.sync_id ?? null,
+        clientId: row.clientId ?? row.client_id,
+        created_at: row.created_at,
+        descricao: row.descricao,
+      };
+  }
+}
+
+// ============================================================================
+// 🔀 MESCLAGEM
+// ============================================================================
+
+// 📌 Todas as tabelas do backup entram na mesclagem
+export type MergeRecordType = BackupRecordType;
+
+export const MERGE_RECORD_TYPES: MergeRecordType[] = [
+  "bairros",
+  "ruas",
+  "clients",
+  "client_field_versions",
+  "sales",
+  "installments",
+  "payments",
+  "payment_allocations",
+  "late_fee_waivers",
+  "logs",
+];
+
+export type BackupData = Record<MergeRecordType, BackupRecord[]>;
+
+/**
+ * ✅ Campos do cliente comparados na mesclagem (colunas do banco)
+ * paid/status ficam de fora: são ajustados pelos pagamentos mesclados
+ */
+export const MERGE_CLIENT_FIELDS = [
+  "name",
+  "value_cents",
+  "numero",
+  "referencia",
+  "telefone",
+  "observacoes",
+  "ruaId",
+  "ordemVisita",
+  "prioritario",
+  "proximaData",
+  "cadencia",
+  "cadencia_dia",
+] as const;
+
+export type MergeClientField = (typeof MERGE_CLIENT_FIELDS)[number];
+
+export const MERGE_CLIENT_FIELD_LABELS: Record<MergeClientField, string> = {
+  ...CLIENT_SYNC_FIELD_LABELS,
+  value_cents: CLIENT_SYNC_FIELD_LABELS.value,
+  cadencia_dia: CLIENT_SYNC_FIELD_LABELS.cadenciaDia,
+};
+
+export type ClientMergeChange = {
+  localId: number;
+  backup: BackupRecord;
+  campos: MergeClientField[];
+};
+
+export type MergePlan = {
+  bairros: { novos: BackupRecord[]; ids: Map<number, number> }; // ids: backup → local
+  ruas: { novos: BackupRecord[]; ids: Map<number, number> };
+  clients: {
+    novos: BackupRecord[];
+    alterados: ClientMergeChange[]; // Backup mais novo: aplica os campos do backup
+    conflitos: ClientMergeChange[]; // Dados atuais mais novos: mantém os atuais
+    iguais: number;
+    ids: Map<number, number>;
+  };
+  client_field_versions: { novos: BackupRecord[] }; // Só dos clientes novos (alterados: gatilho da V10)
+  sales: { novos: BackupRecord[]; existentes: number }; // Cliente que já existe mantém os contratos atuais
+  installments: { novos: BackupRecord[]; existentes: number };
+  payments: { novos: BackupRecord[]; duplicados: number };
+  payment_allocations: { novos: BackupRecord[] }; // Parcela e pagamento novos
+  late_fee_waivers: { novos: BackupRecord[]; duplicados: number };
+  logs: { novos: BackupRecord[]; duplicados: number };
+};
+
+const normalizeText = (value: any) =>
+  String(value ?? "")
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+/**
+ * ✅ Chave estável do cliente sem sync_id: nome + telefone (só dígitos)
+ */
+export const clientNaturalKey = (client: BackupRecord) =>
+  `${normalizeText(client.name)}|${String(client.telefone ?? "").replace(/\D/g, "")}`;
+
+const paymentKey = (clientKey: string, payment: BackupRecord) =>
+  `${clientKey}|${String(payment.created_at ?? "").slice(0, 10)}|${payment.value_cents}`;
+
+const logKey = (clientKey: string, log: BackupRecord) => `${clientKey}|${log.created_at}|${log.descricao}`;
+
+const waiverKey = (clientKey: string, waiver: BackupRecord) => `${clientKey}|${waiver.vencimento}`;
+
+/**
+ * ✅ Monta o plano de mesclagem do backup com os dados atuais
+ * - Bairros por nome, ruas por nome dentro do bairro
+ * - Clientes por sync_id (quando os dois têm) ou nome + telefone
+ * - Cliente com campos diferentes: vence o updated_at mais novo
+ * - Vendas, parcelas e versões de campos: só dos clientes novos (os que já existem mantêm os contratos atuais)
+ * - Pagamentos duplicados: mesmo sync_id ou mesmo cliente + dia + valor
+ * - Abatimentos: só de parcela nova com pagamento novo
+ * - Dispensas de encargos duplicadas: mesmo cliente + vencimento
+ * - Logs duplicados: mesmo sync_id ou mesmo cliente + data + descrição
+ */
+export function planBackupMerge(local: BackupData, backup: BackupData): MergePlan {
+  const plan: MergePlan = {
+    bairros: { novos: [], ids: new Map() },
+    ruas: { novos: [], ids: new Map() },
+    clients: { novos: [], alterados: [], conflitos: [], iguais: 0, ids: new Map() },
+    client_field_versions: { novos: [] },
+    sales: { novos: [], existentes: 0 },
+    installments: { novos: [], existentes: 0 },
+    payments: { novos: [], duplicados: 0 },
+    payment_allocations: { novos: [] },
+    late_fee_waivers: { novos: [], duplicados: 0 },
+    logs: { novos: [], duplicados: 0 },
+  };
+
+  // 🏘️ Bairros
+  const bairrosPorNome = new Map(local.bairros.map((b) => [normalizeText(b.nome), b.id as number]));
+  for (const bairro of backup.bairros) {
+    const localId = bairrosPorNome.get(normalizeText(bairro.nome));
+    if (localId !== undefined) plan.bairros.ids.set(bairro.id, localId);
+    else plan.bairros.novos.push(bairro);
+  }
+
+  // 🛣️ Ruas (bairro novo → rua nova)
+  const ruasPorChave = new Map(local.ruas.map((r) => [`${r.bairroId}|${normalizeText(r.nome)}`, r.id as number]));
+  for (const rua of backup.ruas) {
+    const bairroLocal = plan.bairros.ids.get(rua.bairroId);
+    const localId = bairroLocal !== undefined ? ruasPorChave.get(`${bairroLocal}|${normalizeText(rua.nome)}`) : undefined;
+    if (localId !== undefined) plan.ruas.ids.set(rua.id, localId);
+    else plan.ruas.novos.push(rua);
+  }
+
+  // 👤 Clientes
+  const clientesPorSyncId = new Map<string, BackupRecord>();
+  const clientesPorChave = new Map<string, BackupRecord>();
+  for (const client of local.clients) {
+    if (client.sync_id) clientesPorSyncId.set(client.sync_id, client);
+    clientesPorChave.set(clientNaturalKey(client), client);
+  }
+
+  for (const client of backup.clients) {
+    const atual =
+      (client.sync_id && clientesPorSyncId.get(client.sync_id)) || clientesPorChave.get(clientNaturalKey(client));
+    if (!atual) {
+      plan.clients.novos.push(client);
+      continue;
+    }
+
+    plan.clients.ids.set(client.id, atual.id);
+    const ruaBackup = client.ruaId == null ? null : plan.ruas.ids.get(client.ruaId) ?? `nova:${client.ruaId}`;
+    const campos = MERGE_CLIENT_FIELDS.filter((campo) =>
+      campo === "ruaId" ? !sameFieldValue(atual.ruaId, ruaBackup) : !sameFieldValue(atual[campo], client[campo])
+    );
+
+    if (campos.length === 0) {
+      plan.clients.iguais++;
+    } else if (String(client.updated_at ?? "") > String(atual.updated_at ?? "")) {
+      plan.clients.alterados.push({ localId: atual.id, backup: client, campos });
+    } else {
+      plan.clients.conflitos.push({ localId: atual.id, backup: client, campos });
+    }
+  }
+
+  // 📌 Chave do cliente para deduplicar: id local (existente) ou id do backup (novo)
+  const clientKeyOf = (backupClientId: number) => {
+    const localId = plan.clients.ids.get(backupClientId);
+    return localId !== undefined ? `local:${localId}` : `backup:${backupClientId}`;
+  };
+
+  // 🧾 Versões de campos e vendas a prazo: cliente existente fica com as daqui
+  const clienteNovo = (backupClientId: number) => !plan.clients.ids.has(backupClientId);
+  plan.client_field_versions.novos = backup.client_field_versions.filter((v) => clienteNovo(v.client_id));
+
+  const vendasNovas = new Set<number>();
+  for (const sale of backup.sales) {
+    if (!clienteNovo(sale.client_id)) {
+      plan.sales.existentes++;
+      continue;
+    }
+    vendasNovas.add(sale.id);
+    plan.sales.novos.push(sale);
+  }
+
+  const parcelasNovas = new Set<number>();
+  for (const installment of backup.installments) {
+    if (!vendasNovas.has(installment.sale_id)) {
+      plan.installments.existentes++;
+      continue;
+    }
+    parcelasNovas.add(installment.id);
+    plan.installments.novos.push(installment);
+  }
+
+  // 💰 Pagamentos
+  const pagamentosSyncIds = new Set(local.payments.map((p) => p.sync_id).filter(Boolean));
+  const pagamentosChaves = new Set(local.payments.map((p) => paymentKey(`local:${p.client_id}`, p)));
+  for (const payment of backup.payments) {
+    const chave = paymentKey(clientKeyOf(payment.client_id), payment);
+    if ((payment.sync_id && pagamentosSyncIds.has(payment.sync_id)) || pagamentosChaves.has(chave)) {
+      plan.payments.duplicados++;
+      continue;
+    }
+    pagamentosChaves.add(chave);
+    plan.payments.novos.push(payment);
+  }
+
+  const pagamentosNovos = new Set(plan.payments.novos.map((p) => p.id));
+  plan.payment_allocations.novos = backup.payment_allocations.filter(
+    (a) => parcelasNovas.has(a.installment_id) && pagamentosNovos.has(a.payment_id)
+  );
+
+  // 🤝 Dispensas de encargos (uma por vencimento)
+  const dispensasChaves = new Set(local.late_fee_waivers.map((w) => waiverKey(`local:${w.client_id}`, w)));
+  for (const waiver of backup.late_fee_waivers) {
+    const chave = waiverKey(clientKeyOf(waiver.client_id), waiver);
+    if (dispensasChaves.has(chave)) {
+      plan.late_fee_waivers.duplicados++;
+      continue;
+    }
+    dispensasChaves.add(chave);
+    plan.late_fee_waivers.novos.push(waiver);
+  }
+
+  // 📜 Logs
+  const logsSyncIds = new Set(local.logs.map((l) => l.sync_id).filter(Boolean));
+  const logsChaves = new Set(local.logs.map((l) => logKey(`local:${l.clientId}`, l)));
+  for (const log of backup.logs) {
+    const chave = logKey(clientKeyOf(log.clientId), log);
+    if ((log.sync_id && logsSyncIds.has(log.sync_id)) || logsChaves.has(chave)) {
+      plan.logs.duplicados++;
+      continue;
+    }
+    logsChaves.add(chave);
+    plan.logs.novos.push(log);
+  }
+
+  return plan;
+}
@@ -0,0 +1,136 @@
+/**
+ * 🩺 Verificação de backup: totais do backup e comparação com o cabeçalho
+ * - computeBackupTotals: somas gravadas no cabeçalho do NDJSON
+ * - compareBackupCounts / compareBackupTotals: viram itens do relatório
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import { toReais } from "../utils";
+import type { BackupRecord } from "./backupRecords";
+
+export type BackupCounts = {
+  clientCount: number;
+  paymentCount: number;
+  logCount: number;
+  bairroCount: number;
+  ruaCount: number;
+  fieldVersionCount: number;
+  saleCount: number;
+  installmentCount: number;
+  allocationCount: number;
+  waiverCount: number;
+};
+
+// ✅ Somas em centavos (clientes: valor e pago; pagamentos: valor)
+export type BackupTotals = {
+  valueCents: number;
+  paidCents: number;
+  paymentCents: number;
+};
+
+export type VerificationStatus = "ok" | "aviso" | "erro";
+
+export type VerificationItem = {
+  titulo: string;
+  status: VerificationStatus;
+  detalhe: string;
+};
+
+export type BackupVerificationReport = {
+  conteudo: "sqlite" | "ndjson";
+  aprovado: boolean;
+  itens: VerificationItem[];
+  contagens: BackupCounts;
+  totais: BackupTotals;
+};
+
+const COUNT_LABELS: Record<keyof BackupCounts, string> = {
+  clientCount: "clientes",
+  paymentCount: "pagamentos",
+  logCount: "logs",
+  bairroCount: "bairros",
+  ruaCount: "ruas",
+  fieldVersionCount: "versões de campos",
+  saleCount: "vendas a prazo",
+  installmentCount: "parcelas",
+  allocationCount: "abatimentos de parcelas",
+  waiverCount: "encargos dispensados",
+};
+
+const TOTAL_LABELS: Record<keyof BackupTotals, string> = {
+  valueCents: "valor dos clientes",
+  paidCents: "pago pelos clientes",
+  paymentCents: "pagamentos",
+};
+
+const reais = (cents: number) => `R$ ${toReais(cents).toFixed(2).replace(".", ",")}`;
+
+/**
+ * ✅ Soma valores dos clientes e pagamentos (registros já normalizados em centavos)
+ */
+export function computeBackupTotals(clients: BackupRecord[], payments: BackupRecord[]): BackupTotals {
+  const sum = (rows: BackupRecord[], column: string) =>
+    rows.reduce((total, row) => total + (Number(row[column]) || 0), 0);
+  return {
+    valueCents: sum(clients, "value_cents"),
+    paidCents: sum(clients, "paid_cents"),
+    paymentCents: sum(payments, "value_cents"),
+  };
+}
+
+/**
+ * ✅ Contagens do banco temporário x cabeçalho do backup
+ * Sem cabeçalho (cópia do banco .db) só informa as contagens
+ */
+export function compareBackupCounts(esperado: BackupCounts | null, encontrado: BackupCounts): VerificationItem {
+  const keys = Object.keys(COUNT_LABELS) as (keyof BackupCounts)[];
+  const resumo = keys.map((key) => `${encontrado[key]} ${COUNT_LABELS[key]}`).join(", ");
+  if (!esperado) {
+    return { titulo: "Contagens", status: "ok", detalhe: resumo };
+  }
+
+  const divergentes = keys.filter((key) => esperado[key] !== encontrado[key]);
+  if (divergentes.length === 0) {
+    return { titulo: "Contagens", status: "ok", detalhe: `Conferem com o cabeçalho: ${resumo}` };
+  }
+  return {
+    titulo: "Contagens",
+    status: "erro",
+    detalhe: divergentes
+      .map((key) => `${COUNT_LABELS[key]}: cabeçalho ${esperado[key]}, banco ${encontrado[key]}`)
+      .join("; "),
+  };
+}
+
+/**
+ * ✅ Somas (value_cents, paid_cents) do banco temporário x cabeçalho do backup
+ * Backups antigos (sem totais no cabeçalho) viram aviso
+ */
+export function compareBackupTotals(
+  esperado: BackupTotals | null | undefined,
+  encontrado: BackupTotals
+): VerificationItem {
+  const keys = Object.keys(TOTAL_LABELS) as (keyof BackupTotals)[];
+  const resumo = keys.map((key) => `${TOTAL_LABELS[key]} ${reais(encontrado[key])}`).join(", ");
+  if (!esperado) {
+    return { titulo: "Somas", status: "aviso", detalhe: `Backup sem totais no cabeçalho. Encontrado: ${resumo}` };
+  }
+
+  const divergentes = keys.filter((key) => esperado[key] !== encontrado[key]);
+  if (divergentes.length === 0) {
+    return { titulo: "Somas", status: "ok", detalhe: `Conferem com o cabeçalho: ${resumo}` };
+  }
+  return {
+    titulo: "Somas",
+    status: "erro",
+    detalhe: divergentes
+      .map((key) => `${TOTAL_LABELS[key]}: cabeçalho ${reais(esperado[key])}, banco ${reais(encontrado[key])}`)
+      .join("; "),
+  };
+}
+
+/**
+ * ✅ Aprovado = nenhum item com erro (avisos não reprovam)
+ */
+export const isVerificationApproved = (itens: VerificationItem[]): boolean =>
+  itens.every((item) => item.status !== "erro");
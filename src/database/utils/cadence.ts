@@ -0,0 +1,103 @@
+/**
+ * 🔁 Cadência de cobrança do cliente
+ * - semanal / quinzenal / mensal (opcionalmente num dia da semana fixo)
+ * - dia fixo do mês (ex.: todo dia 10)
+ * Calcula a próxima cobrança quando o pagamento parcial ou a ausência
+ * chegam sem data informada
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import type { Cadencia } from "../types";
+import { addDaysISO } from "./civilDate";
+
+export const CADENCIAS: { key: Cadencia; label: string }[] = [
+  { key: "semanal", label: "Semanal" },
+  { key: "quinzenal", label: "Quinzenal" },
+  { key: "mensal", label: "Mensal" },
+  { key: "dia_fixo", label: "Dia fixo do mês" },
+];
+
+// ✅ Índice = getUTCDay() (0 = domingo)
+export const DIAS_SEMANA = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"] as const;
+
+const INTERVALO_DIAS: Record<Exclude<Cadencia, "mensal" | "dia_fixo">, number> = {
+  semanal: 7,
+  quinzenal: 14,
+};
+
+export const isCadencia = (value: unknown): value is Cadencia =>
+  CADENCIAS.some((item) => item.key === value);
+
+/**
+ * ✅ Cadência e dia coerentes (dia da semana 0-6 ou dia do mês 1-31)
+ * Cadência inválida vira null; dia fora da faixa vira null
+ */
+export function normalizeCadencia(
+  cadencia: unknown,
+  dia: unknown
+): { cadencia: Cadencia | null; cadenciaDia: number | null } {
+  if (!isCadencia(cadencia)) return { cadencia: null, cadenciaDia: null };
+  const numero = dia === null || dia === undefined || dia === "" ? NaN : Number(dia);
+  const [min, max] = cadencia === "dia_fixo" ? [1, 31] : [0, 6];
+  return {
+    cadencia,
+    cadenciaDia: Number.isInteger(numero) && numero >= min && numero <= max ? numero : null,
+  };
+}
+
+const splitISO = (iso: string) => iso.slice(0, 10).split("-").map(Number) as [number, number, number];
+
+const fromUTC = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d)).toISOString().slice(0, 10);
+
+const weekdayOf = (iso: string): number => {
+  const [y, m, d] = splitISO(iso);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+const lastDayOfMonth = (y: number, m: number): number => new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+// ✅ Mesmo dia do mês seguinte, limitado ao último dia (31/01 → 28/02)
+const addOneMonth = (iso: string): string => {
+  const [y, m, d] = splitISO(iso);
+  return fromUTC(y, m + 1, Math.min(d, lastDayOfMonth(y, m + 1)));
+};
+
+// ✅ Ocorrência mais próxima do dia da semana (até 3 dias antes ou depois)
+const nearestWeekday = (iso: string, weekday: number): string => {
+  let delta = (weekday - weekdayOf(iso) + 7) % 7;
+  if (delta > 3) delta -= 7;
+  return addDaysISO(iso, delta);
+};
+
+/**
+ * ✅ Próxima cobrança a partir da data base (dia do pagamento ou da visita)
+ * - semanal/quinzenal/mensal: base + intervalo, ajustado para o dia da semana fixo
+ * - dia_fixo: próximo dia N depois da base (meses curtos usam o último dia)
+ * Sempre posterior à base; null sem cadência
+ */
+export function nextChargeDate(cadencia: string | null | undefined, dia: number | null | undefined, baseISO: string): string | null {
+  const { cadencia: tipo, cadenciaDia } = normalizeCadencia(cadencia, dia);
+  if (!tipo) return null;
+
+  if (tipo === "dia_fixo") {
+    const [y, m, d] = splitISO(baseISO);
+    const alvo = cadenciaDia ?? d;
+    const nesteMes = Math.min(alvo, lastDayOfMonth(y, m));
+    if (nesteMes > d) return fromUTC(y, m, nesteMes);
+    return fromUTC(y, m + 1, Math.min(alvo, lastDayOfMonth(y, m + 1)));
+  }
+
+  const alvo = tipo === "mensal" ? addOneMonth(baseISO) : addDaysISO(baseISO, INTERVALO_DIAS[tipo]);
+  return cadenciaDia === null ? alvo : nearestWeekday(alvo, cadenciaDia);
+}
+
+/**
+ * ✅ Texto curto para a UI: "Semanal (terça)", "Todo dia 10"
+ */
+export function describeCadencia(cadencia: string | null | undefined, dia: number | null | undefined): string {
+  const { cadencia: tipo, cadenciaDia } = normalizeCadencia(cadencia, dia);
+  if (!tipo) return "Sem cadência";
+  if (tipo === "dia_fixo") return cadenciaDia ? `Todo dia ${cadenciaDia}` : "Dia fixo do mês";
+  const label = CADENCIAS.find((item) => item.key === tipo)!.label;
+  return cadenciaDia === null ? label : `${label} (${DIAS_SEMANA[cadenciaDia].toLowerCase()})`;
+}
@@ -0,0 +1,148 @@
+/**
+ * 📅 Datas civis no fuso do negócio (padrão: America/Sao_Paulo)
+ * - "Hoje" e o horário gravado seguem o relógio de parede do fuso configurado,
+ *   não o UTC de toISOString() (que vira o dia às 21h no Brasil)
+ * - Conta de dias/meses feita sobre yyyy-mm-dd (sem depender do fuso do aparelho)
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+export const DEFAULT_TIME_ZONE = "America/Sao_Paulo";
+
+// ✅ Fuso usado por todo o app (carregado do app_settings na inicialização)
+let businessTimeZone = DEFAULT_TIME_ZONE;
+
+export type CivilDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// ✅ Um formatador por fuso (criar Intl.DateTimeFormat é caro)
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * ✅ Verifica se o nome IANA é aceito pelo Intl deste aparelho
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone.trim()) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ✅ Define o fuso do negócio (inválido ou vazio → padrão)
+ */
+export function setBusinessTimeZone(timeZone: string | null | undefined): void {
+  businessTimeZone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+export const getBusinessTimeZone = (): string => businessTimeZone;
+
+const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+
+/**
+ * ✅ Data e hora de parede do instante no fuso (horário de verão incluído)
+ * ⚠️ Sem suporte a fuso no Intl do aparelho, usa o horário local do aparelho
+ */
+export function getCivilDateTime(date: Date = new Date(), timeZone: string = businessTimeZone): CivilDateTime {
+  try {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+    if ([parts.year, parts.month, parts.day, parts.hour].some((v) => !Number.isFinite(v))) {
+      throw new Error(`Intl sem suporte ao fuso ${timeZone}`);
+    }
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour % 24, // Alguns motores devolvem "24" à meia-noite
+      minute: parts.minute,
+      second: parts.second,
+    };
+  } catch {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+}
+
+/**
+ * ✅ yyyy-mm-dd do instante no fuso do negócio
+ */
+export function civilDateISO(date: Date = new Date(), timeZone: string = businessTimeZone): string {
+  const { year, month, day } = getCivilDateTime(date, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * ✅ yyyy-mm-ddTHH:mm:ssZ com o horário de parede do fuso do negócio
+ * ⚠️ O "Z" é só o formato histórico do banco (CHECK com GLOB): o horário NÃO é UTC
+ */
+export function civilDateTimeIso(date: Date = new Date(), timeZone: string = businessTimeZone): string {
+  const { hour, minute, second } = getCivilDateTime(date, timeZone);
+  return `${civilDateISO(date, timeZone)}T${pad(hour)}:${pad(minute)}:${pad(second)}Z`;
+}
+
+// ✅ yyyy-mm-dd → componentes (aceita também yyyy-mm-ddTHH:mm:ss)
+const splitISO = (iso: string): [number, number, number] => {
+  const [y, m, d] = iso.slice(0, 10).split("-").map(Number);
+  return [y, m, d];
+};
+
+const fromUTC = (y: number, m: number, d: number): string => new Date(Date.UTC(y, m - 1, d)).toISOString().slice(0, 10);
+
+/**
+ * ✅ Soma dias a uma data yyyy-mm-dd (negativo para voltar)
+ */
+export function addDaysISO(iso: string, days: number): string {
+  const [y, m, d] = splitISO(iso);
+  return fromUTC(y, m, d + days);
+}
+
+/**
+ * ✅ Primeiro dia do mês de iso (deslocado em "months" meses)
+ */
+export function startOfMonthOf(iso: string, months = 0): string {
+  const [y, m] = splitISO(iso);
+  return fromUTC(y, m + months, 1);
+}
+
+/**
+ * ✅ Último dia do mês de iso (deslocado em "months" meses)
+ */
+export function endOfMonthOf(iso: string, months = 0): string {
+  const [y, m] = splitISO(iso);
+  return fromUTC(y, m + months + 1, 0);
+}
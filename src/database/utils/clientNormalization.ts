@@ -6,6 +6,8 @@
 // ✅ Quebrar dependência circular: importar diretamente das funções básicas
 // Em vez de importar de ../utils (que importa este arquivo)
 import { normalizeDateToISO } from "./dateParsers";
+import { civilDateTimeIso } from "./civilDate";
+import { isCadencia, normalizeCadencia } from "./cadence";
 import type { Client } from "../types";
 
 // ✅ Funções básicas locais (evita dependência circular)
@@ -21,16 +23,7 @@ function toCentavos(reais: number): number {
   return Math.round(reais * 100);
 }
 
-function formatDateTimeIso(date?: Date): string {
-  if (!date) {
-    const d = new Date();
-    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
-    return d.toISOString().slice(0, 19) + "Z";
-  }
-  const d = new Date(date);
-  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
-  return d.toISOString().slice(0, 19) + "Z";
-}
+const formatDateTimeIso = (date?: Date): string => civilDateTimeIso(date ? new Date(date) : new Date());
 
 /**
  * ✅ Sanitiza campos de string do cliente
@@ -133,6 +126,12 @@ export function normalizePartialUpdate(original: Client, partial: Partial<Client
       normalized.ordemVisita = value ?? 1;
     } else if (key === "prioritario") {
       normalized.prioritario = value ?? 0;
+    } else if (key === "cadencia") {
+      normalized.cadencia = isCadencia(value) ? value : null;
+    } else if (key === "cadenciaDia") {
+      // ✅ Faixa do dia depende da cadência (enviada junto ou a atual)
+      const cadencia = partial.cadencia !== undefined ? partial.cadencia : original.cadencia;
+      normalized.cadencia_dia = normalizeCadencia(cadencia, value).cadenciaDia;
     }
   }
   
@@ -209,6 +208,10 @@ export function buildUpdateFields(normalized: Record<string, any>): [string, any
       dbEntries.push(["ordemVisita", value]);
     } else if (key === "prioritario") {
       dbEntries.push(["prioritario", value]);
+    } else if (key === "cadencia") {
+      dbEntries.push(["cadencia", value]);
+    } else if (key === "cadencia_dia") {
+      dbEntries.push(["cadencia_dia", value]);
     }
   }
   
@@ -235,6 +238,8 @@ export function detectClientChanges(original: Client, updated: Partial<Client>):
     telefone: "Telefone",
     next_charge: "Próxima Cobrança",
     paid: "Valor Pago",
+    cadencia: "Cadência",
+    cadenciaDia: "Dia da Cadência",
   };
   
   const formatValue = (key: string, value: any): string => {
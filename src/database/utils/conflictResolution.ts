@@ -0,0 +1,112 @@
+/**
+ * ⚖️ Funções puras para resolver conflitos de edição entre aparelhos
+ * Política: last-writer-wins POR CAMPO usando a versão (updated_at) de cada campo
+ * ⚠️ paid/status NÃO entram aqui: são derivados dos pagamentos sincronizados
+ */
+
+import type { Client } from "../types";
+
+/**
+ * ✅ Campos do cliente resolvidos por last-writer-wins
+ */
+export const CLIENT_SYNC_FIELDS = [
+  "name",
+  "value",
+  "numero",
+  "referencia",
+  "telefone",
+  "observacoes",
+  "ruaId",
+  "ordemVisita",
+  "prioritario",
+  "proximaData",
+  "cadencia",
+  "cadenciaDia",
+] as const;
+
+export type ClientSyncField = (typeof CLIENT_SYNC_FIELDS)[number];
+
+/**
+ * ✅ Versão de cada campo: campo → updated_at (ISO) da última edição
+ */
+export type FieldVersions = Partial<Record<ClientSyncField, string>>;
+
+export type ClientConflictResult = {
+  changes: Partial<Client>; // Campos remotos que venceram (aplicar localmente)
+  versions: FieldVersions; // Versões dos campos aplicados
+  conflicts: ClientSyncField[]; // Campos em que a edição local venceu a remota
+};
+
+export const CLIENT_SYNC_FIELD_LABELS: Record<ClientSyncField, string> = {
+  name: "Nome",
+  value: "Valor Total",
+  numero: "Número",
+  referencia: "Referência",
+  telefone: "Telefone",
+  observacoes: "Observações",
+  ruaId: "Rua",
+  ordemVisita: "Ordem de Visita",
+  prioritario: "Prioritário",
+  proximaData: "Próxima Cobrança",
+  cadencia: "Cadência",
+  cadenciaDia: "Dia da Cadência",
+};
+
+// 📌 Vazio, null e undefined são o mesmo valor
+const normalizeFieldValue = (value: any): any =>
+  value === undefined || value === null || value === "" ? null : value;
+
+/**
+ * ✅ Compara valores de um campo ignorando diferenças de vazio/null
+ */
+export function sameFieldValue(a: any, b: any): boolean {
+  const left = normalizeFieldValue(a);
+  const right = normalizeFieldValue(b);
+  if (typeof left === "number" || typeof right === "number") {
+    return left !== null && right !== null && Number(left) === Number(right);
+  }
+  return left === right;
+}
+
+/**
+ * ✅ Decide campo a campo entre a versão local e a remota de um cliente
+ * - Valores iguais: nada a fazer
+ * - Remoto mais novo: aplica o valor remoto
+ * - Local mais novo: mantém o local e registra o conflito
+ * - Empate: vence o maior valor serializado (mesmo resultado em todos os aparelhos)
+ *
+ * Campo sem versão própria usa o updated_at do registro
+ */
+export function resolveClientConflict(
+  local: Client & { updated_at?: string | null },
+  localVersions: FieldVersions,
+  remote: Partial<Client> & { updated_at?: string | null },
+  remoteVersions?: FieldVersions | null
+): ClientConflictResult {
+  const result: ClientConflictResult = { changes: {}, versions: {}, conflicts: [] };
+
+  for (const field of CLIENT_SYNC_FIELDS) {
+    if (!(field in remote)) continue;
+
+    const localValue = (local as any)[field];
+    const remoteValue = (remote as any)[field];
+    if (sameFieldValue(localValue, remoteValue)) continue;
+
+    const localVersion = localVersions[field] ?? local.updated_at ?? "";
+    const remoteVersion = remoteVersions?.[field] ?? remote.updated_at ?? "";
+
+    const remoteWins =
+      remoteVersion > localVersion ||
+      (remoteVersion === localVersion &&
+        JSON.stringify(normalizeFieldValue(remoteValue)) > JSON.stringify(normalizeFieldValue(localValue)));
+
+    if (remoteWins) {
+      (result.changes as any)[field] = remoteValue;
+      if (remoteVersion) result.versions[field] = remoteVersion;
+    } else {
+      result.conflicts.push(field);
+    }
+  }
+
+  return result;
+}
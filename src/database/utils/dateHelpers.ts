@@ -1,9 +1,11 @@
 /**
  * 📅 Helpers reutilizáveis para datas
  * Funções simples e diretas para operações comuns
+ * ✅ "Hoje" no fuso do negócio (civilDate), não em UTC
  */
 
-import { formatDateTimeIso, formatDateIso } from "../utils";
+import { formatDateTimeIso } from "../utils";
+import { civilDateISO, addDaysISO, startOfMonthOf, endOfMonthOf } from "./civilDate";
 
 /**
  * ✅ Retorna data/hora atual em formato ISO
@@ -13,44 +15,29 @@ export const nowISO = (): string => formatDateTimeIso();
 /**
  * ✅ Retorna data de hoje em formato ISO (yyyy-mm-dd)
  */
-export const todayISO = (): string => formatDateIso();
+export const todayISO = (): string => civilDateISO();
 
 /**
  * ✅ Retorna data de amanhã em formato ISO (yyyy-mm-dd)
  */
-export const tomorrowISO = (): string => formatDateIso(new Date(Date.now() + 86400000));
+export const tomorrowISO = (): string => addDaysISO(todayISO(), 1);
 
 /**
  * ✅ Retorna data de X dias a partir de hoje
  */
-export const daysFromTodayISO = (days: number): string => {
-  const date = new Date();
-  date.setDate(date.getDate() + days);
-  return formatDateIso(date);
-};
+export const daysFromTodayISO = (days: number): string => addDaysISO(todayISO(), days);
 
 /**
  * ✅ Retorna data de X dias atrás a partir de hoje
  */
-export const daysAgoISO = (days: number): string => {
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  return formatDateIso(date);
-};
+export const daysAgoISO = (days: number): string => addDaysISO(todayISO(), -days);
 
 /**
  * ✅ Retorna início do mês atual em formato ISO
  */
-export const startOfMonthISO = (): string => {
-  const now = new Date();
-  return formatDateIso(new Date(now.getFullYear(), now.getMonth(), 1));
-};
+export const startOfMonthISO = (): string => startOfMonthOf(todayISO());
 
 /**
  * ✅ Retorna fim do mês atual em formato ISO
  */
-export const endOfMonthISO = (): string => {
-  const now = new Date();
-  return formatDateIso(new Date(now.getFullYear(), now.getMonth() + 1, 0));
-};
-
+export const endOfMonthISO = (): string => endOfMonthOf(todayISO());
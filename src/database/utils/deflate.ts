@@ -0,0 +1,397 @@
+/**
+ * 🗜️ Compressão gzip (DEFLATE, RFC 1951/1952) em TypeScript puro
+ * - gzip: LZ77 (janela de 32KB) + códigos de Huffman fixos
+ * - gunzip: descompressor completo (blocos armazenados, fixos e dinâmicos)
+ * ✅ Sem dependência nativa; arquivos abrem em qualquer ferramenta gzip
+ * ✅ Funções puras (sem RNFS) para poder testar
+ */
+
+// ============================================================================
+// 🔢 CRC32
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * ✅ CRC32 usado no rodapé do gzip
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// 📐 TABELAS DO DEFLATE
+// ============================================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 32;
+const HASH_BITS = 15;
+
+const GZIP_ID1 = 0x1f;
+const GZIP_ID2 = 0x8b;
+
+/**
+ * ✅ Arquivo começa com a assinatura gzip (1f 8b)
+ */
+export const isGzip = (bytes: Uint8Array) => bytes.length >= 2 && bytes[0] === GZIP_ID1 && bytes[1] === GZIP_ID2;
+
+// ============================================================================
+// 📦 COMPRESSÃO
+// ============================================================================
+
+function createBitWriter(capacity: number) {
+  let out = new Uint8Array(Math.max(1024, capacity));
+  let pos = 0;
+  let bitBuf = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (pos + extra <= out.length) return;
+    const bigger = new Uint8Array(Math.max(out.length * 2, pos + extra));
+    bigger.set(out.subarray(0, pos));
+    out = bigger;
+  };
+
+  // Bits menos significativos primeiro (ordem do DEFLATE)
+  const writeBits = (value: number, count: number) => {
+    bitBuf |= value << bitCount;
+    bitCount += count;
+    while (bitCount >= 8) {
+      ensure(1);
+      out[pos++] = bitBuf & 0xff;
+      bitBuf >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Códigos de Huffman vão do bit mais significativo para o menos
+  const writeCode = (code: number, length: number) => {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) reversed |= ((code >> i) & 1) << (length - 1 - i);
+    writeBits(reversed, length);
+  };
+
+  const finish = () => {
+    if (bitCount > 0) {
+      ensure(1);
+      out[pos++] = bitBuf & 0xff;
+      bitBuf = 0;
+      bitCount = 0;
+    }
+    return out.subarray(0, pos);
+  };
+
+  return { writeBits, writeCode, finish };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+function writeLiteral(w: BitWriter, symbol: number) {
+  if (symbol < 144) w.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) w.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) w.writeCode(symbol - 256, 7);
+  else w.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function findIndex(base: number[], value: number): number {
+  let i = base.length - 1;
+  while (base[i] > value) i--;
+  return i;
+}
+
+function writeMatch(w: BitWriter, length: number, distance: number) {
+  const li = findIndex(LENGTH_BASE, length);
+  writeLiteral(w, 257 + li);
+  if (LENGTH_EXTRA[li]) w.writeBits(length - LENGTH_BASE[li], LENGTH_EXTRA[li]);
+
+  const di = findIndex(DIST_BASE, distance);
+  w.writeCode(di, 5);
+  if (DIST_EXTRA[di]) w.writeBits(distance - DIST_BASE[di], DIST_EXTRA[di]);
+}
+
+/**
+ * ✅ Comprime em DEFLATE bruto (um bloco com Huffman fixo)
+ */
+export function deflateRaw(input: Uint8Array): Uint8Array {
+  const w = createBitWriter(input.length / 2);
+  w.writeBits(1, 1); // BFINAL
+  w.writeBits(1, 2); // BTYPE = 01 (Huffman fixo)
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) =>
+    Math.imul((input[i] << 16) | (input[i + 1] << 8) | input[i + 2], 0x9e3779b1) >>> (32 - HASH_BITS);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > input.length) return;
+    const h = hashAt(i);
+    prev[i & (WINDOW_SIZE - 1)] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= input.length) {
+      const maxLength = Math.min(MAX_MATCH, input.length - i);
+      let candidate = head[hashAt(i)];
+      let chain = MAX_CHAIN;
+
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (input[candidate + bestLength] === input[i + bestLength]) {
+          let length = 0;
+          while (length < maxLength && input[candidate + length] === input[i + length]) length++;
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - candidate;
+            if (length === maxLength) break;
+          }
+        }
+        const next = prev[candidate & (WINDOW_SIZE - 1)];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(w, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeLiteral(w, input[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeLiteral(w, 256); // Fim do bloco
+  return w.finish();
+}
+
+/**
+ * ✅ Comprime no formato gzip (cabeçalho + DEFLATE + CRC32 + tamanho)
+ */
+export function gzip(input: Uint8Array): Uint8Array {
+  const body = deflateRaw(input);
+  const out = new Uint8Array(10 + body.length + 8);
+  out.set([GZIP_ID1, GZIP_ID2, 8, 0, 0, 0, 0, 0, 0, 255]);
+  out.set(body, 10);
+
+  const view = new DataView(out.buffer);
+  view.setUint32(10 + body.length, crc32(input), true);
+  view.setUint32(14 + body.length, input.length >>> 0, true);
+  return out;
+}
+
+// ============================================================================
+// 📤 DESCOMPRESSÃO
+// ============================================================================
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+/**
+ * ✅ Descomprime DEFLATE bruto
+ * @throws Error se os dados estiverem corrompidos
+ */
+export function inflateRaw(input: Uint8Array): Uint8Array {
+  let inPos = 0;
+  let bitBuf = 0;
+  let bitCount = 0;
+
+  let out = new Uint8Array(Math.max(1024, input.length * 4));
+  let outPos = 0;
+
+  const corrupted = () => new Error("Dados comprimidos corrompidos.");
+
+  const bits = (count: number) => {
+    while (bitCount < count) {
+      if (inPos >= input.length) throw corrupted();
+      bitBuf |= input[inPos++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuf & ((1 << count) - 1);
+    bitBuf >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= out.length) return;
+    const bigger = new Uint8Array(Math.max(out.length * 2, outPos + extra));
+    bigger.set(out.subarray(0, outPos));
+    out = bigger;
+  };
+
+  const decode = (h: Huffman) => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = h.counts[len];
+      if (code - first < count) return h.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw corrupted();
+  };
+
+  const inflateBlock = (literals: Huffman, distances: Huffman) => {
+    while (true) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        ensure(1);
+        out[outPos++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const li = symbol - 257;
+        if (li >= LENGTH_BASE.length) throw corrupted();
+        const length = LENGTH_BASE[li] + bits(LENGTH_EXTRA[li]);
+        const di = decode(distances);
+        if (di >= DIST_BASE.length) throw corrupted();
+        const distance = DIST_BASE[di] + bits(DIST_EXTRA[di]);
+        if (distance > outPos) throw corrupted();
+
+        ensure(length);
+        for (let k = 0; k < length; k++, outPos++) out[outPos] = out[outPos - distance];
+      }
+    }
+  };
+
+  const dynamicTables = (): [Huffman, Huffman] => {
+    const hlit = bits(5) + 257;
+    const hdist = bits(5) + 1;
+    const hclen = bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < hclen; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+    const codeLengthHuffman = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(hlit + hdist);
+    let n = 0;
+    while (n < hlit + hdist) {
+      const symbol = decode(codeLengthHuffman);
+      if (symbol < 16) {
+        lengths[n++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (n === 0) throw corrupted();
+        value = lengths[n - 1];
+        repeat = 3 + bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3);
+      } else {
+        repeat = 11 + bits(7);
+      }
+      if (n + repeat > hlit + hdist) throw corrupted();
+      while (repeat--) lengths[n++] = value;
+    }
+
+    return [buildHuffman(lengths.subarray(0, hlit)), buildHuffman(lengths.subarray(hlit))];
+  };
+
+  let final = 0;
+  while (!final) {
+    final = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Bloco armazenado: alinha no byte e copia LEN bytes
+      bitBuf = 0;
+      bitCount = 0;
+      if (inPos + 4 > input.length) throw corrupted();
+      const len = input[inPos] | (input[inPos + 1] << 8);
+      const nlen = input[inPos + 2] | (input[inPos + 3] << 8);
+      inPos += 4;
+      if ((len ^ 0xffff) !== nlen || inPos + len > input.length) throw corrupted();
+      ensure(len);
+      out.set(input.subarray(inPos, inPos + len), outPos);
+      outPos += len;
+      inPos += len;
+    } else if (type === 1) {
+      inflateBlock(FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type === 2) {
+      const [literals, distances] = dynamicTables();
+      inflateBlock(literals, distances);
+    } else {
+      throw corrupted();
+    }
+  }
+
+  return out.slice(0, outPos);
+}
+
+/**
+ * ✅ Descomprime arquivo gzip e confere CRC32 e tamanho
+ * @throws Error se não for gzip ou se a verificação falhar
+ */
+export function gunzip(input: Uint8Array): Uint8Array {
+  if (!isGzip(input) || input[2] !== 8 || input.length < 18) {
+    throw new Error("Arquivo não está no formato gzip.");
+  }
+
+  const flags = input[3];
+  let pos = 10;
+  if (flags & 4) pos += 2 + (input[pos] | (input[pos + 1] << 8)); // FEXTRA
+  if (flags & 8) while (input[pos++] !== 0 && pos < input.length); // FNAME
+  if (flags & 16) while (input[pos++] !== 0 && pos < input.length); // FCOMMENT
+  if (flags & 2) pos += 2; // FHCRC
+
+  const output = inflateRaw(input.subarray(pos, input.length - 8));
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  const crc = view.getUint32(input.length - 8, true);
+  const size = view.getUint32(input.length - 4, true);
+
+  if (crc !== crc32(output) || size !== output.length >>> 0) {
+    throw new Error("Arquivo gzip corrompido (CRC inválido).");
+  }
+  return output;
+}
@@ -0,0 +1,149 @@
+/**
+ * 🧾 Funções puras para contratos e parcelas
+ * Geração do cronograma de parcelas e alocação de pagamentos
+ * ✅ Trabalha sempre em centavos (INTEGER) para evitar problemas de float
+ */
+
+import { addDaysISO } from "./civilDate";
+
+export type InstallmentInterval = "semanal" | "quinzenal" | "mensal";
+
+export type ScheduledInstallment = {
+  numero: number;
+  due_date: string; // ISO: yyyy-mm-dd
+  value_cents: number;
+};
+
+export type OpenInstallment = {
+  id: number;
+  due_date: string;
+  numero: number;
+  value_cents: number;
+  paid_cents: number;
+};
+
+export type InstallmentAllocation = {
+  installment_id: number;
+  value_cents: number;
+};
+
+/**
+ * ✅ Soma meses a uma data ISO mantendo o dia (limitado ao último dia do mês)
+ * Ex.: 2025-01-31 + 1 mês → 2025-02-28
+ */
+function addMonthsISO(iso: string, months: number): string {
+  const [y, m, d] = iso.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * ✅ Gera o cronograma de parcelas de um contrato
+ * O resto da divisão em centavos vai para a primeira parcela
+ * Ex.: R$ 100,00 em 3x → 33,34 + 33,33 + 33,33
+ */
+export function buildInstallmentSchedule(
+  totalCents: number,
+  parcelas: number,
+  primeiroVencimento: string,
+  intervalo: InstallmentInterval = "mensal"
+): ScheduledInstallment[] {
+  if (!Number.isInteger(totalCents) || totalCents <= 0) {
+    throw new Error(`Valor do contrato inválido: ${totalCents} centavos.`);
+  }
+  if (!Number.isInteger(parcelas) || parcelas < 1) {
+    throw new Error(`Número de parcelas inválido: ${parcelas}.`);
+  }
+  if (parcelas > totalCents) {
+    throw new Error("Número de parcelas maior que o valor do contrato em centavos.");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(primeiroVencimento)) {
+    throw new Error(`Data do primeiro vencimento inválida: ${primeiroVencimento}`);
+  }
+
+  const base = Math.floor(totalCents / parcelas);
+  const resto = totalCents - base * parcelas;
+
+  const schedule: ScheduledInstallment[] = [];
+  for (let i = 0; i < parcelas; i++) {
+    let due_date: string;
+    if (intervalo === "mensal") {
+      due_date = addMonthsISO(primeiroVencimento, i);
+    } else {
+      due_date = addDaysISO(primeiroVencimento, i * (intervalo === "semanal" ? 7 : 15));
+    }
+
+    schedule.push({
+      numero: i + 1,
+      due_date,
+      value_cents: i === 0 ? base + resto : base,
+    });
+  }
+
+  return schedule;
+}
+
+// 📅 Parcela mais antiga primeiro (vencimento, depois número)
+const byDueDate = (a: OpenInstallment, b: OpenInstallment): number => {
+  if (a.due_date !== b.due_date) return a.due_date < b.due_date ? -1 : 1;
+  if (a.numero !== b.numero) return a.numero - b.numero;
+  return a.id - b.id;
+};
+
+/**
+ * ✅ Distribui um pagamento entre as parcelas abertas
+ * Quita primeiro a parcela mais antiga (vencimento, depois número)
+ * Retorna as alocações e o que sobrou sem parcela para abater
+ */
+export function allocatePaymentToInstallments(
+  openInstallments: OpenInstallment[],
+  valorCents: number
+): { allocations: InstallmentAllocation[]; remainingCents: number } {
+  const ordered = [...openInstallments].sort(byDueDate);
+
+  const allocations: InstallmentAllocation[] = [];
+  let remaining = valorCents;
+
+  for (const installment of ordered) {
+    if (remaining <= 0) break;
+
+    const open = installment.value_cents - installment.paid_cents;
+    if (open <= 0) continue;
+
+    const value = Math.min(open, remaining);
+    allocations.push({ installment_id: installment.id, value_cents: value });
+    remaining -= value;
+  }
+
+  return { allocations, remainingCents: remaining };
+}
+
+/**
+ * ✅ Reduz o saldo em aberto das parcelas (valor total do cliente diminuído na edição)
+ * Tira primeiro da parcela mais nova; o que já foi pago em cada parcela não é tocado
+ * Retorna quanto sai de cada parcela e o que sobrou sem saldo em aberto para reduzir
+ */
+export function reduceOpenInstallments(
+  openInstallments: OpenInstallment[],
+  reducaoCents: number
+): { reductions: InstallmentAllocation[]; remainingCents: number } {
+  const ordered = [...openInstallments].sort(byDueDate).reverse();
+
+  const reductions: InstallmentAllocation[] = [];
+  let remaining = reducaoCents;
+
+  for (const installment of ordered) {
+    if (remaining <= 0) break;
+
+    const open = installment.value_cents - installment.paid_cents;
+    if (open <= 0) continue;
+
+    const value = Math.min(open, remaining);
+    reductions.push({ installment_id: installment.id, value_cents: value });
+    remaining -= value;
+  }
+
+  return { reductions, remainingCents: remaining };
+}
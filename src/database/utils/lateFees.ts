@@ -0,0 +1,90 @@
+/**
+ * 💸 Funções puras para encargos por atraso (multa e juros)
+ * Multa: percentual fixo cobrado uma vez após o vencimento (respeitando a carência)
+ * Juros: simples, por dia de atraso (taxa diária ou mensal pro rata de 30 dias)
+ * ✅ Trabalha sempre em centavos (INTEGER) para evitar problemas de float
+ */
+
+export type JurosPeriodo = "diario" | "mensal";
+
+export type LateFeeConfig = {
+  multaPercent: number; // % fixo sobre o saldo (ex.: 2 = 2%)
+  jurosPercent: number; // % por período (ex.: 1 = 1% ao mês)
+  jurosPeriodo: JurosPeriodo;
+  carenciaDias: number; // Dias após o vencimento sem encargos
+};
+
+/**
+ * ✅ Padrão: encargos desligados até o usuário configurar
+ */
+export const DEFAULT_LATE_FEE_CONFIG: LateFeeConfig = {
+  multaPercent: 0,
+  jurosPercent: 0,
+  jurosPeriodo: "mensal",
+  carenciaDias: 0,
+};
+
+export type LateFeeBreakdown = {
+  diasAtraso: number;
+  multaCents: number;
+  jurosCents: number;
+  encargosCents: number; // multa + juros
+  saldoAtualizadoCents: number; // saldo + encargos
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * ✅ Dias corridos entre duas datas ISO (yyyy-mm-dd), sem influência de fuso horário
+ */
+export function diasEntre(inicioISO: string, fimISO: string): number {
+  if (!ISO_DATE.test(inicioISO) || !ISO_DATE.test(fimISO)) return 0;
+  const [y1, m1, d1] = inicioISO.split("-").map(Number);
+  const [y2, m2, d2] = fimISO.split("-").map(Number);
+  return Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86400000);
+}
+
+/**
+ * ✅ Calcula multa e juros de um saldo vencido
+ * @param saldoCents - Saldo devedor (value - paid) em centavos
+ * @param vencimento - Data de vencimento (yyyy-mm-dd)
+ * @param dataRef - Data de referência do cálculo (yyyy-mm-dd), normalmente hoje
+ * @param config - Percentuais configurados
+ */
+export function calcularEncargos(
+  saldoCents: number,
+  vencimento: string | null | undefined,
+  dataRef: string,
+  config: LateFeeConfig
+): LateFeeBreakdown {
+  const saldo = Math.max(0, Math.round(saldoCents || 0));
+  const diasAtraso = vencimento ? Math.max(0, diasEntre(vencimento, dataRef)) : 0;
+  const semEncargos: LateFeeBreakdown = {
+    diasAtraso,
+    multaCents: 0,
+    jurosCents: 0,
+    encargosCents: 0,
+    saldoAtualizadoCents: saldo,
+  };
+
+  if (saldo === 0 || diasAtraso === 0 || diasAtraso <= Math.max(0, config.carenciaDias || 0)) {
+    return semEncargos;
+  }
+
+  const multaCents = Math.round(saldo * (Math.max(0, config.multaPercent || 0) / 100));
+
+  const taxaDiaria =
+    config.jurosPeriodo === "diario"
+      ? Math.max(0, config.jurosPercent || 0) / 100
+      : Math.max(0, config.jurosPercent || 0) / 100 / 30;
+  const jurosCents = Math.round(saldo * taxaDiaria * diasAtraso);
+
+  const encargosCents = multaCents + jurosCents;
+  return {
+    diasAtraso,
+    multaCents,
+    jurosCents,
+    encargosCents,
+    saldoAtualizadoCents: saldo + encargosCents,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * 📄 Leitura incremental de NDJSON (uma linha JSON por vez)
+ * RNFS.read devolve blocos em base64 cortados em qualquer byte,
+ * então as linhas são separadas nos bytes e só depois decodificadas em UTF-8
+ * Também codifica bytes de volta em base64/UTF-8 (gravação de arquivos binários)
+ * ✅ Funções puras (sem RNFS) para poder testar
+ */
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+
+const NEWLINE = 0x0a;
+
+/**
+ * ✅ Decodifica base64 em bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let j = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean[i]] ?? 0;
+    const b = BASE64_LOOKUP[clean[i + 1]] ?? 0;
+    const c = BASE64_LOOKUP[clean[i + 2]] ?? 0;
+    const d = BASE64_LOOKUP[clean[i + 3]] ?? 0;
+    const n = (a << 18) | (b << 12) | (c << 6) | d;
+
+    if (j < bytes.length) bytes[j++] = (n >> 16) & 0xff;
+    if (i + 2 < clean.length && j < bytes.length) bytes[j++] = (n >> 8) & 0xff;
+    if (i + 3 < clean.length && j < bytes.length) bytes[j++] = n & 0xff;
+  }
+
+  return bytes.subarray(0, j);
+}
+
+/**
+ * ✅ Codifica bytes em base64 (com padding)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result +=
+      BASE64_ALPHABET[(n >> 18) & 63] +
+      BASE64_ALPHABET[(n >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(n >> 6) & 63] : "=") +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[n & 63] : "=");
+  }
+  return result;
+}
+
+/**
+ * ✅ Codifica string em bytes UTF-8
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * ✅ Decodifica bytes UTF-8 completos em string (acentos e emojis)
+ * Sequências inválidas viram U+FFFD
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let result = "";
+  let i = 0;
+
+  while (i < bytes.length) {
+    const b0 = bytes[i];
+    let code: number;
+    let size: number;
+
+    if (b0 < 0x80) {
+      code = b0;
+      size = 1;
+    } else if ((b0 & 0xe0) === 0xc0) {
+      code = ((b0 & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      size = 2;
+    } else if ((b0 & 0xf0) === 0xe0) {
+      code = ((b0 & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+      size = 3;
+    } else if ((b0 & 0xf8) === 0xf0) {
+      code =
+        ((b0 & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f);
+      size = 4;
+    } else {
+      code = 0xfffd;
+      size = 1;
+    }
+
+    if (i + size > bytes.length) {
+      code = 0xfffd;
+      size = bytes.length - i;
+    }
+
+    result += String.fromCodePoint(code);
+    i += size;
+  }
+
+  return result;
+}
+
+/**
+ * ✅ Acumula blocos de bytes e devolve as linhas completas
+ * - push(bytes): linhas terminadas em "\n" dentro do que já chegou
+ * - end(): última linha (arquivo sem "\n" no final)
+ * Linhas vazias são ignoradas
+ */
+export function createLineBuffer() {
+  let pending = new Uint8Array(0);
+
+  const push = (chunk: Uint8Array): string[] => {
+    const buffer = new Uint8Array(pending.length + chunk.length);
+    buffer.set(pending, 0);
+    buffer.set(chunk, pending.length);
+
+    const lines: string[] = [];
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      if (buffer[i] === NEWLINE) {
+        const line = utf8Decode(buffer.subarray(start, i)).trim();
+        if (line) lines.push(line);
+        start = i + 1;
+      }
+    }
+
+    pending = buffer.slice(start);
+    return lines;
+  };
+
+  const end = (): string[] => {
+    const line = utf8Decode(pending).trim();
+    pending = new Uint8Array(0);
+    return line ? [line] : [];
+  };
+
+  return { push, end };
+}
@@ -0,0 +1,86 @@
+/**
+ * 🗺️ Funções puras da Rota do Dia
+ * Agrupa os clientes já ordenados pelo SQL em bairros → ruas
+ * e encaixa a ordem escolhida de um subconjunto na ordem salva
+ */
+
+import { toReais } from "../utils";
+import { mapClient } from "../core/mappers";
+import type { ClientDB, RotaDoDia, RotaBairro, RotaRua } from "../types";
+
+/**
+ * 📌 Linha de entrada: cliente com a rua e o bairro (-1 = sem rua/sem bairro)
+ */
+export type RotaRow = ClientDB & {
+  rota_rua_id: number;
+  rota_rua_nome: string | null;
+  rota_bairro_id: number;
+  rota_bairro_nome: string | null;
+};
+
+/**
+ * ✅ Monta a rota a partir das linhas já ordenadas (bairro, rua, cliente)
+ * Basta agrupar na sequência: bairro/rua novo começa quando o id muda
+ *
+ * @param data - Data da rota (yyyy-mm-dd), usada para contar os atrasados
+ */
+export function montarRotaDoDia(data: string, rows: RotaRow[]): RotaDoDia {
+  const rota: RotaDoDia = {
+    data,
+    bairros: [],
+    totalClientes: 0,
+    totalPrioritarios: 0,
+    totalAtrasados: 0,
+    totalPendente: 0,
+  };
+
+  let bairroAtual: RotaBairro | null = null;
+  let ruaAtual: RotaRua | null = null;
+
+  for (const row of rows) {
+    if (!bairroAtual || bairroAtual.bairroId !== row.rota_bairro_id) {
+      bairroAtual = {
+        bairroId: row.rota_bairro_id,
+        bairroNome: row.rota_bairro_nome ?? "Sem bairro",
+        ruas: [],
+      };
+      rota.bairros.push(bairroAtual);
+      ruaAtual = null;
+    }
+
+    if (!ruaAtual || ruaAtual.ruaId !== row.rota_rua_id) {
+      ruaAtual = {
+        ruaId: row.rota_rua_id,
+        ruaNome: row.rota_rua_nome ?? "Sem rua",
+        bairroId: row.rota_bairro_id,
+        clientes: [],
+        totalPendente: 0,
+      };
+      bairroAtual.ruas.push(ruaAtual);
+    }
+
+    const cliente = mapClient(row);
+    const pendente = toReais(Math.max(0, row.value_cents - row.paid_cents));
+
+    ruaAtual.clientes.push(cliente);
+    ruaAtual.totalPendente += pendente;
+
+    rota.totalClientes++;
+    rota.totalPendente += pendente;
+    if (cliente.prioritario) rota.totalPrioritarios++;
+    if (cliente.proximaData && cliente.proximaData < data) rota.totalAtrasados++;
+  }
+
+  return rota;
+}
+
+/**
+ * ✅ Encaixa a nova ordem de um subconjunto na ordem completa
+ * Ex.: completa [1,2,3,4], visível [3,1] → [3,2,1,4]
+ * Itens fora da rota de hoje mantêm a posição
+ */
+export function mergeOrdem(completa: number[], visivel: number[]): number[] {
+  const visiveis = new Set(visivel);
+  const fila = visivel.filter((id) => completa.includes(id));
+  return completa.map((id) => (visiveis.has(id) ? fila.shift() ?? id : id));
+}
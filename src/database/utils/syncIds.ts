@@ -0,0 +1,56 @@
+/**
+ * 🔑 sync_id determinístico para dados anteriores à sincronização por sync_id (V9)
+ * Aparelhos com os mesmos clientes/pagamentos/logs (sincronizados pelo modelo antigo, ids INTEGER)
+ * chegam ao mesmo sync_id para o mesmo registro, em vez de um UUID aleatório em cada aparelho
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import { sha256 } from "./backupCrypto";
+import { utf8Encode } from "./ndjson";
+import { clientNaturalKey, type BackupRecord } from "./backupRecords";
+
+/**
+ * ✅ UUID derivado de um nome (SHA-256, formato UUID versão 8)
+ * Mesmo nome → mesmo UUID em qualquer aparelho; nunca colide com o UUID v4 do gatilho da V9
+ */
+export function deterministicSyncId(name: string): string {
+  const bytes = sha256(utf8Encode(name)).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x80; // versão 8
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // variante RFC 9562
+
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * ✅ sync_id de cada registro pela chave natural
+ * Registros com a mesma chave são numerados pela ordem de created_at (depois id): 1º, 2º...
+ * @returns sync_id na mesma ordem de rows
+ */
+export function legacySyncIds(rows: BackupRecord[], keyOf: (row: BackupRecord) => string): string[] {
+  const ordem = rows
+    .map((row, index) => ({ row, index, chave: keyOf(row) }))
+    .sort(
+      (a, b) =>
+        a.chave.localeCompare(b.chave) ||
+        String(a.row.created_at ?? "").localeCompare(String(b.row.created_at ?? "")) ||
+        (a.row.id ?? 0) - (b.row.id ?? 0)
+    );
+
+  const ids = new Array<string>(rows.length);
+  const ocorrencias = new Map<string, number>();
+  for (const { index, chave } of ordem) {
+    const n = (ocorrencias.get(chave) ?? 0) + 1;
+    ocorrencias.set(chave, n);
+    ids[index] = deterministicSyncId(`${chave}#${n}`);
+  }
+  return ids;
+}
+
+// 📌 Chaves naturais (cliente pelo nome + telefone; pagamentos e logs pelo sync_id do cliente)
+export const legacyClientKey = (client: BackupRecord) => `clients|${clientNaturalKey(client)}`;
+
+export const legacyPaymentKey = (payment: BackupRecord) =>
+  `payments|${payment.client_sync_id}|${payment.created_at}|${payment.value_cents}`;
+
+export const legacyLogKey = (log: BackupRecord) => `logs|${log.client_sync_id}|${log.created_at}|${log.descricao}`;
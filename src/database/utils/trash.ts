@@ -0,0 +1,45 @@
+/**
+ * 🗑️ Regras da lixeira (exclusão reversível)
+ * Itens excluídos ficam com deleted_at preenchido e são removidos de vez
+ * depois do prazo de retenção configurado
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import { formatDateTimeIso } from "../utils";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// ✅ Prazos oferecidos na tela da lixeira
+export const TRASH_RETENTION_OPTIONS = [7, 15, 30, 60, 90] as const;
+
+const MAX_TRASH_RETENTION_DAYS = 365;
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ✅ Prazo de retenção válido (inteiro entre 1 e 365); fora disso vale o padrão
+ */
+export function normalizeTrashRetentionDays(value: unknown): number {
+  const dias = typeof value === "string" ? Number(value) : (value as number);
+  if (typeof dias !== "number" || !Number.isFinite(dias)) return DEFAULT_TRASH_RETENTION_DAYS;
+  const inteiro = Math.floor(dias);
+  return inteiro >= 1 && inteiro <= MAX_TRASH_RETENTION_DAYS ? inteiro : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * ✅ Limite da limpeza: itens com deleted_at até este instante são removidos
+ * Mesmo formato de deleted_at (formatDateTimeIso), então a comparação é por string
+ * @param dias - 0 esvazia a lixeira inteira
+ */
+export function getTrashCutoff(dias: number, agora: Date = new Date()): string {
+  return formatDateTimeIso(new Date(agora.getTime() - Math.max(0, dias) * DIA_MS));
+}
+
+/**
+ * ✅ Dias até o item sair da lixeira (0 = sai na próxima limpeza)
+ */
+export function daysUntilPurge(deletedAt: string, dias: number, agora: Date = new Date()): number {
+  const cutoff = getTrashCutoff(dias, agora);
+  if (deletedAt <= cutoff) return 0;
+  const restante = Date.parse(deletedAt) - Date.parse(cutoff);
+  return Number.isFinite(restante) ? Math.ceil(restante / DIA_MS) : dias;
+}
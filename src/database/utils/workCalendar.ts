@@ -0,0 +1,175 @@
+/**
+ * 🗓️ Calendário de dias úteis para o agendamento das cobranças
+ * - Dias da semana de folga (padrão: domingo)
+ * - Feriados nacionais fixos e móveis (calculados a partir da Páscoa)
+ * - Feriados municipais cadastrados pelo usuário (anuais ou de uma data só)
+ * Datas agendadas automaticamente caem no próximo dia útil
+ * ✅ Funções puras (sem banco) para poder testar
+ */
+
+import { addDaysISO } from "./civilDate";
+import { DIAS_SEMANA } from "./cadence";
+
+export type FeriadoMunicipal = {
+  data: string; // yyyy-mm-dd (com anual = true, só mês/dia importam)
+  nome: string;
+  anual: boolean;
+};
+
+export type WorkCalendarConfig = {
+  diasFolga: number[]; // 0 = domingo ... 6 = sábado
+  feriadosNacionais: boolean;
+  feriadosMunicipais: FeriadoMunicipal[];
+};
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendarConfig = {
+  diasFolga: [0],
+  feriadosNacionais: true,
+  feriadosMunicipais: [],
+};
+
+// ✅ Calendário usado por todo o app (carregado do app_settings na inicialização)
+let workCalendar: WorkCalendarConfig = DEFAULT_WORK_CALENDAR;
+
+// ⚠️ Limite de segurança para o avanço (nunca deve ser atingido com ao menos um dia útil na semana)
+const MAX_DIAS_AVANCO = 366;
+
+const FERIADOS_FIXOS: Record<string, string> = {
+  "01-01": "Confraternização Universal",
+  "04-21": "Tiradentes",
+  "05-01": "Dia do Trabalho",
+  "09-07": "Independência do Brasil",
+  "10-12": "Nossa Senhora Aparecida",
+  "11-02": "Finados",
+  "11-15": "Proclamação da República",
+  "11-20": "Consciência Negra",
+  "12-25": "Natal",
+};
+
+// ✅ Deslocamento em dias a partir do domingo de Páscoa
+const FERIADOS_MOVEIS: { offset: number; nome: string }[] = [
+  { offset: -48, nome: "Carnaval" },
+  { offset: -47, nome: "Carnaval" },
+  { offset: -2, nome: "Sexta-feira Santa" },
+  { offset: 60, nome: "Corpus Christi" },
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const weekdayOf = (iso: string): number => {
+  const [y, m, d] = iso.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+/**
+ * ✅ Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// ✅ Feriados móveis por ano (cache: a Páscoa de um ano nunca muda)
+const moveisCache = new Map<number, Map<string, string>>();
+
+const feriadosMoveis = (year: number): Map<string, string> => {
+  let feriados = moveisCache.get(year);
+  if (!feriados) {
+    const pascoa = easterSunday(year);
+    feriados = new Map(FERIADOS_MOVEIS.map(({ offset, nome }) => [addDaysISO(pascoa, offset), nome]));
+    moveisCache.set(year, feriados);
+  }
+  return feriados;
+};
+
+/**
+ * ✅ Feriados nacionais do ano (yyyy-mm-dd → nome), em ordem de data
+ */
+export function nationalHolidays(year: number): { data: string; nome: string }[] {
+  const fixos = Object.entries(FERIADOS_FIXOS).map(([mmdd, nome]) => ({ data: `${year}-${mmdd}`, nome }));
+  const moveis = [...feriadosMoveis(year)].map(([data, nome]) => ({ data, nome }));
+  return [...fixos, ...moveis].sort((a, b) => (a.data < b.data ? -1 : a.data > b.data ? 1 : 0));
+}
+
+/**
+ * ✅ Configuração coerente: dias 0-6 sem repetição, ao menos um dia útil
+ * e feriados municipais com data e nome válidos
+ */
+export function normalizeWorkCalendar(config: Partial<WorkCalendarConfig> | null | undefined): WorkCalendarConfig {
+  const diasFolga = Array.isArray(config?.diasFolga)
+    ? [...new Set(config!.diasFolga.map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+    : DEFAULT_WORK_CALENDAR.diasFolga;
+
+  const feriadosMunicipais = Array.isArray(config?.feriadosMunicipais)
+    ? config!.feriadosMunicipais
+        .filter((f) => f && /^\d{4}-\d{2}-\d{2}$/.test(String(f.data)) && String(f.nome ?? "").trim())
+        .map((f) => ({ data: String(f.data), nome: String(f.nome).trim(), anual: Boolean(f.anual) }))
+    : [];
+
+  return {
+    // ⚠️ Semana inteira de folga travaria o agendamento: volta ao padrão
+    diasFolga: diasFolga.length >= 7 ? DEFAULT_WORK_CALENDAR.diasFolga : diasFolga,
+    feriadosNacionais: config?.feriadosNacionais ?? DEFAULT_WORK_CALENDAR.feriadosNacionais,
+    feriadosMunicipais,
+  };
+}
+
+/**
+ * ✅ Define o calendário do app (inválido → normalizado)
+ */
+export function setWorkCalendar(config: Partial<WorkCalendarConfig> | null | undefined): void {
+  workCalendar = normalizeWorkCalendar(config);
+}
+
+export const getWorkCalendar = (): WorkCalendarConfig => workCalendar;
+
+/**
+ * ✅ Nome do feriado na data (nacional ou municipal) ou null
+ */
+export function getHoliday(iso: string, config: WorkCalendarConfig = workCalendar): string | null {
+  const data = iso.slice(0, 10);
+  const mmdd = data.slice(5);
+
+  const municipal = config.feriadosMunicipais.find((f) => (f.anual ? f.data.slice(5) === mmdd : f.data === data));
+  if (municipal) return municipal.nome;
+
+  if (!config.feriadosNacionais) return null;
+  return FERIADOS_FIXOS[mmdd] ?? feriadosMoveis(Number(data.slice(0, 4))).get(data) ?? null;
+}
+
+/**
+ * ✅ Motivo de não trabalhar na data ("Natal", "Folga (domingo)") ou null se for dia útil
+ */
+export function getNonWorkingReason(iso: string, config: WorkCalendarConfig = workCalendar): string | null {
+  const feriado = getHoliday(iso, config);
+  if (feriado) return feriado;
+  const weekday = weekdayOf(iso);
+  return config.diasFolga.includes(weekday) ? `Folga (${DIAS_SEMANA[weekday].toLowerCase()})` : null;
+}
+
+export const isWorkingDay = (iso: string, config: WorkCalendarConfig = workCalendar): boolean =>
+  getNonWorkingReason(iso, config) === null;
+
+/**
+ * ✅ A própria data, se for dia útil, ou o próximo dia útil depois dela
+ */
+export function nextWorkingDay(iso: string, config: WorkCalendarConfig = workCalendar): string {
+  let data = iso.slice(0, 10);
+  for (let i = 0; i < MAX_DIAS_AVANCO && !isWorkingDay(data, config); i++) {
+    data = addDaysISO(data, 1);
+  }
+  return data;
+}
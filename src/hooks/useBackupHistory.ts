@@ -1,38 +1,19 @@
 import { useState, useEffect, useCallback } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-
-type BackupEntry = {
-  type: "local" | "cloud";
-  timestamp: number;
-};
+import { getBackupHistory, addBackupHistoryEntry, type BackupHistoryEntry } from "../utils/backup";
 
 /**
  * 🎣 Hook para gerenciar histórico de backups
  * Centraliza lógica de carregamento e salvamento do histórico
  */
 export function useBackupHistory() {
-  const [history, setHistory] = useState<BackupEntry[]>([]);
-  const [lastBackup, setLastBackup] = useState<BackupEntry | null>(null);
+  const [history, setHistory] = useState<BackupHistoryEntry[]>([]);
+  const [lastBackup, setLastBackup] = useState<BackupHistoryEntry | null>(null);
   const [loading, setLoading] = useState(true);
 
   // Salva histórico no storage
-  const saveBackupHistory = useCallback(async (entry: BackupEntry) => {
+  const saveBackupHistory = useCallback(async (entry: BackupHistoryEntry) => {
     try {
-      const current = await AsyncStorage.getItem("backup_history");
-      // ✅ Tratamento seguro de JSON.parse - evita crash se storage estiver corrompido
-      let list: BackupEntry[] = [];
-      try {
-        list = current ? JSON.parse(current) : [];
-        // Valida se é um array válido
-        if (!Array.isArray(list)) {
-          list = [];
-        }
-      } catch {
-        // Se JSON estiver corrompido, começa com array vazio
-        list = [];
-      }
-      const updated = [entry, ...list].slice(0, 10); // Mantém os últimos 10
-      await AsyncStorage.setItem("backup_history", JSON.stringify(updated));
+      const updated = await addBackupHistoryEntry(entry);
       setHistory(updated);
       setLastBackup(entry);
     } catch (e) {
@@ -44,25 +25,10 @@ export function useBackupHistory() {
   const loadBackupHistory = useCallback(async () => {
     try {
       setLoading(true);
-      const json = await AsyncStorage.getItem("backup_history");
-      // ✅ Tratamento seguro de JSON.parse - evita crash se storage estiver corrompido
-      let list: BackupEntry[] = [];
-      try {
-        list = json ? JSON.parse(json) : [];
-        // Valida se é um array válido
-        if (!Array.isArray(list)) {
-          list = [];
-        }
-      } catch {
-        // Se JSON estiver corrompido, começa com array vazio
-        list = [];
-      }
+      // ✅ Storage corrompido vira lista vazia (tratado em getBackupHistory)
+      const list = await getBackupHistory();
       setHistory(list);
-      if (list.length > 0) {
-        setLastBackup(list[0]);
-      } else {
-        setLastBackup(null);
-      }
+      setLastBackup(list.length > 0 ? list[0] : null);
     } catch (e) {
       console.error("Erro ao carregar histórico de backup:", e);
       // Garante que sempre há um estado válido
@@ -86,4 +52,3 @@ export function useBackupHistory() {
     loadBackupHistory,
   };
 }
-
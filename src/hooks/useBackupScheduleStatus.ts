@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  getBackupScheduleStatus,
+  subscribeBackupSchedule,
+  type BackupScheduleStatus,
+} from "../services/backupScheduler";
+
+/**
+ * 🎣 Hook para acompanhar o último backup bom e o backup automático
+ * Lê do storage ao focar a tela e atualiza quando o backup automático roda
+ */
+export function useBackupScheduleStatus() {
+  const [status, setStatus] = useState<BackupScheduleStatus>({
+    lastGoodBackup: null,
+    lastError: null,
+    running: false,
+  });
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setStatus(await getBackupScheduleStatus());
+    } catch (e) {
+      console.warn("⚠️ Erro ao carregar status do backup:", e);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  useEffect(() => {
+    return subscribeBackupSchedule(setStatus);
+  }, []);
+
+  return { ...status, loaded, reload };
+}
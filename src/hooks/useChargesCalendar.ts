@@ -0,0 +1,45 @@
+import { useState, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import type { CobrancasDoDia } from "../database/types";
+import { getChargesByMonth } from "../database/repositories/clientsRepo";
+
+/**
+ * 🎣 Hook para carregar a agenda de cobranças de um mês
+ * Recarrega ao focar a tela e quando o mês muda
+ */
+export function useChargesCalendar(mesISO: string) {
+  const [cobrancas, setCobrancas] = useState<CobrancasDoDia[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getChargesByMonth(mesISO);
+      setCobrancas(result);
+    } catch (e) {
+      console.error("Erro ao carregar agenda do mês:", e);
+      setCobrancas([]);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [mesISO]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await load();
+  }, [load]);
+
+  return {
+    cobrancas,
+    loading,
+    refreshing,
+    refresh,
+  };
+}
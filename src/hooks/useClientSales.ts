@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from "react";
+import type { SaleWithInstallments } from "../database/types";
+import { getSalesByClient } from "../database/repositories/salesRepo";
+
+/**
+ * 🎣 Hook para carregar os contratos (vendas a prazo) de um cliente
+ * Retorna contratos com parcelas e saldo individual
+ */
+export function useClientSales(clientId: number | null | undefined) {
+  const [sales, setSales] = useState<SaleWithInstallments[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reloadSales = useCallback(async () => {
+    if (!clientId) {
+      setSales([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const list = await getSalesByClient(clientId);
+      setSales(Array.isArray(list) ? list : []);
+    } catch (e) {
+      console.error("Erro ao carregar contratos do cliente:", e);
+      setSales([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    reloadSales();
+  }, [reloadSales]);
+
+  const openSales = sales.filter((s) => s.status === "aberta");
+
+  return {
+    sales,
+    openSales,
+    loading,
+    reloadSales,
+  };
+}
@@ -4,6 +4,7 @@ import type { Client } from "../database/types";
 import { getAllClients } from "../database/repositories/clientsRepo";
 import { parseChargeDate } from "../utils/dateUtils";
 import { formatDateBR } from "../utils/formatDate";
+import { daysFromTodayISO } from "../database/utils";
 import { formatErrorForDisplay } from "../utils/errorHandler";
 import { validateClients } from "../schemas/clientSchema";
 import { trackLoadTime } from "../utils/analytics";
@@ -195,9 +196,7 @@ export const useClientsByDate = (date: string) => {
 
         // Pré-carregar próximos 3 dias
         for (let i = 1; i <= 3; i++) {
-          const nextDate = new Date();
-          nextDate.setDate(nextDate.getDate() + i);
-          const nextDateStr = formatDateBR(nextDate);
+          const nextDateStr = formatDateBR(daysFromTodayISO(i));
 
           // Pré-filtrar e cachear
           if (!clientsByDateCache.has(nextDateStr)) {
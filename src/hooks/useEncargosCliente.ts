@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Client, EncargosCliente } from "../database/types";
+import { getEncargosCliente } from "../database/repositories/lateFeesRepo";
+
+/**
+ * 🎣 Hook para calcular multa e juros do cliente vencido
+ * Retorna null quando o cliente não tem encargos (em dia, carência ou desligados)
+ */
+export function useEncargosCliente(client: Client | null | undefined) {
+  const [encargos, setEncargos] = useState<EncargosCliente | null>(null);
+
+  const reloadEncargos = useCallback(async () => {
+    if (!client?.id) {
+      setEncargos(null);
+      return;
+    }
+
+    try {
+      setEncargos(await getEncargosCliente(client));
+    } catch (e) {
+      console.error("Erro ao calcular encargos do cliente:", e);
+      setEncargos(null);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    reloadEncargos();
+  }, [reloadEncargos]);
+
+  return {
+    encargos,
+    reloadEncargos,
+  };
+}
@@ -0,0 +1,45 @@
+import { useState, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import type { FechamentoCaixa } from "../database/types";
+import { getFechamentoCaixa } from "../database/services/reportsService";
+
+/**
+ * 🎣 Hook para carregar o fechamento de caixa de um dia
+ * Recarrega ao focar a tela e quando a data muda
+ */
+export function useFechamentoCaixa(dataISO: string) {
+  const [fechamento, setFechamento] = useState<FechamentoCaixa | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getFechamentoCaixa(dataISO);
+      setFechamento(result);
+    } catch (e) {
+      console.error("Erro ao carregar fechamento de caixa:", e);
+      setFechamento(null);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [dataISO]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await load();
+  }, [load]);
+
+  return {
+    fechamento,
+    loading,
+    refreshing,
+    refresh,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  getOfflineQueueStats,
+  subscribeOfflineQueue,
+  type OfflineQueueStats,
+} from "../services/syncOptimizer";
+
+/**
+ * 🎣 Hook para acompanhar a fila offline de sincronização
+ * Lê do disco ao focar a tela e atualiza quando a fila muda
+ */
+export function useOfflineQueueStats() {
+  const [stats, setStats] = useState<OfflineQueueStats>({
+    queueLength: 0,
+    isOnline: true,
+    oldestOperation: null,
+  });
+
+  const reload = useCallback(async () => {
+    const current = await getOfflineQueueStats();
+    setStats(current);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  useEffect(() => {
+    return subscribeOfflineQueue(setStats);
+  }, []);
+
+  return {
+    pendingCount: stats.queueLength,
+    isOnline: stats.isOnline,
+    oldestOperation: stats.oldestOperation,
+    reload,
+  };
+}
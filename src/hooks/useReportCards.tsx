@@ -3,6 +3,7 @@ import { ReportFinanceCard } from "../components/reports/ReportFinanceCard";
 import { ReportPerformanceCard } from "../components/reports/ReportPerformanceCard";
 import { ReportClientsCard } from "../components/reports/ReportClientsCard";
 import { ReportGeoCard } from "../components/reports/ReportGeoCard";
+import { ReportAgingCard } from "../components/reports/ReportAgingCard";
 import { REPORTS_CARDS_CONFIG } from "../constants/reportsCards";
 import type { ReportsDashboardData } from "../services/reportsService";
 
@@ -69,6 +70,13 @@ export const useReportCards = ({
         bairros={data.crediariosPorBairro}
         index={REPORTS_CARDS_CONFIG[3].index}
       />,
+
+      // ⏳ Card 5: Inadimplência por faixa de atraso
+      <ReportAgingCard
+        key="aging"
+        aging={data.aging}
+        index={REPORTS_CARDS_CONFIG[4].index}
+      />,
     ],
     [
       data.totalHoje,
@@ -77,6 +85,7 @@ export const useReportCards = ({
       data.totalMesAnterior,
       data.topClientes,
       data.crediariosPorBairro,
+      data.aging,
       performance.icon,
       performance.color,
       performance.percentual,
@@ -1,6 +1,6 @@
 import { REPORTS_LABELS } from "../constants/reportsAccessibility";
 
-type EmptyStateType = "clientes" | "bairros" | "pagamentos";
+type EmptyStateType = "clientes" | "bairros" | "pagamentos" | "aging";
 
 type EmptyStateConfig = {
   icon: string;
@@ -28,6 +28,11 @@ export const getReportEmptyState = (type: EmptyStateType): EmptyStateConfig => {
         icon: "cash-outline",
         message: REPORTS_LABELS.nenhumPagamentoMes,
       };
+    case "aging":
+      return {
+        icon: "happy-outline",
+        message: REPORTS_LABELS.nenhumClienteEmAtraso,
+      };
     default:
       return {
         icon: "information-circle-outline",
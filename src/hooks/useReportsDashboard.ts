@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from "react";
-import { getReportsDashboard } from "../services/reportsService";
+import { getReportsDashboard, EMPTY_AGING_REPORT } from "../services/reportsService";
 import type { ReportsDashboardData } from "../services/reportsService";
 import { ERROR_MESSAGES } from "../constants/messages";
 
@@ -17,6 +17,7 @@ export const useReportsDashboard = () => {
     topClientes: [],
     crediariosPorBairro: [],
     crescimento: { percentual: 0, cresceu: false },
+    aging: EMPTY_AGING_REPORT,
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
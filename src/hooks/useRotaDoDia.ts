@@ -0,0 +1,47 @@
+import { useState, useCallback } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import type { RotaDoDia } from "../database/types";
+import { getRotaDoDia } from "../database/repositories/routeRepo";
+
+/**
+ * 🎣 Hook para carregar a rota do dia (bairros → ruas → clientes)
+ * Recarrega ao focar a tela e quando a data muda
+ */
+export function useRotaDoDia(dataISO: string, incluirAtrasados: boolean = true) {
+  const [rota, setRota] = useState<RotaDoDia | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getRotaDoDia(dataISO, incluirAtrasados);
+      setRota(result);
+    } catch (e) {
+      console.error("Erro ao carregar rota do dia:", e);
+      setRota(null);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [dataISO, incluirAtrasados]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await load();
+  }, [load]);
+
+  return {
+    rota,
+    setRota,
+    loading,
+    refreshing,
+    refresh,
+    reload: load,
+  };
+}
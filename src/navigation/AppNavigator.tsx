@@ -14,9 +14,17 @@ import AddClientScreen from "../screens/AddClientScreen";
 import BackupScreen from "../screens/BackupScreen";
 import UpcomingChargesScreen from "../screens/UpcomingChargesScreen";
 import ClientsByDateScreen from "../screens/ClientsByDateScreen";
+import ChargesCalendarScreen from "../screens/ChargesCalendarScreen";
 import ClientLogScreen from "../screens/ClientLogScreen";
 import PaymentHistoryScreen from "../screens/PaymentHistoryScreen";
 import ReportsScreen from "../screens/ReportsScreen";
+import CashClosingScreen from "../screens/CashClosingScreen";
+import RouteDayScreen from "../screens/RouteDayScreen";
+import LateFeeSettingsScreen from "../screens/LateFeeSettingsScreen";
+import WorkCalendarSettingsScreen from "../screens/WorkCalendarSettingsScreen";
+import ImportClientsScreen from "../screens/ImportClientsScreen";
+import ExportScreen from "../screens/ExportScreen";
+import TrashScreen from "../screens/TrashScreen";
 
 const Stack = createNativeStackNavigator();
 
@@ -106,6 +114,12 @@ export default function AppNavigator() {
             options={{ title: "Clientes por Data" }}
           />
 
+          <Stack.Screen
+            name="ChargesCalendar"
+            component={ChargesCalendarScreen}
+            options={{ title: "Agenda do Mês" }}
+          />
+
           <Stack.Screen
             name="PaymentHistory"
             component={PaymentHistoryScreen}
@@ -127,6 +141,48 @@ export default function AppNavigator() {
               title: "Relatórios Financeiros",
             }}
           />
+
+          <Stack.Screen
+            name="CashClosing"
+            component={CashClosingScreen}
+            options={{ title: "Fechamento de Caixa" }}
+          />
+
+          <Stack.Screen
+            name="RouteDay"
+            component={RouteDayScreen}
+            options={{ title: "Rota do Dia" }}
+          />
+
+          <Stack.Screen
+            name="LateFeeSettings"
+            component={LateFeeSettingsScreen}
+            options={{ title: "Multa e Juros" }}
+          />
+
+          <Stack.Screen
+            name="WorkCalendarSettings"
+            component={WorkCalendarSettingsScreen}
+            options={{ title: "Dias Úteis e Feriados" }}
+          />
+
+          <Stack.Screen
+            name="ImportClients"
+            component={ImportClientsScreen}
+            options={{ title: "Importar Clientes" }}
+          />
+
+          <Stack.Screen
+            name="Export"
+            component={ExportScreen}
+            options={{ title: "Exportar Planilhas" }}
+          />
+
+          <Stack.Screen
+            name="Trash"
+            component={TrashScreen}
+            options={{ title: "Lixeira" }}
+          />
         </>
       )}
     </Stack.Navigator>
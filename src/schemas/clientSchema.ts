@@ -18,6 +18,9 @@ export const ClientSchema = z.object({
   observacoes: z.string().nullable().optional(),
   status: z.union([z.literal("pendente"), z.literal("quitado"), z.null(), z.undefined()]).optional(),
   proximaData: z.string().nullable().optional(),
+  // ✅ Cadência de cobrança (V15)
+  cadencia: z.union([z.literal("semanal"), z.literal("quinzenal"), z.literal("mensal"), z.literal("dia_fixo"), z.null(), z.undefined()]).optional(),
+  cadenciaDia: z.number().int().min(0).max(31).nullable().optional(),
 }).catchall(z.any()); // ✅ Permite campos extras que não estão no schema
 
 export type ValidatedClient = z.infer<typeof ClientSchema>;
@@ -17,7 +17,7 @@ import {
 import DateTimePicker from "@react-native-community/datetimepicker";
 import { useNavigation } from "@react-navigation/native";
 import Icon from "react-native-vector-icons/Ionicons";
-import type { Bairro, Rua } from "../database/types";
+import type { Bairro, Cadencia, Rua } from "../database/types";
 import { formatDateIso } from "../database/utils";
 import { addClient } from "../database/repositories/clientsRepo";
 import { getAllBairros } from "../database/repositories/bairroRepo";
@@ -27,6 +27,7 @@ import { saveClient } from "../services/syncService";
 import { useAuth } from "../contexts/AuthContext";
 import InputItem from "../components/InputItem";
 import CardSection from "../components/CardSection";
+import CadenceSelector from "../components/CadenceSelector";
 import { generateRandomClient } from "../utils/generateRandomClient";
 import { formatErrorForDisplay } from "../utils/errorHandler";
 import { VALIDATION_RULES, ValidationHelpers } from "../constants/validationRules";
@@ -80,6 +81,12 @@ export default function AddClientScreen() {
     prioritario: false,
   });
 
+  // 🔁 Cadência de cobrança (fora do FormData: não é texto digitado)
+  const [cadencia, setCadencia] = useState<{ cadencia: Cadencia | null; dia: number | null }>({
+    cadencia: null,
+    dia: null,
+  });
+
   // ✅ Estados para Bairros e Ruas
   const [bairros, setBairros] = useState<Bairro[]>([]);
   const [ruas, setRuas] = useState<Rua[]>([]);
@@ -398,6 +405,8 @@ export default function AddClientScreen() {
         prioritario: formData.prioritario ? 1 : 0,
         status: "pendente",
         proximaData: formData.nextChargeDate ? formatDateIso(formData.nextChargeDate) : null,
+        cadencia: cadencia.cadencia,
+        cadenciaDia: cadencia.dia,
       });
 
       // ✅ Sincronizar com Firestore
@@ -415,6 +424,8 @@ export default function AddClientScreen() {
         prioritario: formData.prioritario ? 1 : 0,
         status: "pendente" as const,
         proximaData: formData.nextChargeDate ? formatDateIso(formData.nextChargeDate) : null,
+        cadencia: cadencia.cadencia,
+        cadenciaDia: cadencia.dia,
       };
       
       await saveClient(user.uid, newClient);
@@ -454,7 +465,7 @@ export default function AddClientScreen() {
     } finally {
       setSaving(false);
     }
-  }, [formData, user?.uid, saving, navigation, isFormValid, scrollToFirstError]);
+  }, [formData, cadencia, user?.uid, saving, navigation, isFormValid, scrollToFirstError]);
 
   const onChangeDate = (event: any, selectedDate?: Date) => {
     // Android: fecha automaticamente ao selecionar
@@ -599,6 +610,18 @@ export default function AddClientScreen() {
               />
             </TouchableOpacity>
           </View>
+          <View style={styles.divider} />
+
+          {/* 🔁 Cadência: agenda a próxima cobrança quando o pagamento vem sem data */}
+          <CadenceSelector
+            cadencia={cadencia.cadencia}
+            dia={cadencia.dia}
+            onChange={(novaCadencia, dia) => {
+              setCadencia({ cadencia: novaCadencia, dia });
+              setHasUnsavedChanges(true);
+            }}
+            disabled={saving}
+          />
         </CardSection>
 
         {/* Seção 3: Localização (V3) */}
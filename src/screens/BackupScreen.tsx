@@ -23,21 +23,85 @@ import Animated, {
 import { useNavigation } from "@react-navigation/native";
 import DocumentPicker from "react-native-document-picker";
 import RNFS from "react-native-fs";
-import { backupLocal, backupFirebase, restoreLocal, restoreFirebase, BackupResult, RestoreResult } from "../utils/backup";
+import {
+  backupLocal,
+  backupFirebase,
+  restoreLocal,
+  restoreFirebase,
+  getBackupPin,
+  saveBackupPin,
+  BackupResult,
+  RestoreResult,
+} from "../utils/backup";
+import {
+  restoreBackup,
+  previewMergeBackup,
+  applyMergeBackup,
+  openBackupFile,
+  verifyBackupFile,
+  RestoreProgress,
+  MergeBackupPreview,
+  OpenedBackupFile,
+} from "../database/backup";
+import { BackupPinError, SEALED_BACKUP_EXTENSION } from "../database/utils/backupCrypto";
 import { formatDateTime } from "../utils/formatDate";
 import { useAuth } from "../contexts/AuthContext";
 import { useBackupHistory } from "../hooks/useBackupHistory";
 import HistorySkeleton from "../components/HistorySkeleton";
+import MergePreviewModal from "../components/MergePreviewModal";
+import BackupPinModal from "../components/BackupPinModal";
+import BackupVerificationModal from "../components/BackupVerificationModal";
+import type { BackupVerificationReport } from "../database/utils/backupVerification";
+import { runScheduledBackup } from "../services/backupScheduler";
+import { pushMergedBackup } from "../services/syncService";
 
 type IoniconName = keyof typeof Icon.glyphMap;
 
 // 🔥 Tipo para estados de loading - evita erros de string
-type LoadingKey = "local_bkp" | "cloud_bkp" | "local_res" | "cloud_res" | null;
+type LoadingKey = "local_bkp" | "cloud_bkp" | "local_res" | "cloud_res" | "local_ver" | null;
+
+// "verificar" só testa o backup em um banco temporário (não restaura)
+type RestoreMode = "substituir" | "mesclar" | "verificar";
+
+// 🔑 Pedido de PIN em aberto (definir PIN novo ou abrir backup protegido)
+type PinRequest = {
+  title: string;
+  message: string;
+  confirmar?: boolean;
+  onConfirm: (pin: string) => void;
+};
+
+// 📌 Rótulos das etapas do restore NDJSON
+const RESTORE_ETAPAS: Record<RestoreProgress["etapa"], string> = {
+  validando: "Validando arquivo",
+  bairros: "Restaurando bairros",
+  ruas: "Restaurando ruas",
+  clients: "Restaurando clientes",
+  client_field_versions: "Restaurando versões dos clientes",
+  sales: "Restaurando vendas a prazo",
+  installments: "Restaurando parcelas",
+  payments: "Restaurando pagamentos",
+  payment_allocations: "Restaurando abatimentos",
+  late_fee_waivers: "Restaurando encargos dispensados",
+  logs: "Restaurando histórico",
+  finalizando: "Aplicando dados restaurados",
+  verificando: "Verificando banco temporário",
+};
+
+// 📌 Arquivos aceitos na restauração local
+const isBackupFile = (name?: string | null) =>
+  !!name && (name.endsWith(".db") || name.endsWith(SEALED_BACKUP_EXTENSION) || /\.ndjson(\.gz)?$/.test(name));
 
 export default function BackupScreen() {
   const navigation = useNavigation();
   const { user } = useAuth();
   const [loading, setLoading] = useState<LoadingKey>(null);
+  const [restoreProgress, setRestoreProgress] = useState<RestoreProgress | null>(null);
+  const [mergePreview, setMergePreview] = useState<MergeBackupPreview | null>(null);
+  const [applyingMerge, setApplyingMerge] = useState(false);
+  const [backupPin, setBackupPin] = useState<string | null>(null);
+  const [pinRequest, setPinRequest] = useState<PinRequest | null>(null);
+  const [verification, setVerification] = useState<BackupVerificationReport | null>(null);
   
   // 🎣 Hook para gerenciar histórico de backups
   const {
@@ -49,6 +113,13 @@ export default function BackupScreen() {
     loadBackupHistory,
   } = useBackupHistory();
 
+  // 🔑 PIN do backup salvo neste aparelho
+  useEffect(() => {
+    getBackupPin()
+      .then(setBackupPin)
+      .catch((e) => console.error("Erro ao carregar PIN do backup:", e));
+  }, []);
+
   // 🎨 Animações do Status Card
   const cardOpacity = useSharedValue(0);
   const cardScale = useSharedValue(0.95);
@@ -143,15 +214,60 @@ export default function BackupScreen() {
   //    - Melhor UX em apps grandes
   const notify = (title: string, msg: string) => Alert.alert(title, msg);
 
-  const handleBackupLocal = async () => {
+  // 🔑 Pede um PIN novo (confirmado duas vezes) e salva neste aparelho
+  const requestNewPin = (onSaved?: (pin: string) => void) => {
+    setPinRequest({
+      title: backupPin ? "Alterar PIN do backup" : "Definir PIN do backup",
+      message:
+        "Os backups são comprimidos e criptografados com este PIN. " +
+        "Guarde-o em local seguro: sem ele não é possível restaurar.",
+      confirmar: true,
+      onConfirm: async (pin) => {
+        try {
+          await saveBackupPin(pin);
+          const primeiroPin = !backupPin;
+          setBackupPin(pin);
+          setPinRequest(null);
+          onSaved?.(pin);
+          // ⏰ Com o primeiro PIN o backup automático passa a rodar
+          if (primeiroPin) runScheduledBackup();
+        } catch (e: any) {
+          notify("❌ Erro", e?.message || "Não foi possível salvar o PIN do backup.");
+        }
+      },
+    });
+  };
+
+  // 🔑 Usa o PIN salvo; sem PIN, pede para definir antes de continuar
+  const withBackupPin = (action: (pin: string) => void) => {
+    if (backupPin) {
+      action(backupPin);
+      return;
+    }
+    requestNewPin(action);
+  };
+
+  // 🔑 Backup protegido com outro PIN (ex: aparelho novo): pede o PIN e tenta de novo
+  const askPinAndRetry = (message: string, retry: (pin: string) => void) => {
+    setPinRequest({
+      title: "PIN do backup",
+      message,
+      onConfirm: (pin) => {
+        setPinRequest(null);
+        retry(pin);
+      },
+    });
+  };
+
+  const runBackupLocal = async (pin: string) => {
     setLoading("local_bkp");
     try {
       // ✅ Tipado com BackupResult - TypeScript valida automaticamente
-      const result: BackupResult = await backupLocal();
+      const result: BackupResult = await backupLocal(pin);
 
       if (result.success && result.path) {
         await saveBackupHistory({ type: "local", timestamp: Date.now() });
-        notify("✅ Sucesso", `Backup salvo na pasta Downloads!`);
+        notify("✅ Sucesso", `Backup protegido salvo na pasta Downloads!`);
       } else {
         notify("❌ Erro", "Falha ao criar backup local.");
       }
@@ -162,15 +278,14 @@ export default function BackupScreen() {
     }
   };
 
-  const handleBackupNuvem = async () => {
-    if (!user) {
-      notify("❌ Erro", "Você precisa estar logado para fazer backup na nuvem.");
-      return;
-    }
+  const handleBackupLocal = () => withBackupPin(runBackupLocal);
+
+  const runBackupNuvem = async (pin: string) => {
+    if (!user) return;
 
     setLoading("cloud_bkp");
     try {
-      await backupFirebase(user.uid);
+      await backupFirebase(user.uid, pin);
       await saveBackupHistory({ type: "cloud", timestamp: Date.now() });
       notify("☁️ Sucesso", "Dados enviados para a nuvem!");
     } catch (e) {
@@ -180,99 +295,202 @@ export default function BackupScreen() {
     }
   };
 
+  const handleBackupNuvem = () => {
+    if (!user) {
+      notify("❌ Erro", "Você precisa estar logado para fazer backup na nuvem.");
+      return;
+    }
+    withBackupPin(runBackupNuvem);
+  };
+
   const handleRestoreLocal = async () => {
-    // ⚠️ Confirmação antes de restaurar (operação destrutiva)
+    // ⚠️ Confirmação antes de restaurar (substituir é destrutivo)
     Alert.alert(
       "⚠️ Restaurar Backup",
-      "Esta ação irá substituir todos os dados atuais pelo backup selecionado.\n\n" +
-      "Um backup de segurança será criado automaticamente antes da restauração.\n\n" +
-      "Deseja continuar?",
+      "Substituir: apaga os dados atuais e usa somente o backup selecionado.\n\n" +
+      "Mesclar (backup NDJSON): traz do backup o que falta, mantendo os registros criados depois dele. " +
+      "Você verá uma prévia antes de confirmar.\n\n" +
+      "Como deseja restaurar?",
       [
         {
           text: "Cancelar",
           style: "cancel",
         },
         {
-          text: "Continuar",
+          text: "Mesclar",
+          onPress: () => restoreLocalFile("mesclar"),
+        },
+        {
+          text: "Substituir",
           style: "destructive",
-          onPress: async () => {
-            setLoading("local_res");
-            try {
-              // Seleciona arquivo de backup
-              const res = await DocumentPicker.pick({
-                type: [DocumentPicker.types.allFiles],
-                copyTo: "cachesDirectory", // Copia para cache para garantir acesso
-              });
-
-              if (!res || res.length === 0) {
-                setLoading(null);
-                return;
-              }
-
-              const pickedFile = res[0];
-              
-              // Verifica se é arquivo .db
-              if (!pickedFile.name?.endsWith(".db")) {
-                notify(
-                  "❌ Arquivo Inválido",
-                  "Por favor, selecione um arquivo de backup (.db) válido."
-                );
-                setLoading(null);
-                return;
-              }
-
-              // Usa o URI do arquivo selecionado
-              let backupPath = pickedFile.uri;
-              
-              // Se o arquivo foi copiado para cache, usa o caminho do cache
-              if (pickedFile.fileCopyUri) {
-                backupPath = pickedFile.fileCopyUri;
-              }
-
-              // Remove prefixo "file://" se necessário
-              backupPath = backupPath.replace(/^file:\/\//, "");
-
-              // Restaura o backup
-              const result: RestoreResult = await restoreLocal(backupPath);
-              
-              if (result.success) {
-                Alert.alert(
-                  "✅ Sucesso",
-                  result.message || "Backup restaurado com sucesso!\n\n" +
-                  "⚠️ IMPORTANTE: Reinicie o aplicativo para aplicar as mudanças.",
-                  [
-                    {
-                      text: "OK",
-                      onPress: () => {
-                        // Recarrega histórico após restauração
-                        loadBackupHistory();
-                      },
-                    },
-                  ]
-                );
-              } else {
-                notify("❌ Erro", result.message || "Falha ao restaurar backup local.");
-              }
-            } catch (e: any) {
-              // Ignora erro de cancelamento do DocumentPicker
-              if (DocumentPicker.isCancel(e)) {
-                // Usuário cancelou a seleção
-              } else {
-                console.error("Erro ao restaurar backup local:", e);
-                notify(
-                  "❌ Erro",
-                  e?.message || "Falha ao restaurar backup local. Verifique se o arquivo é válido."
-                );
-              }
-            } finally {
-              setLoading(null);
-            }
-          },
+          onPress: () => restoreLocalFile("substituir"),
         },
       ]
     );
   };
 
+  const restoreLocalFile = async (modo: RestoreMode) => {
+    let backupPath: string | null = null;
+
+    setLoading(modo === "verificar" ? "local_ver" : "local_res");
+    try {
+      // Seleciona arquivo de backup
+      const res = await DocumentPicker.pick({
+        type: [DocumentPicker.types.allFiles],
+        copyTo: "cachesDirectory", // Copia para cache para garantir acesso
+      });
+
+      if (!res || res.length === 0) {
+        return;
+      }
+
+      const pickedFile = res[0];
+
+      // Verifica se é um arquivo de backup (.crdb, .db ou .ndjson)
+      if (!isBackupFile(pickedFile.name)) {
+        notify(
+          "❌ Arquivo Inválido",
+          "Por favor, selecione um arquivo de backup (.crdb, .db ou .ndjson) válido."
+        );
+        return;
+      }
+
+      // Usa o URI do arquivo selecionado
+      backupPath = pickedFile.uri;
+
+      // Se o arquivo foi copiado para cache, usa o caminho do cache
+      if (pickedFile.fileCopyUri) {
+        backupPath = pickedFile.fileCopyUri;
+      }
+
+      // Remove prefixo "file://" se necessário
+      backupPath = backupPath.replace(/^file:\/\//, "");
+    } catch (e: any) {
+      // Ignora erro de cancelamento do DocumentPicker
+      if (!DocumentPicker.isCancel(e)) {
+        console.error("Erro ao selecionar backup local:", e);
+        notify("❌ Erro", "Falha ao abrir o arquivo de backup.");
+      }
+    } finally {
+      setLoading(null);
+    }
+
+    if (backupPath) {
+      await restorePickedFile(backupPath, modo, backupPin);
+    }
+  };
+
+  // 🔐 Abre o arquivo (decifra e verifica com o PIN) antes de tocar no banco
+  const restorePickedFile = async (backupPath: string, modo: RestoreMode, pin: string | null) => {
+    let opened: OpenedBackupFile | null = null;
+
+    setLoading(modo === "verificar" ? "local_ver" : "local_res");
+    try {
+      opened = await openBackupFile(backupPath, pin);
+
+      // 🩺 Verificação: restore de teste em banco temporário (banco atual intacto)
+      if (modo === "verificar") {
+        setVerification(await verifyBackupFile(opened.path, opened.conteudo, setRestoreProgress));
+        return;
+      }
+
+      // 🔀 Mesclagem: monta a prévia e espera a confirmação no modal
+      if (modo === "mesclar") {
+        // ⚠️ Cópia do banco inteiro (.db) só pode substituir
+        if (opened.conteudo !== "ndjson") {
+          notify(
+            "❌ Arquivo Inválido",
+            "A mesclagem só funciona com backups NDJSON. Para cópias do banco, use Substituir."
+          );
+          return;
+        }
+        setMergePreview(await previewMergeBackup(opened.path, setRestoreProgress));
+        return;
+      }
+
+      // ✅ Backup NDJSON: restore em streaming (sem reiniciar o app)
+      if (opened.conteudo === "ndjson") {
+        const restored = await restoreBackup(opened.path, setRestoreProgress);
+        notify(
+          "✅ Sucesso",
+          `Backup restaurado!\n\n` +
+          `Clientes: ${restored.clientCount}\n` +
+          `Pagamentos: ${restored.paymentCount}\n` +
+          `Logs: ${restored.logCount}\n` +
+          `Bairros: ${restored.bairroCount}\n` +
+          `Ruas: ${restored.ruaCount}\n` +
+          `Vendas a prazo: ${restored.saleCount}`
+        );
+        loadBackupHistory();
+        return;
+      }
+
+      // Restaura o backup
+      const result: RestoreResult = await restoreLocal(opened.path);
+
+      if (result.success) {
+        Alert.alert(
+          "✅ Sucesso",
+          result.message || "Backup restaurado com sucesso!\n\n" +
+          "⚠️ IMPORTANTE: Reinicie o aplicativo para aplicar as mudanças.",
+          [
+            {
+              text: "OK",
+              onPress: () => {
+                // Recarrega histórico após restauração
+                loadBackupHistory();
+              },
+            },
+          ]
+        );
+      } else {
+        notify("❌ Erro", result.message || "Falha ao restaurar backup local.");
+      }
+    } catch (e: any) {
+      if (e instanceof BackupPinError) {
+        askPinAndRetry(e.message, (novoPin) => restorePickedFile(backupPath, modo, novoPin));
+        return;
+      }
+      console.error(`Erro ao ${modo === "verificar" ? "verificar" : "restaurar"} backup local:`, e);
+      notify(
+        "❌ Erro",
+        e?.message || "Falha ao abrir o backup local. Verifique se o arquivo é válido."
+      );
+    } finally {
+      if (opened?.temporario) {
+        RNFS.unlink(opened.path).catch(() => {});
+      }
+      setLoading(null);
+      setRestoreProgress(null);
+    }
+  };
+
+  const handleApplyMerge = async () => {
+    if (!mergePreview) return;
+
+    setApplyingMerge(true);
+    try {
+      const { plan } = mergePreview;
+      const merge = await applyMergeBackup(plan);
+      if (user) pushMergedBackup(user.uid, merge);
+      setMergePreview(null);
+      notify(
+        "✅ Sucesso",
+        `Backup mesclado!\n\n` +
+        `Clientes novos: ${plan.clients.novos.length}\n` +
+        `Clientes atualizados: ${plan.clients.alterados.length}\n` +
+        `Conflitos mantidos: ${plan.clients.conflitos.length}\n` +
+        `Pagamentos novos: ${plan.payments.novos.length}`
+      );
+      loadBackupHistory();
+    } catch (e: any) {
+      console.error("Erro ao mesclar backup:", e);
+      notify("❌ Erro", e?.message || "Falha ao mesclar backup. Nenhum dado foi alterado.");
+    } finally {
+      setApplyingMerge(false);
+    }
+  };
+
   const handleRestoreCloud = async () => {
     if (!user) {
       notify("❌ Erro", "Você precisa estar logado para restaurar backup da nuvem.");
@@ -284,6 +502,7 @@ export default function BackupScreen() {
       "⚠️ Restaurar Backup da Nuvem",
       "Esta ação irá substituir todos os dados atuais pelo backup mais recente da nuvem.\n\n" +
       "Um backup de segurança será criado automaticamente antes da restauração.\n\n" +
+      "Para manter os registros criados depois do backup, use Restaurar Local com um backup NDJSON e escolha Mesclar.\n\n" +
       "Deseja continuar?",
       [
         {
@@ -293,45 +512,50 @@ export default function BackupScreen() {
         {
           text: "Continuar",
           style: "destructive",
-          onPress: async () => {
-            setLoading("cloud_res");
-            try {
-              // Restaura o backup mais recente da nuvem
-              const result: RestoreResult = await restoreFirebase(user.uid);
-              
-              if (result.success) {
-                Alert.alert(
-                  "✅ Sucesso",
-                  result.message || "Backup da nuvem restaurado com sucesso!\n\n" +
-                  "⚠️ IMPORTANTE: Reinicie o aplicativo para aplicar as mudanças.",
-                  [
-                    {
-                      text: "OK",
-                      onPress: () => {
-                        // Recarrega histórico após restauração
-                        loadBackupHistory();
-                      },
-                    },
-                  ]
-                );
-              } else {
-                notify("❌ Erro", result.message || "Falha ao restaurar backup da nuvem.");
-              }
-            } catch (e: any) {
-              console.error("Erro ao restaurar backup da nuvem:", e);
-              notify(
-                "❌ Erro",
-                e?.message || "Falha ao restaurar backup da nuvem. Verifique sua conexão."
-              );
-            } finally {
-              setLoading(null);
-            }
-          },
+          onPress: () => runRestoreCloud(backupPin),
         },
       ]
     );
   };
 
+  const runRestoreCloud = async (pin: string | null) => {
+    if (!user) return;
+
+    setLoading("cloud_res");
+    try {
+      // Restaura o backup mais recente da nuvem (decifrado e verificado antes)
+      const result: RestoreResult = await restoreFirebase(user.uid, pin);
+
+      if (result.success) {
+        Alert.alert(
+          "✅ Sucesso",
+          result.message || "Backup da nuvem restaurado com sucesso!\n\n" +
+          "⚠️ IMPORTANTE: Reinicie o aplicativo para aplicar as mudanças.",
+          [
+            {
+              text: "OK",
+              onPress: () => {
+                // Recarrega histórico após restauração
+                loadBackupHistory();
+              },
+            },
+          ]
+        );
+      } else if (result.pinInvalido) {
+        askPinAndRetry(result.message || "Informe o PIN do backup.", runRestoreCloud);
+      } else {
+        notify("❌ Erro", result.message || "Falha ao restaurar backup da nuvem.");
+      }
+    } catch (e: any) {
+      console.error("Erro ao restaurar backup da nuvem:", e);
+      notify(
+        "❌ Erro",
+        e?.message || "Falha ao restaurar backup da nuvem. Verifique sua conexão."
+      );
+    } finally {
+      setLoading(null);
+    }
+  };
 
   return (
     <View style={styles.root}>
@@ -377,6 +601,39 @@ export default function BackupScreen() {
           </View>
         </Animated.View>
 
+        {/* 🔑 Seção PROTEÇÃO */}
+        <BackupSection
+          title="Proteção dos Backups"
+          subtitle={
+            backupPin
+              ? "Backups criptografados com PIN · backup automático diário ativo"
+              : "Defina um PIN para criar backups e ativar o backup automático"
+          }
+          icon="lock-closed-outline"
+          iconColor="#166534"
+          iconBg="#DCFCE7"
+        >
+          <ActionButton
+            label={backupPin ? "Alterar PIN" : "Definir PIN"}
+            icon="key-outline"
+            color="#166534"
+            loading={false}
+            onPress={() => requestNewPin()}
+            outline
+            testID="backup-pin"
+          />
+          <View style={{ width: 12 }} />
+          <ActionButton
+            label="Verificar Backup"
+            icon="medkit-outline"
+            color="#166534"
+            loading={loading === "local_ver"}
+            onPress={() => restoreLocalFile("verificar")}
+            outline
+            testID="backup-verify"
+          />
+        </BackupSection>
+
         {/* 📱 Seção LOCAL */}
         <BackupSection
           title="Armazenamento Local"
@@ -405,6 +662,23 @@ export default function BackupScreen() {
           />
         </BackupSection>
 
+        {/* ⏳ Progresso do restore NDJSON */}
+        {restoreProgress && (
+          <View style={styles.progressCard}>
+            <ActivityIndicator color="#EA580C" />
+            <View style={{ flex: 1, marginLeft: 12 }}>
+              <Text style={styles.progressTitle}>{RESTORE_ETAPAS[restoreProgress.etapa]}</Text>
+              <Text style={styles.progressSub}>
+                {restoreProgress.etapa === "verificando"
+                  ? "Integridade, schema, contagens e somas"
+                  : restoreProgress.etapa === "validando"
+                  ? `${restoreProgress.processados} registros lidos`
+                  : `${restoreProgress.processados} de ${restoreProgress.total} registros`}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* ☁️ Seção NUVEM */}
         <BackupSection
           title="Sincronização Nuvem"
@@ -488,6 +762,27 @@ export default function BackupScreen() {
         
         <View style={{ height: 20 }} />
       </ScrollView>
+
+      {/* 🩺 Relatório da verificação */}
+      <BackupVerificationModal report={verification} onClose={() => setVerification(null)} />
+
+      {/* 🔑 PIN do backup */}
+      <BackupPinModal
+        visible={!!pinRequest}
+        title={pinRequest?.title ?? ""}
+        message={pinRequest?.message ?? ""}
+        confirmar={pinRequest?.confirmar}
+        onCancel={() => setPinRequest(null)}
+        onConfirm={(pin) => pinRequest?.onConfirm(pin)}
+      />
+
+      {/* 🔀 Prévia da mesclagem */}
+      <MergePreviewModal
+        preview={mergePreview}
+        applying={applyingMerge}
+        onCancel={() => setMergePreview(null)}
+        onApply={handleApplyMerge}
+      />
     </View>
   );
 }
@@ -618,6 +913,21 @@ const styles = StyleSheet.create({
   },
   btnText: { color: "#FFF", fontWeight: "600", fontSize: 14 },
 
+  // Progresso do restore
+  progressCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFF7ED",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#FED7AA",
+    padding: 14,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  progressTitle: { fontSize: 14, fontWeight: "600", color: "#9A3412" },
+  progressSub: { fontSize: 12, color: "#C2410C", marginTop: 2 },
+
   // Histórico
   sectionHeaderLabel: {
     fontSize: 12,
@@ -0,0 +1,249 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  RefreshControl,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import { useNavigation } from "@react-navigation/native";
+import { useFechamentoCaixa } from "../hooks/useFechamentoCaixa";
+import { PAYMENT_METHODS } from "../constants/paymentMethods";
+import { formatDateIso } from "../database/utils";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+
+// ✅ Constantes globais
+const DEFAULT_HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+
+/**
+ * 🧮 Fechamento de caixa do dia
+ * Soma os pagamentos do dia por forma de pagamento e confere o dinheiro entregue
+ */
+export default function CashClosingScreen() {
+  const navigation = useNavigation<any>();
+  const [dia, setDia] = useState(new Date());
+  const [dinheiroEntregue, setDinheiroEntregue] = useState("");
+
+  const dataISO = formatDateIso(dia);
+  const isHoje = dataISO === formatDateIso(new Date());
+  const { fechamento, loading, refreshing, refresh } = useFechamentoCaixa(dataISO);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Fechamento de Caixa",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const changeDay = (delta: number) => {
+    const next = new Date(dia);
+    next.setDate(next.getDate() + delta);
+    setDia(next);
+    setDinheiroEntregue("");
+  };
+
+  // 💵 Conferência: dinheiro entregue x dinheiro registrado no app
+  const conferencia = useMemo(() => {
+    const entregue = parseFloat(dinheiroEntregue.replace(",", "."));
+    if (!fechamento || isNaN(entregue)) return null;
+
+    const registrado = fechamento.porMetodo.find((m) => m.metodo === "dinheiro")?.total ?? 0;
+    const diferenca = Math.round((entregue - registrado) * 100) / 100;
+    return { registrado, diferenca };
+  }, [dinheiroEntregue, fechamento]);
+
+  if (loading)
+    return <ActivityIndicator size="large" color="#0056b3" style={{ flex: 1 }} />;
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      {/* 📅 Seletor de dia */}
+      <View style={s.dayBar}>
+        <TouchableOpacity onPress={() => changeDay(-1)} hitSlop={DEFAULT_HIT_SLOP}>
+          <Icon name="chevron-back" size={24} color="#0056b3" />
+        </TouchableOpacity>
+        <Text style={s.dayText}>{isHoje ? `Hoje, ${formatDateBR(dataISO)}` : formatDateBR(dataISO)}</Text>
+        <TouchableOpacity onPress={() => changeDay(1)} disabled={isHoje} hitSlop={DEFAULT_HIT_SLOP}>
+          <Icon name="chevron-forward" size={24} color={isHoje ? "#CBD5E1" : "#0056b3"} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={s.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* 💰 Total do dia */}
+        <View style={s.totalCard}>
+          <Text style={s.totalLabel}>Total recebido</Text>
+          <Text style={s.totalValue}>{formatCurrency(fechamento?.total ?? 0)}</Text>
+          <Text style={s.totalSub}>{fechamento?.quantidade ?? 0} pagamentos</Text>
+        </View>
+
+        {/* 💳 Por forma de pagamento */}
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Por forma de pagamento</Text>
+          {PAYMENT_METHODS.map((config, index) => {
+            const item = fechamento?.porMetodo.find((m) => m.metodo === config.key);
+            return (
+              <View key={config.key} style={[s.methodRow, index === PAYMENT_METHODS.length - 1 && s.methodRowLast]}>
+                <View style={[s.methodIcon, { backgroundColor: `${config.color}1A` }]}>
+                  <Icon name={config.icon} size={18} color={config.color} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={s.methodLabel}>{config.label}</Text>
+                  <Text style={s.methodCount}>{item?.quantidade ?? 0} pagamentos</Text>
+                </View>
+                <Text style={s.methodTotal}>{formatCurrency(item?.total ?? 0)}</Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* 💵 Conferência do dinheiro */}
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Conferência do dinheiro</Text>
+          <Text style={s.inputLabel}>Dinheiro entregue (R$)</Text>
+          <TextInput
+            style={s.input}
+            placeholder="0,00"
+            keyboardType="numeric"
+            value={dinheiroEntregue}
+            onChangeText={setDinheiroEntregue}
+          />
+
+          {conferencia && (
+            <View
+              style={[
+                s.result,
+                conferencia.diferenca === 0 ? s.resultOk : conferencia.diferenca > 0 ? s.resultSobra : s.resultFalta,
+              ]}
+            >
+              <Icon
+                name={conferencia.diferenca === 0 ? "checkmark-circle" : "alert-circle"}
+                size={20}
+                color={conferencia.diferenca === 0 ? "#16A34A" : conferencia.diferenca > 0 ? "#2563EB" : "#DC2626"}
+              />
+              <Text style={s.resultText}>
+                {conferencia.diferenca === 0
+                  ? "Caixa confere com o registrado no app"
+                  : conferencia.diferenca > 0
+                    ? `Sobra de ${formatCurrency(conferencia.diferenca)}`
+                    : `Falta de ${formatCurrency(Math.abs(conferencia.diferenca))}`}
+              </Text>
+            </View>
+          )}
+          {conferencia && (
+            <Text style={s.resultSub}>Registrado em dinheiro: {formatCurrency(conferencia.registrado)}</Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  dayBar: {
+    backgroundColor: "#E2E8F0",
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#CBD5E1",
+  },
+  dayText: { fontSize: 15, fontWeight: "700", color: "#1E293B" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  totalCard: {
+    backgroundColor: "#0056b3",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    alignItems: "center",
+  },
+  totalLabel: { color: "#BFDBFE", fontSize: 13, fontWeight: "600", textTransform: "uppercase" },
+  totalValue: { color: "#FFF", fontSize: 32, fontWeight: "800", marginTop: 4 },
+  totalSub: { color: "#BFDBFE", fontSize: 13, marginTop: 2 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  methodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  methodRowLast: { borderBottomWidth: 0 },
+  methodIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  methodLabel: { fontSize: 15, fontWeight: "600", color: "#1E293B" },
+  methodCount: { fontSize: 12, color: "#94A3B8", marginTop: 2 },
+  methodTotal: { fontSize: 16, fontWeight: "700", color: "#1E293B" },
+
+  inputLabel: { fontSize: 14, color: "#64748B", marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#FAFAFA",
+  },
+
+  result: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 12,
+  },
+  resultOk: { backgroundColor: "#F0FDF4" },
+  resultSobra: { backgroundColor: "#EFF6FF" },
+  resultFalta: { backgroundColor: "#FEF2F2" },
+  resultText: { marginLeft: 8, fontSize: 14, fontWeight: "600", color: "#1E293B", flex: 1 },
+  resultSub: { fontSize: 12, color: "#94A3B8", marginTop: 6 },
+});
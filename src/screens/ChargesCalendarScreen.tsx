@@ -0,0 +1,293 @@
+import React, { useState, useMemo, useLayoutEffect, useCallback, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  RefreshControl,
+  ActivityIndicator,
+  PanResponder,
+} from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import { useNavigation } from "@react-navigation/native";
+import { useChargesCalendar } from "../hooks/useChargesCalendar";
+import type { CalendarDay } from "../types/charges";
+import { buildMonthGrid, formatMonthTitle } from "../utils/chargesCalculations";
+import { startOfMonthOf, todayISO } from "../database/utils";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+
+const DIAS_SEMANA_CURTOS = ["D", "S", "T", "Q", "Q", "S", "S"];
+const DEFAULT_HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+
+// ✅ Distância mínima do gesto para trocar de mês
+const SWIPE_THRESHOLD = 50;
+
+// 💰 Valor curto para caber na célula (R$ 1.250 → "1,3k")
+const formatCompact = (value: number): string =>
+  value >= 1000 ? `${(value / 1000).toFixed(1).replace(".", ",")}k` : String(Math.round(value));
+
+/**
+ * 📅 Agenda mensal de cobranças
+ * Clientes e valor previsto por dia, com atrasos e hoje em destaque
+ * Deslize para os lados para trocar de mês; toque no dia para ver os clientes
+ */
+export default function ChargesCalendarScreen() {
+  const navigation = useNavigation<any>();
+  const hoje = todayISO();
+  const [mesISO, setMesISO] = useState(() => startOfMonthOf(hoje));
+  const { cobrancas, loading, refreshing, refresh } = useChargesCalendar(mesISO);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Agenda do Mês",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const weeks = useMemo(() => buildMonthGrid(mesISO, cobrancas, hoje), [mesISO, cobrancas, hoje]);
+
+  const totais = useMemo(
+    () =>
+      cobrancas.reduce(
+        (acc, dia) => ({
+          clientes: acc.clientes + dia.clientes,
+          previsto: acc.previsto + dia.previsto,
+          atrasados: acc.atrasados + (dia.data < hoje ? dia.clientes : 0),
+        }),
+        { clientes: 0, previsto: 0, atrasados: 0 }
+      ),
+    [cobrancas, hoje]
+  );
+
+  const changeMonth = useCallback((delta: number) => {
+    setMesISO((atual) => startOfMonthOf(atual, delta));
+  }, []);
+
+  // 👆 Swipe horizontal troca de mês (vertical continua rolando a tela)
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, g) => Math.abs(g.dx) > 20 && Math.abs(g.dx) > Math.abs(g.dy) * 2,
+      onPanResponderRelease: (_, g) => {
+        if (g.dx <= -SWIPE_THRESHOLD) changeMonth(1);
+        else if (g.dx >= SWIPE_THRESHOLD) changeMonth(-1);
+      },
+    })
+  ).current;
+
+  const handleDayPress = useCallback(
+    (day: CalendarDay) => {
+      navigation.navigate("ClientsByDate", { date: formatDateBR(day.dateISO) });
+    },
+    [navigation]
+  );
+
+  const renderDay = (day: CalendarDay | null, index: number) => {
+    if (!day) return <View key={`vazio-${index}`} style={styles.cell} />;
+
+    return (
+      <TouchableOpacity
+        key={day.dateISO}
+        style={[
+          styles.cell,
+          styles.dayCell,
+          !!day.naoUtil && styles.dayNaoUtil,
+          day.count > 0 && styles.dayWithCharges,
+          day.isOverdue && styles.dayOverdue,
+          day.isToday && styles.dayToday,
+        ]}
+        onPress={() => handleDayPress(day)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`${formatDateBR(day.dateISO)}: ${day.count} cobrança${day.count === 1 ? "" : "s"}${
+          day.count > 0 ? `, ${formatCurrency(day.previsto)}` : ""
+        }${day.isOverdue ? ", atrasado" : ""}${day.naoUtil ? `, ${day.naoUtil}` : ""}`}
+      >
+        <Text style={[styles.dayNumber, !!day.naoUtil && styles.dayNumberNaoUtil, day.isToday && styles.dayNumberToday]}>
+          {day.day}
+        </Text>
+        {day.count > 0 && (
+          <>
+            <Text style={[styles.dayCount, day.isOverdue && styles.textOverdue]}>{day.count}</Text>
+            <Text style={[styles.dayValue, day.isOverdue && styles.textOverdue]} numberOfLines={1}>
+              {formatCompact(day.previsto)}
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.root}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} colors={["#0056b3"]} />}
+      >
+        {/* 📆 Navegação entre meses */}
+        <View style={styles.monthHeader}>
+          <TouchableOpacity
+            onPress={() => changeMonth(-1)}
+            hitSlop={DEFAULT_HIT_SLOP}
+            accessibilityRole="button"
+            accessibilityLabel="Mês anterior"
+          >
+            <Icon name="chevron-back" size={24} color="#0056b3" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setMesISO(startOfMonthOf(hoje))}
+            accessibilityRole="button"
+            accessibilityLabel="Voltar para o mês atual"
+          >
+            <Text style={styles.monthTitle}>{formatMonthTitle(mesISO)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => changeMonth(1)}
+            hitSlop={DEFAULT_HIT_SLOP}
+            accessibilityRole="button"
+            accessibilityLabel="Próximo mês"
+          >
+            <Icon name="chevron-forward" size={24} color="#0056b3" />
+          </TouchableOpacity>
+        </View>
+
+        {/* 🗓️ Grade do mês */}
+        <View style={styles.card} {...panResponder.panHandlers}>
+          <View style={styles.row}>
+            {DIAS_SEMANA_CURTOS.map((dia, index) => (
+              <Text key={index} style={[styles.cell, styles.weekdayLabel]}>
+                {dia}
+              </Text>
+            ))}
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#0056b3" style={styles.loading} />
+          ) : (
+            weeks.map((week, w) => (
+              <View key={w} style={styles.row}>
+                {week.map(renderDay)}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* 💰 Totais do mês */}
+        <View style={styles.card}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Cobranças agendadas</Text>
+            <Text style={styles.summaryValue}>{totais.clientes}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Valor previsto</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(totais.previsto)}</Text>
+          </View>
+          {totais.atrasados > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, styles.textOverdue]}>Atrasadas (dias passados)</Text>
+              <Text style={[styles.summaryValue, styles.textOverdue]}>{totais.atrasados}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* 🏷️ Legenda */}
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, styles.dayToday]} />
+            <Text style={styles.legendText}>Hoje</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, styles.dayOverdue]} />
+            <Text style={styles.legendText}>Atrasado</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, styles.dayNaoUtil]} />
+            <Text style={styles.legendText}>Feriado/folga</Text>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+// 🎨 Estilos
+const styles = StyleSheet.create({
+  root: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  content: { padding: 16, paddingBottom: 40 },
+
+  monthHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 8,
+    marginBottom: 12,
+  },
+  monthTitle: { fontSize: 18, fontWeight: "700", color: "#1E293B" },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 16,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+
+  row: { flexDirection: "row" },
+  cell: { flex: 1, margin: 2, minHeight: 58 },
+  weekdayLabel: {
+    minHeight: 0,
+    textAlign: "center",
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#94A3B8",
+    paddingVertical: 6,
+  },
+
+  dayCell: {
+    alignItems: "center",
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: "transparent",
+    backgroundColor: "#F8FAFC",
+  },
+  dayWithCharges: { backgroundColor: "#EFF6FF" },
+  dayNaoUtil: { backgroundColor: "#E2E8F0" },
+  dayOverdue: { backgroundColor: "#FEE2E2" },
+  dayToday: { borderColor: "#0056b3" },
+
+  dayNumber: { fontSize: 13, fontWeight: "600", color: "#1E293B" },
+  dayNumberNaoUtil: { color: "#94A3B8" },
+  dayNumberToday: { color: "#0056b3", fontWeight: "800" },
+  dayCount: { fontSize: 14, fontWeight: "700", color: "#0056b3", marginTop: 2 },
+  dayValue: { fontSize: 10, color: "#475569" },
+  textOverdue: { color: "#DC2626" },
+
+  loading: { paddingVertical: 40 },
+
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+  },
+  summaryLabel: { fontSize: 14, color: "#64748B" },
+  summaryValue: { fontSize: 15, fontWeight: "700", color: "#1E293B" },
+
+  legend: { flexDirection: "row", justifyContent: "center", flexWrap: "wrap" },
+  legendItem: { flexDirection: "row", alignItems: "center", marginHorizontal: 8, marginBottom: 6 },
+  legendDot: { width: 14, height: 14, borderRadius: 4, borderWidth: 1.5, borderColor: "transparent", marginRight: 6 },
+  legendText: { fontSize: 12, color: "#64748B" },
+});
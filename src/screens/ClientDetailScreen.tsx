@@ -22,16 +22,30 @@ import LinearGradient from "react-native-linear-gradient";
 import { useNavigation, useRoute, useFocusEffect } from "@react-navigation/native";
 import Icon from "react-native-vector-icons/Ionicons";
 import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
-import type { Client } from "../database/types";
-import { deleteClient, getClientById } from "../database/repositories/clientsRepo";
+import type { Client, PaymentMethod } from "../database/types";
+import { deleteClient, restoreClient, getClientById } from "../database/repositories/clientsRepo";
 import { addPayment, marcarClienteAusente } from "../database/repositories/paymentsRepo";
-import { formatDateIso } from "../database/utils";
+import {
+  formatDateIso,
+  todayISO,
+  tomorrowISO,
+  nextChargeDate,
+  describeCadencia,
+  nextWorkingDay,
+} from "../database/utils";
 import { imprimirReciboSimples, imprimirReciboDetalhado } from "../services/PrinterService";
 import { formatCurrency } from "../utils/formatCurrency";
 import { formatDateBR } from "../utils/formatDate";
-import { saveClient } from "../services/syncService";
+import { saveClient, removeClient, restoreClientFromTrash } from "../services/syncService";
 import { useAuth } from "../contexts/AuthContext";
 import { useClientLoader } from "../hooks/useClientLoader";
+import { useClientSales } from "../hooks/useClientSales";
+import { useEncargosCliente } from "../hooks/useEncargosCliente";
+import SaleBalances from "../components/SaleBalances";
+import LateFeesCard from "../components/LateFeesCard";
+import NewSaleModal from "../components/NewSaleModal";
+import PaymentMethodSelector from "../components/PaymentMethodSelector";
+import { DEFAULT_PAYMENT_METHOD } from "../constants/paymentMethods";
 
 // ✅ Função para normalizar input de valor: remove caracteres inválidos e impede múltiplas vírgulas
 const formatValor = (txt: string): string => {
@@ -50,11 +64,31 @@ export default function ClientDetailScreen() {
     route.params as { client?: Client; clientId?: number } | undefined
   );
 
+  // ✅ Contratos (vendas a prazo) do cliente
+  const { sales, openSales, reloadSales } = useClientSales(client?.id);
+  // ✅ Vencimento da parcela em aberto mais antiga (usado quando não há data informada)
+  const proximaParcela = openSales
+    .map((sale) => sale.proximoVencimento)
+    .filter((d): d is string => !!d)
+    .sort()[0] ?? null;
+  // 🔁 Cadência do cliente tem prioridade sobre a parcela quando não há data informada
+  // 🗓️ Datas automáticas caem no próximo dia útil (mesma regra do paymentsRepo)
+  const cadenciaHoje = client ? nextChargeDate(client.cadencia, client.cadenciaDia, todayISO()) : null;
+  const proximaPelaCadencia = cadenciaHoje ? nextWorkingDay(cadenciaHoje) : null;
+  const proximaPadrao = proximaPelaCadencia ?? proximaParcela;
+  const proximaAusente = proximaPelaCadencia ?? nextWorkingDay(tomorrowISO());
+  const proximaAusenteLabel = proximaAusente === tomorrowISO() ? "amanhã" : formatDateBR(proximaAusente);
+
+  // ✅ Multa e juros do vencimento atual (recalcula quando o cliente muda)
+  const { encargos, reloadEncargos } = useEncargosCliente(client);
+
   const [showPicker, setShowPicker] = useState(false);
+  const [showNewSaleModal, setShowNewSaleModal] = useState(false);
   const [showBaixaModal, setShowBaixaModal] = useState(false);
   const [showPrintModal, setShowPrintModal] = useState(false);
   const [showProximaDataPicker, setShowProximaDataPicker] = useState(false);
   const [valorBaixa, setValorBaixa] = useState("");
+  const [metodoBaixa, setMetodoBaixa] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
   const [proximaDataBaixa, setProximaDataBaixa] = useState<Date | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   
@@ -145,6 +179,8 @@ export default function ClientDetailScreen() {
   const openPicker = () => setShowPicker(true);
   const openBaixaModal = () => setShowBaixaModal(true);
   const closeBaixaModal = () => setShowBaixaModal(false);
+  const openNewSaleModal = () => setShowNewSaleModal(true);
+  const closeNewSaleModal = () => setShowNewSaleModal(false);
   const openPrintModal = () => setShowPrintModal(true);
   const closePrintModal = () => setShowPrintModal(false);
   const handleGoBack = () => navigation.goBack();
@@ -214,6 +250,11 @@ export default function ClientDetailScreen() {
     }
     if (printOptions.valorRestante) {
       lines.push(`Falta: ${formatValor(restante >= 0 ? restante : 0)}`);
+      if (encargos && !encargos.dispensado) {
+        lines.push(`Multa: ${formatValor(encargos.multa)}`);
+        lines.push(`Juros: ${formatValor(encargos.juros)}`);
+        lines.push(`Atualizado: ${formatValor(encargos.saldoAtualizado)}`);
+      }
     }
     
     // Endereço (compacto, uma linha se possível)
@@ -265,7 +306,7 @@ export default function ClientDetailScreen() {
       console.error("Erro ao compartilhar:", error);
       Alert.alert("Erro", "Não foi possível compartilhar os dados do cliente.");
     }
-  }, [client, printOptions, showSuccess, closePrintModal]);
+  }, [client, encargos, printOptions, showSuccess, closePrintModal]);
 
   const stopPropagation = (e: any) => e.stopPropagation();
 
@@ -310,20 +351,49 @@ export default function ClientDetailScreen() {
 
     Alert.alert(
       "Excluir cliente",
-      `Tem certeza que deseja excluir "${client.name}"?\nTodos os pagamentos serão apagados.`,
+      `Tem certeza que deseja excluir "${client.name}"?\nO cliente e os pagamentos vão para a lixeira.`,
       [
         { text: "Cancelar", style: "cancel" },
         {
           text: "Excluir",
           style: "destructive",
-          onPress: () => {
-            if (!client.id) return;
-            deleteClient(client.id);
-            showSuccess(`🗑️ Cliente "${client.name}" excluído com sucesso!`);
-            // ✅ Pequeno delay para mostrar o toasty antes de navegar
-            setTimeout(() => {
-              navigation.goBack();
-            }, 500);
+          onPress: async () => {
+            const clientId = client.id;
+            if (!clientId) return;
+            try {
+              // ✅ Logado: também apaga o documento no Firestore (restaurar reenvia)
+              if (user?.uid) {
+                await removeClient(user.uid, clientId);
+              } else {
+                await deleteClient(clientId);
+              }
+            } catch (error) {
+              console.error("❌ Erro ao excluir cliente:", error);
+              Alert.alert("Erro", "Não foi possível excluir o cliente.");
+              return;
+            }
+
+            // ↩️ Desfazer: restaura na hora; OK volta para a lista
+            Alert.alert("🗑️ Cliente na lixeira", `"${client.name}" foi movido para a lixeira.`, [
+              {
+                text: "Desfazer",
+                onPress: async () => {
+                  try {
+                    if (user?.uid) {
+                      await restoreClientFromTrash(user.uid, clientId);
+                    } else {
+                      await restoreClient(clientId);
+                    }
+                    showSuccess(`♻️ Cliente "${client.name}" restaurado!`);
+                  } catch (error) {
+                    console.error("❌ Erro ao restaurar cliente:", error);
+                    Alert.alert("Erro", "Não foi possível restaurar. O cliente continua na lixeira.");
+                    navigation.goBack();
+                  }
+                },
+              },
+              { text: "OK", onPress: () => navigation.goBack() },
+            ]);
           },
         },
       ]
@@ -339,7 +409,9 @@ export default function ClientDetailScreen() {
 
     Alert.alert(
       "Cliente Ausente",
-      "Deseja marcar este cliente como ausente? A próxima cobrança será agendada para amanhã.",
+      proximaPelaCadencia
+        ? `Deseja marcar este cliente como ausente? A próxima cobrança será agendada para ${formatDateBR(proximaPelaCadencia)} (${describeCadencia(client.cadencia, client.cadenciaDia).toLowerCase()}).`
+        : `Deseja marcar este cliente como ausente? A próxima cobrança será agendada para ${proximaAusenteLabel}.`,
       [
         { text: "Cancelar", style: "cancel" },
         {
@@ -353,7 +425,9 @@ export default function ClientDetailScreen() {
               if (updatedClient && user?.uid) {
                 await saveClient(user.uid, updatedClient);
               }
-              showSuccess("🚫 Cliente marcado como ausente. Próxima cobrança: amanhã.");
+              showSuccess(
+                `🚫 Cliente marcado como ausente. Próxima cobrança: ${proximaAusenteLabel}.`
+              );
             } catch (error) {
               console.error("❌ Erro ao marcar cliente como ausente:", error);
               Alert.alert("Erro", "Não foi possível marcar cliente como ausente.");
@@ -422,7 +496,8 @@ export default function ClientDetailScreen() {
     const valorPagoDepois = (client.paid || 0) + valor;
     const aindaRestante = (client.value || 0) - valorPagoDepois;
     
-    if (aindaRestante > 0 && !proximaDataBaixa) {
+    // ✅ Com cadência ou contrato em aberto, a próxima data é definida automaticamente
+    if (aindaRestante > 0 && !proximaDataBaixa && !proximaPadrao) {
       Alert.alert(
         "⚠️ Data Obrigatória",
         "Para pagamento parcial, é necessário informar a data da próxima cobrança.",
@@ -445,10 +520,11 @@ export default function ClientDetailScreen() {
       if (!client.id) throw new Error("ID do cliente inválido");
       
       const proximaDataISO = proximaDataBaixa ? formatDateIso(proximaDataBaixa) : null;
-      await addPayment(client.id, valor, { proximaData: proximaDataISO });
+      await addPayment(client.id, valor, { proximaData: proximaDataISO, metodo: metodoBaixa });
 
       // ✅ 2. Recarrega cliente do banco para pegar o valor atualizado de paid
       await refreshClient();
+      await reloadSales();
       
       // ✅ 3. Pega o cliente atualizado (com paid correto do banco)
       const updatedClient = await getClientById(client.id);
@@ -462,6 +538,7 @@ export default function ClientDetailScreen() {
       setShowBaixaModal(false);
       setValorBaixa("");
       setProximaDataBaixa(null);
+      setMetodoBaixa(DEFAULT_PAYMENT_METHOD);
       showSuccess(`💰 Pagamento de R$ ${valor.toFixed(2)} registrado!`);
     } catch (error) {
       console.error("❌ Erro ao registrar pagamento:", error);
@@ -472,6 +549,19 @@ export default function ClientDetailScreen() {
     }
   };
 
+  // ✅ Após registrar nova venda: recarrega cliente/contratos e sincroniza
+  const handleSaleSaved = async () => {
+    await refreshClient();
+    await reloadSales();
+    if (client?.id && user?.uid) {
+      const updatedClient = await getClientById(client.id);
+      if (updatedClient) {
+        await saveClient(user.uid, updatedClient);
+      }
+    }
+    showSuccess("🧾 Venda registrada com sucesso!");
+  };
+
   // Componente Avatar Grande
   const BigAvatar = ({ name }: { name: string }) => (
     <View style={s.avatarContainer}>
@@ -559,6 +649,12 @@ export default function ClientDetailScreen() {
             </View>
           </View>
 
+          {/* 💸 Multa e juros por atraso */}
+          {encargos && <LateFeesCard client={client} encargos={encargos} onWaived={reloadEncargos} />}
+
+          {/* 🧾 Saldo por contrato */}
+          <SaleBalances sales={sales} onAddSale={openNewSaleModal} />
+
           {/* ⚡ Ações Rápidas (Grid) */}
           <Text style={s.sectionLabel}>Ações Rápidas</Text>
           <View style={s.actionGrid}>
@@ -654,6 +750,10 @@ export default function ClientDetailScreen() {
                     />
                   </View>
 
+                  {/* 💳 Forma de pagamento */}
+                  <Text style={[s.modalLabel, { marginTop: 16 }]}>Forma de pagamento</Text>
+                  <PaymentMethodSelector value={metodoBaixa} onChange={setMetodoBaixa} disabled={isSaving} />
+
                   {/* ✅ V3: Seletor de próxima data (obrigatório para pagamento parcial) */}
                   {(() => {
                     const valor = parseFloat(valorBaixa.replace(",", "."));
@@ -661,6 +761,29 @@ export default function ClientDetailScreen() {
                     const aindaRestante = (client.value || 0) - valorPagoDepois;
                     const isParcial = aindaRestante > 0;
                     
+                    if (isParcial && proximaPadrao) {
+                      return (
+                        <>
+                          <Text style={[s.modalLabel, { marginTop: 16 }]}>
+                            Próxima Cobrança (opcional — padrão:{" "}
+                            {proximaPelaCadencia
+                              ? `${describeCadencia(client.cadencia, client.cadenciaDia).toLowerCase()}, ${formatDateBR(proximaPelaCadencia)}`
+                              : `próxima parcela em ${formatDateBR(proximaPadrao)}`}
+                            )
+                          </Text>
+                          <TouchableOpacity
+                            style={s.dateButton}
+                            onPress={() => setShowProximaDataPicker(true)}
+                          >
+                            <Icon name="calendar-outline" size={20} color="#0056b3" style={{ marginRight: 8 }} />
+                            <Text style={s.dateText}>
+                              {proximaDataBaixa ? formatDateBR(formatDateIso(proximaDataBaixa)) : formatDateBR(proximaPadrao)}
+                            </Text>
+                          </TouchableOpacity>
+                        </>
+                      );
+                    }
+
                     if (isParcial) {
                       return (
                         <>
@@ -703,6 +826,16 @@ export default function ClientDetailScreen() {
         </TouchableWithoutFeedback>
       </Modal>
 
+      {/* MODAL DE NOVA VENDA */}
+      {client.id ? (
+        <NewSaleModal
+          visible={showNewSaleModal}
+          clientId={client.id}
+          onClose={closeNewSaleModal}
+          onSave={handleSaleSaved}
+        />
+      ) : null}
+
       {/* Date Picker (Android/iOS Logic) */}
       {showPicker && (
         <DateTimePicker
@@ -1008,6 +1141,17 @@ const s = StyleSheet.create({
   },
   currencyPrefix: { fontSize: 28, color: "#94A3B8", fontWeight: '600', marginRight: 10 },
   input: { flex: 1, fontSize: 36, fontWeight: "700", color: "#1E293B", minHeight: 50 },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
+  dateText: { fontSize: 16, fontWeight: "600", color: "#0056b3" },
   confirmButton: { backgroundColor: "#16A34A", paddingVertical: 18, borderRadius: 12, alignItems: 'center' },
   confirmButtonDisabled: { opacity: 0.6 },
   confirmButtonText: { color: "#FFF", fontSize: 17, fontWeight: "bold" },
@@ -7,12 +7,25 @@ import {
   ActivityIndicator,
   StatusBar,
   RefreshControl,
+  TouchableOpacity,
+  ScrollView,
 } from "react-native";
 import { useRoute, useNavigation, useFocusEffect, RouteProp } from "@react-navigation/native";
 import Icon from "react-native-vector-icons/Ionicons";
-import type { Log, Client } from "../database/types";
+import type { Log, Client, AuditAction, AuditEntry } from "../database/types";
 import { getLogsByClient } from "../database/repositories/logsRepo";
 import { getClientById } from "../database/repositories/clientsRepo";
+import { getAuditByClient } from "../database/repositories/auditRepo";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_FIELD_LABELS,
+  AUDIT_MONEY_FIELDS,
+  diffAuditSnapshots,
+} from "../database/utils/audit";
+import { getPaymentMethodLabel } from "../constants/paymentMethods";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
 
 // ✅ Tipagem correta para route params
 type RouteParams = {
@@ -31,6 +44,8 @@ type LogSection = {
   data: ValidLog[];
 };
 
+type Modo = "atividades" | "auditoria";
+
 // ✅ Constantes extraídas
 const MONTH_NAMES = [
   "JANEIRO", "FEVEREIRO", "MARÇO", "ABRIL", "MAIO", "JUNHO",
@@ -143,6 +158,32 @@ const processLogs = (rawLogs: Log[] | null | undefined): LogSection[] => {
   return groupLogsByMonth(sorted);
 };
 
+// 🧾 Valor de um campo da auditoria em texto (centavos → moeda)
+const formatAuditValue = (campo: string, valor: string | number | null): string => {
+  if (valor === null || valor === "") return "—";
+  if (AUDIT_MONEY_FIELDS.includes(campo)) return formatCurrency(Number(valor) / 100);
+  if (campo === "status") return valor === "quitado" ? "Quitado" : "Pendente";
+  if (campo === "pagamento_metodo") return getPaymentMethodLabel(String(valor));
+  if (campo === "proximaData" || campo === "pagamento_data") return formatDateBR(String(valor));
+  return String(valor);
+};
+
+// 🧾 Registro de auditoria no formato da timeline (1ª linha = ação, demais = mudanças)
+const auditEntryToLog = (entry: AuditEntry): ValidLog => {
+  const mudancas = diffAuditSnapshots(entry.before, entry.after).map(
+    ({ campo, antes, depois }) =>
+      `${AUDIT_FIELD_LABELS[campo] ?? campo}: ${formatAuditValue(campo, antes)} → ${formatAuditValue(campo, depois)}`
+  );
+  const autor = [entry.actorUid ?? "Sem login", entry.device].filter(Boolean).join(" · ");
+
+  return {
+    id: entry.id,
+    clientId: entry.clientId,
+    created_at: entry.createdAt,
+    descricao: [`🧾 ${AUDIT_ACTION_LABELS[entry.action] ?? entry.action}`, ...mudancas, `Por: ${autor}`].join("\n"),
+  };
+};
+
 // ✅ Extrair e validar clientId de forma segura
 const getClientIdFromParams = (params: RouteParams | undefined): number => {
   if (params && typeof params.clientId === 'number' && params.clientId > 0) {
@@ -162,6 +203,8 @@ export default function ClientLogScreen() {
   const [client, setClient] = useState<Client | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [modo, setModo] = useState<Modo>("atividades");
+  const [filtroAcao, setFiltroAcao] = useState<AuditAction | null>(null);
   const isMountedRef = useRef(true);
 
   // 🎨 Configuração do Header
@@ -189,9 +232,12 @@ export default function ClientLogScreen() {
       setLoading(true);
 
       // ✅ Carregar cliente e logs em paralelo (melhor performance)
+      // 🧾 Auditoria: registros permanentes convertidos para a mesma timeline
       const [c, rawLogs] = await Promise.all([
         getClientById(clientId),
-        getLogsByClient(clientId),
+        modo === "auditoria"
+          ? getAuditByClient(clientId, filtroAcao).then((entries) => entries.map(auditEntryToLog))
+          : getLogsByClient(clientId),
       ]);
 
       if (!isMountedRef.current) return;
@@ -215,7 +261,7 @@ export default function ClientLogScreen() {
         setRefreshing(false);
       }
     }
-  }, [clientId]);
+  }, [clientId, modo, filtroAcao]);
 
   // ✅ Cleanup para prevenir memory leaks
   useEffect(() => {
@@ -319,6 +365,39 @@ export default function ClientLogScreen() {
         </Text>
       </View>
 
+      {/* 🧾 Atividades (texto) x Auditoria financeira (permanente) */}
+      <View style={s.filterBar}>
+        <View style={s.segment}>
+          {(["atividades", "auditoria"] as Modo[]).map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[s.segmentItem, modo === item && s.segmentItemActive]}
+              onPress={() => setModo(item)}
+            >
+              <Text style={[s.segmentText, modo === item && s.segmentTextActive]}>
+                {item === "atividades" ? "Atividades" : "Auditoria"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {modo === "auditoria" && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={s.chips}>
+            {[null, ...AUDIT_ACTIONS].map((acao) => (
+              <TouchableOpacity
+                key={acao ?? "todos"}
+                style={[s.chip, filtroAcao === acao && s.chipActive]}
+                onPress={() => setFiltroAcao(acao)}
+              >
+                <Text style={[s.chipText, filtroAcao === acao && s.chipTextActive]}>
+                  {acao ? AUDIT_ACTION_LABELS[acao] : "Todos"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
       <SectionList
         sections={groupedLogs}
         // ✅ keyExtractor seguro e estável - evita warnings e re-renders
@@ -355,8 +434,14 @@ export default function ClientLogScreen() {
             <View style={s.iconCircle}>
               <Icon name="document-text-outline" size={40} color="#94A3B8" />
             </View>
-            <Text style={s.emptyTitle}>Nenhum log encontrado</Text>
-            <Text style={s.emptySub}>Nenhum log encontrado para este cliente.</Text>
+            <Text style={s.emptyTitle}>
+              {modo === "auditoria" ? "Nenhum registro de auditoria" : "Nenhum log encontrado"}
+            </Text>
+            <Text style={s.emptySub}>
+              {modo === "auditoria"
+                ? "Nenhuma alteração financeira registrada para este cliente."
+                : "Nenhum log encontrado para este cliente."}
+            </Text>
           </View>
         }
       />
@@ -378,6 +463,31 @@ const s = StyleSheet.create({
   },
   infoText: { color: "#475569", fontSize: 13 },
 
+  // Atividades x Auditoria
+  filterBar: { paddingHorizontal: 20, paddingTop: 12 },
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#E2E8F0",
+    borderRadius: 10,
+    padding: 3,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#0056b3" },
+  segmentText: { fontSize: 13, color: "#475569", fontWeight: "600" },
+  segmentTextActive: { color: "#FFF" },
+  chips: { paddingTop: 10, gap: 8 },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "#FFF",
+    borderWidth: 1,
+    borderColor: "#CBD5E1",
+  },
+  chipActive: { backgroundColor: "#0056b3", borderColor: "#0056b3" },
+  chipText: { fontSize: 12, color: "#475569", fontWeight: "600" },
+  chipTextActive: { color: "#FFF" },
+
   listContent: { padding: 20, paddingBottom: 40 },
 
   // Blocos de Mês
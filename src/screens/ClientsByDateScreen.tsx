@@ -16,17 +16,23 @@ import { FlashList } from "@shopify/flash-list";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { debounce } from "lodash";
 import Icon from "react-native-vector-icons/Ionicons";
-import type { Client, ClientesPorRua } from "../database/types";
+import type { Client, ClientesPorRua, EncargosCliente, ReagendamentoLote } from "../database/types";
 import { getClientesAgrupadosPorRua } from "../database/legacy";
-import { getClientesPrioritariosHoje } from "../database/repositories/clientsRepo";
+import { getClientesPrioritariosHoje, rescheduleClients, undoReschedule } from "../database/repositories/clientsRepo";
+import { getEncargosPorClientes } from "../database/repositories/lateFeesRepo";
+import { formatDateIso, normalizeDateToISO } from "../database/utils";
 import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
 import { buildWhatsAppMessage } from "../utils/whatsappMessage";
 import { useFocusEffect } from "@react-navigation/native";
+import { useAuth } from "../contexts/AuthContext";
+import { rescheduleClientsSync, undoRescheduleSync } from "../services/syncService";
 import { useClientsByDate, clearClientsByDateCache } from "../hooks/useClientsByDate";
 import { Colors } from "../theme/colors";
 import { Metrics } from "../theme/metrics";
 import ShimmerCard from "../components/ShimmerCard";
 import ErrorBoundary from "../components/ErrorBoundary";
+import RescheduleModal from "../components/RescheduleModal";
 import { trackScreenView } from "../utils/analytics";
 import { DEV_LOG, DEV_WARN, DEV_ERROR } from "../utils/devLog";
 
@@ -44,6 +50,11 @@ AnimatedCard.displayName = "AnimatedCard";
 // ✅ Componente ClientListItem extraído (evita recriação)
 interface ClientListItemProps {
   client: Client;
+  // ✅ Multa/juros quando a cobrança está vencida
+  encargos?: EncargosCliente;
+  // 📅 Seleção para reagendar em lote (toque longo)
+  selected?: boolean;
+  onLongPress?: (clientId: number) => void;
   onPress: (clientId: number) => void;
   onWhatsapp: (client: Client) => void;
 }
@@ -60,22 +71,27 @@ const getAvatarColor = (() => {
 })();
 
 const ClientListItem = React.memo<ClientListItemProps>(
-  ({ client, onPress, onWhatsapp }) => {
+  ({ client, encargos, selected, onLongPress, onPress, onWhatsapp }) => {
     const avatarColor = getAvatarColor(client.name.charAt(0));
     // ✅ Calcula valor restante (devido - pago), garantindo que não seja negativo
     const remainingValue = Math.max(0, (client.value || 0) - (client.paid || 0));
     return (
-      <View style={styles.card}>
+      <View style={[styles.card, selected && styles.cardSelected]}>
         <TouchableOpacity
           style={styles.cardContent}
           onPress={() => onPress(client.id || 0)}
+          onLongPress={onLongPress ? () => onLongPress(client.id || 0) : undefined}
           activeOpacity={0.7}
           hitSlop={Metrics.hitSlop}
           accessibilityLabel={`Cliente ${client.name}`}
           accessibilityRole="button"
         >
-          <View style={[styles.avatarContainer, { backgroundColor: avatarColor }]}>
-            <Text style={styles.avatarText}>{client.name.charAt(0).toUpperCase()}</Text>
+          <View style={[styles.avatarContainer, { backgroundColor: selected ? Colors.primary : avatarColor }]}>
+            {selected ? (
+              <Icon name="checkmark" size={22} color={Colors.white} />
+            ) : (
+              <Text style={styles.avatarText}>{client.name.charAt(0).toUpperCase()}</Text>
+            )}
           </View>
 
         <View style={styles.infoContainer}>
@@ -85,7 +101,16 @@ const ClientListItem = React.memo<ClientListItemProps>(
           <Text style={styles.clientPhone}>{client.telefone || "Sem telefone"}</Text>
         </View>
 
-        <Text style={styles.clientValue}>{formatCurrency(remainingValue)}</Text>
+        {encargos && !encargos.dispensado ? (
+          <View style={styles.valueContainer}>
+            <Text style={[styles.clientValue, styles.clientValueAtrasado]}>
+              {formatCurrency(encargos.saldoAtualizado)}
+            </Text>
+            <Text style={styles.encargosText}>+ {formatCurrency(encargos.encargos)} encargos</Text>
+          </View>
+        ) : (
+          <Text style={styles.clientValue}>{formatCurrency(remainingValue)}</Text>
+        )}
       </TouchableOpacity>
 
       <View style={styles.separatorVertical} />
@@ -108,6 +133,9 @@ const ClientListItem = React.memo<ClientListItemProps>(
     prevProps.client.telefone === nextProps.client.telefone &&
     prevProps.client.value === nextProps.client.value &&
     prevProps.client.paid === nextProps.client.paid &&
+    prevProps.encargos === nextProps.encargos &&
+    prevProps.selected === nextProps.selected &&
+    prevProps.onLongPress === nextProps.onLongPress &&
     prevProps.onPress === nextProps.onPress &&
     prevProps.onWhatsapp === nextProps.onWhatsapp
 );
@@ -240,6 +268,14 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
   const [showPrioritariosModal, setShowPrioritariosModal] = useState(false);
   const [prioritarios, setPrioritarios] = useState<Client[]>([]);
   const [filterType, setFilterType] = useState<"todos" | "pendentes" | "prioritarios">("todos");
+  const [encargosMap, setEncargosMap] = useState<Map<number, EncargosCliente>>(new Map());
+  const { user } = useAuth();
+
+  // 📅 Reagendamento em lote: seleção por toque longo, rua inteira ou o dia todo
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [rescheduleTarget, setRescheduleTarget] = useState<{ descricao: string; ids: number[] } | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const dataISO = useMemo(() => normalizeDateToISO(date), [date]);
 
   // ✅ Debounce para busca (melhora UX em listas grandes)
   const debouncedSearch = useMemo(
@@ -256,6 +292,16 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
     debouncedSearch(searchQuery);
   }, [searchQuery, debouncedSearch]);
 
+  // ✅ Multa/juros dos clientes vencidos (saldo atualizado na lista)
+  useEffect(() => {
+    const todos = [...clients, ...ruasData.flatMap((rua) => rua.clientes)];
+    getEncargosPorClientes(todos)
+      .then((map) => {
+        if (isMountedRef.current) setEncargosMap(map);
+      })
+      .catch((e) => DEV_ERROR("❌ Erro ao calcular encargos:", e));
+  }, [clients, ruasData]);
+
   // 🎨 Configuração do Header
   useLayoutEffect(() => {
     navigation.setOptions({
@@ -296,7 +342,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
         }
         
         // ✅ V3: Carregar prioritários (apenas se for hoje)
-        const hojeISO = new Date().toISOString().split('T')[0];
+        const hojeISO = formatDateIso();
         if (date === hojeISO) {
           const prioritariosList = await getClientesPrioritariosHoje();
           if (isMountedRef.current && activeRequestRef.current) {
@@ -350,12 +396,140 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
   }, [loadClientsSafe, date]);
 
   // ✅ Handlers memoizados (otimizados para evitar funções inline)
+  // ✅ Liga/desliga cliente na seleção do reagendamento em lote
+  const toggleSelected = useCallback((clientId: number) => {
+    if (!clientId) return;
+    setSelectedIds((atual) => {
+      const novo = new Set(atual);
+      if (novo.has(clientId)) novo.delete(clientId);
+      else novo.add(clientId);
+      return novo;
+    });
+  }, []);
+
   const handleClientPressById = useCallback(
     (clientId: number) => {
+      // 📅 Com seleção ativa, o toque marca/desmarca em vez de abrir o cliente
+      if (selectedIds.size > 0) {
+        toggleSelected(clientId);
+        return;
+      }
       // ✅ Passa apenas clientId para evitar inconsistências com dados atualizados
       (navigation as any).navigate("ClientDetail", { clientId });
     },
-    [navigation]
+    [navigation, selectedIds.size, toggleSelected]
+  );
+
+  // 📅 Só clientes pendentes entram no reagendamento (o repositório confere de novo)
+  const pendingIds = useCallback(
+    (lista: Client[]) => lista.filter((c) => c.id && c.status !== "quitado").map((c) => c.id!),
+    []
+  );
+
+  const openRescheduleDay = useCallback(() => {
+    const todos = [...clients, ...ruasData.flatMap((rua) => rua.clientes)];
+    setRescheduleTarget({
+      descricao: `Todo o dia ${formatDateBR(dataISO || date)}`,
+      ids: [...new Set(pendingIds(todos))],
+    });
+  }, [clients, ruasData, pendingIds, dataISO, date]);
+
+  const openRescheduleRua = useCallback(
+    (rua: ClientesPorRua) => setRescheduleTarget({ descricao: rua.ruaNome, ids: pendingIds(rua.clientes) }),
+    [pendingIds]
+  );
+
+  const openRescheduleSelection = useCallback(() => {
+    const todos = [...clients, ...ruasData.flatMap((rua) => rua.clientes)].filter((c) => c.id && selectedIds.has(c.id));
+    setRescheduleTarget({
+      descricao: `${selectedIds.size} selecionado${selectedIds.size === 1 ? "" : "s"}`,
+      ids: [...new Set(pendingIds(todos))],
+    });
+  }, [clients, ruasData, selectedIds, pendingIds]);
+
+  // ✅ Recarrega esta data e a de destino (os clientes saem daqui e aparecem lá)
+  const refreshAfterReschedule = useCallback(
+    (novaData: string) => {
+      clearClientsByDateCache(date);
+      clearClientsByDateCache(novaData);
+      loadClientsSafe(false);
+    },
+    [date, loadClientsSafe]
+  );
+
+  const handleUndoReschedule = useCallback(
+    async (lote: ReagendamentoLote) => {
+      try {
+        const restaurados = user?.uid ? await undoRescheduleSync(user.uid, lote) : await undoReschedule(lote);
+        refreshAfterReschedule(lote.novaData);
+        const naoVoltaram = lote.clientes.length - restaurados.length;
+        Alert.alert(
+          "↩️ Reagendamento desfeito",
+          naoVoltaram > 0
+            ? `${restaurados.length} cliente(s) voltaram. ${naoVoltaram} foram alterados depois e ficaram como estão.`
+            : `${restaurados.length} cliente(s) voltaram para a data anterior.`
+        );
+      } catch (error) {
+        DEV_ERROR("❌ Erro ao desfazer reagendamento:", error);
+        Alert.alert("Erro", "Não foi possível desfazer o reagendamento.");
+      }
+    },
+    [user?.uid, refreshAfterReschedule]
+  );
+
+  // 📅 Reagendar o dia inteiro (chuva, cobrador doente...)
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={openRescheduleDay}
+          hitSlop={Metrics.hitSlop}
+          style={{ marginRight: 12 }}
+          accessibilityLabel="Reagendar todas as cobranças do dia"
+          accessibilityRole="button"
+        >
+          <Icon name="calendar-outline" size={22} color={Colors.white} />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, openRescheduleDay]);
+
+  const handleConfirmReschedule = useCallback(
+    async (novaData: string) => {
+      if (!rescheduleTarget) return;
+      try {
+        setRescheduling(true);
+        const lote = user?.uid
+          ? await rescheduleClientsSync(user.uid, rescheduleTarget.ids, novaData)
+          : await rescheduleClients(rescheduleTarget.ids, novaData);
+
+        setRescheduleTarget(null);
+        setSelectedIds(new Set());
+        refreshAfterReschedule(lote.novaData);
+
+        if (lote.clientes.length === 0) {
+          Alert.alert("Nada a reagendar", "Nenhum cliente pendente foi movido.");
+          return;
+        }
+
+        // ↩️ Desfazer: volta cada cliente para a data anterior
+        Alert.alert(
+          "📅 Cobranças reagendadas",
+          `${lote.clientes.length} cliente(s) movidos para ${formatDateBR(lote.novaData)}.` +
+            (lote.ignorados > 0 ? `\n${lote.ignorados} ignorado(s) (quitados ou já na data).` : ""),
+          [
+            { text: "Desfazer", onPress: () => handleUndoReschedule(lote) },
+            { text: "OK" },
+          ]
+        );
+      } catch (error) {
+        DEV_ERROR("❌ Erro ao reagendar em lote:", error);
+        Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível reagendar os clientes.");
+      } finally {
+        setRescheduling(false);
+      }
+    },
+    [rescheduleTarget, user?.uid, refreshAfterReschedule, handleUndoReschedule]
   );
 
   const handleSortChange = useCallback((sort: "name" | "value") => {
@@ -481,6 +655,17 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
               <Text style={styles.ruaStatsText}>
                 {item.totalPagos}/{item.totalClientes} pagos
               </Text>
+              <TouchableOpacity
+                style={styles.ruaRescheduleButton}
+                onPress={() => openRescheduleRua(item)}
+                activeOpacity={0.7}
+                hitSlop={Metrics.hitSlop}
+                accessibilityLabel={`Reagendar cobranças da ${item.ruaNome}`}
+                accessibilityRole="button"
+              >
+                <Icon name="calendar-outline" size={14} color={Colors.primary} />
+                <Text style={styles.ruaRescheduleText}>Reagendar</Text>
+              </TouchableOpacity>
             </View>
           </View>
           
@@ -494,6 +679,9 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
             <View key={client.id || idx}>
               <ClientListItem
                 client={client}
+                encargos={client.id ? encargosMap.get(client.id) : undefined}
+                selected={!!client.id && selectedIds.has(client.id)}
+                onLongPress={toggleSelected}
                 onPress={handleClientPressById}
                 onWhatsapp={handleWhatsappByClient}
               />
@@ -502,7 +690,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
         </View>
       );
     },
-    [handleClientPressById, handleWhatsappByClient]
+    [handleClientPressById, handleWhatsappByClient, encargosMap, selectedIds, toggleSelected, openRescheduleRua]
   );
 
   // ✅ Render item memoizado (anima apenas os primeiros 10 itens)
@@ -519,6 +707,9 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
       const content = (
         <ClientListItem
           client={item}
+          encargos={item.id ? encargosMap.get(item.id) : undefined}
+          selected={!!item.id && selectedIds.has(item.id)}
+          onLongPress={toggleSelected}
           onPress={handleClientPressById}
           onWhatsapp={handleWhatsappByClient}
         />
@@ -526,7 +717,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
       // ✅ Anima apenas os primeiros 10 itens (evita replay em scroll)
       return index < 10 ? <AnimatedCard>{content}</AnimatedCard> : content;
     },
-    [handleClientPressById, handleWhatsappByClient]
+    [handleClientPressById, handleWhatsappByClient, encargosMap, selectedIds, toggleSelected]
   );
 
   // ✅ Key extractor estável
@@ -656,7 +847,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
           </View>
           
           {/* ✅ Botão Ver Prioritários (só aparece se houver prioritários e for hoje) */}
-          {prioritarios.length > 0 && date === new Date().toISOString().split('T')[0] && (
+          {prioritarios.length > 0 && date === formatDateIso() && (
             <TouchableOpacity
               style={styles.prioritariosButton}
               onPress={() => setShowPrioritariosModal(true)}
@@ -708,6 +899,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
               showsVerticalScrollIndicator={false}
               contentContainerStyle={styles.listContent}
               renderItem={renderItemGrouped}
+              extraData={selectedIds}
               estimatedItemSize={(Metrics.cardHeight + 20) * 3}
               removeClippedSubviews={true}
               refreshControl={
@@ -734,6 +926,7 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
               showsVerticalScrollIndicator={false}
               contentContainerStyle={styles.listContent}
               renderItem={renderItem}
+              extraData={selectedIds}
               estimatedItemSize={Metrics.cardHeight + 20}
               removeClippedSubviews={true}
               refreshControl={
@@ -755,6 +948,45 @@ export default function ClientsByDateScreen({ route, navigation }: any) {
           )}
         </View>
 
+        {/* 📅 Barra da seleção para reagendar em lote */}
+        {selectedIds.size > 0 && (
+          <View style={styles.selectionBar}>
+            <Text style={styles.selectionText}>
+              {selectedIds.size} selecionado{selectedIds.size === 1 ? "" : "s"}
+            </Text>
+            <TouchableOpacity
+              style={[styles.clearSelectionButton, { marginTop: 0 }]}
+              onPress={() => setSelectedIds(new Set())}
+              activeOpacity={0.7}
+              accessibilityLabel="Limpar seleção"
+              accessibilityRole="button"
+            >
+              <Icon name="close" size={14} color={Colors.white} style={styles.clearSelectionIcon} />
+              <Text style={styles.clearSelectionText}>Limpar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.selectionRescheduleButton}
+              onPress={openRescheduleSelection}
+              activeOpacity={0.7}
+              accessibilityLabel="Reagendar clientes selecionados"
+              accessibilityRole="button"
+            >
+              <Icon name="calendar-outline" size={16} color={Colors.white} />
+              <Text style={styles.selectionRescheduleText}>Reagendar</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <RescheduleModal
+          visible={!!rescheduleTarget}
+          descricao={rescheduleTarget?.descricao ?? ""}
+          quantidade={rescheduleTarget?.ids.length ?? 0}
+          dataAtual={dataISO}
+          saving={rescheduling}
+          onConfirm={handleConfirmReschedule}
+          onClose={() => setRescheduleTarget(null)}
+        />
+
         {/* ✅ V3: Modal de Prioritários */}
         <Modal
           visible={showPrioritariosModal}
@@ -915,6 +1147,17 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: Colors.primary,
   },
+  ruaRescheduleButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  ruaRescheduleText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: Colors.primary,
+    marginLeft: 4,
+  },
   progressBarContainer: {
     height: 4,
     backgroundColor: "#E2E8F0",
@@ -1063,6 +1306,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  cardSelected: {
+    borderColor: Colors.primary,
+    borderWidth: 2,
+  },
   cardContent: {
     flex: 1,
     flexDirection: 'row',
@@ -1093,6 +1340,17 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#0056b3",
   },
+  valueContainer: {
+    alignItems: "flex-end",
+  },
+  clientValueAtrasado: {
+    color: "#DC2626",
+  },
+  encargosText: {
+    fontSize: 11,
+    color: "#94A3B8",
+    marginTop: 2,
+  },
 
   // Ação Lateral
   separatorVertical: {
@@ -1220,6 +1478,36 @@ const styles = StyleSheet.create({
   sortButtonTextActive: {
     color: Colors.primary,
   },
+  selectionBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFF",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#E2E8F0",
+  },
+  selectionText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E293B",
+  },
+  selectionRescheduleButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.primary,
+    paddingHorizontal: Metrics.spacing.m,
+    paddingVertical: Metrics.spacing.s,
+    borderRadius: Metrics.cardRadius / 2,
+    marginLeft: Metrics.spacing.s,
+  },
+  selectionRescheduleText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
   clearSelectionButton: {
     flexDirection: "row",
     alignItems: "center",
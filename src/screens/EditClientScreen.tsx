@@ -21,12 +21,13 @@ import { saveClient } from "../services/syncService";
 import { useAuth } from "../contexts/AuthContext";
 import InputItem from "../components/InputItem";
 import CardSection from "../components/CardSection";
+import CadenceSelector from "../components/CadenceSelector";
 import { formatErrorForDisplay } from "../utils/errorHandler";
 import { VALIDATION_RULES, ValidationHelpers } from "../constants/validationRules";
 import { DEV_LOG, DEV_ERROR } from "../utils/devLog";
 import { Metrics } from "../theme/metrics";
 import { Colors } from "../theme/colors";
-import type { Client } from "../database/types";
+import type { Cadencia, Client } from "../database/types";
 
 // ✅ Tipagem para parâmetros da rota
 interface EditClientScreenParams {
@@ -97,6 +98,11 @@ export default function EditClientScreen() {
 
   const [formData, setFormData] = useState<FormData>(initialFormData);
 
+  // 🔁 Cadência de cobrança (fora do FormData: não é texto digitado)
+  const initialCadencia = { cadencia: client.cadencia ?? null, dia: client.cadenciaDia ?? null };
+  const [cadencia, setCadencia] = useState<{ cadencia: Cadencia | null; dia: number | null }>(initialCadencia);
+  const originalCadenciaRef = useRef(initialCadencia);
+
   const [saving, setSaving] = useState(false);
   const [touched, setTouched] = useState<Record<keyof FormData, boolean>>({
     name: false,
@@ -161,9 +167,11 @@ export default function EditClientScreen() {
       normalizeForCompare(formData.bairro) !== normalizeForCompare(originalDataRef.current.bairro) ||
       normalizeForCompare(formData.numero) !== normalizeForCompare(originalDataRef.current.numero) ||
       normalizeForCompare(formData.referencia) !== normalizeForCompare(originalDataRef.current.referencia) ||
-      normalizeForCompare(formData.telefone) !== normalizeForCompare(originalDataRef.current.telefone)
+      normalizeForCompare(formData.telefone) !== normalizeForCompare(originalDataRef.current.telefone) ||
+      cadencia.cadencia !== originalCadenciaRef.current.cadencia ||
+      cadencia.dia !== originalCadenciaRef.current.dia
     );
-  }, [formData]);
+  }, [formData, cadencia]);
 
   // ✅ Calcula se há mudanças não salvas (usado para BackHandler e navegação)
   // Simplificado: hasChanges já é memoizado e depende de formData
@@ -311,6 +319,8 @@ export default function EditClientScreen() {
         telefone: normalize(formData.telefone),
         next_charge: client.next_charge,
         paid: client.paid,
+        cadencia: cadencia.cadencia,
+        cadenciaDia: cadencia.dia,
       });
 
       // ✅ Atualiza dados originais após salvar (normalizados para evitar falsos positivos)
@@ -322,6 +332,7 @@ export default function EditClientScreen() {
         referencia: formData.referencia.trim(),
         telefone: formData.telefone.trim(),
       };
+      originalCadenciaRef.current = cadencia;
 
       Alert.alert("✅ Sucesso", "Cliente atualizado com sucesso!");
       navigation.goBack();
@@ -335,7 +346,7 @@ export default function EditClientScreen() {
     } finally {
       setSaving(false);
     }
-  }, [isFormValid, hasChanges, formData, user, client, navigation, validationErrors]);
+  }, [isFormValid, hasChanges, formData, cadencia, user, client, navigation, validationErrors]);
 
   // ✅ Handler para voltar
   const handleGoBack = useCallback(() => {
@@ -468,6 +479,16 @@ export default function EditClientScreen() {
           </View>
         </CardSection>
 
+        {/* Seção 2.1: Cadência de cobrança */}
+        <CardSection title="COBRANÇA">
+          <CadenceSelector
+            cadencia={cadencia.cadencia}
+            dia={cadencia.dia}
+            onChange={(novaCadencia, dia) => setCadencia({ cadencia: novaCadencia, dia })}
+            disabled={saving}
+          />
+        </CardSection>
+
         {/* Seção 3: Endereço */}
         <CardSection title="ENDEREÇO">
           <View style={styles.rowInput}>
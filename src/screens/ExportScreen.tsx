@@ -0,0 +1,194 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, StatusBar, ActivityIndicator, Alert } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import Icon from "react-native-vector-icons/Ionicons";
+import {
+  exportClientesCsv,
+  exportPagamentosCsv,
+  exportResumoBairrosCsv,
+  type ExportResult,
+} from "../services/exportService";
+import { EXPORT_PERIODOS, getExportPeriodo, type ExportPeriodoKey } from "../utils/csvExport";
+import { formatCsvDate } from "../utils/csv";
+
+type ExportKey = "clientes" | "pagamentos" | "bairros";
+
+/**
+ * 📤 Exportação de planilhas (CSV) para o contador
+ * Clientes com saldo, pagamentos do período e resumo por bairro
+ */
+export default function ExportScreen() {
+  const navigation = useNavigation<any>();
+  const [periodoKey, setPeriodoKey] = useState<ExportPeriodoKey>("mes_atual");
+  const [exportando, setExportando] = useState<ExportKey | null>(null);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Exportar Planilhas",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const periodo = useMemo(() => getExportPeriodo(periodoKey), [periodoKey]);
+
+  const run = async (key: ExportKey, exportar: () => Promise<ExportResult>) => {
+    if (exportando) return;
+    try {
+      setExportando(key);
+      await exportar();
+    } catch (error) {
+      console.error("Erro ao exportar planilha:", error);
+      Alert.alert("❌ Erro", error instanceof Error ? error.message : "Não foi possível gerar a planilha.");
+    } finally {
+      setExportando(null);
+    }
+  };
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView contentContainerStyle={s.content}>
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Clientes</Text>
+          <Text style={s.helpText}>Todos os clientes com endereço, valor, pago e saldo em aberto.</Text>
+          <ExportButton
+            label="Exportar clientes"
+            loading={exportando === "clientes"}
+            disabled={!!exportando}
+            onPress={() => run("clientes", exportClientesCsv)}
+            testID="export-clientes"
+          />
+        </View>
+
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Período</Text>
+          <View style={s.segment}>
+            {EXPORT_PERIODOS.map((item) => (
+              <TouchableOpacity
+                key={item.key}
+                style={[s.segmentItem, periodoKey === item.key && s.segmentItemActive]}
+                onPress={() => setPeriodoKey(item.key)}
+              >
+                <Text style={[s.segmentText, periodoKey === item.key && s.segmentTextActive]}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={s.periodText}>
+            {formatCsvDate(periodo.inicio)} a {formatCsvDate(periodo.fim)}
+          </Text>
+
+          <Text style={s.sectionLabel}>Pagamentos recebidos no período, com cliente, bairro e forma.</Text>
+          <ExportButton
+            label="Exportar pagamentos"
+            loading={exportando === "pagamentos"}
+            disabled={!!exportando}
+            onPress={() => run("pagamentos", () => exportPagamentosCsv(periodo))}
+            testID="export-pagamentos"
+          />
+
+          <Text style={s.sectionLabel}>Carteira e recebimentos do período somados por bairro.</Text>
+          <ExportButton
+            label="Exportar resumo por bairro"
+            loading={exportando === "bairros"}
+            disabled={!!exportando}
+            onPress={() => run("bairros", () => exportResumoBairrosCsv(periodo))}
+            testID="export-bairros"
+          />
+        </View>
+
+        <Text style={s.footnote}>
+          Arquivos CSV com ";" e vírgula decimal: abrem direto no Excel, LibreOffice ou Google Planilhas.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const ExportButton = ({
+  label,
+  loading,
+  disabled,
+  onPress,
+  testID,
+}: {
+  label: string;
+  loading: boolean;
+  disabled: boolean;
+  onPress: () => void;
+  testID?: string;
+}) => (
+  <TouchableOpacity
+    style={[s.button, disabled && !loading && s.buttonDisabled]}
+    onPress={onPress}
+    disabled={disabled}
+    testID={testID}
+  >
+    {loading ? (
+      <ActivityIndicator color="#FFF" />
+    ) : (
+      <>
+        <Icon name="share-outline" size={18} color="#FFF" />
+        <Text style={s.buttonText}>{label}</Text>
+      </>
+    )}
+  </TouchableOpacity>
+);
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  helpText: { fontSize: 14, color: "#475569", lineHeight: 20, marginBottom: 12 },
+  sectionLabel: { fontSize: 14, color: "#475569", lineHeight: 20, marginTop: 16, marginBottom: 8 },
+  periodText: { fontSize: 14, color: "#1E293B", fontWeight: "600", textAlign: "center", marginTop: 10 },
+
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#007AFF" },
+  segmentText: { fontSize: 13, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
+
+  button: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#0056b3",
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#FFF", fontSize: 16, fontWeight: "700", marginLeft: 8 },
+
+  footnote: { fontSize: 13, color: "#64748B", textAlign: "center", lineHeight: 18 },
+});
@@ -7,13 +7,20 @@ import {
   StatusBar,
   Text,
   Alert,
+  TouchableOpacity,
 } from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
 import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import { getAllClients } from "../database/repositories/clientsRepo";
 import { formatDateBR } from "../utils/formatDate";
+import { formatDateIso } from "../database/utils";
 import HomeContent from "../components/HomeContent";
 import { useAuth } from "../contexts/AuthContext";
 import { startRealtimeSync } from "../services/syncService";
+import { forceFlushQueue } from "../services/syncOptimizer";
+import { useOfflineQueueStats } from "../hooks/useOfflineQueueStats";
+import { useBackupScheduleStatus } from "../hooks/useBackupScheduleStatus";
+import { formatBackupAge, BACKUP_STALE_HOURS } from "../utils/backupSchedule";
 
 export default function HomeScreen() {
   const navigation: any = useNavigation();
@@ -21,6 +28,9 @@ export default function HomeScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [todayCount, setTodayCount] = useState(0);
   const [totalClients, setTotalClients] = useState(0);
+  // ✅ Operações gravadas offline aguardando envio ao Firestore
+  const { pendingCount, isOnline } = useOfflineQueueStats();
+  const backupStatus = useBackupScheduleStatus();
 
   // ✅ Ref para armazenar função de unsubscribe do listener
   const syncUnsubscribe = useRef<(() => void) | null>(null);
@@ -148,7 +158,7 @@ export default function HomeScreen() {
 
       // ✅ Filtra clientes com data de hoje (comparando formato ISO do banco)
       // O banco armazena em ISO (yyyy-mm-dd), então comparamos diretamente
-      const todayISO = new Date().toISOString().slice(0, 10); // yyyy-mm-dd
+      const todayISO = formatDateIso(); // yyyy-mm-dd no fuso do negócio
       const todayCount = clients.filter((c) => {
         if (!c.next_charge) return false;
         // ✅ Compara formato ISO (banco armazena assim)
@@ -180,11 +190,21 @@ export default function HomeScreen() {
   // Abrir lista do dia
   const handleOpenTodayCharges = () => {
     // ✅ Converte ISO para pt-BR apenas para navegação (a tela ClientsByDate espera pt-BR)
-    const todayISO = new Date().toISOString().slice(0, 10);
+    const todayISO = formatDateIso();
     const todayBR = formatDateBR(todayISO);
     navigation.navigate("ClientsByDate", { date: todayBR });
   };
 
+  // 💾 Status do backup: sem backup, antigo ou com erro vira alerta
+  const { lastGoodBackup } = backupStatus;
+  const backupAtrasado =
+    !lastGoodBackup || Date.now() - lastGoodBackup > BACKUP_STALE_HOURS * 60 * 60 * 1000 || !!backupStatus.lastError;
+  const backupLabel = backupStatus.running
+    ? "Fazendo backup automático..."
+    : lastGoodBackup
+    ? `Último backup ${formatBackupAge(lastGoodBackup)}${backupStatus.lastError ? " · verificar" : ""}`
+    : "Nenhum backup feito ainda";
+
   return (
     <View style={styles.root}>
       <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
@@ -209,6 +229,41 @@ export default function HomeScreen() {
             Olá, {user?.email?.split("@")[0] || "Usuário"} 👋
           </Text>
           <Text style={styles.dateText}>{formattedDate}</Text>
+
+          {/* 📤 Indicador de sincronização pendente */}
+          {(pendingCount > 0 || !isOnline) && (
+            <TouchableOpacity
+              style={styles.syncBadge}
+              onPress={() => forceFlushQueue()}
+              disabled={!isOnline}
+              accessibilityRole="button"
+              accessibilityLabel={`${pendingCount} alterações aguardando sincronização`}
+            >
+              <Icon name={isOnline ? "cloud-upload-outline" : "cloud-offline-outline"} size={14} color="#FFF" />
+              <Text style={styles.syncBadgeText}>
+                {pendingCount > 0
+                  ? `${pendingCount} ${pendingCount === 1 ? "alteração pendente" : "alterações pendentes"}${isOnline ? " · tocar para enviar" : " · offline"}`
+                  : "Offline"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* 💾 Idade do último backup bom */}
+          {backupStatus.loaded && (
+            <TouchableOpacity
+              style={[styles.backupStatus, backupAtrasado && styles.backupStatusAlerta]}
+              onPress={() => navigation.navigate("Backup")}
+              accessibilityRole="button"
+              accessibilityLabel={backupLabel}
+            >
+              <Icon
+                name={backupStatus.running ? "sync-outline" : backupAtrasado ? "alert-circle-outline" : "shield-checkmark-outline"}
+                size={14}
+                color="#FFF"
+              />
+              <Text style={styles.syncBadgeText}>{backupLabel}</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.mainCard}>
@@ -269,6 +324,39 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
 
+  syncBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    backgroundColor: "rgba(234, 88, 12, 0.9)",
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
+
+  syncBadgeText: {
+    color: "#FFF",
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+
+  backupStatus: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    backgroundColor: "rgba(22, 163, 74, 0.9)",
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
+
+  backupStatusAlerta: {
+    backgroundColor: "rgba(220, 38, 38, 0.9)",
+  },
+
   mainCard: {
     flex: 1,
   },
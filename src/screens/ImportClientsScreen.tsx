@@ -0,0 +1,339 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import DocumentPicker from "react-native-document-picker";
+import Icon from "react-native-vector-icons/Ionicons";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  guessColumnMapping,
+  getMappingError,
+  type ColumnMapping,
+  type ImportField,
+} from "../utils/clientImport";
+import {
+  readCsvFile,
+  loadExistingClientKeys,
+  importClients,
+  type CsvFile,
+  type ClientImportSummary,
+} from "../services/clientImportService";
+
+type Etapa = "escolher" | "mapear" | "importando" | "resumo";
+
+/**
+ * 📥 Importação de clientes por CSV (exportado de planilha)
+ * Escolher arquivo → mapear colunas → importar → resumo com as linhas ignoradas
+ */
+export default function ImportClientsScreen() {
+  const navigation = useNavigation<any>();
+  const { user } = useAuth();
+  const [etapa, setEtapa] = useState<Etapa>("escolher");
+  const [lendo, setLendo] = useState(false);
+  const [arquivo, setArquivo] = useState<{ nome: string; csv: CsvFile } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const [progresso, setProgresso] = useState({ feitos: 0, total: 0 });
+  const [resumo, setResumo] = useState<ClientImportSummary | null>(null);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Importar Clientes",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const preview = useMemo(
+    () => (arquivo ? buildImportRows(arquivo.csv.rows, mapping, existingKeys) : null),
+    [arquivo, mapping, existingKeys]
+  );
+  const mappingError = getMappingError(mapping);
+
+  const handlePick = async () => {
+    try {
+      const res = await DocumentPicker.pick({
+        type: [DocumentPicker.types.csv, DocumentPicker.types.plainText, DocumentPicker.types.allFiles],
+        copyTo: "cachesDirectory", // Copia para cache para garantir acesso
+      });
+      const picked = res?.[0];
+      if (!picked) return;
+
+      setLendo(true);
+      const path = (picked.fileCopyUri || picked.uri).replace(/^file:\/\//, "");
+      const [csv, keys] = await Promise.all([readCsvFile(path), loadExistingClientKeys()]);
+
+      setArquivo({ nome: picked.name || "arquivo.csv", csv });
+      setMapping(guessColumnMapping(csv.headers));
+      setExistingKeys(keys);
+      setEtapa("mapear");
+    } catch (e: any) {
+      // Ignora erro de cancelamento do DocumentPicker
+      if (!DocumentPicker.isCancel(e)) {
+        console.error("Erro ao ler CSV:", e);
+        Alert.alert("❌ Erro", e?.message || "Não foi possível ler o arquivo.");
+      }
+    } finally {
+      setLendo(false);
+    }
+  };
+
+  // ✅ Um campo só pode estar em uma coluna: escolher de novo tira da coluna anterior
+  const selectField = (coluna: number, field: ImportField | null) => {
+    setMapping((atual) => atual.map((f, i) => (i === coluna ? field : field && f === field ? null : f)));
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.validos.length === 0) return;
+    if (!user?.uid) {
+      Alert.alert(
+        "⚠️ Autenticação Necessária",
+        "Você precisa estar autenticado para importar clientes. Por favor, faça login novamente."
+      );
+      return;
+    }
+
+    setEtapa("importando");
+    setProgresso({ feitos: 0, total: preview.validos.length });
+    try {
+      const result = await importClients(user.uid, preview.validos, preview.ignorados, (feitos, total) =>
+        setProgresso({ feitos, total })
+      );
+      setResumo(result);
+      setEtapa("resumo");
+    } catch (error) {
+      console.error("Erro ao importar clientes:", error);
+      Alert.alert("❌ Erro", error instanceof Error ? error.message : "Não foi possível importar os clientes.");
+      setEtapa("mapear");
+    }
+  };
+
+  const reset = () => {
+    setArquivo(null);
+    setMapping([]);
+    setResumo(null);
+    setEtapa("escolher");
+  };
+
+  if (etapa === "importando") {
+    return (
+      <View style={[s.container, s.center]}>
+        <ActivityIndicator size="large" color="#0056b3" />
+        <Text style={s.progressText}>
+          Importando {progresso.feitos} de {progresso.total}...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView contentContainerStyle={s.content}>
+        {etapa === "escolher" && (
+          <View style={s.card}>
+            <Text style={s.cardTitle}>Arquivo CSV</Text>
+            <Text style={s.helpText}>
+              Exporte a planilha como CSV (no Excel: "Salvar como" → CSV). A primeira linha deve ter os nomes das
+              colunas. Valores como "R$ 1.500,00" e datas dd/mm/aaaa são aceitos.
+            </Text>
+            <TouchableOpacity style={s.primaryButton} onPress={handlePick} disabled={lendo} testID="import-pick">
+              {lendo ? (
+                <ActivityIndicator color="#FFF" />
+              ) : (
+                <Text style={s.primaryText}>Escolher arquivo</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {etapa === "mapear" && arquivo && preview && (
+          <>
+            <View style={s.card}>
+              <Text style={s.cardTitle}>{arquivo.nome}</Text>
+              <Text style={s.helpText}>
+                {arquivo.csv.rows.length} linha(s). Escolha o campo do cliente para cada coluna.
+              </Text>
+            </View>
+
+            {arquivo.csv.headers.map((header, coluna) => (
+              <View key={coluna} style={s.card}>
+                <Text style={s.columnTitle}>{header || `Coluna ${coluna + 1}`}</Text>
+                <Text style={s.sample} numberOfLines={1}>
+                  Ex.: {arquivo.csv.rows[0]?.[coluna] || "—"}
+                </Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <Chip label="Ignorar" active={mapping[coluna] == null} onPress={() => selectField(coluna, null)} />
+                  {IMPORT_FIELDS.map((f) => (
+                    <Chip
+                      key={f.field}
+                      label={f.label}
+                      active={mapping[coluna] === f.field}
+                      onPress={() => selectField(coluna, f.field)}
+                    />
+                  ))}
+                </ScrollView>
+              </View>
+            ))}
+
+            <View style={s.card}>
+              <Text style={s.cardTitle}>Prévia</Text>
+              {mappingError ? (
+                <Text style={s.errorText}>{mappingError}</Text>
+              ) : (
+                <>
+                  <Text style={s.okText}>{preview.validos.length} cliente(s) prontos para importar</Text>
+                  {preview.ignorados.length > 0 && (
+                    <Text style={s.warnText}>{preview.ignorados.length} linha(s) serão ignoradas</Text>
+                  )}
+                  {preview.ignorados.slice(0, 5).map((item) => (
+                    <Text key={item.linha} style={s.skipText}>
+                      Linha {item.linha}: {item.motivo}
+                    </Text>
+                  ))}
+                </>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[s.primaryButton, (!!mappingError || preview.validos.length === 0) && s.disabled]}
+              onPress={handleImport}
+              disabled={!!mappingError || preview.validos.length === 0}
+              testID="import-run"
+            >
+              <Text style={s.primaryText}>Importar {preview.validos.length} cliente(s)</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={s.secondaryButton} onPress={reset}>
+              <Text style={s.secondaryText}>Escolher outro arquivo</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {etapa === "resumo" && resumo && (
+          <>
+            <View style={s.card}>
+              <Text style={s.cardTitle}>Resumo</Text>
+              <View style={s.summaryRow}>
+                <Icon name="checkmark-circle" size={20} color="#16A34A" />
+                <Text style={s.summaryText}>{resumo.importados} cliente(s) importados</Text>
+              </View>
+              <View style={s.summaryRow}>
+                <Icon name="close-circle" size={20} color={resumo.ignorados.length ? "#DC2626" : "#94A3B8"} />
+                <Text style={s.summaryText}>{resumo.ignorados.length} linha(s) ignoradas</Text>
+              </View>
+              {(resumo.bairrosCriados > 0 || resumo.ruasCriadas > 0) && (
+                <View style={s.summaryRow}>
+                  <Icon name="map" size={20} color="#0056b3" />
+                  <Text style={s.summaryText}>
+                    {resumo.bairrosCriados} bairro(s) e {resumo.ruasCriadas} rua(s) criados
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {resumo.ignorados.length > 0 && (
+              <View style={s.card}>
+                <Text style={s.cardTitle}>Linhas ignoradas</Text>
+                {resumo.ignorados.map((item) => (
+                  <Text key={item.linha} style={s.skipText}>
+                    Linha {item.linha}: {item.motivo}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            <TouchableOpacity style={s.primaryButton} onPress={() => navigation.goBack()}>
+              <Text style={s.primaryText}>Concluir</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={s.secondaryButton} onPress={reset}>
+              <Text style={s.secondaryText}>Importar outro arquivo</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+  <TouchableOpacity style={[s.chip, active && s.chipActive]} onPress={onPress}>
+    <Text style={[s.chipText, active && s.chipTextActive]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+  center: { justifyContent: "center", alignItems: "center" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  helpText: { fontSize: 14, color: "#475569", lineHeight: 20, marginBottom: 12 },
+  columnTitle: { fontSize: 16, fontWeight: "700", color: "#1E293B" },
+  sample: { fontSize: 13, color: "#94A3B8", marginTop: 2, marginBottom: 10 },
+
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: "#f3f4f6",
+    marginRight: 8,
+  },
+  chipActive: { backgroundColor: "#007AFF" },
+  chipText: { fontSize: 13, color: "#555", fontWeight: "600" },
+  chipTextActive: { color: "#fff" },
+
+  okText: { fontSize: 15, color: "#16A34A", fontWeight: "700" },
+  warnText: { fontSize: 14, color: "#CA8A04", fontWeight: "600", marginTop: 6 },
+  errorText: { fontSize: 14, color: "#DC2626", fontWeight: "600" },
+  skipText: { fontSize: 13, color: "#475569", marginTop: 4 },
+
+  summaryRow: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  summaryText: { fontSize: 15, color: "#1E293B", marginLeft: 8 },
+
+  progressText: { fontSize: 15, color: "#475569", marginTop: 12 },
+
+  primaryButton: {
+    backgroundColor: "#0056b3",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryText: { color: "#FFF", fontSize: 16, fontWeight: "700" },
+  disabled: { opacity: 0.5 },
+  secondaryButton: { paddingVertical: 14, alignItems: "center" },
+  secondaryText: { color: "#0056b3", fontSize: 15, fontWeight: "600" },
+});
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { getLateFeeConfig, saveLateFeeConfig } from "../database/repositories/lateFeesRepo";
+import { calcularEncargos, type JurosPeriodo } from "../database/utils/lateFees";
+import { formatCurrency } from "../utils/formatCurrency";
+
+const PERIODOS: { key: JurosPeriodo; label: string }[] = [
+  { key: "diario", label: "Ao dia" },
+  { key: "mensal", label: "Ao mês" },
+];
+
+// 📌 Aceita vírgula como separador decimal
+const parseNumero = (txt: string) => parseFloat(txt.replace(",", "."));
+const toTexto = (n: number) => String(n).replace(".", ",");
+
+/**
+ * 💸 Configuração de multa e juros por atraso
+ * Percentuais usados no saldo atualizado de clientes vencidos
+ */
+export default function LateFeeSettingsScreen() {
+  const navigation = useNavigation<any>();
+  const [multa, setMulta] = useState("0");
+  const [juros, setJuros] = useState("0");
+  const [periodo, setPeriodo] = useState<JurosPeriodo>("mensal");
+  const [carencia, setCarencia] = useState("0");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Multa e Juros",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    getLateFeeConfig()
+      .then((config) => {
+        setMulta(toTexto(config.multaPercent));
+        setJuros(toTexto(config.jurosPercent));
+        setPeriodo(config.jurosPeriodo);
+        setCarencia(String(config.carenciaDias));
+      })
+      .catch((e) => console.error("Erro ao carregar configuração de encargos:", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // 🧮 Exemplo: R$ 100,00 vencido há 30 dias
+  const exemplo = useMemo(() => {
+    const config = {
+      multaPercent: parseNumero(multa) || 0,
+      jurosPercent: parseNumero(juros) || 0,
+      jurosPeriodo: periodo,
+      carenciaDias: parseInt(carencia, 10) || 0,
+    };
+    return calcularEncargos(10000, "2000-01-01", "2000-01-31", config);
+  }, [multa, juros, periodo, carencia]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await saveLateFeeConfig({
+        multaPercent: parseNumero(multa),
+        jurosPercent: parseNumero(juros),
+        jurosPeriodo: periodo,
+        carenciaDias: parseInt(carencia || "0", 10),
+      });
+      Alert.alert("Sucesso", "Configuração de multa e juros salva.");
+      navigation.goBack();
+    } catch (error) {
+      console.error("Erro ao salvar configuração de encargos:", error);
+      Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível salvar a configuração.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading)
+    return <ActivityIndicator size="large" color="#0056b3" style={{ flex: 1 }} />;
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView contentContainerStyle={s.content} keyboardShouldPersistTaps="handled">
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Multa</Text>
+          <Text style={s.inputLabel}>Percentual cobrado uma vez após o vencimento (%)</Text>
+          <TextInput style={s.input} keyboardType="numeric" value={multa} onChangeText={setMulta} />
+        </View>
+
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Juros</Text>
+          <Text style={s.inputLabel}>Percentual de juros (%)</Text>
+          <TextInput style={s.input} keyboardType="numeric" value={juros} onChangeText={setJuros} />
+
+          <View style={s.segment}>
+            {PERIODOS.map((item) => (
+              <TouchableOpacity
+                key={item.key}
+                style={[s.segmentItem, periodo === item.key && s.segmentItemActive]}
+                onPress={() => setPeriodo(item.key)}
+              >
+                <Text style={[s.segmentText, periodo === item.key && s.segmentTextActive]}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Carência</Text>
+          <Text style={s.inputLabel}>Dias após o vencimento sem encargos</Text>
+          <TextInput
+            style={s.input}
+            keyboardType="number-pad"
+            value={carencia}
+            onChangeText={(txt) => setCarencia(txt.replace(/\D/g, ""))}
+            maxLength={3}
+          />
+        </View>
+
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Exemplo</Text>
+          <Text style={s.exampleText}>
+            Saldo de {formatCurrency(100)} vencido há 30 dias: multa {formatCurrency(exemplo.multaCents / 100)} + juros{" "}
+            {formatCurrency(exemplo.jurosCents / 100)} = {formatCurrency(exemplo.saldoAtualizadoCents / 100)}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={s.saveButton} onPress={handleSave} disabled={saving}>
+          <Text style={s.saveText}>{saving ? "Salvando..." : "Salvar"}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  inputLabel: { fontSize: 14, color: "#64748B", marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#FAFAFA",
+  },
+
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+    marginTop: 12,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#007AFF" },
+  segmentText: { fontSize: 14, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
+
+  exampleText: { fontSize: 14, color: "#1E293B", lineHeight: 20 },
+
+  saveButton: {
+    backgroundColor: "#0056b3",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveText: { color: "#FFF", fontSize: 16, fontWeight: "700" },
+});
@@ -20,8 +20,11 @@ import { getClientById } from "../database/repositories/clientsRepo";
 
 import { formatCurrency } from "../utils/formatCurrency";
 import { formatDateBR } from "../utils/formatDate";
-import { saveClient } from "../services/syncService";
+import { saveClient, removePayment, restorePaymentFromTrash } from "../services/syncService";
 import { useAuth } from "../contexts/AuthContext";
+import { useClientSales } from "../hooks/useClientSales";
+import SaleBalances from "../components/SaleBalances";
+import { getPaymentMethodLabel } from "../constants/paymentMethods";
 
 // 📌 Formata: "2025-01-15T18:32:10.123Z" → "janeiro de 2025"
 const formatMonth = (iso: string) => {
@@ -46,6 +49,8 @@ export default function PaymentHistoryScreen() {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  // ✅ Contratos do cliente (saldo por contrato)
+  const { sales, reloadSales } = useClientSales(clientId);
   // ✅ Animações de fade out para itens sendo removidos
   const animatingItems = useRef<Map<number, Animated.Value>>(new Map());
   // ✅ Flag para prevenir race condition em exclusões simultâneas
@@ -115,8 +120,8 @@ export default function PaymentHistoryScreen() {
   // 🔄 Pull-to-refresh
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await loadData();
-  }, [loadData]);
+    await Promise.all([loadData(), reloadSales()]);
+  }, [loadData, reloadSales]);
 
   // 🧩 Agrupa por mês - formato para SectionList
   const sections = useMemo(() => {
@@ -153,7 +158,7 @@ export default function PaymentHistoryScreen() {
 
     Alert.alert(
       "Excluir Pagamento",
-      `Deseja remover ${formatCurrency(payment.valor)}?`,
+      `Deseja remover ${formatCurrency(payment.valor)}?\nO pagamento vai para a lixeira.`,
       [
         { text: "Cancelar", style: "cancel" },
         {
@@ -194,8 +199,9 @@ export default function PaymentHistoryScreen() {
                     paid: (client.paid || 0) - payment.valor,
                   };
 
-                  // ✅ 5. Sincroniza com Firestore
+                  // ✅ 5. Sincroniza com Firestore (cliente + remoção do pagamento)
                   await saveClient(user.uid, updated);
+                  await removePayment(user.uid, payment.sync_id);
 
                   // ✅ 6. CRÍTICO: Recarrega do banco para garantir dados atualizados
                   const freshClient = await getClientById(client.id);
@@ -206,6 +212,27 @@ export default function PaymentHistoryScreen() {
                   // ✅ 7. Remove da lista local e limpa animação
                   setPayments((prev) => prev.filter((p) => p.id !== payment.id));
                   animatingItems.current.delete(payment.id);
+
+                  // ✅ 8. Estorno volta para as parcelas: recarrega contratos
+                  await reloadSales();
+
+                  // ↩️ 9. Desfazer: restaura o pagamento (valor e parcelas de volta)
+                  const paymentId = payment.id!;
+                  Alert.alert("🗑️ Pagamento na lixeira", `${formatCurrency(payment.valor)} foi movido para a lixeira.`, [
+                    { text: "OK", style: "cancel" },
+                    {
+                      text: "Desfazer",
+                      onPress: async () => {
+                        try {
+                          await restorePaymentFromTrash(user.uid, paymentId);
+                          await Promise.all([loadData(), reloadSales()]);
+                        } catch (restoreError) {
+                          console.error("❌ Erro ao restaurar pagamento:", restoreError);
+                          Alert.alert("Erro", "Não foi possível restaurar. O pagamento continua na lixeira.");
+                        }
+                      },
+                    },
+                  ]);
                 } catch (innerError) {
                   console.error("❌ Erro ao processar exclusão:", innerError);
                   Alert.alert("Erro", "Não foi possível excluir o pagamento.");
@@ -227,7 +254,7 @@ export default function PaymentHistoryScreen() {
         },
       ]
     );
-  }, [client, user?.uid]);
+  }, [client, user?.uid, reloadSales, loadData]);
 
   // ✅ Sincroniza animações com os payments (cria/remove conforme necessário)
   useEffect(() => {
@@ -296,8 +323,17 @@ export default function PaymentHistoryScreen() {
                   color="#94A3B8"
                   style={{ marginRight: 4 }}
                 />
-                <Text style={s.dateText}>{formatDateBR(payment.created_at)}</Text>
+                <Text style={s.dateText}>
+                  {formatDateBR(payment.created_at)} · {getPaymentMethodLabel(payment.metodo)}
+                </Text>
               </View>
+              {/* ✅ Pagamento retroativo: mostra quando foi lançado */}
+              {payment.registered_at &&
+                payment.registered_at.slice(0, 10) !== payment.created_at.slice(0, 10) && (
+                <Text style={s.registeredText}>
+                  Lançado em {formatDateBR(payment.registered_at)}
+                </Text>
+              )}
             </View>
 
             <TouchableOpacity
@@ -338,6 +374,9 @@ export default function PaymentHistoryScreen() {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
+        ListHeaderComponent={
+          sales.length > 0 ? <SaleBalances sales={sales} showClosed /> : null
+        }
         renderSectionHeader={({ section }) => (
           <View style={s.monthBlock}>
             <Text style={s.monthTitle}>{section.title}</Text>
@@ -457,6 +496,7 @@ const s = StyleSheet.create({
   },
   dateRow: { flexDirection: "row", alignItems: "center" },
   dateText: { fontSize: 13, color: "#94A3B8" },
+  registeredText: { fontSize: 11, color: "#94A3B8", fontStyle: "italic", marginTop: 2 },
 
   deleteBtn: {
     padding: 8,
@@ -3,6 +3,7 @@ import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { useReportsDashboard } from "../hooks/useReportsDashboard";
+import { EMPTY_AGING_REPORT } from "../services/reportsService";
 import { useReportAnimations } from "../hooks/useReportAnimations";
 import { usePerformanceData } from "../hooks/usePerformanceData";
 import { useDashboardRefresh } from "../hooks/useDashboardRefresh";
@@ -10,6 +11,7 @@ import { useReportTheme } from "../theme/reportTheme";
 import { useReportCards } from "../hooks/useReportCards";
 
 import { ReportErrorCard, ReportsLayout } from "../components/reports";
+import ExportPDFButton from "../components/ExportPDFButton";
 
 // 🔢 Quantidade de cards exibidos
 import { CARD_COUNT } from "../constants/reportsCards";
@@ -47,6 +49,7 @@ export default function ReportsScreen() {
       topClientes: data.topClientes ?? [],
       crediariosPorBairro: data.crediariosPorBairro ?? [],
       crescimento: data.crescimento ?? { percentual: 0, cresceu: false },
+      aging: data.aging ?? EMPTY_AGING_REPORT,
     }),
     [data]
   );
@@ -82,6 +85,17 @@ export default function ReportsScreen() {
     performance,
   });
 
+  // 🖨️ Cards + exportação em PDF (memo: ReportsLayout compara children por referência)
+  const content = useMemo(
+    () => (
+      <>
+        {reportCards ?? null}
+        <ExportPDFButton data={normalizedData} />
+      </>
+    ),
+    [reportCards, normalizedData]
+  );
+
   // 🎨 Header
   useLayoutEffect(() => {
     navigation.setOptions({
@@ -131,7 +145,7 @@ export default function ReportsScreen() {
         />
       }
     >
-      {reportCards ?? null}
+      {content}
     </ReportsLayout>
   );
 }
@@ -0,0 +1,406 @@
+import React, { useState, useLayoutEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  RefreshControl,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import { useNavigation } from "@react-navigation/native";
+import type { Client, RotaBairro, RotaDoDia } from "../database/types";
+import { useRotaDoDia } from "../hooks/useRotaDoDia";
+import { salvarOrdemRuas, salvarOrdemBairros } from "../database/repositories/routeRepo";
+import { formatDateIso } from "../database/utils";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+
+// ✅ Constantes globais
+const DEFAULT_HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+
+// 🔀 Troca item de posição (retorna nova lista)
+const moveItem = <T,>(list: T[], index: number, delta: number): T[] => {
+  const target = index + delta;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * 🗺️ Rota do dia
+ * Plano de visitas por bairro e rua; a ordem de bairros e ruas fica salva para as próximas rotas
+ */
+export default function RouteDayScreen() {
+  const navigation = useNavigation<any>();
+  const [dia, setDia] = useState(new Date());
+  const [incluirAtrasados, setIncluirAtrasados] = useState(true);
+
+  const dataISO = formatDateIso(dia);
+  const isHoje = dataISO === formatDateIso(new Date());
+  const { rota, setRota, loading, refreshing, refresh, reload } = useRotaDoDia(dataISO, incluirAtrasados);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Rota do Dia",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const changeDay = (delta: number) => {
+    const next = new Date(dia);
+    next.setDate(next.getDate() + delta);
+    setDia(next);
+  };
+
+  // 💾 Atualiza a tela na hora e grava a ordem (recarrega se falhar)
+  const persist = useCallback(
+    async (next: RotaDoDia, save: () => Promise<void>) => {
+      setRota(next);
+      try {
+        await save();
+      } catch (e) {
+        console.error("Erro ao salvar ordem da rota:", e);
+        Alert.alert("Erro", "Não foi possível salvar a nova ordem.");
+        reload();
+      }
+    },
+    [setRota, reload]
+  );
+
+  const moveBairro = useCallback(
+    (index: number, delta: number) => {
+      if (!rota) return;
+      const bairros = moveItem(rota.bairros, index, delta);
+      if (bairros === rota.bairros) return;
+      persist({ ...rota, bairros }, () => salvarOrdemBairros(bairros.map((b) => b.bairroId)));
+    },
+    [rota, persist]
+  );
+
+  const moveRua = useCallback(
+    (bairroIndex: number, ruaIndex: number, delta: number) => {
+      if (!rota) return;
+      const bairro = rota.bairros[bairroIndex];
+      const ruas = moveItem(bairro.ruas, ruaIndex, delta);
+      if (ruas === bairro.ruas) return;
+
+      const bairros = rota.bairros.map((b, i) => (i === bairroIndex ? { ...b, ruas } : b));
+      persist({ ...rota, bairros }, () =>
+        salvarOrdemRuas(
+          bairro.bairroId,
+          ruas.map((r) => r.ruaId).filter((id) => id > 0)
+        )
+      );
+    },
+    [rota, persist]
+  );
+
+  const openClient = (client: Client) => {
+    if (client.id) navigation.navigate("ClientDetail", { clientId: client.id });
+  };
+
+  if (loading)
+    return <ActivityIndicator size="large" color="#0056b3" style={{ flex: 1 }} />;
+
+  // 🔢 Número da parada ao longo de toda a rota
+  let parada = 0;
+
+  const renderBairro = (bairro: RotaBairro, bairroIndex: number) => {
+    const semBairro = bairro.bairroId < 0;
+    // ✅ "Sem bairro" fica sempre por último
+    const ultimoMovel = rota!.bairros.filter((b) => b.bairroId > 0).length - 1;
+
+    return (
+      <View key={bairro.bairroId} style={s.bairroSection}>
+        <View style={s.bairroHeader}>
+          <Icon name="map" size={18} color="#0056b3" />
+          <Text style={s.bairroTitle} numberOfLines={1}>{bairro.bairroNome}</Text>
+          {!semBairro && (
+            <View style={s.moveButtons}>
+              <TouchableOpacity
+                onPress={() => moveBairro(bairroIndex, -1)}
+                disabled={bairroIndex === 0}
+                hitSlop={DEFAULT_HIT_SLOP}
+                accessibilityLabel={`Subir bairro ${bairro.bairroNome}`}
+              >
+                <Icon name="arrow-up-circle" size={26} color={bairroIndex === 0 ? "#CBD5E1" : "#0056b3"} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => moveBairro(bairroIndex, 1)}
+                disabled={bairroIndex >= ultimoMovel}
+                hitSlop={DEFAULT_HIT_SLOP}
+                accessibilityLabel={`Descer bairro ${bairro.bairroNome}`}
+              >
+                <Icon name="arrow-down-circle" size={26} color={bairroIndex >= ultimoMovel ? "#CBD5E1" : "#0056b3"} />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {bairro.ruas.map((rua, ruaIndex) => {
+          const semRua = rua.ruaId < 0;
+          const ultimaMovel = bairro.ruas.filter((r) => r.ruaId > 0).length - 1;
+
+          return (
+            <View key={rua.ruaId} style={s.ruaCard}>
+              <View style={s.ruaHeader}>
+                <View style={{ flex: 1 }}>
+                  <Text style={s.ruaTitle} numberOfLines={1}>{rua.ruaNome}</Text>
+                  <Text style={s.ruaSub}>
+                    {rua.clientes.length} {rua.clientes.length === 1 ? "cliente" : "clientes"} • {formatCurrency(rua.totalPendente)}
+                  </Text>
+                </View>
+                {!semRua && (
+                  <View style={s.moveButtons}>
+                    <TouchableOpacity
+                      onPress={() => moveRua(bairroIndex, ruaIndex, -1)}
+                      disabled={ruaIndex === 0}
+                      hitSlop={DEFAULT_HIT_SLOP}
+                      accessibilityLabel={`Subir rua ${rua.ruaNome}`}
+                    >
+                      <Icon name="chevron-up" size={24} color={ruaIndex === 0 ? "#CBD5E1" : "#475569"} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => moveRua(bairroIndex, ruaIndex, 1)}
+                      disabled={ruaIndex >= ultimaMovel}
+                      hitSlop={DEFAULT_HIT_SLOP}
+                      accessibilityLabel={`Descer rua ${rua.ruaNome}`}
+                    >
+                      <Icon name="chevron-down" size={24} color={ruaIndex >= ultimaMovel ? "#CBD5E1" : "#475569"} />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+
+              {rua.clientes.map((client) => {
+                parada++;
+                const atrasado = !!client.proximaData && client.proximaData < dataISO;
+                const pendente = Math.max(0, (client.value || 0) - (client.paid || 0));
+                return (
+                  <TouchableOpacity
+                    key={client.id}
+                    style={s.clientRow}
+                    onPress={() => openClient(client)}
+                    activeOpacity={0.7}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Parada ${parada}: ${client.name}`}
+                  >
+                    <View style={[s.stopBadge, client.prioritario ? s.stopBadgePriority : null]}>
+                      <Text style={s.stopText}>{parada}</Text>
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <View style={s.clientNameRow}>
+                        <Text style={s.clientName} numberOfLines={1}>{client.name}</Text>
+                        {!!client.prioritario && <Icon name="star" size={14} color="#F59E0B" style={{ marginLeft: 4 }} />}
+                      </View>
+                      <Text style={s.clientSub} numberOfLines={1}>
+                        {client.numero ? `Nº ${client.numero}` : "Sem número"}
+                        {client.referencia ? ` • ${client.referencia}` : ""}
+                      </Text>
+                    </View>
+                    <View style={{ alignItems: "flex-end" }}>
+                      <Text style={s.clientValue}>{formatCurrency(pendente)}</Text>
+                      {atrasado && <Text style={s.lateBadge}>Atrasado</Text>}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      {/* 📅 Seletor de dia */}
+      <View style={s.dayBar}>
+        <TouchableOpacity onPress={() => changeDay(-1)} hitSlop={DEFAULT_HIT_SLOP}>
+          <Icon name="chevron-back" size={24} color="#0056b3" />
+        </TouchableOpacity>
+        <Text style={s.dayText}>{isHoje ? `Hoje, ${formatDateBR(dataISO)}` : formatDateBR(dataISO)}</Text>
+        <TouchableOpacity onPress={() => changeDay(1)} hitSlop={DEFAULT_HIT_SLOP}>
+          <Icon name="chevron-forward" size={24} color="#0056b3" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={s.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+      >
+        {/* 📊 Resumo */}
+        <View style={s.summaryCard}>
+          <View style={s.summaryItem}>
+            <Text style={s.summaryValue}>{rota?.totalClientes ?? 0}</Text>
+            <Text style={s.summaryLabel}>Visitas</Text>
+          </View>
+          <View style={s.summaryItem}>
+            <Text style={s.summaryValue}>{rota?.totalPrioritarios ?? 0}</Text>
+            <Text style={s.summaryLabel}>Prioritários</Text>
+          </View>
+          <View style={s.summaryItem}>
+            <Text style={s.summaryValue}>{rota?.totalAtrasados ?? 0}</Text>
+            <Text style={s.summaryLabel}>Atrasados</Text>
+          </View>
+          <View style={[s.summaryItem, { flex: 1.6 }]}>
+            <Text style={s.summaryValue}>{formatCurrency(rota?.totalPendente ?? 0)}</Text>
+            <Text style={s.summaryLabel}>A receber</Text>
+          </View>
+        </View>
+
+        <View style={s.toggleRow}>
+          <Text style={s.toggleLabel}>Incluir cobranças atrasadas</Text>
+          <Switch
+            value={incluirAtrasados}
+            onValueChange={setIncluirAtrasados}
+            trackColor={{ false: "#CBD5E1", true: "#93C5FD" }}
+            thumbColor={incluirAtrasados ? "#0056b3" : "#F1F5F9"}
+          />
+        </View>
+
+        {rota && rota.bairros.length > 0 ? (
+          <>
+            <Text style={s.hint}>Use as setas para mudar a ordem de bairros e ruas. A ordem fica salva.</Text>
+            {rota.bairros.map(renderBairro)}
+          </>
+        ) : (
+          <View style={s.empty}>
+            <Icon name="walk-outline" size={48} color="#CBD5E1" />
+            <Text style={s.emptyText}>Nenhuma visita para este dia</Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  dayBar: {
+    backgroundColor: "#E2E8F0",
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#CBD5E1",
+  },
+  dayText: { fontSize: 15, fontWeight: "700", color: "#1E293B" },
+
+  content: { padding: 16, paddingBottom: 40 },
+
+  summaryCard: {
+    backgroundColor: "#0056b3",
+    borderRadius: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  summaryItem: { flex: 1, alignItems: "center" },
+  summaryValue: { color: "#FFF", fontSize: 18, fontWeight: "800" },
+  summaryLabel: { color: "#BFDBFE", fontSize: 11, fontWeight: "600", marginTop: 2, textTransform: "uppercase" },
+
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#FFF",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  toggleLabel: { fontSize: 14, color: "#334155", fontWeight: "600" },
+
+  hint: { fontSize: 12, color: "#64748B", marginBottom: 12, textAlign: "center" },
+
+  bairroSection: { marginBottom: 16 },
+  bairroHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 4,
+    marginBottom: 8,
+  },
+  bairroTitle: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#0056b3",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  moveButtons: { flexDirection: "row", alignItems: "center", gap: 12 },
+
+  ruaCard: {
+    backgroundColor: "#FFF",
+    borderRadius: 14,
+    marginBottom: 10,
+    overflow: "hidden",
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  ruaHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    backgroundColor: "#F8FAFC",
+    borderBottomWidth: 1,
+    borderBottomColor: "#E2E8F0",
+  },
+  ruaTitle: { fontSize: 15, fontWeight: "700", color: "#1E293B" },
+  ruaSub: { fontSize: 12, color: "#64748B", marginTop: 2 },
+
+  clientRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  stopBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "#E2E8F0",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  stopBadgePriority: { backgroundColor: "#FDE68A" },
+  stopText: { fontSize: 12, fontWeight: "700", color: "#334155" },
+  clientNameRow: { flexDirection: "row", alignItems: "center" },
+  clientName: { fontSize: 15, fontWeight: "600", color: "#1E293B", flexShrink: 1 },
+  clientSub: { fontSize: 12, color: "#94A3B8", marginTop: 2 },
+  clientValue: { fontSize: 14, fontWeight: "700", color: "#1E293B" },
+  lateBadge: {
+    marginTop: 2,
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#DC2626",
+  },
+
+  empty: { alignItems: "center", marginTop: 60 },
+  emptyText: { marginTop: 12, fontSize: 15, color: "#94A3B8" },
+});
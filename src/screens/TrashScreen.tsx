@@ -0,0 +1,345 @@
+import React, { useState, useLayoutEffect, useCallback } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, StatusBar, ActivityIndicator, Alert } from "react-native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import Icon from "react-native-vector-icons/Ionicons";
+import type { ClienteLixeira, PagamentoLixeira } from "../database/types";
+import {
+  getDeletedClients,
+  getDeletedPayments,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  purgeTrash,
+  purgeClient,
+  purgePayment,
+  restoreClient,
+  restorePayment,
+} from "../database/db";
+import { TRASH_RETENTION_OPTIONS, DEFAULT_TRASH_RETENTION_DAYS, daysUntilPurge } from "../database/utils/trash";
+import { restoreClientFromTrash, restorePaymentFromTrash } from "../services/syncService";
+import { useAuth } from "../contexts/AuthContext";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatDateBR } from "../utils/formatDate";
+import { getPaymentMethodLabel } from "../constants/paymentMethods";
+
+/**
+ * 🗑️ Lixeira: clientes e pagamentos excluídos
+ * Restaurar, excluir definitivamente e prazo da limpeza automática
+ */
+export default function TrashScreen() {
+  const navigation = useNavigation<any>();
+  const { user } = useAuth();
+  const [clientes, setClientes] = useState<ClienteLixeira[]>([]);
+  const [pagamentos, setPagamentos] = useState<PagamentoLixeira[]>([]);
+  const [retencao, setRetencao] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processando, setProcessando] = useState<string | null>(null);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Lixeira",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [c, p, dias] = await Promise.all([getDeletedClients(), getDeletedPayments(), getTrashRetentionDays()]);
+      setClientes(c);
+      setPagamentos(p);
+      setRetencao(dias);
+    } catch (error) {
+      console.error("Erro ao carregar lixeira:", error);
+      Alert.alert("❌ Erro", "Não foi possível carregar a lixeira.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  // ✅ Executa uma ação por vez e recarrega a lista
+  const run = async (key: string, acao: () => Promise<unknown>, erro: string) => {
+    if (processando) return;
+    try {
+      setProcessando(key);
+      await acao();
+      await loadData();
+    } catch (error) {
+      console.error(erro, error);
+      Alert.alert("❌ Erro", error instanceof Error ? error.message : erro);
+    } finally {
+      setProcessando(null);
+    }
+  };
+
+  const handleRestoreClient = (item: ClienteLixeira) =>
+    run(
+      `cliente-${item.id}`,
+      () => (user?.uid ? restoreClientFromTrash(user.uid, item.id) : restoreClient(item.id)),
+      "Não foi possível restaurar o cliente."
+    );
+
+  const handleRestorePayment = (item: PagamentoLixeira) =>
+    run(
+      `pagamento-${item.id}`,
+      () => (user?.uid ? restorePaymentFromTrash(user.uid, item.id) : restorePayment(item.id)),
+      "Não foi possível restaurar o pagamento."
+    );
+
+  const confirmPurge = (titulo: string, mensagem: string, onConfirm: () => void) =>
+    Alert.alert(titulo, `${mensagem}\nEssa ação não pode ser desfeita.`, [
+      { text: "Cancelar", style: "cancel" },
+      { text: "Excluir", style: "destructive", onPress: onConfirm },
+    ]);
+
+  const handlePurgeClient = (item: ClienteLixeira) =>
+    confirmPurge("Excluir definitivamente", `Excluir "${item.name}", com pagamentos e histórico?`, () =>
+      run(`cliente-${item.id}`, () => purgeClient(item.id), "Não foi possível excluir o cliente.")
+    );
+
+  const handlePurgePayment = (item: PagamentoLixeira) =>
+    confirmPurge("Excluir definitivamente", `Excluir o pagamento de ${formatCurrency(item.valor)} de ${item.cliente}?`, () =>
+      run(`pagamento-${item.id}`, () => purgePayment(item.id), "Não foi possível excluir o pagamento.")
+    );
+
+  const handleEmpty = () =>
+    confirmPurge("Esvaziar lixeira", "Excluir definitivamente todos os itens da lixeira?", () =>
+      run("esvaziar", () => purgeTrash(0), "Não foi possível esvaziar a lixeira.")
+    );
+
+  const handleRetencao = (dias: number) =>
+    run("retencao", () => saveTrashRetentionDays(dias), "Não foi possível salvar o prazo.");
+
+  const prazo = retencao ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const vazia = clientes.length === 0 && pagamentos.length === 0;
+  const restante = (deletedAt: string) => {
+    const dias = daysUntilPurge(deletedAt, prazo);
+    return dias === 0 ? "sai na próxima limpeza" : `sai em ${dias} dia(s)`;
+  };
+
+  if (loading) {
+    return (
+      <View style={[s.container, s.center]}>
+        <ActivityIndicator size="large" color="#0056b3" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView contentContainerStyle={s.content}>
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Limpeza automática</Text>
+          <Text style={s.helpText}>Itens na lixeira são excluídos de vez depois de:</Text>
+          <View style={s.segment}>
+            {TRASH_RETENTION_OPTIONS.map((dias) => (
+              <TouchableOpacity
+                key={dias}
+                style={[s.segmentItem, prazo === dias && s.segmentItemActive]}
+                onPress={() => handleRetencao(dias)}
+                disabled={!!processando}
+              >
+                <Text style={[s.segmentText, prazo === dias && s.segmentTextActive]}>{dias} dias</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {vazia ? (
+          <View style={s.emptyBox}>
+            <Icon name="trash-outline" size={48} color="#CBD5E1" />
+            <Text style={s.emptyText}>A lixeira está vazia</Text>
+          </View>
+        ) : (
+          <>
+            <View style={s.card}>
+              <Text style={s.cardTitle}>Clientes ({clientes.length})</Text>
+              {clientes.length === 0 ? (
+                <Text style={s.helpText}>Nenhum cliente na lixeira.</Text>
+              ) : (
+                clientes.map((item) => (
+                  <TrashItem
+                    key={`c-${item.id}`}
+                    title={item.name}
+                    lines={[
+                      [item.bairro, item.rua].filter(Boolean).join(" · ") || "Sem endereço",
+                      `Saldo ${formatCurrency(item.saldo)} · ${item.pagamentos} pagamento(s)`,
+                      `Excluído em ${formatDateBR(item.deletedAt)} · ${restante(item.deletedAt)}`,
+                    ]}
+                    loading={processando === `cliente-${item.id}`}
+                    disabled={!!processando}
+                    onRestore={() => handleRestoreClient(item)}
+                    onPurge={() => handlePurgeClient(item)}
+                  />
+                ))
+              )}
+            </View>
+
+            <View style={s.card}>
+              <Text style={s.cardTitle}>Pagamentos ({pagamentos.length})</Text>
+              {pagamentos.length === 0 ? (
+                <Text style={s.helpText}>Nenhum pagamento na lixeira.</Text>
+              ) : (
+                pagamentos.map((item) => (
+                  <TrashItem
+                    key={`p-${item.id}`}
+                    title={`${formatCurrency(item.valor)} · ${item.cliente}`}
+                    lines={[
+                      `${getPaymentMethodLabel(item.metodo)} em ${formatDateBR(item.data)}`,
+                      `Excluído em ${formatDateBR(item.deletedAt)} · ${restante(item.deletedAt)}`,
+                    ]}
+                    loading={processando === `pagamento-${item.id}`}
+                    disabled={!!processando}
+                    onRestore={() => handleRestorePayment(item)}
+                    onPurge={() => handlePurgePayment(item)}
+                  />
+                ))
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[s.emptyButton, !!processando && s.buttonDisabled]}
+              onPress={handleEmpty}
+              disabled={!!processando}
+              testID="trash-empty"
+            >
+              {processando === "esvaziar" ? (
+                <ActivityIndicator color="#FFF" />
+              ) : (
+                <>
+                  <Icon name="trash" size={18} color="#FFF" />
+                  <Text style={s.buttonText}>Esvaziar lixeira</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <Text style={s.footnote}>
+          Restaurar um cliente traz de volta os pagamentos excluídos junto com ele.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const TrashItem = ({
+  title,
+  lines,
+  loading,
+  disabled,
+  onRestore,
+  onPurge,
+}: {
+  title: string;
+  lines: string[];
+  loading: boolean;
+  disabled: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}) => (
+  <View style={s.item}>
+    <View style={s.itemInfo}>
+      <Text style={s.itemTitle} numberOfLines={1}>
+        {title}
+      </Text>
+      {lines.map((line, i) => (
+        <Text key={i} style={s.itemLine} numberOfLines={1}>
+          {line}
+        </Text>
+      ))}
+    </View>
+    {loading ? (
+      <ActivityIndicator color="#0056b3" />
+    ) : (
+      <View style={s.itemActions}>
+        <TouchableOpacity style={s.actionButton} onPress={onRestore} disabled={disabled}>
+          <Icon name="arrow-undo" size={20} color="#0056b3" />
+        </TouchableOpacity>
+        <TouchableOpacity style={s.actionButton} onPress={onPurge} disabled={disabled}>
+          <Icon name="close-circle" size={22} color="#DC2626" />
+        </TouchableOpacity>
+      </View>
+    )}
+  </View>
+);
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+  center: { justifyContent: "center", alignItems: "center" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  helpText: { fontSize: 14, color: "#475569", lineHeight: 20, marginBottom: 12 },
+
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 10,
+    padding: 3,
+  },
+  segmentItem: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: "center" },
+  segmentItemActive: { backgroundColor: "#007AFF" },
+  segmentText: { fontSize: 13, color: "#555", fontWeight: "600" },
+  segmentTextActive: { color: "#fff" },
+
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  itemInfo: { flex: 1, marginRight: 8 },
+  itemTitle: { fontSize: 15, fontWeight: "700", color: "#1E293B" },
+  itemLine: { fontSize: 13, color: "#64748B", marginTop: 2 },
+  itemActions: { flexDirection: "row" },
+  actionButton: { padding: 8 },
+
+  emptyBox: { alignItems: "center", paddingVertical: 40 },
+  emptyText: { fontSize: 15, color: "#94A3B8", marginTop: 10 },
+
+  emptyButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#DC2626",
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginBottom: 20,
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#FFF", fontSize: 16, fontWeight: "700", marginLeft: 8 },
+
+  footnote: { fontSize: 13, color: "#64748B", textAlign: "center", lineHeight: 18 },
+});
@@ -46,6 +46,17 @@ export default function UpcomingChargesScreen() {
       headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
       headerTintColor: "#fff",
       headerTitleStyle: { fontWeight: "700" },
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={() => navigation.navigate("ChargesCalendar")}
+          hitSlop={DEFAULT_HIT_SLOP}
+          style={{ marginRight: 12 }}
+          accessibilityLabel="Ver agenda do mês"
+          accessibilityRole="button"
+        >
+          <Icon name="calendar-outline" size={22} color="#fff" />
+        </TouchableOpacity>
+      ),
     });
   }, [navigation]);
 
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  StatusBar,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from "react-native";
+import Icon from "react-native-vector-icons/Ionicons";
+import { useNavigation } from "@react-navigation/native";
+import { getWorkCalendarConfig, saveWorkCalendarConfig } from "../database/repositories/workCalendarRepo";
+import { DIAS_SEMANA } from "../database/utils/cadence";
+import { todayISO } from "../database/utils/dateHelpers";
+import { normalizeDateToISO } from "../database/utils/dateParsers";
+import { nationalHolidays, type FeriadoMunicipal } from "../database/utils/workCalendar";
+import { formatDateBR } from "../utils/formatDate";
+
+// 📌 dd/mm/aaaa enquanto digita
+const maskData = (txt: string) =>
+  txt
+    .replace(/\D/g, "")
+    .slice(0, 8)
+    .replace(/^(\d{2})(\d)/, "$1/$2")
+    .replace(/^(\d{2})\/(\d{2})(\d)/, "$1/$2/$3");
+
+/**
+ * 🗓️ Configuração do calendário de dias úteis
+ * Folgas da semana, feriados nacionais e municipais que o agendamento pula
+ */
+export default function WorkCalendarSettingsScreen() {
+  const navigation = useNavigation<any>();
+  const [diasFolga, setDiasFolga] = useState<number[]>([0]);
+  const [feriadosNacionais, setFeriadosNacionais] = useState(true);
+  const [municipais, setMunicipais] = useState<FeriadoMunicipal[]>([]);
+  const [novoNome, setNovoNome] = useState("");
+  const [novaData, setNovaData] = useState("");
+  const [novoAnual, setNovoAnual] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // 🎨 Header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: "Dias Úteis e Feriados",
+      headerStyle: { backgroundColor: "#0056b3", elevation: 0, shadowOpacity: 0 },
+      headerTintColor: "#fff",
+      headerTitleStyle: { fontWeight: "700" },
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    getWorkCalendarConfig()
+      .then((config) => {
+        setDiasFolga(config.diasFolga);
+        setFeriadosNacionais(config.feriadosNacionais);
+        setMunicipais(config.feriadosMunicipais);
+      })
+      .catch((e) => console.error("Erro ao carregar calendário de dias úteis:", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // 📅 Próximos feriados nacionais (deste ano e do próximo)
+  const proximosNacionais = useMemo(() => {
+    const hoje = todayISO();
+    const ano = Number(hoje.slice(0, 4));
+    return [...nationalHolidays(ano), ...nationalHolidays(ano + 1)].filter((f) => f.data >= hoje).slice(0, 6);
+  }, []);
+
+  const toggleFolga = (dia: number) => {
+    setDiasFolga((atual) => (atual.includes(dia) ? atual.filter((d) => d !== dia) : [...atual, dia].sort((a, b) => a - b)));
+  };
+
+  const handleAddFeriado = () => {
+    const data = normalizeDateToISO(novaData);
+    if (!novoNome.trim()) {
+      Alert.alert("Atenção", "Informe o nome do feriado.");
+      return;
+    }
+    if (!data || Number.isNaN(Date.parse(data))) {
+      Alert.alert("Atenção", "Informe a data no formato dd/mm/aaaa.");
+      return;
+    }
+    setMunicipais((atual) => [
+      ...atual.filter((f) => f.data !== data),
+      { data, nome: novoNome.trim(), anual: novoAnual },
+    ]);
+    setNovoNome("");
+    setNovaData("");
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await saveWorkCalendarConfig({ diasFolga, feriadosNacionais, feriadosMunicipais: municipais });
+      Alert.alert("Sucesso", "Calendário de dias úteis salvo.");
+      navigation.goBack();
+    } catch (error) {
+      console.error("Erro ao salvar calendário de dias úteis:", error);
+      Alert.alert("Erro", error instanceof Error ? error.message : "Não foi possível salvar o calendário.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading)
+    return <ActivityIndicator size="large" color="#0056b3" style={{ flex: 1 }} />;
+
+  return (
+    <View style={s.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0056b3" />
+
+      <ScrollView contentContainerStyle={s.content} keyboardShouldPersistTaps="handled">
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Dias de folga</Text>
+          <Text style={s.inputLabel}>Cobranças agendadas automaticamente pulam estes dias</Text>
+          <View style={s.chips}>
+            {DIAS_SEMANA.map((nome, index) => {
+              const active = diasFolga.includes(index);
+              return (
+                <TouchableOpacity
+                  key={nome}
+                  style={[s.chip, active && s.chipActive]}
+                  onPress={() => toggleFolga(index)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: active }}
+                  accessibilityLabel={`Folga: ${nome}`}
+                >
+                  <Text style={[s.chipText, active && s.chipTextActive]}>{nome.slice(0, 3)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={s.card}>
+          <View style={s.toggleRow}>
+            <Text style={s.cardTitle}>Feriados nacionais</Text>
+            <Switch
+              value={feriadosNacionais}
+              onValueChange={setFeriadosNacionais}
+              trackColor={{ false: "#CBD5E1", true: "#93C5FD" }}
+              thumbColor={feriadosNacionais ? "#0056b3" : "#F1F5F9"}
+            />
+          </View>
+          <Text style={s.inputLabel}>Inclui Carnaval, Sexta-feira Santa e Corpus Christi</Text>
+          {feriadosNacionais &&
+            proximosNacionais.map((feriado) => (
+              <View key={feriado.data} style={s.holidayRow}>
+                <Text style={s.holidayDate}>{formatDateBR(feriado.data)}</Text>
+                <Text style={s.holidayName}>{feriado.nome}</Text>
+              </View>
+            ))}
+        </View>
+
+        <View style={s.card}>
+          <Text style={s.cardTitle}>Feriados municipais</Text>
+          {municipais.length === 0 ? (
+            <Text style={s.inputLabel}>Nenhum feriado municipal cadastrado</Text>
+          ) : (
+            municipais.map((feriado) => (
+              <View key={feriado.data} style={s.holidayRow}>
+                <Text style={s.holidayDate}>
+                  {feriado.anual ? formatDateBR(feriado.data).slice(0, 5) : formatDateBR(feriado.data)}
+                </Text>
+                <Text style={s.holidayName}>
+                  {feriado.nome}
+                  {feriado.anual ? " (todo ano)" : ""}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setMunicipais((atual) => atual.filter((f) => f.data !== feriado.data))}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityLabel={`Remover feriado ${feriado.nome}`}
+                >
+                  <Icon name="trash-outline" size={18} color="#DC2626" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={[s.inputLabel, s.spaced]}>Nome</Text>
+          <TextInput style={s.input} value={novoNome} onChangeText={setNovoNome} placeholder="Aniversário da cidade" />
+          <Text style={[s.inputLabel, s.spaced]}>Data</Text>
+          <TextInput
+            style={s.input}
+            keyboardType="number-pad"
+            value={novaData}
+            onChangeText={(txt) => setNovaData(maskData(txt))}
+            placeholder="dd/mm/aaaa"
+            maxLength={10}
+          />
+          <View style={[s.toggleRow, s.spaced]}>
+            <Text style={s.inputLabel}>Repetir todo ano</Text>
+            <Switch
+              value={novoAnual}
+              onValueChange={setNovoAnual}
+              trackColor={{ false: "#CBD5E1", true: "#93C5FD" }}
+              thumbColor={novoAnual ? "#0056b3" : "#F1F5F9"}
+            />
+          </View>
+          <TouchableOpacity style={s.addButton} onPress={handleAddFeriado}>
+            <Icon name="add" size={18} color="#0056b3" />
+            <Text style={s.addText}>Adicionar feriado</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={s.saveButton} onPress={handleSave} disabled={saving}>
+          <Text style={s.saveText}>{saving ? "Salvando..." : "Salvar"}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// 🎨 Estilos
+const s = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#F1F5F9" },
+
+  content: { padding: 20, paddingBottom: 40 },
+
+  card: {
+    backgroundColor: "#FFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#64748B",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 10,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+
+  inputLabel: { fontSize: 14, color: "#64748B", marginBottom: 6 },
+  spaced: { marginTop: 12 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#111",
+    backgroundColor: "#FAFAFA",
+  },
+
+  chips: { flexDirection: "row", flexWrap: "wrap", marginHorizontal: -4 },
+  chip: {
+    minWidth: 44,
+    alignItems: "center",
+    margin: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    backgroundColor: "#F8FAFC",
+  },
+  chipActive: { backgroundColor: "#0056b3", borderColor: "#0056b3" },
+  chipText: { fontSize: 14, fontWeight: "600", color: "#475569" },
+  chipTextActive: { color: "#FFF" },
+
+  toggleRow: { flexDirection: "row", alignItems: "center", justifyContent: "space-between" },
+
+  holidayRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  holidayDate: { width: 90, fontSize: 14, fontWeight: "600", color: "#1E293B" },
+  holidayName: { flex: 1, fontSize: 14, color: "#475569" },
+
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#0056b3",
+  },
+  addText: { color: "#0056b3", fontSize: 15, fontWeight: "600", marginLeft: 4 },
+
+  saveButton: {
+    backgroundColor: "#0056b3",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveText: { color: "#FFF", fontSize: 16, fontWeight: "700" },
+});
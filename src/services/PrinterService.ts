@@ -6,10 +6,26 @@
  */
 
 import RNPrint from "react-native-print";
-import type { Client, Payment } from "../database/types";
+import type { Client, EncargosCliente, Payment } from "../database/types";
 import { getPaymentsByClient } from "../database/repositories/paymentsRepo";
+import { getEncargosCliente } from "../database/repositories/lateFeesRepo";
+import { getResumoPeriodo } from "../database/services/reportsService";
 import { formatCurrency } from "../utils/formatCurrency";
 import { formatDateBR } from "../utils/formatDate";
+import { buildReportHtml } from "../utils/reportHtml";
+import type { ExportPeriodo } from "../utils/csvExport";
+import type { ReportsDashboardData } from "./reportsService";
+
+/**
+ * ✅ Linhas de multa/juros do recibo (vazio se não há encargos ou foram dispensados)
+ */
+function encargosHTML(encargos: EncargosCliente | null): string {
+  if (!encargos || encargos.dispensado) return "";
+  return `
+          <p><strong>Multa:</strong> ${formatCurrency(encargos.multa)}</p>
+          <p><strong>Juros (${encargos.diasAtraso} dias):</strong> ${formatCurrency(encargos.juros)}</p>
+          <p><strong>Saldo Atualizado:</strong> ${formatCurrency(encargos.saldoAtualizado)}</p>`;
+}
 
 /**
  * ✅ Imprime recibo simples do cliente (nome + valor pendente)
@@ -17,6 +33,7 @@ import { formatDateBR } from "../utils/formatDate";
 export async function imprimirReciboSimples(cliente: Client): Promise<void> {
   try {
     const restante = Math.max(0, (cliente.value || 0) - (cliente.paid || 0));
+    const encargos = await getEncargosCliente(cliente);
     
     const html = `
       <html>
@@ -64,6 +81,7 @@ export async function imprimirReciboSimples(cliente: Client): Promise<void> {
           <hr />
           
           <p><strong>Valor Pendente:</strong> ${formatCurrency(restante)}</p>
+          ${encargosHTML(encargos)}
           
           <hr />
           
@@ -89,6 +107,7 @@ export async function imprimirReciboDetalhado(cliente: Client): Promise<void> {
     const restante = Math.max(0, (cliente.value || 0) - (cliente.paid || 0));
     const totalPago = cliente.paid || 0;
     const pagamentos = await getPaymentsByClient(cliente.id || 0);
+    const encargos = await getEncargosCliente(cliente);
     
     // Formatar histórico de pagamentos
     let historicoHTML = "";
@@ -176,6 +195,7 @@ export async function imprimirReciboDetalhado(cliente: Client): Promise<void> {
           
           <p><strong>Total Pago:</strong> ${formatCurrency(totalPago)}</p>
           <p><strong>Total Pendente:</strong> ${formatCurrency(restante)}</p>
+          ${encargosHTML(encargos)}
           
           ${cliente.observacoes ? `
             <hr />
@@ -276,7 +296,21 @@ export async function imprimirRecibo(
   }
 }
 
+/**
+ * ✅ Imprime o relatório financeiro (dashboard + recebimentos do período)
+ * No painel de impressão dá para escolher "Salvar como PDF"
+ */
+export async function imprimirRelatorioFinanceiro(
+  data: ReportsDashboardData,
+  periodo: ExportPeriodo
+): Promise<void> {
+  try {
+    const resumoPeriodo = await getResumoPeriodo(periodo.inicio, periodo.fim);
+    const html = buildReportHtml({ data, periodo: resumoPeriodo });
 
-
-
-
+    await RNPrint.print({ html, jobName: `Relatorio_${periodo.inicio}_a_${periodo.fim}` });
+  } catch (error) {
+    console.error("❌ Erro ao gerar relatório:", error);
+    throw new Error("Não foi possível gerar o relatório. Verifique se há uma impressora ou PDF disponível.");
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * ⏰ Backup Automático
+ *
+ * FEATURES:
+ * - Backup local NDJSON (comprimido e criptografado com o PIN) ao abrir o app,
+ *   se já passou BACKUP_INTERVAL_HOURS desde o último
+ * - Envio para o Firebase Storage (backups/<uid>/auto) quando há conexão;
+ *   sem conexão, o envio fica pendente e é refeito quando o app volta a ficar online
+ * - Retenção: 7 diários, 4 semanais e 12 mensais (local e nuvem)
+ * - Status do último backup bom para a Home
+ *
+ * ⚠️ Sem PIN definido o backup automático não roda (não gravamos dados abertos)
+ */
+
+import { AppState, type AppStateStatus, type NativeEventSubscription } from "react-native";
+import RNFS from "react-native-fs";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createNdjsonBackup } from "../database/db";
+import { getBackupPin, getBackupHistory, addBackupHistoryEntry } from "../utils/backup";
+import {
+  uploadBackupToFirebase,
+  listBackupsFromFirebase,
+  deleteBackupFromFirebase,
+} from "../utils/backupFirebase";
+import {
+  isBackupDue,
+  selectBackupsToPrune,
+  parseBackupTimestamp,
+  type BackupFileInfo,
+} from "../utils/backupSchedule";
+import { checkConnectionStatus, subscribeOfflineQueue } from "./syncOptimizer";
+import { getCurrentUser } from "./authService";
+
+// ============================================================
+// 📦 TIPOS
+// ============================================================
+
+export type BackupScheduleStatus = {
+  lastGoodBackup: number | null; // Último backup bem-sucedido (manual ou automático)
+  lastError: string | null; // Erro da última execução automática
+  running: boolean;
+};
+
+type ScheduleState = {
+  ultimoAutomatico: number | null;
+  ultimoErro: string | null;
+  pendenteNuvem: string | null; // Backup local ainda não enviado para a nuvem
+};
+
+// ============================================================
+// 📌 CONFIGURAÇÃO
+// ============================================================
+
+const SCHEDULE_KEY = "backup_schedule";
+
+// Pasta só do backup automático: a retenção nunca apaga backups manuais
+export const AUTO_BACKUP_DIR = `${RNFS.DocumentDirectoryPath}/backups_auto`;
+
+// Subpasta na nuvem (backups/<uid>/auto), fora da lista do restore da nuvem
+const CLOUD_AUTO_FOLDER = "auto";
+
+let running = false;
+let appStateSubscription: NativeEventSubscription | null = null;
+let connectionUnsubscribe: (() => void) | null = null;
+const statusListeners = new Set<(status: BackupScheduleStatus) => void>();
+
+// ============================================================
+// 💾 ESTADO
+// ============================================================
+
+async function loadState(): Promise<ScheduleState> {
+  try {
+    const json = await AsyncStorage.getItem(SCHEDULE_KEY);
+    const state = json ? JSON.parse(json) : null;
+    return {
+      ultimoAutomatico: state?.ultimoAutomatico ?? null,
+      ultimoErro: state?.ultimoErro ?? null,
+      pendenteNuvem: state?.pendenteNuvem ?? null,
+    };
+  } catch {
+    return { ultimoAutomatico: null, ultimoErro: null, pendenteNuvem: null };
+  }
+}
+
+async function saveState(state: ScheduleState): Promise<void> {
+  await AsyncStorage.setItem(SCHEDULE_KEY, JSON.stringify(state));
+}
+
+/**
+ * ✅ Status do backup para indicadores na UI
+ */
+export async function getBackupScheduleStatus(): Promise<BackupScheduleStatus> {
+  const [history, state] = await Promise.all([getBackupHistory(), loadState()]);
+  return {
+    lastGoodBackup: history.length > 0 ? history[0].timestamp : null,
+    lastError: state.ultimoErro,
+    running,
+  };
+}
+
+/**
+ * ✅ Observa mudanças no status do backup automático
+ * Retorna função para cancelar a inscrição
+ */
+export function subscribeBackupSchedule(listener: (status: BackupScheduleStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function notifyStatusListeners(): void {
+  if (statusListeners.size === 0) return;
+
+  getBackupScheduleStatus().then((status) => {
+    statusListeners.forEach((listener) => {
+      try {
+        listener(status);
+      } catch (e) {
+        console.warn("⚠️ Erro em listener do backup automático:", e);
+      }
+    });
+  });
+}
+
+// ============================================================
+// 🧹 RETENÇÃO
+// ============================================================
+
+/**
+ * 🧹 Apaga os backups automáticos locais fora da política de retenção
+ */
+async function pruneLocalBackups(): Promise<number> {
+  const files = await RNFS.readDir(AUTO_BACKUP_DIR);
+  const backups: (BackupFileInfo & { path: string })[] = [];
+  for (const file of files) {
+    const timestamp = parseBackupTimestamp(file.name);
+    if (file.isFile() && timestamp) backups.push({ name: file.name, timestamp, path: file.path });
+  }
+
+  const apagar = selectBackupsToPrune(backups);
+  for (const backup of apagar) {
+    await RNFS.unlink(backup.path).catch((e) => console.warn(`⚠️ Não foi possível apagar ${backup.name}:`, e));
+  }
+  return apagar.length;
+}
+
+/**
+ * 🧹 Apaga os backups automáticos da nuvem fora da política de retenção
+ */
+async function pruneCloudBackups(uid: string): Promise<number> {
+  const files = await listBackupsFromFirebase(uid, CLOUD_AUTO_FOLDER);
+  const backups: BackupFileInfo[] = [];
+  for (const file of files) {
+    const timestamp = parseBackupTimestamp(file.name) ?? Date.parse(file.createdAt);
+    if (timestamp) backups.push({ name: file.name, timestamp });
+  }
+
+  const apagar = selectBackupsToPrune(backups);
+  for (const backup of apagar) {
+    await deleteBackupFromFirebase(uid, `${CLOUD_AUTO_FOLDER}/${backup.name}`);
+  }
+  return apagar.length;
+}
+
+// ============================================================
+// ☁️ NUVEM
+// ============================================================
+
+/**
+ * ☁️ Envia o backup local pendente (só com usuário logado e conexão)
+ * Sem conexão continua pendente; o arquivo apagado pela retenção deixa de ser pendente
+ */
+async function uploadPendingBackup(state: ScheduleState): Promise<void> {
+  const backupPath = state.pendenteNuvem;
+  if (!backupPath) return;
+
+  const user = getCurrentUser();
+  if (!user || !(await checkConnectionStatus())) return;
+
+  if (!(await RNFS.exists(backupPath))) {
+    await saveState({ ...state, pendenteNuvem: null });
+    return;
+  }
+
+  try {
+    await uploadBackupToFirebase(user.uid, backupPath, CLOUD_AUTO_FOLDER);
+    await addBackupHistoryEntry({ type: "cloud", timestamp: Date.now(), automatico: true });
+    await saveState({ ...state, pendenteNuvem: null, ultimoErro: null });
+    const removidosNuvem = await pruneCloudBackups(user.uid);
+    console.log(`✅ Backup automático enviado para a nuvem (${removidosNuvem} antigos removidos)`);
+  } catch (e: any) {
+    // ⚠️ Backup local já está salvo: só registra a falha da nuvem (tenta de novo depois)
+    console.warn("⚠️ Falha ao enviar backup automático para a nuvem:", e);
+    await saveState({ ...state, ultimoErro: "Backup local salvo, mas o envio para a nuvem falhou." });
+  }
+}
+
+// ============================================================
+// ⏰ EXECUÇÃO
+// ============================================================
+
+/**
+ * ⏰ Roda o backup automático se estiver vencido
+ * ✅ Nunca lança erro: falhas ficam no status (lastError) e no log
+ *
+ * @param force - Ignora o intervalo (ex.: botão "fazer agora")
+ * @returns true se um backup local foi criado
+ */
+export async function runScheduledBackup(force = false): Promise<boolean> {
+  if (running) return false;
+  // ✅ Antes do primeiro await: a chamada inicial e o primeiro "active" não passam juntas
+  running = true;
+
+  let state: ScheduleState = { ultimoAutomatico: null, ultimoErro: null, pendenteNuvem: null };
+  try {
+    state = await loadState();
+    if (!force && !isBackupDue(state.ultimoAutomatico)) {
+      // ✅ Fora do horário do backup, mas pode haver envio para a nuvem pendente
+      await uploadPendingBackup(state);
+      return false;
+    }
+
+    notifyStatusListeners();
+    const pin = await getBackupPin();
+    if (!pin) {
+      await saveState({ ...state, ultimoErro: "Defina o PIN do backup para ativar o backup automático." });
+      return false;
+    }
+
+    // 1. Backup local
+    console.log("⏰ Iniciando backup automático...");
+    const backupPath = await createNdjsonBackup(pin, AUTO_BACKUP_DIR);
+    const timestamp = Date.now();
+    await addBackupHistoryEntry({ type: "local", timestamp, automatico: true });
+    state = { ultimoAutomatico: timestamp, ultimoErro: null, pendenteNuvem: backupPath };
+    await saveState(state);
+
+    const removidosLocal = await pruneLocalBackups();
+    console.log(`✅ Backup automático local criado (${removidosLocal} antigos removidos)`);
+
+    // 2. Nuvem (fica pendente se estiver offline)
+    await uploadPendingBackup(state);
+
+    return true;
+  } catch (e: any) {
+    console.error("❌ Erro no backup automático:", e);
+    await saveState({ ...state, ultimoErro: e?.message || "Falha no backup automático." });
+    return false;
+  } finally {
+    running = false;
+    notifyStatusListeners();
+  }
+}
+
+/**
+ * ☁️ Tenta de novo o envio pendente para a nuvem (conexão restabelecida)
+ */
+async function retryPendingUpload(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    await uploadPendingBackup(await loadState());
+  } catch (e) {
+    console.warn("⚠️ Erro ao reenviar backup automático:", e);
+  } finally {
+    running = false;
+    notifyStatusListeners();
+  }
+}
+
+/**
+ * ✅ Registra o backup automático: verifica agora e sempre que o app volta ao primeiro plano
+ * Envio para a nuvem pendente é refeito quando a conexão volta
+ */
+export function registerBackupScheduler(): void {
+  // ✅ Evitar registrar múltiplas vezes
+  if (appStateSubscription) return;
+
+  runScheduledBackup();
+
+  appStateSubscription = AppState.addEventListener("change", (state: AppStateStatus) => {
+    if (state === "active") {
+      runScheduledBackup();
+    }
+  });
+
+  // 🌐 Só na passagem offline → online (o status da fila também muda com as operações)
+  let wasOnline = true;
+  connectionUnsubscribe = subscribeOfflineQueue(({ isOnline }) => {
+    if (isOnline && !wasOnline) retryPendingUpload();
+    wasOnline = isOnline;
+  });
+
+  console.log("✅ Backup automático registrado");
+}
+
+/**
+ * ✅ Remove o listener do backup automático (cleanup)
+ */
+export function unregisterBackupScheduler(): void {
+  if (appStateSubscription) {
+    appStateSubscription.remove();
+    appStateSubscription = null;
+    console.log("🛑 Backup automático removido");
+  }
+  if (connectionUnsubscribe) {
+    connectionUnsubscribe();
+    connectionUnsubscribe = null;
+  }
+}
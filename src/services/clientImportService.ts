@@ -0,0 +1,142 @@
+/**
+ * 📥 Importação de Clientes (CSV)
+ *
+ * FEATURES:
+ * - Lê o CSV escolhido (UTF-8 ou Latin-1 do Excel)
+ * - Cria bairros e ruas que ainda não existem (comparação sem acento/maiúsculas)
+ * - Grava cada cliente pelo saveClient (SQLite + Firestore em background)
+ * - Resumo com importados e ignorados (linha + motivo)
+ *
+ * ⚠️ O mapeamento e a validação das linhas ficam em utils/clientImport (puro)
+ */
+
+import RNFS from "react-native-fs";
+import {
+  addBairro,
+  getAllBairros,
+  addRua,
+  getAllRuas,
+  getAllClientsFull,
+} from "../database/db";
+import { base64ToBytes } from "../database/utils/ndjson";
+import { clientNaturalKey } from "../database/utils/backupRecords";
+import { decodeCsvBytes, parseCsv } from "../utils/csv";
+import { normalizeImportName, type ImportRow, type SkippedRow } from "../utils/clientImport";
+import { saveClient, saveBairro, saveRua } from "./syncService";
+
+// ============================================================
+// 📦 TIPOS
+// ============================================================
+
+export type CsvFile = {
+  headers: string[];
+  rows: string[][]; // Linhas de dados (sem o cabeçalho)
+};
+
+export type ClientImportSummary = {
+  importados: number;
+  ignorados: SkippedRow[];
+  bairrosCriados: number;
+  ruasCriadas: number;
+};
+
+// ============================================================
+// 📄 LEITURA
+// ============================================================
+
+/**
+ * ✅ Lê o arquivo CSV (primeira linha = cabeçalho)
+ */
+export async function readCsvFile(path: string): Promise<CsvFile> {
+  const base64 = await RNFS.readFile(path, "base64");
+  const [headers = [], ...rows] = parseCsv(decodeCsvBytes(base64ToBytes(base64)));
+
+  if (headers.length === 0) {
+    throw new Error("O arquivo está vazio.");
+  }
+  if (rows.length === 0) {
+    throw new Error("O arquivo só tem o cabeçalho, nenhum cliente para importar.");
+  }
+
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+/**
+ * ✅ Chaves (nome + telefone) dos clientes já cadastrados, para não duplicar
+ */
+export async function loadExistingClientKeys(): Promise<Set<string>> {
+  const clients = await getAllClientsFull();
+  return new Set(clients.map((client) => clientNaturalKey(client)));
+}
+
+// ============================================================
+// 💾 GRAVAÇÃO
+// ============================================================
+
+/**
+ * ✅ Grava os clientes válidos da prévia
+ * Falha ao gravar uma linha não interrompe as outras: vira "ignorada" com o motivo
+ */
+export async function importClients(
+  userId: string,
+  validos: ImportRow[],
+  ignoradosNaPrevia: SkippedRow[],
+  onProgress?: (feitos: number, total: number) => void
+): Promise<ClientImportSummary> {
+  const summary: ClientImportSummary = {
+    importados: 0,
+    ignorados: [...ignoradosNaPrevia],
+    bairrosCriados: 0,
+    ruasCriadas: 0,
+  };
+
+  const bairros = new Map<string, number>();
+  for (const bairro of await getAllBairros()) {
+    if (bairro.id) bairros.set(normalizeImportName(bairro.nome), bairro.id);
+  }
+  const ruas = new Map<string, number>();
+  for (const rua of await getAllRuas()) {
+    if (rua.id) ruas.set(`${rua.bairroId}|${normalizeImportName(rua.nome)}`, rua.id);
+  }
+
+  const obterBairro = async (nome: string): Promise<number> => {
+    const key = normalizeImportName(nome);
+    const existente = bairros.get(key);
+    if (existente) return existente;
+
+    const id = await addBairro(nome);
+    bairros.set(key, id);
+    summary.bairrosCriados++;
+    saveBairro(userId, { id, nome });
+    return id;
+  };
+
+  const obterRua = async (nome: string, bairroId: number): Promise<number> => {
+    const key = `${bairroId}|${normalizeImportName(nome)}`;
+    const existente = ruas.get(key);
+    if (existente) return existente;
+
+    const id = await addRua(nome, bairroId);
+    ruas.set(key, id);
+    summary.ruasCriadas++;
+    saveRua(userId, { id, nome, bairroId });
+    return id;
+  };
+
+  for (let i = 0; i < validos.length; i++) {
+    const { linha, client, bairro, rua } = validos[i];
+    try {
+      const bairroId = bairro ? await obterBairro(bairro) : null;
+      const ruaId = bairroId && rua ? await obterRua(rua, bairroId) : null;
+      await saveClient(userId, { ...client, ruaId });
+      summary.importados++;
+    } catch (error: any) {
+      console.error(`❌ Erro ao importar linha ${linha}:`, error);
+      summary.ignorados.push({ linha, motivo: error?.message || "Erro ao gravar o cliente" });
+    }
+    onProgress?.(i + 1, validos.length);
+  }
+
+  summary.ignorados.sort((a, b) => a.linha - b.linha);
+  return summary;
+}
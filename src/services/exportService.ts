@@ -0,0 +1,75 @@
+/**
+ * 📤 Exportação de Planilhas (CSV)
+ *
+ * FEATURES:
+ * - Clientes com saldo, pagamentos do período e resumo por bairro
+ * - CSV em UTF-8 com BOM, ";" e vírgula decimal (Excel / LibreOffice pt-BR)
+ * - Arquivo salvo no cache e enviado pelo compartilhamento do sistema
+ */
+
+import RNFS from "react-native-fs";
+import {
+  getClientesParaExportar,
+  getPagamentosParaExportar,
+  getResumoBairrosParaExportar,
+} from "../database/db";
+import {
+  buildClientesCsv,
+  buildPagamentosCsv,
+  buildResumoBairrosCsv,
+  exportFileName,
+  type ExportPeriodo,
+} from "../utils/csvExport";
+import { formatCsvDate } from "../utils/csv";
+import { shareFile } from "../utils/shareFile";
+
+export type ExportResult = {
+  path: string;
+  linhas: number;
+};
+
+// ✅ Grava no cache (o sistema limpa) e abre o compartilhamento
+async function saveAndShare(fileName: string, csv: string, title: string): Promise<string> {
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, csv, "utf8");
+  await shareFile(path, title, `${title} - Crediário`);
+  return path;
+}
+
+const descricaoPeriodo = (periodo: ExportPeriodo) =>
+  `${formatCsvDate(periodo.inicio)} a ${formatCsvDate(periodo.fim)}`;
+
+/**
+ * ✅ Planilha de clientes (todos, com valor, pago e saldo)
+ */
+export async function exportClientesCsv(): Promise<ExportResult> {
+  const rows = await getClientesParaExportar();
+  const path = await saveAndShare(exportFileName("clientes"), buildClientesCsv(rows), "Clientes e saldos");
+  return { path, linhas: rows.length };
+}
+
+/**
+ * ✅ Planilha de pagamentos recebidos no período
+ */
+export async function exportPagamentosCsv(periodo: ExportPeriodo): Promise<ExportResult> {
+  const rows = await getPagamentosParaExportar(periodo.inicio, periodo.fim);
+  const path = await saveAndShare(
+    exportFileName("pagamentos", periodo),
+    buildPagamentosCsv(rows),
+    `Pagamentos de ${descricaoPeriodo(periodo)}`
+  );
+  return { path, linhas: rows.length };
+}
+
+/**
+ * ✅ Resumo por bairro (carteira + recebido no período)
+ */
+export async function exportResumoBairrosCsv(periodo: ExportPeriodo): Promise<ExportResult> {
+  const rows = await getResumoBairrosParaExportar(periodo.inicio, periodo.fim);
+  const path = await saveAndShare(
+    exportFileName("resumo_bairros", periodo),
+    buildResumoBairrosCsv(rows, periodo),
+    `Resumo por bairro de ${descricaoPeriodo(periodo)}`
+  );
+  return { path, linhas: rows.length };
+}
@@ -1,4 +1,4 @@
-import type { TopCliente, CrediarioPorBairro } from "../database/types";
+import type { TopCliente, CrediarioPorBairro, AgingReport } from "../database/types";
 import {
   getTotalHoje,
   getTotalMesAtual,
@@ -7,6 +7,7 @@ import {
   getCrediariosPorBairro,
   getCrescimentoPercentual,
   getTotals,
+  getAgingReport,
 } from "../database/services/reportsService";
 import { safe } from "../utils/safeAsync";
 
@@ -24,6 +25,19 @@ export type ReportsDashboardData = {
     percentual: number;
     cresceu: boolean;
   };
+  aging: AgingReport;
+};
+
+/**
+ * ✅ Aging vazio (fallback quando a consulta falha)
+ */
+export const EMPTY_AGING_REPORT: AgingReport = {
+  dataRef: "",
+  total: 0,
+  quantidade: 0,
+  porVencimento: [],
+  porUltimoPagamento: [],
+  bairros: [],
 };
 
 /**
@@ -35,7 +49,7 @@ export type ReportsDashboardData = {
 export async function getReportsDashboard(): Promise<ReportsDashboardData> {
   // ✅ Usa safe() para todas as chamadas - evita crash do Promise.all
   // Padroniza logs com prefixo [DB]
-  const [hoje, mesAtual, mesAnterior, totals, top, bairros, crescimentoData] = await Promise.all([
+  const [hoje, mesAtual, mesAnterior, totals, top, bairros, crescimentoData, aging] = await Promise.all([
     safe(() => getTotalHoje(), 0, { errorLabel: "getTotalHoje", logPrefix: "DB" }),
     safe(() => getTotalMesAtual(), 0, { errorLabel: "getTotalMesAtual", logPrefix: "DB" }),
     safe(() => getTotalMesAnterior(), 0, { errorLabel: "getTotalMesAnterior", logPrefix: "DB" }),
@@ -43,6 +57,7 @@ export async function getReportsDashboard(): Promise<ReportsDashboardData> {
     safe(() => getTopClientesMes(), [], { errorLabel: "getTopClientesMes", logPrefix: "DB" }),
     safe(() => getCrediariosPorBairro(), [], { errorLabel: "getCrediariosPorBairro", logPrefix: "DB" }),
     safe(() => getCrescimentoPercentual(), { percentual: 0, cresceu: false }, { errorLabel: "getCrescimentoPercentual", logPrefix: "DB" }),
+    safe(() => getAgingReport(), EMPTY_AGING_REPORT, { errorLabel: "getAgingReport", logPrefix: "DB" }),
   ]);
 
   return {
@@ -53,6 +68,7 @@ export async function getReportsDashboard(): Promise<ReportsDashboardData> {
     topClientes: top,
     crediariosPorBairro: bairros,
     crescimento: crescimentoData,
+    aging,
   };
 }
 
@@ -93,5 +109,11 @@ export async function getReportsNeighborhoods(): Promise<CrediarioPorBairro[]> {
   return safe(() => getCrediariosPorBairro(), [], { errorLabel: "getCrediariosPorBairro", logPrefix: "DB" });
 }
 
-
-
+/**
+ * ✅ Service para obter saldo em atraso por faixa (aging)
+ *
+ * @returns Promise<AgingReport>
+ */
+export async function getReportsAging(): Promise<AgingReport> {
+  return safe(() => getAgingReport(), EMPTY_AGING_REPORT, { errorLabel: "getAgingReport", logPrefix: "DB" });
+}
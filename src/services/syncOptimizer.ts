@@ -4,7 +4,7 @@
  * FEATURES:
  * - Retry automático com backoff exponencial
  * - Detecção de perda de conexão (listener + fallback manual)
- * - Modo offline avançado com fila de operações pendentes
+ * - Modo offline avançado com fila de operações pendentes (persistida no SQLite)
  * - Proteção contra duplicação de writes
  * - Fail-safe caso Firestore nunca responda
  * - Logs claros de cada etapa
@@ -19,12 +19,22 @@ try {
 }
 
 import firestore from "@react-native-firebase/firestore";
+import {
+  enqueueOutboxOperation,
+  getOutboxOperations,
+  removeOutboxOperation,
+  setOutboxRetryCount,
+  pruneOutbox,
+  getOutboxStats,
+  clearOutbox,
+} from "../database/repositories/syncOutboxRepo";
 
 // ============================================================
 // 📦 TIPOS
 // ============================================================
 
 export type PendingOperation = {
+  id?: number; // ID na tabela sync_outbox (quando persistida)
   action: "SET" | "UPDATE" | "DELETE";
   path: string;
   data?: any;
@@ -41,7 +51,15 @@ let retryAttempts = 0;
 let retryTimeout: NodeJS.Timeout | null = null;
 let networkUnsubscribe: (() => void) | null = null;
 
-const offlineQueue: PendingOperation[] = [];
+export type OfflineQueueStats = {
+  queueLength: number;
+  isOnline: boolean;
+  oldestOperation: number | null;
+};
+
+// ✅ Fila offline fica no SQLite (sync_outbox) — sobrevive ao app ser morto
+let isFlushing = false;
+const queueListeners = new Set<(stats: OfflineQueueStats) => void>();
 
 // ✅ Configurações
 const MAX_RETRY = 6; // = backoff até ~60s
@@ -78,10 +96,12 @@ export function registerNetworkMonitor(): void {
     isOnline = !!state.isConnected;
     console.log(`🌐 Estado inicial de conexão: ${isOnline ? "ONLINE" : "OFFLINE"}`);
     
-    // ✅ Se já está online, tentar processar fila pendente
-    if (isOnline && offlineQueue.length > 0) {
+    // ✅ Se já está online, reenviar fila gravada em disco (sessões anteriores)
+    if (isOnline) {
       console.log("🌐 Conexão detectada — enviando fila pendente...");
       flushOfflineQueue();
+    } else {
+      notifyQueueListeners();
     }
   });
 
@@ -103,6 +123,10 @@ export function registerNetworkMonitor(): void {
         retryTimeout = null;
       }
     }
+
+    if (wasOnline !== isOnline) {
+      notifyQueueListeners();
+    }
   });
 
   console.log("✅ Network monitor registrado");
@@ -268,20 +292,6 @@ export async function safeWrite(
     throw new Error(`safeWrite: data é obrigatório para ação ${action}`);
   }
 
-  // ✅ Proteção contra duplicação: verificar se já existe operação idêntica na fila
-  const existingOp = offlineQueue.find(
-    (op) => op.action === action && op.path === path
-  );
-
-  if (existingOp) {
-    // ✅ Se existe, atualizar dados e timestamp (evita duplicação)
-    console.log(`🔄 Operação duplicada detectada, atualizando: ${action} em ${path}`);
-    existingOp.data = data;
-    existingOp.timestamp = Date.now();
-    existingOp.retryCount = 0;
-    return;
-  }
-
   const op: PendingOperation = {
     action,
     path,
@@ -290,17 +300,9 @@ export async function safeWrite(
     retryCount: 0,
   };
 
-  // ✅ Verificar se fila está muito grande
-  if (offlineQueue.length >= MAX_QUEUE_SIZE) {
-    console.warn(
-      `⚠️ Fila offline muito grande (${offlineQueue.length}), removendo operação mais antiga...`
-    );
-    offlineQueue.shift(); // Remove operação mais antiga
-  }
-
   if (!isOnline) {
     console.log(`🧩 Operação armazenada offline: ${action} em ${path}`);
-    offlineQueue.push(op);
+    await storeOffline(op);
     return;
   }
 
@@ -308,7 +310,21 @@ export async function safeWrite(
     await withRetry(() => executeWrite(op), `${action} ${path}`);
   } catch (err) {
     console.log(`📥 Falhou até no retry — armazenando offline: ${action} em ${path}`);
-    offlineQueue.push(op);
+    await storeOffline(op);
+  }
+}
+
+/**
+ * ✅ Grava operação na fila offline em disco
+ * Proteção contra duplicação e limite de tamanho ficam no repositório
+ */
+async function storeOffline(op: PendingOperation): Promise<void> {
+  try {
+    await enqueueOutboxOperation(op.action, op.path, op.data, MAX_QUEUE_SIZE);
+  } catch (e) {
+    console.error(`❌ Erro ao gravar operação na fila offline: ${op.action} ${op.path}`, e);
+  } finally {
+    notifyQueueListeners();
   }
 }
 
@@ -319,78 +335,80 @@ export async function safeWrite(
 /**
  * ✅ Processa fila offline quando conexão é restabelecida
  * Remove operações muito antigas e tenta enviar o resto
+ * ✅ Lê a fila do SQLite: também reenvia operações de sessões anteriores
  */
 async function flushOfflineQueue(): Promise<void> {
-  if (offlineQueue.length === 0) {
-    console.log("✨ Nenhuma operação offline pendente.");
+  // ✅ Evitar dois envios simultâneos da mesma fila
+  if (isFlushing) {
+    console.log("⏳ Fila offline já está sendo enviada, ignorando...");
     return;
   }
+  isFlushing = true;
 
-  // ✅ Limpar operações muito antigas (fail-safe)
-  const now = Date.now();
-  const initialLength = offlineQueue.length;
-  const cleanedQueue = offlineQueue.filter((op) => {
-    const age = now - op.timestamp;
-    if (age > MAX_QUEUE_AGE) {
-      console.log(`🗑️ Removendo operação muito antiga (${Math.floor(age / (24 * 60 * 60 * 1000))} dias): ${op.action} ${op.path}`);
-      return false;
+  try {
+    // ✅ Limpar operações muito antigas (fail-safe)
+    const removed = await pruneOutbox(MAX_QUEUE_AGE);
+    if (removed > 0) {
+      console.log(`🧹 Removidas ${removed} operações antigas da fila`);
     }
-    return true;
-  });
-
-  offlineQueue.length = 0; // Limpar array
-  offlineQueue.push(...cleanedQueue); // Reinserir operações válidas
-
-  if (cleanedQueue.length < initialLength) {
-    console.log(`🧹 Removidas ${initialLength - cleanedQueue.length} operações antigas da fila`);
-  }
-
-  console.log(`📤 Enviando ${offlineQueue.length} operações pendentes...`);
 
-  // ✅ Processar fila uma operação por vez
-  while (offlineQueue.length > 0) {
-    // ✅ Verificar conexão antes de cada operação
-    if (!isOnline) {
-      console.log("📴 Conexão perdida durante envio da fila — parando...");
-      break;
+    const queue = await getOutboxOperations();
+    if (queue.length === 0) {
+      console.log("✨ Nenhuma operação offline pendente.");
+      return;
     }
 
-    const op = offlineQueue[0]; // Pega primeira operação (não remove ainda)
-
-    try {
-      await withRetry(() => executeWrite(op), `${op.action} ${op.path}`);
-      // ✅ Só remove da fila se sucesso
-      offlineQueue.shift();
-      console.log(`✅ Operação sincronizada: ${op.action} ${op.path}`);
-    } catch (err) {
-      op.retryCount++;
-
-      // ✅ Se já tentou muitas vezes, remover da fila (fail-safe)
-      if (op.retryCount >= MAX_RETRY) {
-        console.error(
-          `❌ Operação falhou após ${MAX_RETRY} tentativas, removendo da fila: ${op.action} ${op.path}`
-        );
-        offlineQueue.shift();
-      } else {
-        console.log(
-          `❌ Falha ao reenviar operação (tentativa ${op.retryCount}/${MAX_RETRY}), mantendo na fila.`
-        );
-        // ✅ Mover para o final da fila (dar chance para outras operações)
-        offlineQueue.shift();
-        offlineQueue.push(op);
-      }
+    console.log(`📤 Enviando ${queue.length} operações pendentes...`);
 
-      // ✅ Se erro é de conexão, parar processamento
-      if (err instanceof Error && err.message.includes("Sem conexão")) {
+    // ✅ Processar fila uma operação por vez, na ordem em que foi gravada
+    for (const op of queue) {
+      // ✅ Verificar conexão antes de cada operação
+      if (!isOnline) {
+        console.log("📴 Conexão perdida durante envio da fila — parando...");
         break;
       }
+
+      try {
+        await withRetry(() => executeWrite(op), `${op.action} ${op.path}`);
+        // ✅ Só remove da fila se sucesso
+        await removeOutboxOperation(op.id);
+        console.log(`✅ Operação sincronizada: ${op.action} ${op.path}`);
+      } catch (err) {
+        const retryCount = op.retryCount + 1;
+
+        // ✅ Se já tentou muitas vezes, remover da fila (fail-safe)
+        if (retryCount >= MAX_RETRY) {
+          console.error(
+            `❌ Operação falhou após ${MAX_RETRY} tentativas, removendo da fila: ${op.action} ${op.path}`
+          );
+          await removeOutboxOperation(op.id);
+        } else {
+          console.log(
+            `❌ Falha ao reenviar operação (tentativa ${retryCount}/${MAX_RETRY}), mantendo na fila.`
+          );
+          await setOutboxRetryCount(op.id, retryCount);
+        }
+
+        // ✅ Se erro é de conexão, parar processamento
+        if (err instanceof Error && err.message.includes("Sem conexão")) {
+          break;
+        }
+      } finally {
+        notifyQueueListeners();
+      }
     }
-  }
 
-  if (offlineQueue.length === 0) {
-    console.log("✨ Fila offline completamente processada!");
-  } else {
-    console.log(`⏳ ${offlineQueue.length} operações ainda pendentes na fila`);
+    const { count } = await getOutboxStats();
+    if (count === 0) {
+      console.log("✨ Fila offline completamente processada!");
+    } else {
+      console.log(`⏳ ${count} operações ainda pendentes na fila`);
+    }
+  } catch (e) {
+    console.error("❌ Erro ao processar fila offline:", e);
+  } finally {
+    isFlushing = false;
+    notifyQueueListeners();
   }
 }
 
@@ -399,28 +417,57 @@ async function flushOfflineQueue(): Promise<void> {
 // ============================================================
 
 /**
- * ✅ Retorna estatísticas da fila offline
+ * ✅ Retorna estatísticas da fila offline (lidas do disco)
  */
-export function getOfflineQueueStats(): {
-  queueLength: number;
-  isOnline: boolean;
-  oldestOperation: number | null;
-} {
-  const oldestOp = offlineQueue.length > 0 ? offlineQueue[0] : null;
-  return {
-    queueLength: offlineQueue.length,
-    isOnline,
-    oldestOperation: oldestOp ? oldestOp.timestamp : null,
+export async function getOfflineQueueStats(): Promise<OfflineQueueStats> {
+  try {
+    const { count, oldestTimestamp } = await getOutboxStats();
+    return {
+      queueLength: count,
+      isOnline,
+      oldestOperation: oldestTimestamp,
+    };
+  } catch (e) {
+    console.warn("⚠️ Erro ao ler estatísticas da fila offline:", e);
+    return { queueLength: 0, isOnline, oldestOperation: null };
+  }
+}
+
+/**
+ * ✅ Observa mudanças na fila offline (para indicadores na UI)
+ * Retorna função para cancelar a inscrição
+ */
+export function subscribeOfflineQueue(listener: (stats: OfflineQueueStats) => void): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
   };
 }
 
+/**
+ * ✅ Notifica ouvintes com as estatísticas atuais da fila
+ */
+function notifyQueueListeners(): void {
+  if (queueListeners.size === 0) return;
+
+  getOfflineQueueStats().then((stats) => {
+    queueListeners.forEach((listener) => {
+      try {
+        listener(stats);
+      } catch (e) {
+        console.warn("⚠️ Erro em listener da fila offline:", e);
+      }
+    });
+  });
+}
+
 /**
  * ✅ Limpa a fila offline (usar com cuidado!)
  */
-export function clearOfflineQueue(): void {
-  const length = offlineQueue.length;
-  offlineQueue.length = 0;
+export async function clearOfflineQueue(): Promise<void> {
+  const length = await clearOutbox();
   console.log(`🗑️ Fila offline limpa (${length} operações removidas)`);
+  notifyQueueListeners();
 }
 
 /**
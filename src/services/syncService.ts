@@ -6,11 +6,12 @@
 // usando os recursos nativos do Firebase (fila offline, retry automático, etc.)
 //
 // FEATURES:
-// ✅ Sincronização em tempo real via onSnapshot
+// ✅ Sincronização em tempo real via onSnapshot (clientes, pagamentos, ruas e bairros)
 // ✅ Funciona 100% offline (cache automático)
 // ✅ Fila de operações pendentes (automática)
 // ✅ Reenvio automático quando volta online
 // ✅ Zero sync manual necessário
+// ✅ Documentos identificados pelo sync_id (UUID) - IDs locais não colidem entre aparelhos
 //
 // ============================================================
 
@@ -29,10 +30,157 @@ import {
   deleteDoc,
 } from "@react-native-firebase/firestore";
 import { safeWrite } from "./syncOptimizer";
-import type { Client, Log } from "../database/types";
-import { getAllClients, addClient, getClientById, deleteClient } from "../database/repositories/clientsRepo";
+import type { Client, Log, Payment, Bairro, Rua, ReagendamentoLote } from "../database/types";
+import type { MergeBackupResult } from "../database/backup";
+import {
+  getAllClientsFull,
+  addClient,
+  getClientById,
+  getClientBySyncId,
+  deleteClient,
+  restoreClient,
+  restoreClientFromSync,
+  rescheduleClients,
+  undoReschedule,
+  getClientFieldVersions,
+  setClientFieldVersions,
+  getClientsByRua,
+} from "../database/repositories/clientsRepo";
 import { updateClient } from "../database/legacy";
-import { getLogsByClient } from "../database/repositories/logsRepo";
+import { addLog, getLogsByClient, getLogIdsByClient } from "../database/repositories/logsRepo";
+import {
+  getPaymentsByClient,
+  getPaymentById,
+  upsertPaymentFromSync,
+  getClientOpeningPaid,
+  deletePaymentFromSync,
+  restorePayment,
+} from "../database/repositories/paymentsRepo";
+import {
+  getAllBairros,
+  getBairroById,
+  getBairroBySyncId,
+  upsertBairroFromSync,
+  deleteBairroFromSync,
+} from "../database/repositories/bairroRepo";
+import {
+  getAllRuas,
+  getRuaById,
+  getRuaBySyncId,
+  getRuasByBairro,
+  upsertRuaFromSync,
+  deleteRuaFromSync,
+} from "../database/repositories/ruaRepo";
+import { getSetting, setSetting } from "../database/repositories/settingsRepo";
+import { formatDateTimeIso } from "../database/utils";
+import {
+  CLIENT_SYNC_FIELDS,
+  CLIENT_SYNC_FIELD_LABELS,
+  resolveClientConflict,
+  type FieldVersions,
+} from "../database/utils/conflictResolution";
+
+type SyncedCollection = "bairros" | "ruas" | "payments";
+
+// ✅ Documento de pagamento no Firestore: cliente referenciado pelo sync_id
+type PaymentDoc = Payment & { client_sync_id?: string; restored_at?: string | null };
+
+// ✅ Documento de rua no Firestore: bairro referenciado pelo sync_id
+type RuaDoc = Rua & { bairro_sync_id?: string };
+
+/**
+ * ✅ Listener genérico de uma coleção de users/{uid}
+ * Mesmo modelo dos clientes: processa apenas docChanges()
+ * ⚠️ Escritas locais ainda não confirmadas (eco do próprio aparelho) são ignoradas
+ */
+const listenUserCollection = (
+  userId: string,
+  name: SyncedCollection,
+  onChange: (type: "added" | "modified" | "removed", data: any) => Promise<void>,
+  onUpdate: () => void
+): (() => void) => {
+  const ref = collection(doc(collection(db, "users"), userId), name);
+
+  return onSnapshot(
+    ref,
+    { includeMetadataChanges: true },
+    async (snapshot) => {
+      const changes = snapshot.docChanges();
+      if (changes.length === 0) return;
+
+      for (const change of changes) {
+        if (change.doc.metadata.hasPendingWrites) continue;
+        try {
+          await onChange(change.type, change.doc.data());
+        } catch (error) {
+          console.warn(`⚠️ Erro ao processar mudança em ${name}/${change.doc.id}:`, error);
+        }
+      }
+
+      console.log(`✅ ${changes.length} mudança(s) em ${name} processada(s)`);
+      onUpdate();
+    },
+    (error) => {
+      console.error(`❌ Erro no listener de sincronização (${name}):`, error);
+    }
+  );
+};
+
+// ✅ Campos do documento que não valem localmente (ids do outro aparelho, carimbos do Firestore)
+const REMOTE_ONLY_FIELDS = ["id", "ruaId", "rua_sync_id", "updatedAt", "field_versions", "opening_paid"];
+
+const omitRemoteFields = (data: Record<string, any>): Client =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => !REMOTE_ONLY_FIELDS.includes(key))) as Client;
+
+/**
+ * ✅ Rua do documento remoto no id local (pelo rua_sync_id)
+ * Rua ainda desconhecida aqui (ou documento antigo, com o ruaId do outro aparelho): mantém a rua local
+ */
+const resolveRemoteRuaId = async (data: Record<string, any>, local: Client | null): Promise<number | null> => {
+  if (data.rua_sync_id === null) return null;
+  const rua = data.rua_sync_id ? await getRuaBySyncId(data.rua_sync_id) : null;
+  return rua?.id ?? local?.ruaId ?? null;
+};
+
+/**
+ * ✅ Completa as versões remotas: campo sem versão própria usa o updated_at do documento
+ */
+const fillFieldVersions = (versions: FieldVersions | null | undefined, updatedAt?: string | null): FieldVersions => {
+  const filled: FieldVersions = {};
+  for (const field of CLIENT_SYNC_FIELDS) {
+    const version = versions?.[field] ?? updatedAt;
+    if (version) filled[field] = version;
+  }
+  return filled;
+};
+
+/**
+ * ✅ Aplica documento remoto de um cliente existente (last-writer-wins por campo)
+ * - paid/status nunca são sobrescritos: derivados dos pagamentos sincronizados
+ * - Edição local mais nova (ainda na fila do syncOptimizer) é mantida e registrada no histórico
+ */
+const applyRemoteClient = async (
+  local: Client,
+  remote: Partial<Client>,
+  remoteVersions?: FieldVersions | null
+): Promise<void> => {
+  if (!local.id) return;
+
+  const localVersions = await getClientFieldVersions(local.id);
+  const { changes, versions, conflicts } = resolveClientConflict(local, localVersions, remote, remoteVersions);
+
+  if (Object.keys(changes).length > 0) {
+    // ✅ Indica que a atualização vem do Firestore
+    await updateClient(local, changes, { fromFirestore: true, fieldVersions: versions });
+    console.log(`✅ Cliente ${local.name} atualizado (${Object.keys(changes).join(", ")})`);
+  }
+
+  if (conflicts.length > 0) {
+    const labels = conflicts.map((field) => CLIENT_SYNC_FIELD_LABELS[field]).join(", ");
+    await addLog(local.id, `⚖️ Conflito de edição resolvido: mantida a alteração deste aparelho em ${labels}`);
+    console.log(`⚖️ Conflito resolvido no cliente ${local.name}: ${labels}`);
+  }
+};
 
 /**
  * ✅ Inicia sincronização em tempo real (AUTOMÁTICA)
@@ -76,6 +224,64 @@ export const startRealtimeSync = (
     "clients"
   );
 
+  // 🏘️ Bairros e ruas primeiro (clientes referenciam a rua pelo sync_id)
+  const unsubscribeBairros = listenUserCollection(userId, "bairros", async (type, data: Bairro) => {
+    // ⚠️ Documento legado (ID local, sem sync_id) é ignorado
+    if (!data.sync_id) return;
+
+    if (type === "removed") {
+      await deleteBairroFromSync(data.sync_id);
+      return;
+    }
+
+    const substituido = await upsertBairroFromSync(data);
+    if (substituido) {
+      // ✅ Bairro duplicado unificado: sai o documento antigo e as ruas vão com o sync_id novo
+      await safeWrite("DELETE", `users/${userId}/bairros/${substituido}`);
+      const bairro = await getBairroBySyncId(data.sync_id);
+      if (bairro?.id) (await getRuasByBairro(bairro.id)).forEach((rua) => saveRua(userId, rua));
+    }
+  }, onUpdate);
+
+  const unsubscribeRuas = listenUserCollection(userId, "ruas", async (type, data: RuaDoc) => {
+    // ⚠️ Documento legado (ID local, sem sync_id) é ignorado
+    if (!data.sync_id) return;
+
+    if (type === "removed") {
+      await deleteRuaFromSync(data.sync_id);
+      return;
+    }
+    if (!data.bairro_sync_id) return;
+
+    const substituido = await upsertRuaFromSync(data, data.bairro_sync_id);
+    if (substituido) {
+      // ✅ Rua duplicada unificada: sai o documento antigo e os clientes vão com o sync_id novo
+      await safeWrite("DELETE", `users/${userId}/ruas/${substituido}`);
+      const rua = await getRuaBySyncId(data.sync_id);
+      if (rua?.id) (await getClientsByRua(rua.id)).forEach((client) => pushClient(userId, client));
+    }
+  }, onUpdate);
+
+  // 💵 Pagamentos cujo cliente ainda não chegou, por client_sync_id (reaplicados quando o cliente chega)
+  // ✅ Só em memória: ao reiniciar, o Firestore entrega todos os documentos de novo
+  const parkedPayments = new Map<string, Map<string, PaymentDoc>>();
+
+  const flushParkedPayments = async (clientSyncId: string): Promise<void> => {
+    const parked = parkedPayments.get(clientSyncId);
+    if (!parked) return;
+
+    for (const [syncId, payment] of parked) {
+      if (await upsertPaymentFromSync(payment, clientSyncId)) parked.delete(syncId);
+    }
+    if (parked.size === 0) parkedPayments.delete(clientSyncId);
+  };
+
+  const dropParkedPayment = (syncId: string): void => {
+    for (const [clientSyncId, parked] of parkedPayments) {
+      if (parked.delete(syncId) && parked.size === 0) parkedPayments.delete(clientSyncId);
+    }
+  };
+
   // 🔥 Listener em tempo real com metadata
   const unsubscribe = onSnapshot(
     clientsRef,
@@ -97,25 +303,45 @@ export const startRealtimeSync = (
       // ✅ Processa APENAS mudanças (não tudo!)
       for (const change of snapshot.docChanges()) {
         const data = change.doc.data() as any;
-        const { updatedAt, ...clientData } = data;
+        const remoteVersions: FieldVersions | undefined = data.field_versions;
+        // ✅ id do outro aparelho não vale aqui - casamento é pelo sync_id
+        const clientData = omitRemoteFields(data);
+
+        // ⚠️ Documento antigo (ID numérico, sem sync_id): ignorado para não misturar clientes
+        if (!clientData.sync_id) {
+          console.log(`ℹ️ Documento legado ${change.doc.id} sem sync_id, ignorando`);
+          continue;
+        }
 
         try {
           if (change.type === "added" || change.type === "modified") {
-            const exists = await getClientById(clientData.id);
+            const exists = await getClientBySyncId(clientData.sync_id);
+            clientData.ruaId = await resolveRemoteRuaId(data, exists);
 
             if (exists) {
-              // ✅ Indica que a atualização vem do Firestore
-              await updateClient(exists, clientData, { fromFirestore: true });
-              console.log(`✅ Cliente ${clientData.name} atualizado`);
+              // ✅ Na lixeira daqui, mas restaurado/alterado lá depois da exclusão: volta da lixeira
+              await restoreClientFromSync(exists.id!, clientData.updated_at);
+              await applyRemoteClient(exists, clientData, remoteVersions);
             } else {
-              await addClient(clientData);
+              // ✅ Entra só com o pago sem pagamento registrado: os pagamentos sincronizados completam o total
+              const valor = clientData.value ?? 0;
+              clientData.paid = Math.min(Number(data.opening_paid) || 0, valor);
+              clientData.status = valor > 0 && clientData.paid >= valor ? "quitado" : "pendente";
+              const newId = await addClient(clientData);
+              // ✅ Versões de lá (senão o cliente recém-criado parece mais novo que qualquer edição remota)
+              await setClientFieldVersions(newId, fillFieldVersions(remoteVersions, clientData.updated_at));
               console.log(`✅ Cliente ${clientData.name} adicionado`);
             }
+            await flushParkedPayments(clientData.sync_id);
           }
 
           if (change.type === "removed") {
-            await deleteClient(clientData.id);
-            console.log(`✅ Cliente ${clientData.id} removido`);
+            const exists = await getClientBySyncId(clientData.sync_id);
+            if (exists?.id) {
+              // ✅ Vai para a lixeira (pode ser restaurado aqui também)
+              await deleteClient(exists.id);
+              console.log(`✅ Cliente ${clientData.sync_id} movido para a lixeira`);
+            }
           }
         } catch (error) {
           console.warn(`⚠️ Erro ao processar mudança do cliente ${change.doc.id}:`, error);
@@ -130,10 +356,47 @@ export const startRealtimeSync = (
     }
   );
 
+  // 💵 Pagamentos (histórico igual em todos os aparelhos)
+  const unsubscribePayments = listenUserCollection(userId, "payments", async (type, data: PaymentDoc) => {
+    // ⚠️ Documento legado (sem sync_id) é ignorado
+    if (!data.sync_id) return;
+
+    // ✅ Versão mais nova do pagamento substitui a guardada (ou o cliente dele mudou)
+    dropParkedPayment(data.sync_id);
+
+    if (type === "removed") {
+      await deletePaymentFromSync(data.sync_id);
+      return;
+    }
+    if (!data.client_sync_id) return;
+
+    const aplicado = await upsertPaymentFromSync(data, data.client_sync_id);
+    if (aplicado) return;
+
+    // ⚠️ Cliente ainda não chegou (ou está na lixeira daqui): guarda e reaplica quando ele chegar
+    const parked = parkedPayments.get(data.client_sync_id) ?? new Map<string, PaymentDoc>();
+    parked.set(data.sync_id, data);
+    parkedPayments.set(data.client_sync_id, parked);
+
+    // ✅ Cliente pode ter chegado enquanto o pagamento era processado
+    if (await getClientBySyncId(data.client_sync_id)) await flushParkedPayments(data.client_sync_id);
+  }, onUpdate);
+
+  // 📤 Envia hierarquia local (bairros/ruas) — coleções pequenas, safeWrite evita duplicação
+  syncRuasBairros(userId);
+
+  // 📤 Republica dados locais com sync_id (uma vez por usuário, após a migração V9)
+  publishLocalDataWithSyncIds(userId);
+
   console.log("✅ Sincronização automática ativada!");
   
-  // ✅ Armazena a função de unsubscribe original
-  const originalUnsubscribe = unsubscribe;
+  // ✅ Armazena a função de unsubscribe original (todas as coleções)
+  const originalUnsubscribe = () => {
+    unsubscribe();
+    unsubscribeBairros();
+    unsubscribeRuas();
+    unsubscribePayments();
+  };
   
   // ✅ Cria wrapper que reseta o estado global ao ser chamado
   const wrappedUnsubscribe = () => {
@@ -243,14 +506,53 @@ export const saveClient = async (userId: string, client: Client): Promise<void>
 
   console.log("✅ Cliente salvo no SQLite (local)");
 
+  // ✅ sync_id gerado pelo SQLite (gatilho da V9) - é o ID do documento no Firestore
+  const saved = await getClientById(clientId);
+  const syncId = saved?.sync_id;
+  if (!saved || !syncId) {
+    console.warn(`⚠️ Cliente ${clientId} sem sync_id, sincronização adiada`);
+    return;
+  }
+
+  // ✅ Envia o estado gravado no SQLite (com updated_at e versões por campo)
+  pushClient(userId, saved);
+
+  // ✅ Promise resolve imediatamente após salvar no SQLite
+  // A sincronização com Firestore acontece em background
+  
+  // ✅ 3️⃣ Sincroniza logs do cliente com Firestore em background
+  syncClientLogs(userId, clientId, syncId);
+
+  // ✅ 4️⃣ Sincroniza pagamentos e a rua/bairro do cliente em background
+  syncClientPayments(userId, clientId, syncId);
+  if (client.ruaId) {
+    syncRuaComBairro(userId, client.ruaId);
+  }
+};
+
+/**
+ * ✅ Envia documento do cliente para o Firestore (background, não bloqueia)
+ * ⚠️ Os ids locais (INTEGER) não são enviados: cada aparelho tem o seu (a rua vai pelo sync_id)
+ * ✅ field_versions permite ao outro aparelho resolver conflitos campo a campo
+ */
+const pushClient = async (userId: string, client: Client): Promise<void> => {
+  const { id: localId, ruaId, ...data } = client;
+  if (!localId || !client.sync_id) return;
+
+  const fieldVersions = await getClientFieldVersions(localId).catch(() => ({}));
+  const openingPaid = await getClientOpeningPaid(localId).catch(() => 0);
+  const rua = ruaId ? await getRuaById(ruaId).catch(() => null) : null;
+
   // 2️⃣ Salva no Firestore usando syncOptimizer (retry + fila offline)
   // ✅ Usa safeWrite que tem retry automático e fila offline integrada
-  const docPath = `users/${userId}/clients/${clientId}`;
+  const docPath = `users/${userId}/clients/${client.sync_id}`;
   
   // ⚡ safeWrite: retry automático + fila offline + proteção contra duplicação
   safeWrite("SET", docPath, {
-    ...client,
-    id: clientId, // ✅ Garante que o ID está presente
+    ...data,
+    rua_sync_id: rua?.sync_id ?? null,
+    field_versions: fieldVersions,
+    opening_paid: openingPaid, // ✅ Pago sem pagamento registrado (o resto vem dos pagamentos)
     updatedAt: new Date().toISOString(),
   }).catch((error) => {
     // ✅ safeWrite já trata erros offline automaticamente
@@ -260,12 +562,6 @@ export const saveClient = async (userId: string, client: Client): Promise<void>
     }
     // ✅ Erros offline são tratados automaticamente pela fila
   });
-
-  // ✅ Promise resolve imediatamente após salvar no SQLite
-  // A sincronização com Firestore acontece em background
-  
-  // ✅ 3️⃣ Sincroniza logs do cliente com Firestore em background
-  syncClientLogs(userId, clientId);
 };
 
 /**
@@ -278,18 +574,19 @@ export const saveClient = async (userId: string, client: Client): Promise<void>
  * - Firestore garante entrega quando voltar online
  * 
  * @param userId - ID do usuário logado
+ * @param clientSyncId - sync_id do cliente dono do log
  * @param log - Dados do log
  */
-export const saveLog = async (userId: string, log: Log): Promise<void> => {
-  if (!log.id || !log.clientId) return;
+export const saveLog = async (userId: string, clientSyncId: string, log: Log): Promise<void> => {
+  if (!log.sync_id || !clientSyncId) return;
 
   // ✅ Salva no Firestore usando syncOptimizer (retry + fila offline)
-  const logPath = `users/${userId}/clients/${log.clientId}/logs/${log.id}`;
+  const logPath = `users/${userId}/clients/${clientSyncId}/logs/${log.sync_id}`;
   
   // ⚡ safeWrite: retry automático + fila offline + proteção contra duplicação
   safeWrite("SET", logPath, {
-    id: log.id,
-    clientId: log.clientId,
+    sync_id: log.sync_id,
+    client_sync_id: clientSyncId,
     created_at: log.created_at,
     descricao: log.descricao,
   }).catch((error) => {
@@ -309,16 +606,17 @@ export const saveLog = async (userId: string, log: Log): Promise<void> => {
  * - Não bloqueia a UI
  * 
  * @param userId - ID do usuário logado
- * @param clientId - ID do cliente
+ * @param clientId - ID local do cliente
+ * @param clientSyncId - sync_id do cliente
  */
-export const syncClientLogs = async (userId: string, clientId: number): Promise<void> => {
+export const syncClientLogs = async (userId: string, clientId: number, clientSyncId: string): Promise<void> => {
   try {
     const logs = await getLogsByClient(clientId);
     
     // ✅ Sincroniza cada log em background (não bloqueia)
     for (const log of logs) {
-      if (log.id) {
-        saveLog(userId, log);
+      if (log.sync_id) {
+        saveLog(userId, clientSyncId, log);
       }
     }
   } catch (error) {
@@ -328,24 +626,319 @@ export const syncClientLogs = async (userId: string, clientId: number): Promise<
 
 /**
  * ✅ Remove cliente (SQLite + Firestore simultâneo)
+ * No SQLite o cliente vai para a lixeira; no Firestore o documento é apagado
  *
  * @param userId - ID do usuário logado
- * @param clientId - ID do cliente a remover
+ * @param clientId - ID local do cliente a remover
  */
 export const removeClient = async (userId: string, clientId: number): Promise<void> => {
   try {
-    // 1️⃣ Remove do SQLite
+    // ✅ Guardar sync_id antes de apagar (é o ID do documento no Firestore)
+    const client = await getClientById(clientId);
+
+    // 1️⃣ Move para a lixeira no SQLite
     await deleteClient(clientId);
 
     // 2️⃣ Remove do Firestore usando syncOptimizer (retry + fila offline)
-    const docPath = `users/${userId}/clients/${clientId}`;
-    
-    // ⚡ safeWrite: retry automático + fila offline
-    await safeWrite("DELETE", docPath);
+    if (client?.sync_id) {
+      const docPath = `users/${userId}/clients/${client.sync_id}`;
+
+      // ⚡ safeWrite: retry automático + fila offline
+      await safeWrite("DELETE", docPath);
+    }
 
     console.log("✅ Cliente removido (SQLite + Firestore)");
   } catch (error) {
     console.error("❌ Erro ao remover cliente:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * ✅ Restaura cliente da lixeira (SQLite + Firestore)
+ * O documento volta para o Firestore junto com os pagamentos restaurados
+ *
+ * @param userId - ID do usuário logado
+ * @param clientId - ID local do cliente na lixeira
+ */
+export const restoreClientFromTrash = async (userId: string, clientId: number): Promise<void> => {
+  await restoreClient(clientId);
+
+  const client = await getClientById(clientId);
+  if (!client?.sync_id) return;
+
+  pushClient(userId, client);
+  syncClientPayments(userId, clientId, client.sync_id);
+};
+
+/**
+ * ✅ Restaura pagamento da lixeira (SQLite + Firestore)
+ * O cliente é reenviado porque o total pago mudou
+ *
+ * @param userId - ID do usuário logado
+ * @param paymentId - ID local do pagamento na lixeira
+ */
+export const restorePaymentFromTrash = async (userId: string, paymentId: number): Promise<void> => {
+  await restorePayment(paymentId);
+
+  const payment = await getPaymentById(paymentId);
+  const client = payment ? await getClientById(payment.client_id) : null;
+  if (!payment || !client?.sync_id) return;
+
+  pushClient(userId, client);
+  // ✅ restored_at: o outro aparelho só tira da lixeira com restauração explícita
+  savePayment(userId, client.sync_id, payment, formatDateTimeIso());
+};
+
+// ✅ Reenvia ao Firestore os clientes alterados em lote (background)
+const pushClientsById = async (userId: string, clientIds: number[]): Promise<void> => {
+  for (const clientId of clientIds) {
+    const client = await getClientById(clientId);
+    if (client) pushClient(userId, client);
+  }
+};
+
+/**
+ * ✅ Envia ao Firestore o que a mesclagem de backup gravou (background)
+ * Clientes novos, alterados ou com pagamentos novos (com rua/bairro) e os pagamentos inseridos
+ *
+ * @param userId - ID do usuário logado
+ * @param merge - Resultado de applyMergeBackup
+ */
+export const pushMergedBackup = async (userId: string, merge: MergeBackupResult): Promise<void> => {
+  try {
+    for (const clientId of merge.clientIds) {
+      const client = await getClientById(clientId);
+      if (!client) continue;
+      pushClient(userId, client);
+      if (client.ruaId) syncRuaComBairro(userId, client.ruaId);
+    }
+
+    for (const paymentId of merge.paymentIds) {
+      const payment = await getPaymentById(paymentId);
+      const client = payment ? await getClientById(payment.client_id) : null;
+      if (payment && client?.sync_id) savePayment(userId, client.sync_id, payment);
+    }
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao enviar mesclagem do backup:", error);
+  }
+};
+
+/**
+ * ✅ Reagenda clientes em lote (SQLite + Firestore)
+ *
+ * @param userId - ID do usuário logado
+ * @param clientIds - IDs locais dos clientes a mover
+ * @param novaData - Nova data da cobrança (yyyy-mm-dd ou dd/mm/yyyy)
+ */
+export const rescheduleClientsSync = async (
+  userId: string,
+  clientIds: number[],
+  novaData: string
+): Promise<ReagendamentoLote> => {
+  const lote = await rescheduleClients(clientIds, novaData);
+  pushClientsById(userId, lote.clientes.map((c) => c.id)).catch((e) =>
+    console.error("❌ Erro ao enviar reagendamento ao Firestore:", e)
+  );
+  return lote;
+};
+
+/**
+ * ✅ Desfaz reagendamento em lote (SQLite + Firestore)
+ *
+ * @param userId - ID do usuário logado
+ * @param lote - Resultado de rescheduleClientsSync
+ */
+export const undoRescheduleSync = async (userId: string, lote: ReagendamentoLote): Promise<number[]> => {
+  const restaurados = await undoReschedule(lote);
+  pushClientsById(userId, restaurados).catch((e) =>
+    console.error("❌ Erro ao enviar desfazer reagendamento ao Firestore:", e)
+  );
+  return restaurados;
+};
+
+/**
+ * ✅ Salva pagamento no Firestore (background, não bloqueia)
+ * ⚠️ O SQLite já foi atualizado por addPayment (paymentsRepo)
+ *
+ * @param userId - ID do usuário logado
+ * @param clientSyncId - sync_id do cliente (ID local difere entre aparelhos)
+ * @param payment - Pagamento já gravado no SQLite
+ * @param restoredAt - Momento em que o pagamento saiu da lixeira (restorePaymentFromTrash)
+ */
+export const savePayment = async (
+  userId: string,
+  clientSyncId: string,
+  payment: Payment,
+  restoredAt?: string
+): Promise<void> => {
+  if (!payment.sync_id || !clientSyncId) return;
+
+  const paymentPath = `users/${userId}/payments/${payment.sync_id}`;
+
+  // ⚡ safeWrite: retry automático + fila offline + proteção contra duplicação
+  safeWrite("SET", paymentPath, {
+    sync_id: payment.sync_id,
+    client_sync_id: clientSyncId,
+    created_at: payment.created_at,
+    registered_at: payment.registered_at ?? payment.created_at,
+    valor: payment.valor,
+    metodo: payment.metodo,
+    ...(restoredAt ? { restored_at: restoredAt } : {}),
+    updatedAt: new Date().toISOString(),
+  }).catch((error) => {
+    if (__DEV__ && isCriticalFirestoreError(error)) {
+      console.error("❌ Erro crítico ao sincronizar pagamento:", error);
+    }
+  });
+};
+
+/**
+ * ✅ Sincroniza todos os pagamentos de um cliente com o Firestore
+ *
+ * @param userId - ID do usuário logado
+ * @param clientId - ID local do cliente
+ * @param clientSyncId - sync_id do cliente
+ */
+export const syncClientPayments = async (userId: string, clientId: number, clientSyncId: string): Promise<void> => {
+  try {
+    const payments = await getPaymentsByClient(clientId);
+    for (const payment of payments) {
+      savePayment(userId, clientSyncId, payment);
+    }
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao sincronizar pagamentos:", error);
+  }
+};
+
+/**
+ * ✅ Remove pagamento do Firestore (após deletePayment no SQLite)
+ *
+ * @param userId - ID do usuário logado
+ * @param paymentSyncId - sync_id do pagamento removido
+ */
+export const removePayment = async (userId: string, paymentSyncId?: string | null): Promise<void> => {
+  if (!paymentSyncId) return;
+
+  // ⚡ safeWrite: retry automático + fila offline
+  await safeWrite("DELETE", `users/${userId}/payments/${paymentSyncId}`);
+};
+
+/**
+ * ✅ Salva bairro no Firestore (background, não bloqueia)
+ * ✅ Documento pelo sync_id (gatilho da V16); sem ele no objeto, é lido do SQLite
+ */
+export const saveBairro = async (userId: string, bairro: Bairro): Promise<void> => {
+  const syncId = bairro.sync_id ?? (bairro.id ? (await getBairroById(bairro.id))?.sync_id : null);
+  if (!syncId) return;
+
+  safeWrite("SET", `users/${userId}/bairros/${syncId}`, {
+    sync_id: syncId,
+    nome: bairro.nome,
+    updatedAt: new Date().toISOString(),
+  }).catch((error) => {
+    if (__DEV__ && isCriticalFirestoreError(error)) {
+      console.error("❌ Erro crítico ao sincronizar bairro:", error);
+    }
+  });
+};
+
+/**
+ * ✅ Salva rua no Firestore (background, não bloqueia)
+ * ✅ Documento pelo sync_id; o bairro vai pelo sync_id dele
+ */
+export const saveRua = async (userId: string, rua: Rua): Promise<void> => {
+  const syncId = rua.sync_id ?? (rua.id ? (await getRuaById(rua.id))?.sync_id : null);
+  const bairro = await getBairroById(rua.bairroId);
+  if (!syncId || !bairro?.sync_id) return;
+
+  safeWrite("SET", `users/${userId}/ruas/${syncId}`, {
+    sync_id: syncId,
+    nome: rua.nome,
+    bairro_sync_id: bairro.sync_id,
+    updatedAt: new Date().toISOString(),
+  }).catch((error) => {
+    if (__DEV__ && isCriticalFirestoreError(error)) {
+      console.error("❌ Erro crítico ao sincronizar rua:", error);
+    }
+  });
+};
+
+/**
+ * ✅ Envia a rua do cliente e o bairro dela (hierarquia completa)
+ */
+const syncRuaComBairro = async (userId: string, ruaId: number): Promise<void> => {
+  try {
+    const rua = await getRuaById(ruaId);
+    if (!rua) return;
+
+    const bairro = await getBairroById(rua.bairroId);
+    if (bairro) saveBairro(userId, bairro);
+    saveRua(userId, rua);
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao sincronizar rua/bairro:", error);
+  }
+};
+
+/**
+ * ✅ Envia todos os bairros e ruas locais para o Firestore
+ */
+export const syncRuasBairros = async (userId: string): Promise<void> => {
+  try {
+    const [bairros, ruas] = await Promise.all([getAllBairros(), getAllRuas()]);
+    bairros.forEach((bairro) => saveBairro(userId, bairro));
+    ruas.forEach((rua) => saveRua(userId, rua));
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao sincronizar ruas e bairros:", error);
+  }
+};
+
+/**
+ * ✅ Republica clientes, logs e pagamentos locais sob o sync_id (uma vez por usuário)
+ * O sync_id dos dados anteriores à V9 é derivado da chave natural: outro aparelho com
+ * os mesmos clientes republica nos mesmos documentos (não duplica a carteira)
+ * ✅ Apaga os documentos antigos deste aparelho (ID local como ID do documento)
+ * ⚠️ Aparelhos ainda na versão antiga deixam de receber esses clientes: atualizar todos
+ */
+/**
+ * ✅ Apaga o documento antigo do cliente e os logs dele (caminhos pelo ID local, anteriores à V9)
+ */
+const deleteLegacyClientDocs = async (userId: string, clientId: number): Promise<void> => {
+  const apagar = (path: string) =>
+    safeWrite("DELETE", path).catch((error) => {
+      if (__DEV__ && isCriticalFirestoreError(error)) {
+        console.error("❌ Erro crítico ao apagar documento antigo:", error);
+      }
+    });
+
+  try {
+    for (const logId of await getLogIdsByClient(clientId)) {
+      apagar(`users/${userId}/clients/${clientId}/logs/${logId}`);
+    }
+    apagar(`users/${userId}/clients/${clientId}`);
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao apagar documentos antigos do cliente:", error);
+  }
+};
+
+const publishLocalDataWithSyncIds = async (userId: string): Promise<void> => {
+  const flagKey = `sync_ids_published_${userId}`;
+
+  try {
+    if ((await getSetting(flagKey)) === "true") return;
+
+    const clients = await getAllClientsFull();
+    for (const client of clients) {
+      if (!client.id || !client.sync_id) continue;
+      pushClient(userId, client);
+      syncClientLogs(userId, client.id, client.sync_id);
+      syncClientPayments(userId, client.id, client.sync_id);
+      deleteLegacyClientDocs(userId, client.id);
+    }
+
+    await setSetting(flagKey, "true");
+    console.log(`✅ ${clients.length} cliente(s) republicado(s) com sync_id`);
+  } catch (error) {
+    if (__DEV__) console.warn("⚠️ Erro ao republicar dados com sync_id:", error);
+  }
+};
@@ -24,6 +24,7 @@ export interface DaySummary {
   weekday: string;
   count: number;
   isToday: boolean;
+  naoUtil?: string | null; // 🗓️ Feriado ou folga ("Natal", "Folga (domingo)"); null em dia útil
 }
 
 
@@ -31,3 +32,16 @@ export interface DaySummary {
 
 
 
+
+// ✅ Tipo para uma célula da agenda mensal (null = dia fora do mês, só preenche a semana)
+export interface CalendarDay {
+  dateISO: ISODate;
+  day: number;
+  count: number;
+  previsto: number;
+  isToday: boolean;
+  isOverdue: boolean; // dia passado com cobranças ainda agendadas
+  naoUtil: string | null;
+}
+
+export type CalendarWeek = (CalendarDay | null)[];
@@ -1,6 +1,9 @@
 // ✅ Backup compatível com React Native CLI + Firebase Nativo
 import RNFS from "react-native-fs";
-import { Share } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Keychain from "react-native-keychain";
+import { sealBackupFile, openBackupFile } from "../database/backup";
+import { BackupPinError, SEALED_BACKUP_EXTENSION, validateBackupPin } from "../database/utils/backupCrypto";
 import {
   getStorage,
   ref,
@@ -8,6 +11,7 @@ import {
   list,
   getMetadata,
 } from "@react-native-firebase/storage";
+import { shareFile } from "./shareFile";
 
 // 🧩 Tipos
 export type BackupResult = {
@@ -18,13 +22,94 @@ export type BackupResult = {
 export type RestoreResult = {
   success: boolean;
   message?: string;
+  pinInvalido?: boolean; // PIN ausente/errado: pedir o PIN e tentar de novo
 };
 
+export type BackupHistoryEntry = {
+  type: "local" | "cloud";
+  timestamp: number;
+  automatico?: boolean; // Criado pelo backup automático
+};
+
+// 📌 Histórico dos backups bem-sucedidos (mais recente primeiro)
+const BACKUP_HISTORY_KEY = "backup_history";
+const BACKUP_HISTORY_MAX = 10;
+
+/**
+ * 📋 Histórico de backups salvo no aparelho
+ * ✅ Storage corrompido vira lista vazia (não quebra a tela)
+ */
+export async function getBackupHistory(): Promise<BackupHistoryEntry[]> {
+  const json = await AsyncStorage.getItem(BACKUP_HISTORY_KEY);
+  try {
+    const list = json ? JSON.parse(json) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
- * 💾 Cria um backup local do banco SQLite.
+ * 📋 Registra um backup bem-sucedido no histórico (mantém os últimos 10)
+ */
+export async function addBackupHistoryEntry(entry: BackupHistoryEntry): Promise<BackupHistoryEntry[]> {
+  const updated = [entry, ...(await getBackupHistory())].slice(0, BACKUP_HISTORY_MAX);
+  await AsyncStorage.setItem(BACKUP_HISTORY_KEY, JSON.stringify(updated));
+  return updated;
+}
+
+// 🔑 PIN do backup fica só neste aparelho, no Keychain (iOS) / Keystore (Android)
+// ⚠️ Nunca no AsyncStorage: é texto aberto, ao lado dos backups que ele protege
+const BACKUP_PIN_SERVICE = "crediario.backup_pin";
+const LEGACY_BACKUP_PIN_KEY = "backup_pin";
+
+const keychainOptions: Keychain.Options = {
+  service: BACKUP_PIN_SERVICE,
+  // ✅ Backup automático roda com o app aberto, depois do primeiro desbloqueio; não vai para outro aparelho
+  accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+/**
+ * 🔑 PIN usado para criptografar os backups (null se ainda não definido)
+ * ✅ PIN de versões antigas (AsyncStorage) é movido para o Keychain na primeira leitura
+ */
+export async function getBackupPin(): Promise<string | null> {
+  const credentials = await Keychain.getGenericPassword(keychainOptions);
+  if (credentials) return credentials.password;
+
+  const legacy = await AsyncStorage.getItem(LEGACY_BACKUP_PIN_KEY);
+  if (!legacy) return null;
+
+  await Keychain.setGenericPassword("backup", legacy, keychainOptions);
+  await AsyncStorage.removeItem(LEGACY_BACKUP_PIN_KEY);
+  return legacy;
+}
+
+/**
+ * 🔑 Salva o PIN do backup neste aparelho
+ * ⚠️ Sem o PIN não é possível restaurar os backups criados com ele
+ */
+export async function saveBackupPin(pin: string): Promise<void> {
+  const error = validateBackupPin(pin);
+  if (error) throw new Error(error);
+
+  const saved = await Keychain.setGenericPassword("backup", pin.trim(), keychainOptions);
+  if (!saved) throw new Error("Não foi possível guardar o PIN com segurança neste aparelho.");
+  await AsyncStorage.removeItem(LEGACY_BACKUP_PIN_KEY);
+}
+
+// 📌 Erro de PIN vira resultado para a tela pedir o PIN
+const pinResult = (error: BackupPinError): RestoreResult => ({
+  success: false,
+  message: error.message,
+  pinInvalido: true,
+});
+
+/**
+ * 💾 Cria um backup local do banco SQLite, comprimido e criptografado com o PIN.
  * Salva na pasta Downloads (Android) ou Documents (iOS).
  */
-export async function backupLocal(): Promise<BackupResult> {
+export async function backupLocal(pin: string): Promise<BackupResult> {
   try {
     const dbPath = `${RNFS.DocumentDirectoryPath}/SQLite/crediario.db`;
 
@@ -36,11 +121,11 @@ export async function backupLocal(): Promise<BackupResult> {
 
     // Nome do arquivo com timestamp
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
-    const fileName = `crediario_backup_${timestamp}.db`;
+    const fileName = `crediario_backup_${timestamp}${SEALED_BACKUP_EXTENSION}`;
 
     // Salva na pasta Downloads (Android) ou pasta acessível (iOS)
     const destPath = `${RNFS.DownloadDirectoryPath || RNFS.DocumentDirectoryPath}/${fileName}`;
-    await RNFS.copyFile(dbPath, destPath);
+    await sealBackupFile(dbPath, destPath, "sqlite", pin);
 
     console.log(`✅ Backup salvo em: ${destPath}`);
     return { success: true, path: destPath };
@@ -56,11 +141,7 @@ export async function backupLocal(): Promise<BackupResult> {
  */
 export async function shareBackup(backupPath: string): Promise<void> {
   try {
-    await Share.share({
-      title: "Compartilhar backup",
-      message: "Backup do Crediário",
-      url: `file://${backupPath}`,
-    });
+    await shareFile(backupPath, "Compartilhar backup", "Backup do Crediário");
   } catch (error: any) {
     console.error("❌ Erro ao compartilhar backup:", error);
     throw new Error("Falha ao compartilhar backup.");
@@ -69,8 +150,10 @@ export async function shareBackup(backupPath: string): Promise<void> {
 
 /**
  * ☁️ Envia o banco SQLite para o Firebase Storage (Firebase Nativo).
+ * ✅ O arquivo enviado é comprimido e criptografado com o PIN (nunca o banco aberto)
  */
-export async function backupFirebase(userId: string): Promise<void> {
+export async function backupFirebase(userId: string, pin: string): Promise<void> {
+  let sealedPath: string | null = null;
   try {
     console.log("🌐 Iniciando upload para Firebase Storage...");
 
@@ -82,10 +165,12 @@ export async function backupFirebase(userId: string): Promise<void> {
       throw new Error("Banco de dados não encontrado.");
     }
 
-    console.log("📄 Lendo banco de dados...");
+    console.log("📄 Criptografando banco de dados...");
     const fileName = `crediario_${new Date()
       .toISOString()
-      .replace(/[:.]/g, "-")}.db`;
+      .replace(/[:.]/g, "-")}${SEALED_BACKUP_EXTENSION}`;
+    sealedPath = await sealBackupFile(dbPath, `${RNFS.CachesDirectoryPath}/${fileName}`, "sqlite", pin);
+    const uploadPath = sealedPath;
     const storage = getStorage();
     const fileRef = ref(storage, `backups/${userId}/${fileName}`);
 
@@ -95,7 +180,7 @@ export async function backupFirebase(userId: string): Promise<void> {
       try {
         console.log(`📤 Tentativa ${attempt}: enviando backup...`);
         // putFile é um método do StorageReference retornado por ref()
-        await fileRef.putFile(dbPath);
+        await fileRef.putFile(uploadPath);
         console.log("✅ Upload concluído com sucesso!");
       } catch (err) {
         console.error(`🚨 Falha durante upload (tentativa ${attempt}):`, err);
@@ -114,16 +199,54 @@ export async function backupFirebase(userId: string): Promise<void> {
   } catch (error: any) {
     console.error("❌ Falha ao enviar backup Firebase:", error);
     throw new Error("Falha ao enviar backup para o Firebase.");
+  } finally {
+    if (sealedPath) {
+      await RNFS.unlink(sealedPath).catch(() => {
+        // Ignora erro se não conseguir remover
+      });
+    }
+  }
+}
+
+/**
+ * 🔄 Substitui o banco atual por um arquivo de banco já aberto (decifrado e verificado).
+ * Cria um backup de segurança do banco atual antes.
+ */
+async function replaceDatabase(openedDbPath: string): Promise<boolean> {
+  // Caminho do banco atual
+  const dbPath = `${RNFS.DocumentDirectoryPath}/SQLite/crediario.db`;
+  const dbDir = `${RNFS.DocumentDirectoryPath}/SQLite`;
+
+  // Garante que o diretório existe
+  const dirExists = await RNFS.exists(dbDir);
+  if (!dirExists) {
+    await RNFS.mkdir(dbDir);
+  }
+
+  // Faz backup do banco atual antes de restaurar (segurança)
+  const currentDbExists = await RNFS.exists(dbPath);
+  if (currentDbExists) {
+    const safetyBackupPath = `${dbDir}/crediario_safety_backup_${Date.now()}.db`;
+    await RNFS.copyFile(dbPath, safetyBackupPath);
+    console.log(`🛡️ Backup de segurança criado: ${safetyBackupPath}`);
   }
+
+  // Copia o arquivo de backup para o local do banco
+  await RNFS.copyFile(openedDbPath, dbPath);
+
+  // Verifica se a cópia foi bem-sucedida
+  return RNFS.exists(dbPath);
 }
 
 /**
  * 🔄 Restaura backup local do banco SQLite.
+ * ✅ Backup protegido (.crdb) é decifrado e tem a integridade verificada antes de tocar no banco
  * ⚠️ ATENÇÃO: Esta operação substitui o banco atual. Faça backup antes!
  * @param backupPath - Caminho do arquivo de backup a ser restaurado
+ * @param pin - PIN do backup (obrigatório para arquivos protegidos)
  * @returns Promise<RestoreResult> - Resultado da restauração
  */
-export async function restoreLocal(backupPath: string): Promise<RestoreResult> {
+export async function restoreLocal(backupPath: string, pin?: string | null): Promise<RestoreResult> {
   try {
     if (!backupPath) {
       return {
@@ -144,42 +267,29 @@ export async function restoreLocal(backupPath: string): Promise<RestoreResult> {
       };
     }
 
-    // Verifica se é um arquivo .db válido
-    if (!cleanPath.endsWith(".db")) {
-      return {
-        success: false,
-        message: "Arquivo inválido. Selecione um arquivo .db de backup.",
-      };
-    }
-
-    // Caminho do banco atual
-    const dbPath = `${RNFS.DocumentDirectoryPath}/SQLite/crediario.db`;
-    const dbDir = `${RNFS.DocumentDirectoryPath}/SQLite`;
-
-    // Garante que o diretório existe
-    const dirExists = await RNFS.exists(dbDir);
-    if (!dirExists) {
-      await RNFS.mkdir(dbDir);
-    }
-
-    // Faz backup do banco atual antes de restaurar (segurança)
-    const currentDbExists = await RNFS.exists(dbPath);
-    if (currentDbExists) {
-      const safetyBackupPath = `${dbDir}/crediario_safety_backup_${Date.now()}.db`;
-      await RNFS.copyFile(dbPath, safetyBackupPath);
-      console.log(`🛡️ Backup de segurança criado: ${safetyBackupPath}`);
-    }
-
-    // Copia o arquivo de backup para o local do banco
-    await RNFS.copyFile(cleanPath, dbPath);
+    // Decifra, verifica e descomprime (arquivos antigos .db são usados direto)
+    const opened = await openBackupFile(cleanPath, pin);
+    try {
+      // Verifica se o conteúdo é um banco SQLite válido
+      if (opened.conteudo !== "sqlite") {
+        return {
+          success: false,
+          message: "Arquivo inválido. Selecione um backup do banco (.crdb ou .db).",
+        };
+      }
 
-    // Verifica se a cópia foi bem-sucedida
-    const restoreExists = await RNFS.exists(dbPath);
-    if (!restoreExists) {
-      return {
-        success: false,
-        message: "Falha ao restaurar o backup. Arquivo não foi copiado corretamente.",
-      };
+      if (!(await replaceDatabase(opened.path))) {
+        return {
+          success: false,
+          message: "Falha ao restaurar o backup. Arquivo não foi copiado corretamente.",
+        };
+      }
+    } finally {
+      if (opened.temporario) {
+        await RNFS.unlink(opened.path).catch(() => {
+          // Ignora erro se não conseguir remover
+        });
+      }
     }
 
     console.log(`✅ Backup restaurado com sucesso de: ${cleanPath}`);
@@ -188,6 +298,7 @@ export async function restoreLocal(backupPath: string): Promise<RestoreResult> {
       message: "Backup restaurado com sucesso! Reinicie o aplicativo para aplicar as mudanças.",
     };
   } catch (error: any) {
+    if (error instanceof BackupPinError) return pinResult(error);
     console.error("❌ Erro ao restaurar backup local:", error);
     return {
       success: false,
@@ -198,12 +309,20 @@ export async function restoreLocal(backupPath: string): Promise<RestoreResult> {
 
 /**
  * ☁️ Restaura backup do Firebase Storage.
+ * ✅ O arquivo baixado é decifrado e tem a integridade verificada antes de tocar no banco
  * ⚠️ ATENÇÃO: Esta operação substitui o banco atual. Faça backup antes!
  * @param userId - ID do usuário para buscar o backup
+ * @param pin - PIN do backup (obrigatório para arquivos protegidos)
  * @param backupFileName - Nome do arquivo de backup (opcional, usa o mais recente se não fornecido)
  * @returns Promise<RestoreResult> - Resultado da restauração
  */
-export async function restoreFirebase(userId: string, backupFileName?: string): Promise<RestoreResult> {
+export async function restoreFirebase(
+  userId: string,
+  pin?: string | null,
+  backupFileName?: string
+): Promise<RestoreResult> {
+  // Caminho temporário para download
+  const tempPath = `${RNFS.CachesDirectoryPath}/restore_${Date.now()}.tmp`;
   try {
     if (!userId) {
       return {
@@ -251,25 +370,6 @@ export async function restoreFirebase(userId: string, backupFileName?: string):
       console.log(`📥 Usando backup mais recente: ${filesWithMetadata[0].name}`);
     }
 
-    // Caminho temporário para download
-    const tempPath = `${RNFS.CachesDirectoryPath}/restore_${Date.now()}.db`;
-    const dbPath = `${RNFS.DocumentDirectoryPath}/SQLite/crediario.db`;
-    const dbDir = `${RNFS.DocumentDirectoryPath}/SQLite`;
-
-    // Garante que o diretório existe
-    const dirExists = await RNFS.exists(dbDir);
-    if (!dirExists) {
-      await RNFS.mkdir(dbDir);
-    }
-
-    // Faz backup do banco atual antes de restaurar (segurança)
-    const currentDbExists = await RNFS.exists(dbPath);
-    if (currentDbExists) {
-      const safetyBackupPath = `${dbDir}/crediario_safety_backup_${Date.now()}.db`;
-      await RNFS.copyFile(dbPath, safetyBackupPath);
-      console.log(`🛡️ Backup de segurança criado: ${safetyBackupPath}`);
-    }
-
     // Faz download do backup do Firebase
     console.log("📥 Baixando backup do Firebase...");
     await writeToFile(fileRef, tempPath);
@@ -283,21 +383,28 @@ export async function restoreFirebase(userId: string, backupFileName?: string):
       };
     }
 
-    // Copia o arquivo baixado para o local do banco
-    await RNFS.copyFile(tempPath, dbPath);
-
-    // Remove arquivo temporário
-    await RNFS.unlink(tempPath).catch(() => {
-      // Ignora erro se não conseguir remover
-    });
+    // Decifra, verifica e descomprime (backups antigos .db são usados direto)
+    const opened = await openBackupFile(tempPath, pin);
+    try {
+      if (opened.conteudo !== "sqlite") {
+        return {
+          success: false,
+          message: "O backup da nuvem não é um banco de dados válido.",
+        };
+      }
 
-    // Verifica se a cópia foi bem-sucedida
-    const restoreExists = await RNFS.exists(dbPath);
-    if (!restoreExists) {
-      return {
-        success: false,
-        message: "Falha ao restaurar o backup. Arquivo não foi copiado corretamente.",
-      };
+      if (!(await replaceDatabase(opened.path))) {
+        return {
+          success: false,
+          message: "Falha ao restaurar o backup. Arquivo não foi copiado corretamente.",
+        };
+      }
+    } finally {
+      if (opened.temporario) {
+        await RNFS.unlink(opened.path).catch(() => {
+          // Ignora erro se não conseguir remover
+        });
+      }
     }
 
     console.log("✅ Backup do Firebase restaurado com sucesso!");
@@ -306,6 +413,7 @@ export async function restoreFirebase(userId: string, backupFileName?: string):
       message: "Backup da nuvem restaurado com sucesso! Reinicie o aplicativo para aplicar as mudanças.",
     };
   } catch (error: any) {
+    if (error instanceof BackupPinError) return pinResult(error);
     console.error("❌ Erro ao restaurar backup do Firebase:", error);
     
     let errorMessage = "Falha ao restaurar backup da nuvem.";
@@ -321,5 +429,10 @@ export async function restoreFirebase(userId: string, backupFileName?: string):
       success: false,
       message: errorMessage,
     };
+  } finally {
+    // Remove arquivo temporário
+    await RNFS.unlink(tempPath).catch(() => {
+      // Ignora erro se não conseguir remover
+    });
   }
 }
\ No newline at end of file
@@ -6,62 +6,55 @@ import RNFS from "react-native-fs";
 import { Alert } from "react-native";
 
 /**
- * 📤 Faz upload do backup local para o Firebase Storage
+ * 📤 Envia um arquivo de backup (já criptografado) para o Firebase Storage
+ * ⚠️ Lança erro em caso de falha (o backup automático roda sem alertas)
+ * @param pasta - Subpasta em backups/<uid> (ex.: "auto"); vazia = raiz
+ * @returns Caminho do arquivo relativo a backups/<uid>
  */
-export async function uploadBackupToFirebase(uid: string): Promise<void> {
-  try {
-    const dbPath = `${RNFS.DocumentDirectoryPath}/SQLite/crediario.db`;
-
-    // Verifica se o arquivo existe
-    const fileExists = await RNFS.exists(dbPath);
-    if (!fileExists) {
-      Alert.alert("Erro", "Nenhum backup local encontrado.");
-      return;
-    }
-
-    const fileName = `backup_${Date.now()}.db`;
-    const storageRef = firebaseStorage.ref(`backups/${uid}/${fileName}`);
+export async function uploadBackupToFirebase(
+  uid: string,
+  backupPath: string,
+  pasta = ""
+): Promise<string> {
+  const fileExists = await RNFS.exists(backupPath);
+  if (!fileExists) {
+    throw new Error("Arquivo de backup não encontrado.");
+  }
 
-    console.log("📤 Enviando backup para Firebase Storage...");
-    await storageRef.putFile(dbPath);
-    console.log("✅ Backup enviado com sucesso!");
+  const fileName = `${pasta ? `${pasta}/` : ""}${backupPath.split("/").pop()}`;
+  const storageRef = firebaseStorage.ref(`backups/${uid}/${fileName}`);
 
-    Alert.alert("Sucesso", "Backup enviado para a nuvem!");
-  } catch (error: any) {
-    console.error("❌ Erro ao enviar backup:", error);
-    Alert.alert("Erro", "Falha ao enviar backup para a nuvem.");
-  }
+  console.log("📤 Enviando backup para Firebase Storage...");
+  await storageRef.putFile(backupPath);
+  console.log("✅ Backup enviado com sucesso!");
+  return fileName;
 }
 
 /**
- * 📋 Lista todos os backups disponíveis no Firebase Storage
+ * 📋 Lista os backups de uma pasta do Firebase Storage
+ * @param pasta - Subpasta em backups/<uid> (ex.: "auto"); vazia = raiz
  */
 export async function listBackupsFromFirebase(
-  uid: string
+  uid: string,
+  pasta = ""
 ): Promise<{ name: string; url: string; createdAt: string }[]> {
-  try {
-    const storageRef = firebaseStorage.ref(`backups/${uid}`);
-    const result = await storageRef.listAll();
+  const storageRef = firebaseStorage.ref(`backups/${uid}${pasta ? `/${pasta}` : ""}`);
+  const result = await storageRef.listAll();
 
-    const backups = await Promise.all(
-      result.items.map(async (itemRef) => {
-        const url = await itemRef.getDownloadURL();
-        const metadata = await itemRef.getMetadata();
-        return {
-          name: itemRef.name,
-          url,
-          createdAt: metadata.timeCreated || "",
-        };
-      })
-    );
+  const backups = await Promise.all(
+    result.items.map(async (itemRef) => {
+      const url = await itemRef.getDownloadURL();
+      const metadata = await itemRef.getMetadata();
+      return {
+        name: itemRef.name,
+        url,
+        createdAt: metadata.timeCreated || "",
+      };
+    })
+  );
 
-    console.log(`✅ ${backups.length} backups encontrados.`);
-    return backups;
-  } catch (error: any) {
-    console.error("❌ Erro ao listar backups:", error);
-    Alert.alert("Erro", "Falha ao listar backups.");
-    return [];
-  }
+  console.log(`✅ ${backups.length} backups encontrados.`);
+  return backups;
 }
 
 /**
@@ -96,21 +89,15 @@ export async function downloadBackupFromFirebase(
 
 /**
  * 🗑️ Deleta um backup do Firebase Storage
+ * @param fileName - Caminho relativo a backups/<uid> (ex.: "auto/crediario_backup_1.crdb")
  */
 export async function deleteBackupFromFirebase(
   uid: string,
   fileName: string
 ): Promise<void> {
-  try {
-    const storageRef = firebaseStorage.ref(`backups/${uid}/${fileName}`);
-
-    console.log("🗑️ Deletando backup do Firebase Storage...");
-    await storageRef.delete();
-    console.log("✅ Backup deletado com sucesso!");
+  const storageRef = firebaseStorage.ref(`backups/${uid}/${fileName}`);
 
-    Alert.alert("Sucesso", "Backup deletado.");
-  } catch (error: any) {
-    console.error("❌ Erro ao deletar backup:", error);
-    Alert.alert("Erro", "Falha ao deletar backup.");
-  }
+  console.log("🗑️ Deletando backup do Firebase Storage...");
+  await storageRef.delete();
+  console.log("✅ Backup deletado com sucesso!");
 }
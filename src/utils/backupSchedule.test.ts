@@ -0,0 +1,66 @@
+/**
+ * ✅ Testes da agenda e retenção do backup automático
+ */
+
+import { isBackupDue, selectBackupsToPrune, parseBackupTimestamp, formatBackupAge } from "./backupSchedule";
+
+const HORA = 60 * 60 * 1000;
+
+const backup = (ano: number, mes: number, dia: number, hora = 9) => {
+  const timestamp = new Date(ano, mes - 1, dia, hora).getTime();
+  return { name: `crediario_backup_${timestamp}.crdb`, timestamp };
+};
+
+describe("selectBackupsToPrune()", () => {
+  it("deve manter só o mais recente de cada dia nos últimos 7 dias", () => {
+    const backups = [];
+    for (let dia = 1; dia <= 10; dia++) {
+      backups.push(backup(2024, 3, dia, 8), backup(2024, 3, dia, 20));
+    }
+
+    const apagar = selectBackupsToPrune(backups);
+    const mantidos = backups.filter((b) => !apagar.includes(b));
+
+    // 7 diários (4 a 10 de março, às 20h) + semana de 26/02 (dia 3) e do mês (já incluído)
+    expect(mantidos.map((b) => new Date(b.timestamp).getDate())).toEqual([3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(mantidos.every((b) => new Date(b.timestamp).getHours() === 20)).toBe(true);
+  });
+
+  it("deve manter semanais e mensais antigos até o limite", () => {
+    const backups = [];
+    for (let mes = 1; mes <= 12; mes++) {
+      backups.push(backup(2023, mes, 10), backup(2023, mes, 20));
+    }
+    backups.push(backup(2024, 1, 5));
+
+    const apagar = selectBackupsToPrune(backups);
+    const mantidos = backups.filter((b) => !apagar.includes(b));
+
+    // 12 mensais (jan/2024 + dia 20 de fev a dez/2023) + diários do dia 10 de out a dez
+    expect(mantidos).toHaveLength(15);
+    expect(apagar).toContainEqual(backup(2023, 1, 20));
+    expect(apagar).toContainEqual(backup(2023, 9, 10));
+    expect(mantidos).toContainEqual(backup(2023, 12, 10));
+  });
+
+  it("não deve apagar nada com poucos backups", () => {
+    expect(selectBackupsToPrune([backup(2024, 3, 1), backup(2024, 3, 2)])).toEqual([]);
+  });
+});
+
+describe("agenda", () => {
+  it("deve pedir backup sem histórico ou após o intervalo", () => {
+    const agora = Date.now();
+    expect(isBackupDue(null, agora)).toBe(true);
+    expect(isBackupDue(agora - 2 * HORA, agora)).toBe(false);
+    expect(isBackupDue(agora - 25 * HORA, agora)).toBe(true);
+  });
+
+  it("deve ler o timestamp do nome e formatar a idade", () => {
+    expect(parseBackupTimestamp("crediario_backup_1700000000000.crdb")).toBe(1700000000000);
+    expect(parseBackupTimestamp("outro.crdb")).toBeNull();
+    expect(formatBackupAge(0, 30 * 60 * 1000)).toBe("agora há pouco");
+    expect(formatBackupAge(0, 5 * HORA)).toBe("há 5 h");
+    expect(formatBackupAge(0, 50 * HORA)).toBe("há 2 dias");
+  });
+});
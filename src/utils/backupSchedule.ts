@@ -0,0 +1,88 @@
+// ============================================================
+// ⏰ Backup automático - regras de agenda e retenção
+// ============================================================
+
+// 📌 Intervalo mínimo entre backups automáticos (verificado ao abrir o app)
+export const BACKUP_INTERVAL_HOURS = 24;
+
+// 📌 Retenção: últimos 7 diários, 4 semanais e 12 mensais
+export const BACKUP_RETENTION = { diarios: 7, semanais: 4, mensais: 12 };
+
+// 📌 Backup mais velho que isso aparece como alerta na Home
+export const BACKUP_STALE_HOURS = 48;
+
+const HORA = 60 * 60 * 1000;
+
+export type BackupFileInfo = {
+  name: string;
+  timestamp: number;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Semana identificada pela segunda-feira (horário local)
+const weekKey = (d: Date) => {
+  const segunda = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+  return dayKey(segunda);
+};
+
+const monthKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+
+/**
+ * ✅ Já passou o intervalo desde o último backup automático?
+ */
+export function isBackupDue(lastBackupAt: number | null, now = Date.now()): boolean {
+  if (!lastBackupAt) return true;
+  return now - lastBackupAt >= BACKUP_INTERVAL_HOURS * HORA;
+}
+
+/**
+ * 🧹 Escolhe os backups a apagar pela política de retenção
+ * - Mantém o backup mais recente de cada um dos últimos 7 dias que têm backup
+ * - Mantém o mais recente de cada uma das últimas 4 semanas e dos últimos 12 meses
+ * - Todo o resto é apagado
+ */
+export function selectBackupsToPrune<T extends BackupFileInfo>(backups: T[]): T[] {
+  const ordenados = [...backups].sort((a, b) => b.timestamp - a.timestamp);
+  const manter = new Set<T>();
+
+  const regras: { limite: number; chave: (d: Date) => string }[] = [
+    { limite: BACKUP_RETENTION.diarios, chave: dayKey },
+    { limite: BACKUP_RETENTION.semanais, chave: weekKey },
+    { limite: BACKUP_RETENTION.mensais, chave: monthKey },
+  ];
+
+  for (const { limite, chave } of regras) {
+    const periodos = new Set<string>();
+    for (const backup of ordenados) {
+      if (periodos.size >= limite) break;
+      const periodo = chave(new Date(backup.timestamp));
+      if (periodos.has(periodo)) continue;
+      periodos.add(periodo);
+      manter.add(backup);
+    }
+  }
+
+  return ordenados.filter((backup) => !manter.has(backup));
+}
+
+/**
+ * 📌 Timestamp do nome "crediario_backup_<ms>.crdb" (null se não for backup)
+ */
+export function parseBackupTimestamp(fileName: string): number | null {
+  const match = /^crediario_backup_(\d+)\./.exec(fileName);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * 🕒 Idade do backup para a Home: "agora há pouco", "há 3 h", "há 2 dias"
+ */
+export function formatBackupAge(timestamp: number, now = Date.now()): string {
+  const horas = Math.floor((now - timestamp) / HORA);
+  if (horas < 1) return "agora há pouco";
+  if (horas < 24) return `há ${horas} h`;
+  const dias = Math.floor(horas / 24);
+  return dias === 1 ? "há 1 dia" : `há ${dias} dias`;
+}
@@ -0,0 +1,68 @@
+/**
+ * ✅ Testes da grade da agenda mensal de cobranças
+ */
+
+import { buildMonthGrid, formatMonthTitle } from "./chargesCalculations";
+
+describe("buildMonthGrid()", () => {
+  it("deve montar semanas de domingo a sábado com os dias fora do mês vazios", () => {
+    // Março/2025 começa num sábado e termina numa segunda
+    const weeks = buildMonthGrid("2025-03-15", [], "2025-03-15");
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks.every((w) => w.length === 7)).toBe(true);
+    expect(weeks[0].slice(0, 6)).toEqual(Array(6).fill(null));
+    expect(weeks[0][6]?.dateISO).toBe("2025-03-01");
+    expect(weeks[5].map((c) => c?.day ?? null)).toEqual([30, 31, null, null, null, null, null]);
+  });
+
+  it("deve preencher clientes e valor previsto de cada dia", () => {
+    const weeks = buildMonthGrid(
+      "2025-03-01",
+      [
+        { data: "2025-03-10", clientes: 3, previsto: 150.5 },
+        { data: "2025-04-01", clientes: 9, previsto: 999 },
+      ],
+      "2025-03-01"
+    );
+    const dias = weeks.flat().filter((c) => c !== null);
+
+    expect(dias).toHaveLength(31);
+    expect(dias.find((c) => c!.dateISO === "2025-03-10")).toMatchObject({ count: 3, previsto: 150.5 });
+    expect(dias.reduce((total, c) => total + c!.count, 0)).toBe(3);
+  });
+
+  it("deve marcar hoje e só os dias passados que ainda têm cobranças como atrasados", () => {
+    const weeks = buildMonthGrid(
+      "2025-03-01",
+      [
+        { data: "2025-03-05", clientes: 2, previsto: 80 },
+        { data: "2025-03-12", clientes: 1, previsto: 40 },
+        { data: "2025-03-20", clientes: 1, previsto: 40 },
+      ],
+      "2025-03-12"
+    );
+    const dia = (iso: string) => weeks.flat().find((c) => c?.dateISO === iso)!;
+
+    expect(dia("2025-03-05").isOverdue).toBe(true);
+    expect(dia("2025-03-06").isOverdue).toBe(false);
+    expect(dia("2025-03-12")).toMatchObject({ isToday: true, isOverdue: false });
+    expect(dia("2025-03-20").isOverdue).toBe(false);
+  });
+
+  it("deve indicar feriados e folgas do calendário de dias úteis", () => {
+    const weeks = buildMonthGrid("2025-03-01", [], "2025-03-01");
+    const dia = (iso: string) => weeks.flat().find((c) => c?.dateISO === iso)!;
+
+    expect(dia("2025-03-04").naoUtil).toBe("Carnaval");
+    expect(dia("2025-03-02").naoUtil).toBe("Folga (domingo)");
+    expect(dia("2025-03-05").naoUtil).toBeNull();
+  });
+});
+
+describe("formatMonthTitle()", () => {
+  it("deve mostrar o nome do mês e o ano", () => {
+    expect(formatMonthTitle("2025-03-15")).toBe("Março 2025");
+    expect(formatMonthTitle("2024-12-01")).toBe("Dezembro 2024");
+  });
+});
@@ -1,6 +1,24 @@
 import { formatDateBR } from "./formatDate";
-import type { ChargesByDate, DaySummary } from "../types/charges";
+import type { CalendarDay, CalendarWeek, ChargesByDate, DaySummary } from "../types/charges";
+import type { CobrancasDoDia } from "../database/types";
 import { getCachedWeekday } from "./dateUtils";
+import { getNonWorkingReason } from "../database/utils/workCalendar";
+import { addDaysISO, startOfMonthOf, endOfMonthOf } from "../database/utils/civilDate";
+
+const MESES = [
+  "Janeiro",
+  "Fevereiro",
+  "Março",
+  "Abril",
+  "Maio",
+  "Junho",
+  "Julho",
+  "Agosto",
+  "Setembro",
+  "Outubro",
+  "Novembro",
+  "Dezembro",
+];
 
 /**
  * ✅ Função pura para calcular os próximos 7 dias
@@ -20,6 +38,8 @@ export const calculateNext7Days = (chargesByDate: ChargesByDate): DaySummary[] =
     const weekday = getCachedWeekday(d);
     // Busca pela string formatada
     const count = (chargesByDate[dateStr] || []).length;
+    // 🗓️ Feriado/folga pelo calendário de dias úteis (dd/mm/yyyy → yyyy-mm-dd)
+    const naoUtil = getNonWorkingReason(dateStr.split("/").reverse().join("-"));
 
     arr.push({
       date: d,
@@ -27,6 +47,7 @@ export const calculateNext7Days = (chargesByDate: ChargesByDate): DaySummary[] =
       weekday, // ✅ Já calculado, não precisa recalcular
       count,
       isToday: i === 0, // Assume index 0 como hoje para simplificar visualização
+      naoUtil,
     });
   }
   return arr;
@@ -40,3 +61,55 @@ export const calculateTotalCount = (chargesByDate: ChargesByDate): number => {
   return Object.values(chargesByDate).reduce((a, b) => a + b.length, 0);
 };
 
+
+/**
+ * ✅ Título do mês da agenda ("Março 2025")
+ */
+export const formatMonthTitle = (mesISO: string): string =>
+  `${MESES[Number(mesISO.slice(5, 7)) - 1]} ${mesISO.slice(0, 4)}`;
+
+/**
+ * ✅ Função pura para montar a grade da agenda mensal
+ * Semanas de domingo a sábado; dias fora do mês ficam null
+ * @param mesISO - Qualquer data do mês (yyyy-mm-dd)
+ * @param cobrancas - Totais por dia vindos do banco (getChargesByMonth)
+ * @param hojeISO - Data civil de hoje (destaque e atrasos)
+ */
+export const buildMonthGrid = (
+  mesISO: string,
+  cobrancas: CobrancasDoDia[],
+  hojeISO: string
+): CalendarWeek[] => {
+  const porDia = new Map(cobrancas.map((c) => [c.data, c]));
+  const inicio = startOfMonthOf(mesISO);
+  const fim = endOfMonthOf(mesISO);
+  const [y, m] = inicio.split("-").map(Number);
+  const primeiroDiaSemana = new Date(Date.UTC(y, m - 1, 1)).getUTCDay();
+
+  const weeks: CalendarWeek[] = [];
+  let week: CalendarWeek = Array(primeiroDiaSemana).fill(null);
+
+  for (let dateISO = inicio; dateISO <= fim; dateISO = addDaysISO(dateISO, 1)) {
+    const resumo = porDia.get(dateISO);
+    const count = resumo?.clientes ?? 0;
+    const cell: CalendarDay = {
+      dateISO,
+      day: Number(dateISO.slice(8, 10)),
+      count,
+      previsto: resumo?.previsto ?? 0,
+      isToday: dateISO === hojeISO,
+      isOverdue: dateISO < hojeISO && count > 0,
+      naoUtil: getNonWorkingReason(dateISO),
+    };
+    week.push(cell);
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+
+  if (week.length > 0) {
+    weeks.push([...week, ...Array(7 - week.length).fill(null)]);
+  }
+  return weeks;
+};
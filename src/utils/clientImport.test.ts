@@ -0,0 +1,82 @@
+/**
+ * 🧪 Testes Unitários - Importação de clientes (CSV)
+ * - Leitura do CSV (separador, aspas, BOM)
+ * - Palpite do mapeamento pelo cabeçalho
+ * - Valores/datas brasileiros e motivos das linhas ignoradas
+ */
+
+import { parseCsv } from "./csv";
+import { buildImportRows, guessColumnMapping, getMappingError, parseCsvMoney } from "./clientImport";
+
+describe("parseCsv()", () => {
+  it("✅ deve detectar ';' e tratar aspas, BOM e quebras de linha", () => {
+    const csv = '\uFEFFNome;Obs\r\n"Silva; João";"disse ""amanhã""\nà tarde"\r\n\r\nMaria;\r\n';
+    expect(parseCsv(csv)).toEqual([
+      ["Nome", "Obs"],
+      ["Silva; João", 'disse "amanhã"\nà tarde'],
+      ["Maria", ""],
+    ]);
+  });
+});
+
+describe("guessColumnMapping()", () => {
+  it("✅ deve reconhecer cabeçalhos comuns de planilha", () => {
+    const mapping = guessColumnMapping(["Cliente", "Valor Pago", "Vencimento", "Endereço", "Bairro", "Coluna X"]);
+    expect(mapping).toEqual(["name", "paid", "proximaData", "rua", "bairro", null]);
+    expect(getMappingError(mapping)).toBeNull();
+    expect(getMappingError(["value", null])).toBe("Escolha a coluna com o nome do cliente.");
+  });
+});
+
+describe("parseCsvMoney()", () => {
+  it("✅ deve aceitar formatos brasileiros e ponto decimal", () => {
+    expect(parseCsvMoney("R$ 1.500,50")).toBe(1500.5);
+    expect(parseCsvMoney("1.500")).toBe(1500);
+    expect(parseCsvMoney("1500.50")).toBe(1500.5);
+    expect(parseCsvMoney("abc")).toBeNull();
+  });
+});
+
+describe("buildImportRows()", () => {
+  const mapping = guessColumnMapping(["Nome", "Telefone", "Valor", "Pago", "Data", "Bairro", "Rua"]);
+
+  it("✅ deve montar o cliente em reais com data ISO", () => {
+    const { validos, ignorados } = buildImportRows(
+      [["Ana", "(11) 9999-0000", "R$ 300,00", "300", "05/03/2025", "Centro", "Rua A"]],
+      mapping,
+      new Set()
+    );
+    expect(ignorados).toEqual([]);
+    expect(validos[0]).toMatchObject({
+      linha: 2,
+      bairro: "Centro",
+      rua: "Rua A",
+      client: { name: "Ana", value: 300, paid: 300, status: "quitado", proximaData: "2025-03-05" },
+    });
+  });
+
+  it("⚠️ deve ignorar linhas inválidas ou duplicadas com o motivo", () => {
+    const { validos, ignorados } = buildImportRows(
+      [
+        ["", "", "10", "", "", "", ""],
+        ["Bia", "", "10,00", "20,00", "", "", ""],
+        ["Caio", "", "10", "", "31/31/2025", "", ""],
+        ["Duda", "", "10", "", "", "", "Rua B"],
+        ["Ana", "11 99990000", "10", "", "", "", ""],
+        ["Eva", "", "10", "", "", "", ""],
+        ["eva", "", "20", "", "", "", ""],
+      ],
+      mapping,
+      new Set(["ana|1199990000"])
+    );
+    expect(validos.map((row) => row.client.name)).toEqual(["Eva"]);
+    expect(ignorados).toEqual([
+      { linha: 2, motivo: "Nome em branco" },
+      { linha: 3, motivo: "Valor pago maior que o valor total" },
+      { linha: 4, motivo: 'Data inválida: "31/31/2025"' },
+      { linha: 5, motivo: 'Rua "Rua B" sem bairro' },
+      { linha: 6, motivo: '"Ana" já está cadastrado' },
+      { linha: 8, motivo: '"eva" repetido no arquivo' },
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * 📥 Importação de clientes a partir de CSV (planilhas / cadernos digitados)
+ * - Mapeamento coluna → campo do Client (com palpite pelo cabeçalho)
+ * - Datas dd/mm/aaaa ou aaaa-mm-dd, valores "R$ 1.500,00" / "1500.50"
+ * - Cada linha é validada com o ClientSchema; linhas ruins viram "ignoradas" com o motivo
+ * ✅ Funções puras (sem banco): a gravação fica em services/clientImportService
+ */
+
+import type { Client } from "../database/types";
+import { parseBrazilianDate, parseISODate } from "../database/utils/dateParsers";
+import { clientNaturalKey } from "../database/utils/backupRecords";
+import { ClientSchema } from "../schemas/clientSchema";
+import { parseBRL } from "./formatCurrency";
+
+export type ImportField =
+  | "name"
+  | "value"
+  | "paid"
+  | "telefone"
+  | "numero"
+  | "referencia"
+  | "observacoes"
+  | "proximaData"
+  | "bairro"
+  | "rua"
+  | "ordemVisita"
+  | "prioritario";
+
+// ✅ Um campo (ou null = ignorar) para cada coluna do CSV
+export type ColumnMapping = (ImportField | null)[];
+
+export type ImportRow = {
+  linha: number; // Linha no arquivo (cabeçalho = 1)
+  client: Client;
+  bairro: string | null;
+  rua: string | null;
+};
+
+export type SkippedRow = {
+  linha: number;
+  motivo: string;
+};
+
+export type ImportPreview = {
+  validos: ImportRow[];
+  ignorados: SkippedRow[];
+};
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: "name", label: "Nome", aliases: ["nome", "cliente", "nomecliente", "nomedocliente"] },
+  { field: "value", label: "Valor", aliases: ["valor", "valortotal", "total", "divida", "debito"] },
+  { field: "paid", label: "Valor pago", aliases: ["pago", "valorpago", "recebido", "abatido"] },
+  { field: "telefone", label: "Telefone", aliases: ["telefone", "fone", "tel", "celular", "whatsapp", "contato"] },
+  { field: "numero", label: "Número", aliases: ["numero", "num", "nro", "n"] },
+  { field: "referencia", label: "Referência", aliases: ["referencia", "ref", "pontodereferencia"] },
+  { field: "observacoes", label: "Observações", aliases: ["observacoes", "observacao", "obs", "anotacoes"] },
+  {
+    field: "proximaData",
+    label: "Próxima cobrança",
+    aliases: ["data", "vencimento", "proximadata", "proximacobranca", "datacobranca", "cobranca"],
+  },
+  { field: "bairro", label: "Bairro", aliases: ["bairro"] },
+  { field: "rua", label: "Rua", aliases: ["rua", "endereco", "logradouro"] },
+  { field: "ordemVisita", label: "Ordem de visita", aliases: ["ordem", "ordemvisita", "ordemdevisita"] },
+  { field: "prioritario", label: "Prioritário", aliases: ["prioritario", "prioridade"] },
+];
+
+const FIELD_LABELS = Object.fromEntries(IMPORT_FIELDS.map((f) => [f.field, f.label])) as Record<ImportField, string>;
+
+const YES = ["1", "s", "sim", "x", "true", "verdadeiro"];
+
+/**
+ * ✅ Nome comparável: sem acento, minúsculo e com espaços únicos ("Centro " = "centro")
+ */
+export const normalizeImportName = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+
+const normalizeHeader = (header: string) => normalizeImportName(header).replace(/[^a-z0-9]/g, "");
+
+/**
+ * ✅ Palpite do mapeamento pelo cabeçalho (cada campo em no máximo uma coluna)
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const usados = new Set<ImportField>();
+  return headers.map((header) => {
+    const key = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find((f) => !usados.has(f.field) && f.aliases.includes(key));
+    if (!match) return null;
+    usados.add(match.field);
+    return match.field;
+  });
+}
+
+/**
+ * ✅ Mapeamento utilizável? Retorna a mensagem do problema ou null
+ */
+export function getMappingError(mapping: ColumnMapping): string | null {
+  if (!mapping.includes("name")) return "Escolha a coluna com o nome do cliente.";
+  const repetido = IMPORT_FIELDS.find((f) => mapping.filter((m) => m === f.field).length > 1);
+  if (repetido) return `O campo "${repetido.label}" está em mais de uma coluna.`;
+  return null;
+}
+
+/**
+ * ✅ Valor em reais: "R$ 1.500,00", "1.500" (milhar) ou "1500.50" (ponto decimal)
+ * Retorna null se não for um valor válido
+ */
+export function parseCsvMoney(text: string): number | null {
+  const cleaned = text.replace(/[R$\s]/g, "");
+  if (!/^\d[\d.,]*$/.test(cleaned)) return null;
+
+  const usaFormatoBR = cleaned.includes(",") || /^\d{1,3}(\.\d{3})+$/.test(cleaned);
+  const value = usaFormatoBR ? parseBRL(cleaned) : Number(cleaned);
+  if (!Number.isFinite(value)) return null;
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * ✅ Data ISO (yyyy-mm-dd) a partir de dd/mm/aaaa ou aaaa-mm-dd
+ */
+export const parseCsvDate = (text: string): string | null => parseBrazilianDate(text) ?? parseISODate(text);
+
+/**
+ * ✅ Converte as linhas de dados (sem o cabeçalho) em clientes prontos para gravar
+ * - existingKeys: clientNaturalKey dos clientes já cadastrados (evita duplicar)
+ */
+export function buildImportRows(rows: string[][], mapping: ColumnMapping, existingKeys: Set<string>): ImportPreview {
+  const preview: ImportPreview = { validos: [], ignorados: [] };
+  const chavesNoArquivo = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const linha = index + 2;
+    const campos: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, coluna) => {
+      if (field) campos[field] = (row[coluna] ?? "").trim();
+    });
+
+    const ignorar = (motivo: string) => preview.ignorados.push({ linha, motivo });
+    const texto = (field: ImportField) => campos[field] || null;
+
+    const name = campos.name ?? "";
+    if (!name) return ignorar("Nome em branco");
+
+    const value = campos.value ? parseCsvMoney(campos.value) : 0;
+    if (value === null) return ignorar(`${FIELD_LABELS.value} inválido: "${campos.value}"`);
+
+    const paid = campos.paid ? parseCsvMoney(campos.paid) : 0;
+    if (paid === null) return ignorar(`${FIELD_LABELS.paid} inválido: "${campos.paid}"`);
+    if (paid > value) return ignorar("Valor pago maior que o valor total");
+
+    const proximaData = campos.proximaData ? parseCsvDate(campos.proximaData) : null;
+    if (campos.proximaData && !proximaData) return ignorar(`Data inválida: "${campos.proximaData}"`);
+
+    const ordemVisita = campos.ordemVisita ? Number(campos.ordemVisita) : 1;
+    if (!Number.isInteger(ordemVisita) || ordemVisita < 1) {
+      return ignorar(`${FIELD_LABELS.ordemVisita} inválida: "${campos.ordemVisita}"`);
+    }
+
+    const bairro = texto("bairro");
+    const rua = texto("rua");
+    if (rua && !bairro) return ignorar(`Rua "${rua}" sem bairro`);
+
+    const client: Client = {
+      name,
+      value,
+      paid,
+      telefone: texto("telefone"),
+      numero: texto("numero"),
+      referencia: texto("referencia"),
+      observacoes: texto("observacoes"),
+      bairro, // ⚠️ DEPRECATED: manter para compatibilidade (o vínculo é ruaId)
+      ordemVisita,
+      prioritario: YES.includes(normalizeImportName(campos.prioritario ?? "")) ? 1 : 0,
+      status: value > 0 && paid >= value ? "quitado" : "pendente",
+      proximaData,
+      next_charge: proximaData,
+    };
+
+    const validacao = ClientSchema.safeParse(client);
+    if (!validacao.success) return ignorar(validacao.error.issues[0]?.message ?? "Dados inválidos");
+
+    const chave = clientNaturalKey(client);
+    if (existingKeys.has(chave)) return ignorar(`"${name}" já está cadastrado`);
+    if (chavesNoArquivo.has(chave)) return ignorar(`"${name}" repetido no arquivo`);
+    chavesNoArquivo.add(chave);
+
+    preview.validos.push({ linha, client, bairro, rua });
+  });
+
+  return preview;
+}
@@ -0,0 +1,140 @@
+/**
+ * 📄 CSV (exportações de planilha)
+ * - Excel em pt-BR salva com ";" e às vezes com BOM ou em Latin-1
+ * - Campos entre aspas podem ter o separador, aspas ("") e quebras de linha
+ * - Na escrita: UTF-8 com BOM, ";" e vírgula decimal (abre direto no Excel pt-BR)
+ */
+
+import { utf8Decode } from "../database/utils/ndjson";
+
+export type CsvDelimiter = ";" | "," | "\t";
+
+const BOM = "\uFEFF";
+
+// ✅ Sequências UTF-8 bem formadas (byte inicial + bytes de continuação 10xxxxxx)
+function isValidUtf8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const b0 = bytes[i];
+    const size = b0 < 0x80 ? 1 : (b0 & 0xe0) === 0xc0 ? 2 : (b0 & 0xf0) === 0xe0 ? 3 : (b0 & 0xf8) === 0xf0 ? 4 : 0;
+    if (size === 0 || i + size > bytes.length) return false;
+    for (let j = 1; j < size; j++) {
+      if ((bytes[i + j] & 0xc0) !== 0x80) return false;
+    }
+    i += size;
+  }
+  return true;
+}
+
+/**
+ * ✅ Decodifica os bytes do arquivo: UTF-8 e, se inválido, Latin-1 (Excel antigo)
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  if (isValidUtf8(bytes)) return utf8Decode(bytes);
+
+  let latin1 = "";
+  for (let i = 0; i < bytes.length; i++) {
+    latin1 += String.fromCharCode(bytes[i]);
+  }
+  return latin1;
+}
+
+/**
+ * ✅ Separador mais frequente na primeira linha (fora de aspas)
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const counts: Record<CsvDelimiter, number> = { ";": 0, ",": 0, "\t": 0 };
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && char in counts) counts[char as CsvDelimiter]++;
+  }
+
+  return (Object.keys(counts) as CsvDelimiter[]).reduce((best, key) => (counts[key] > counts[best] ? key : best), ";");
+}
+
+/**
+ * ✅ Lê o CSV em linhas de campos (linhas totalmente vazias são descartadas)
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text.replace(BOM, ""))): string[][] {
+  const source = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) pushRow();
+  return rows;
+}
+
+export type CsvCell = string | number | null | undefined;
+
+const precisaAspas = (text: string) => /[;"\r\n]/.test(text);
+
+// ⚠️ Texto começando com = + - @ vira fórmula no Excel/LibreOffice (nome, observação...)
+// Valores já formatados como número ("-10,50") continuam números
+const pareceFormula = (text: string) => /^[=+\-@]/.test(text) && !/^-?\d+(,\d+)?$/.test(text);
+
+/**
+ * ✅ Número com vírgula decimal, sem separador de milhar (1500.5 → "1500,50")
+ */
+export const formatCsvMoney = (value: number): string => (Number.isFinite(value) ? value : 0).toFixed(2).replace(".", ",");
+
+/**
+ * ✅ Data ISO (yyyy-mm-dd ou timestamp) → dd/mm/aaaa
+ */
+export const formatCsvDate = (iso: string | null | undefined): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(iso ?? "");
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : "";
+};
+
+/**
+ * ✅ Monta o CSV (BOM + ";" + CRLF); números usam vírgula decimal
+ * Texto que seria lido como fórmula ganha "'" na frente
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  const lines = rows.map((row) =>
+    row
+      .map((cell) => {
+        if (cell == null) return "";
+        const text = typeof cell === "number" ? String(cell).replace(".", ",") : pareceFormula(cell) ? `'${cell}` : cell;
+        return precisaAspas(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(";")
+  );
+  return BOM + lines.join("\r\n") + "\r\n";
+}
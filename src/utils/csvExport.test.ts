@@ -0,0 +1,46 @@
+/**
+ * 🧪 Testes Unitários - Exportação de planilhas (CSV)
+ * - BOM, ";" e vírgula decimal
+ * - Linhas de total e períodos
+ */
+
+import { toCsv } from "./csv";
+import { buildPagamentosCsv, getExportPeriodo, exportFileName } from "./csvExport";
+
+describe("toCsv()", () => {
+  it("✅ deve gerar CSV com BOM, ';' e aspas quando preciso", () => {
+    expect(toCsv([["Nome", "Valor"], ['Silva; "Zé"', 10.5], [null, 3]])).toBe(
+      '\uFEFFNome;Valor\r\n"Silva; ""Zé""";10,5\r\n;3\r\n'
+    );
+  });
+
+  it("✅ deve neutralizar texto que o Excel leria como fórmula", () => {
+    expect(toCsv([['=HYPERLINK("x")', "+55 11", "-Ana", "@soma", "-10,50", -3, "Maria"]])).toBe(
+      '\uFEFF"\'=HYPERLINK(""x"")";\'+55 11;\'-Ana;\'@soma;-10,50;-3;Maria\r\n'
+    );
+  });
+});
+
+describe("buildPagamentosCsv()", () => {
+  it("✅ deve formatar datas, formas de pagamento e o total", () => {
+    const csv = buildPagamentosCsv([
+      { data: "2025-03-05T14:00:00.000Z", cliente: "Ana", bairro: "Centro", valor: 1500.5, metodo: "pix" },
+      { data: "2025-03-06T09:00:00.000Z", cliente: "Bia", bairro: "Sem bairro", valor: 0.1, metodo: "dinheiro" },
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "\uFEFFData;Cliente;Bairro;Forma de pagamento;Valor",
+      "05/03/2025;Ana;Centro;PIX;1500,50",
+      "06/03/2025;Bia;Sem bairro;Dinheiro;0,10",
+      "Total (2 pagamentos);;;;1500,60",
+      "",
+    ]);
+  });
+});
+
+describe("getExportPeriodo() / exportFileName()", () => {
+  it("✅ deve calcular o mês anterior e nomear o arquivo pelo período", () => {
+    const periodo = getExportPeriodo("mes_anterior", new Date(2025, 2, 15, 12));
+    expect(periodo).toEqual({ inicio: "2025-02-01", fim: "2025-02-28" });
+    expect(exportFileName("pagamentos", periodo)).toBe("pagamentos_2025-02-01_a_2025-02-28.csv");
+  });
+});
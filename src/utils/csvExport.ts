@@ -0,0 +1,145 @@
+/**
+ * 📤 Planilhas para o contador (CSV)
+ * - Clientes com saldo, pagamentos do período e resumo por bairro
+ * - Última linha com os totais nas planilhas de valores
+ * ✅ Funções puras: a consulta e o compartilhamento ficam em services/exportService
+ */
+
+import type { ClienteExportRow, PagamentoExportRow, ResumoBairroExportRow } from "../database/types";
+import { formatDateIso, addDaysISO, startOfMonthOf, endOfMonthOf } from "../database/utils";
+import { getPaymentMethodLabel } from "../constants/paymentMethods";
+import { toCsv, formatCsvMoney, formatCsvDate } from "./csv";
+
+export type ExportPeriodo = {
+  inicio: string; // yyyy-mm-dd
+  fim: string; // yyyy-mm-dd (inclusive)
+};
+
+export type ExportPeriodoKey = "mes_atual" | "mes_anterior" | "ultimos_30" | "ano_atual";
+
+export const EXPORT_PERIODOS: { key: ExportPeriodoKey; label: string }[] = [
+  { key: "mes_atual", label: "Este mês" },
+  { key: "mes_anterior", label: "Mês anterior" },
+  { key: "ultimos_30", label: "30 dias" },
+  { key: "ano_atual", label: "Este ano" },
+];
+
+/**
+ * ✅ Datas do período escolhido (relativas a "hoje")
+ */
+export function getExportPeriodo(key: ExportPeriodoKey, hoje: Date = new Date()): ExportPeriodo {
+  // ✅ Conta feita sobre o dia civil (fuso do negócio), não sobre o fuso do aparelho
+  const dia = formatDateIso(hoje);
+  switch (key) {
+    case "mes_anterior":
+      return { inicio: startOfMonthOf(dia, -1), fim: endOfMonthOf(dia, -1) };
+    case "ultimos_30":
+      return { inicio: addDaysISO(dia, -29), fim: dia };
+    case "ano_atual":
+      return { inicio: `${dia.slice(0, 4)}-01-01`, fim: `${dia.slice(0, 4)}-12-31` };
+    default:
+      return { inicio: startOfMonthOf(dia), fim: endOfMonthOf(dia) };
+  }
+}
+
+/**
+ * ✅ Nome do arquivo: clientes_2025-03-05.csv / pagamentos_2025-03-01_a_2025-03-31.csv
+ */
+export const exportFileName = (tipo: string, periodo?: ExportPeriodo, hoje: Date = new Date()) =>
+  periodo ? `${tipo}_${periodo.inicio}_a_${periodo.fim}.csv` : `${tipo}_${formatDateIso(hoje)}.csv`;
+
+const soma = <T,>(rows: T[], campo: (row: T) => number) => rows.reduce((total, row) => total + campo(row), 0);
+
+export function buildClientesCsv(rows: ClienteExportRow[]): string {
+  return toCsv([
+    [
+      "Código",
+      "Nome",
+      "Telefone",
+      "Bairro",
+      "Rua",
+      "Número",
+      "Valor",
+      "Pago",
+      "Saldo",
+      "Situação",
+      "Próxima cobrança",
+      "Último pagamento",
+    ],
+    ...rows.map((row) => [
+      row.id,
+      row.name,
+      row.telefone,
+      row.bairro,
+      row.rua,
+      row.numero,
+      formatCsvMoney(row.valor),
+      formatCsvMoney(row.pago),
+      formatCsvMoney(row.saldo),
+      row.status === "quitado" ? "Quitado" : "Pendente",
+      formatCsvDate(row.proximaData),
+      formatCsvDate(row.ultimoPagamento),
+    ]),
+    [
+      "",
+      `Total (${rows.length} clientes)`,
+      "",
+      "",
+      "",
+      "",
+      formatCsvMoney(soma(rows, (r) => r.valor)),
+      formatCsvMoney(soma(rows, (r) => r.pago)),
+      formatCsvMoney(soma(rows, (r) => r.saldo)),
+    ],
+  ]);
+}
+
+export function buildPagamentosCsv(rows: PagamentoExportRow[]): string {
+  return toCsv([
+    ["Data", "Cliente", "Bairro", "Forma de pagamento", "Valor"],
+    ...rows.map((row) => [
+      formatCsvDate(row.data),
+      row.cliente,
+      row.bairro,
+      getPaymentMethodLabel(row.metodo),
+      formatCsvMoney(row.valor),
+    ]),
+    [`Total (${rows.length} pagamentos)`, "", "", "", formatCsvMoney(soma(rows, (r) => r.valor))],
+  ]);
+}
+
+export function buildResumoBairrosCsv(rows: ResumoBairroExportRow[], periodo: ExportPeriodo): string {
+  return toCsv([
+    [`Período: ${formatCsvDate(periodo.inicio)} a ${formatCsvDate(periodo.fim)}`],
+    [
+      "Bairro",
+      "Clientes",
+      "Com saldo",
+      "Valor total",
+      "Total pago",
+      "Saldo",
+      "Recebido no período",
+      "Pagamentos no período",
+    ],
+    ...rows.map((row) => [
+      row.bairro,
+      row.clientes,
+      row.pendentes,
+      formatCsvMoney(row.valorTotal),
+      formatCsvMoney(row.totalPago),
+      formatCsvMoney(row.saldo),
+      formatCsvMoney(row.recebidoPeriodo),
+      row.pagamentosPeriodo,
+    ]),
+    [
+      "Total",
+      soma(rows, (r) => r.clientes),
+      soma(rows, (r) => r.pendentes),
+      formatCsvMoney(soma(rows, (r) => r.valorTotal)),
+      formatCsvMoney(soma(rows, (r) => r.totalPago)),
+      formatCsvMoney(soma(rows, (r) => r.saldo)),
+      formatCsvMoney(soma(rows, (r) => r.recebidoPeriodo)),
+      soma(rows, (r) => r.pagamentosPeriodo),
+    ],
+  ]);
+}
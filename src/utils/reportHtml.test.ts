@@ -0,0 +1,48 @@
+/**
+ * 🧪 Testes Unitários - Relatório financeiro (HTML para PDF)
+ * - Seções e período no documento
+ * - Nomes vindos do usuário escapados
+ */
+
+import { buildReportHtml, escapeHtml } from "./reportHtml";
+import { EMPTY_AGING_REPORT, type ReportsDashboardData } from "../services/reportsService";
+
+jest.mock("../database/services/reportsService", () => ({}));
+
+const DATA: ReportsDashboardData = {
+  totalHoje: 50,
+  totalMesAtual: 1500,
+  totalMesAnterior: 1000,
+  totalAReceber: 3200,
+  topClientes: [{ id: 1, name: "<b>Ana</b>", totalPago: 300 }],
+  crediariosPorBairro: [{ bairro: "Centro", quantidade: 4 }],
+  crescimento: { percentual: 50, cresceu: true },
+  aging: EMPTY_AGING_REPORT,
+};
+
+const PERIODO = {
+  inicio: "2025-03-01",
+  fim: "2025-03-31",
+  total: 1500,
+  quantidade: 3,
+  porMetodo: [{ metodo: "pix" as const, total: 1500, quantidade: 3 }],
+};
+
+describe("buildReportHtml()", () => {
+  it("✅ deve montar período, seções e crescimento", () => {
+    const html = buildReportHtml({ data: DATA, periodo: PERIODO, geradoEm: new Date(2025, 3, 2, 9, 5) });
+    expect(html).toContain("Período: 01/03/2025 a 31/03/2025");
+    expect(html).toContain("Gerado em 02/04/2025 às 09:05");
+    expect(html).toContain("Recebimentos do período (3 pagamentos)");
+    expect(html).toContain("+50,0%");
+    expect(html).toContain("<td class=\"\">Centro</td><td class=\"num\">4</td>");
+    expect(html).toContain("Nenhum cliente em atraso.");
+  });
+
+  it("⚠️ deve escapar nomes vindos do usuário", () => {
+    const html = buildReportHtml({ data: DATA, periodo: PERIODO });
+    expect(html).toContain("1. &lt;b&gt;Ana&lt;/b&gt;");
+    expect(html).not.toContain("<b>Ana</b>");
+    expect(escapeHtml(`"O'Neil" & cia`)).toBe("&quot;O&#39;Neil&quot; &amp; cia");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * 🖨️ Relatório financeiro em HTML (impressão / "Salvar como PDF")
+ * - Resumo, recebimentos do período, top clientes, bairros e inadimplência
+ * - Paginação A4: cabeçalho das tabelas repete e linhas não quebram entre páginas
+ * ✅ Função pura: a impressão fica no PrinterService
+ */
+
+import type { AgingFaixa, ResumoPeriodo } from "../database/types";
+import type { ReportsDashboardData } from "../services/reportsService";
+import { getPaymentMethodLabel } from "../constants/paymentMethods";
+import { formatCurrency } from "./formatCurrency";
+import { formatDateBR } from "./formatDate";
+
+export type ReportHtmlInput = {
+  data: ReportsDashboardData;
+  periodo: ResumoPeriodo;
+  geradoEm?: Date;
+};
+
+// ⚠️ Nomes de clientes/bairros vêm do usuário: sempre escapar
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const tabela = (cabecalho: string[], linhas: string[][], vazio: string): string => {
+  if (linhas.length === 0) return `<p class="vazio">${escapeHtml(vazio)}</p>`;
+  return `
+    <table>
+      <thead><tr>${cabecalho.map((c, i) => `<th class="${i > 0 ? "num" : ""}">${escapeHtml(c)}</th>`).join("")}</tr></thead>
+      <tbody>
+        ${linhas
+          .map((linha) => `<tr>${linha.map((c, i) => `<td class="${i > 0 ? "num" : ""}">${c}</td>`).join("")}</tr>`)
+          .join("")}
+      </tbody>
+    </table>`;
+};
+
+const indicador = (titulo: string, valor: string, classe = "") => `
+  <div class="indicador">
+    <div class="indicador-titulo">${escapeHtml(titulo)}</div>
+    <div class="indicador-valor ${classe}">${valor}</div>
+  </div>`;
+
+const faixasLinhas = (faixas: AgingFaixa[]) =>
+  faixas.map((f) => [`${escapeHtml(f.faixa)} dias`, String(f.quantidade), formatCurrency(f.total)]);
+
+/**
+ * ✅ Monta o documento HTML do relatório
+ */
+export function buildReportHtml({ data, periodo, geradoEm = new Date() }: ReportHtmlInput): string {
+  const { crescimento, aging } = data;
+  const sinal = crescimento.cresceu ? "+" : "";
+  const hora = `${String(geradoEm.getHours()).padStart(2, "0")}:${String(geradoEm.getMinutes()).padStart(2, "0")}`;
+
+  const detalheInadimplencia = aging.bairros.flatMap((bairro) =>
+    bairro.ruas.map((rua) => [
+      `${escapeHtml(bairro.bairro)} · ${escapeHtml(rua.rua)}`,
+      String(rua.quantidade),
+      formatCurrency(rua.total),
+    ])
+  );
+
+  return `
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          @page { size: A4; margin: 14mm 12mm; }
+          body { font-family: Arial, sans-serif; color: #1E293B; font-size: 12px; }
+          h1 { font-size: 20px; margin: 0 0 4px; color: #0056b3; }
+          h2 { font-size: 15px; margin: 0 0 8px; color: #0056b3; border-bottom: 1px solid #E2E8F0; padding-bottom: 4px; }
+          .sub { color: #64748B; margin: 2px 0; }
+          section { margin-top: 18px; }
+          .nova-pagina { page-break-before: always; }
+          .indicadores { display: flex; flex-wrap: wrap; gap: 8px; }
+          .indicador { flex: 1 1 30%; border: 1px solid #E2E8F0; border-radius: 8px; padding: 8px; page-break-inside: avoid; }
+          .indicador-titulo { font-size: 11px; color: #64748B; text-transform: uppercase; }
+          .indicador-valor { font-size: 16px; font-weight: bold; margin-top: 4px; }
+          .positivo { color: #16A34A; }
+          .negativo { color: #DC2626; }
+          table { width: 100%; border-collapse: collapse; }
+          thead { display: table-header-group; }
+          tr { page-break-inside: avoid; }
+          th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #E2E8F0; }
+          th { background: #F1F5F9; font-size: 11px; text-transform: uppercase; color: #475569; }
+          .num { text-align: right; }
+          .vazio { color: #94A3B8; font-style: italic; }
+          .footer { text-align: center; font-size: 11px; color: #94A3B8; margin-top: 24px; }
+        </style>
+      </head>
+      <body>
+        <h1>Relatório Financeiro</h1>
+        <p class="sub">Período: ${formatDateBR(periodo.inicio)} a ${formatDateBR(periodo.fim)}</p>
+        <p class="sub">Gerado em ${formatDateBR(geradoEm)} às ${hora}</p>
+
+        <section>
+          <h2>Resumo</h2>
+          <div class="indicadores">
+            ${indicador("Recebido no período", formatCurrency(periodo.total))}
+            ${indicador("Recebido hoje", formatCurrency(data.totalHoje))}
+            ${indicador("Recebido no mês", formatCurrency(data.totalMesAtual))}
+            ${indicador("Mês anterior", formatCurrency(data.totalMesAnterior))}
+            ${indicador(
+              "Crescimento",
+              `${sinal}${crescimento.percentual.toFixed(1).replace(".", ",")}%`,
+              crescimento.cresceu ? "positivo" : crescimento.percentual < 0 ? "negativo" : ""
+            )}
+            ${indicador("A receber", formatCurrency(data.totalAReceber))}
+          </div>
+        </section>
+
+        <section>
+          <h2>Recebimentos do período (${periodo.quantidade} pagamentos)</h2>
+          ${tabela(
+            ["Forma de pagamento", "Pagamentos", "Total"],
+            periodo.porMetodo.map((m) => [
+              escapeHtml(getPaymentMethodLabel(m.metodo)),
+              String(m.quantidade),
+              formatCurrency(m.total),
+            ]),
+            "Nenhum pagamento no período."
+          )}
+        </section>
+
+        <section>
+          <h2>Top clientes do mês</h2>
+          ${tabela(
+            ["Cliente", "Total pago"],
+            data.topClientes.map((c, i) => [`${i + 1}. ${escapeHtml(c.name)}`, formatCurrency(c.totalPago)]),
+            "Nenhum pagamento neste mês."
+          )}
+        </section>
+
+        <section>
+          <h2>Clientes por bairro</h2>
+          ${tabela(
+            ["Bairro", "Clientes"],
+            data.crediariosPorBairro.map((b) => [escapeHtml(b.bairro), String(b.quantidade)]),
+            "Nenhum cliente cadastrado."
+          )}
+        </section>
+
+        <section class="nova-pagina">
+          <h2>Inadimplência: ${formatCurrency(aging.total)} em ${aging.quantidade} cliente(s)</h2>
+          <p class="sub">Dias desde a data de cobrança</p>
+          ${tabela(["Faixa", "Clientes", "Saldo"], faixasLinhas(aging.porVencimento), "Nenhum cliente em atraso.")}
+        </section>
+
+        <section>
+          <p class="sub">Dias desde o último pagamento</p>
+          ${tabela(["Faixa", "Clientes", "Saldo"], faixasLinhas(aging.porUltimoPagamento), "Nenhum cliente em atraso.")}
+        </section>
+
+        <section>
+          <h2>Inadimplência por bairro e rua</h2>
+          ${tabela(["Bairro · Rua", "Clientes", "Saldo"], detalheInadimplencia, "Nenhum cliente em atraso.")}
+        </section>
+
+        <div class="footer">App Crediário - ${geradoEm.getFullYear()}</div>
+      </body>
+    </html>
+  `;
+}
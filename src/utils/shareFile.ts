@@ -0,0 +1,13 @@
+import { Share } from "react-native";
+
+/**
+ * 📤 Abre o compartilhamento do sistema para um arquivo local
+ * Permite enviar por WhatsApp, Drive, Email, etc.
+ */
+export async function shareFile(path: string, title: string, message: string): Promise<void> {
+  await Share.share({
+    title,
+    message,
+    url: `file://${path}`,
+  });
+}